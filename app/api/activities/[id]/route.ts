@@ -0,0 +1,38 @@
+// app/api/activities/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requireSession, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+import { cleanActivity, loadActivity } from '@/lib/api/activities';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Correct an activity. Body: `{ changes }` with any of kind, occurred_at,
+ * outcome and notes. Returns the saved activity.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const id = requireId(params.id);
+  const body = await readJson(request);
+  const changes = cleanActivity(body.changes, true);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadActivity(repo, session, id);
+  const data = await repo.activities.update(id, changes);
+  await recordAudit(repo, session, { table: 'client_activities', recordId: id, parentId: existing.client_id, action: 'update', before: existing, after: data });
+  return data;
+});
+
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadActivity(repo, session, id);
+  await repo.activities.remove(id);
+  await recordAudit(repo, session, { table: 'client_activities', recordId: id, parentId: existing.client_id, action: 'delete', before: existing });
+  return { id };
+});
@@ -0,0 +1,38 @@
+// app/api/admin/purge/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { requirePermission, requireSession, route } from '@/lib/api/server';
+import { FNA_ROW_TABLES } from '@/lib/models';
+import { recordAudit } from '@/lib/api/audit';
+import { purgeCutoff } from '@/lib/softDelete';
+
+const PURGE_TABLES = ['prospects', ...FNA_ROW_TABLES] as const;
+
+/**
+ * Permanently remove soft-deleted rows older than the retention period.
+ * Returns the number purged per table.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'records.purge', 'Only admins can purge deleted records.');
+
+  const repo = createRepository(createServiceSupabase());
+  const cutoff = purgeCutoff();
+  const purged: Record<string, number> = {};
+
+  for (const table of PURGE_TABLES) {
+    const rows = table === 'prospects' ? await repo.prospects.purgeDeleted(cutoff) : await repo.fna.purgeDeletedRows(table, cutoff);
+    purged[table] = rows.length;
+    for (const row of rows) {
+      await recordAudit(repo, session, {
+        table,
+        recordId: row.id,
+        parentId: 'fna_id' in row ? row.fna_id : null,
+        action: 'delete',
+        before: { ...row, purged: true },
+      });
+    }
+  }
+  return { purged };
+});
@@ -0,0 +1,21 @@
+// app/api/agents/me/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, readJson, requireSession, route } from '@/lib/api/server';
+import { isTimeZone } from '@/lib/timezone';
+
+/**
+ * Change the signed-in agent's own settings. Body: `{ time_zone }` (an IANA
+ * zone, or null for the agency zone). Returns the updated agent.
+ */
+export const PATCH = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  const body = await readJson(request);
+  if (!('time_zone' in body)) throw new ApiError(400, 'Nothing to update');
+  const timeZone = body.time_zone === '' ? null : body.time_zone;
+  if (timeZone !== null && !isTimeZone(timeZone)) throw new ApiError(400, 'Unknown time zone');
+
+  const repo = createRepository(createServiceSupabase());
+  return repo.agents.updateSettings(session.id, { time_zone: timeZone });
+});
@@ -0,0 +1,38 @@
+// app/api/audit/[table]/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, assertOwnerAccess, requireSession, route } from '@/lib/api/server';
+import { requireId, requireNumericId } from '@/lib/api/validate';
+import { AUDITED_TABLES, loadHistory, type AuditedTable } from '@/lib/api/audit';
+import { assertClientAccess, assertFnaAccess } from '@/lib/api/fna';
+import { ROUTE_ROLES, can } from '@/lib/roles';
+
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: { table: string; id: string } };
+
+/**
+ * History of one record for the History panels, newest first.
+ * Same access rules as editing the record.
+ */
+export const GET = route(async (request: NextRequest, { params }: Ctx) => {
+  if (!(AUDITED_TABLES as readonly string[]).includes(params.table)) throw new ApiError(404, 'No history for this table');
+  const table = params.table as AuditedTable;
+  const id = requireId(params.id);
+  if (!/^[A-Za-z0-9-]+$/.test(id)) throw new ApiError(400, 'Invalid id');
+
+  const session = await requireSession(request, table === 'fna_header' ? ROUTE_ROLES['/fna'] : undefined);
+  const repo = createRepository(createServiceSupabase());
+
+  if (table === 'client_registrations') await assertClientAccess(repo, session, id);
+  else if (table === 'fna_header') await assertFnaAccess(repo, session, id);
+  else {
+    const prospect = await repo.prospects.get(requireNumericId(id));
+    // Deleted prospects keep their history; only those who may delete can see it
+    if (prospect) assertOwnerAccess(session, prospect.owner_id);
+    else if (!can(session.role, 'prospects.delete')) throw new ApiError(404, 'Prospect not found');
+  }
+
+  return loadHistory(repo, table, id);
+});
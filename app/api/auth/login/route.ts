@@ -0,0 +1,34 @@
+// app/api/auth/login/route.ts
+import { NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/authProvider';
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/session';
+
+export async function POST(request: Request) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!email || !password) {
+    return NextResponse.json({ error: 'Please enter email and password' }, { status: 400 });
+  }
+
+  try {
+    const result = await getAuthProvider().signIn(email, password);
+    if (!result) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    const token = await createSessionToken(result.user);
+    const res = NextResponse.json({ user: result.user, supabaseSession: result.supabaseSession ?? null });
+    res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(new URL(request.url).protocol === 'https:'));
+    return res;
+  } catch (e: any) {
+    console.error('Sign-in failed:', e);
+    return NextResponse.json({ error: e?.message ?? 'Sign-in failed' }, { status: 500 });
+  }
+}
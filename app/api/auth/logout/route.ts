@@ -0,0 +1,9 @@
+// app/api/auth/logout/route.ts
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/session';
+
+export async function POST(request: Request) {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(new URL(request.url).protocol === 'https:', 0));
+  return res;
+}
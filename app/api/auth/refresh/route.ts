@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createRepository } from '@/lib/repo';
+import { DEFAULT_ROLE, isRole } from '@/lib/roles';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { SESSION_COOKIE, renewSession, secondsUntil, sessionCookieOptions, verifySessionToken } from '@/lib/session';
+
+/**
+ * Slide the session: re-issue the cookie with a fresh idle window.
+ * Called by the AuthProvider while the user is active.
+ *
+ * The role is re-read from `agents` on every renewal, so a demotion takes effect
+ * on the next refresh and a removed agent is signed out.
+ */
+export async function POST(request: NextRequest) {
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const stored = session ? await createRepository(createServiceSupabase()).agents.role(session.id) : null;
+  // Same fallback as sign-in (lib/authProvider.ts) for an unrecognised role text
+  const renewed = session && stored !== null ? await renewSession(session, isRole(stored) ? stored : DEFAULT_ROLE) : null;
+  const secure = request.nextUrl.protocol === 'https:';
+
+  if (!renewed) {
+    const res = NextResponse.json({ session: null }, { status: 401 });
+    res.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(secure, 0));
+    return res;
+  }
+
+  const res = NextResponse.json({ session: renewed.session });
+  res.cookies.set(SESSION_COOKIE, renewed.token, sessionCookieOptions(secure, secondsUntil(renewed.session.exp)));
+  return res;
+}
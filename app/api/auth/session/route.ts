@@ -0,0 +1,13 @@
+// app/api/auth/session/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    return NextResponse.json({ session: null }, { status: 401 });
+  }
+  return NextResponse.json({ session });
+}
@@ -0,0 +1,35 @@
+// app/api/client-views/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, readJson, requireSession, route } from '@/lib/api/server';
+import { cleanView, loadOwnView } from '@/lib/api/clientViews';
+import { requireId } from '@/lib/api/validate';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Rename, re-save or (un)pin one of the signed-in agent's views.
+ * Body: `{ view }` with the changed fields.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const id = requireId(params.id);
+  const body = await readJson(request);
+  const changes = cleanView(body.view, false);
+  if (!Object.keys(changes).length) throw new ApiError(400, 'Nothing to update');
+
+  const repo = createRepository(createServiceSupabase());
+  await loadOwnView(repo, session, id);
+  return repo.clientViews.update(id, changes);
+});
+
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  await loadOwnView(repo, session, id);
+  await repo.clientViews.remove(id);
+  return { id };
+});
@@ -0,0 +1,19 @@
+// app/api/client-views/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requireSession, route } from '@/lib/api/server';
+import { cleanView } from '@/lib/api/clientViews';
+
+/**
+ * Save the signed-in agent's current Clients List filters as a named view.
+ * Body: `{ view }` with name, filters and optionally pinned. Returns the view.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  const body = await readJson(request);
+  const { name, filters, pinned } = cleanView(body.view, true);
+
+  const repo = createRepository(createServiceSupabase());
+  return repo.clientViews.create({ agent_id: session.id, name: name!, filters, pinned });
+});
@@ -0,0 +1,28 @@
+// app/api/clients/[id]/activities/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requireSession, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+import { assertClientAccess } from '@/lib/api/fna';
+import { cleanActivity } from '@/lib/api/activities';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Add an activity to a client's timeline. Body: `{ activity }` with kind,
+ * occurred_at, outcome and notes. Returns the saved activity.
+ */
+export const POST = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const clientId = requireId(params.id, 'client');
+  const body = await readJson(request);
+  const activity = cleanActivity(body.activity);
+
+  const repo = createRepository(createServiceSupabase());
+  await assertClientAccess(repo, session, clientId);
+  const data = await repo.activities.create({ ...activity, client_id: clientId, created_by: session.id });
+  await recordAudit(repo, session, { table: 'client_activities', recordId: data.id, parentId: clientId, action: 'insert', after: data });
+  return data;
+});
@@ -0,0 +1,50 @@
+// app/api/clients/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { assertDates, cleanChanges } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+import { assertClientAccess } from '@/lib/api/fna';
+import { activitiesFromClientChange } from '@/lib/activities';
+import { CLIENT_STATUS_FIELDS } from '@/lib/roles';
+import { CLIENT_COLUMNS, type ClientRegistrationUpdate } from '@/lib/models';
+
+// Timestamps the dashboard edits (sent as ISO strings)
+const CLIENT_DATE_KEYS = ['BOP_Date', 'CalledOn', 'Followup_Date', 'FollowUp_Date', 'Issued', 'FNA_Date', 'date_of_birth'];
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Update some columns of one client registration. Body: `{ changes }`.
+ * New call / BOP / follow-up / FNA / issued dates and statuses are also logged
+ * to the client's activity timeline. Returns the saved row.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const body = await readJson(request);
+  const changes = cleanChanges(body.changes, { allowed: CLIENT_COLUMNS, forbidden: ['id', 'created_at'] });
+  if (!Object.keys(changes).length) throw new ApiError(400, 'Nothing to update');
+  assertDates(changes, CLIENT_DATE_KEYS);
+
+  if (Object.keys(changes).some((k) => CLIENT_STATUS_FIELDS.includes(k))) {
+    requirePermission(session, 'clients.edit_status', 'Only admins can change status fields.');
+  }
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await assertClientAccess(repo, session, params.id);
+
+  if ('owner_id' in changes && changes.owner_id !== existing.owner_id) {
+    requirePermission(session, 'records.reassign', 'Only field trainers and admins can reassign clients.');
+  }
+
+  const data = await repo.clients.update(params.id, changes as ClientRegistrationUpdate);
+  await recordAudit(repo, session, { table: 'client_registrations', recordId: params.id, action: 'update', before: existing, after: data });
+  try {
+    await repo.activities.log(activitiesFromClientChange(existing, data), session.id);
+  } catch (e) {
+    // Like the audit entry: the save itself succeeded
+    console.error(`Activity log failed for client ${params.id}:`, e);
+  }
+  return data;
+});
@@ -0,0 +1,45 @@
+// app/api/cycles/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { assertCycleDates, cleanCycle, loadCycle } from '@/lib/api/cycles';
+import { requireId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Change a cycle's dates, name or targets. Body: `{ cycle }` with the changed fields.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'cycles.manage', 'Only admins can change cycles.');
+  const id = requireId(params.id);
+  const body = await readJson(request);
+  const changes = cleanCycle(body.cycle, false);
+  if (!Object.keys(changes).length) throw new ApiError(400, 'Nothing to update');
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadCycle(repo, id);
+  assertCycleDates({ ...existing, ...changes });
+
+  const data = await repo.cycles.update(id, changes);
+  await recordAudit(repo, session, { table: 'production_cycles', recordId: id, action: 'update', before: existing, after: data });
+  return data;
+});
+
+/**
+ * Remove a cycle. Only the definition goes; client records are untouched.
+ */
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'cycles.manage', 'Only admins can remove cycles.');
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadCycle(repo, id);
+  await repo.cycles.remove(id);
+  await recordAudit(repo, session, { table: 'production_cycles', recordId: id, action: 'delete', before: existing });
+  return { id };
+});
@@ -0,0 +1,24 @@
+// app/api/cycles/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { assertCycleDates, cleanCycle } from '@/lib/api/cycles';
+import { recordAudit } from '@/lib/api/audit';
+import type { ProductionCycleInsert } from '@/lib/models';
+
+/**
+ * Define a production cycle. Body: `{ cycle }`. Returns the saved row.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'cycles.manage', 'Only admins can define cycles.');
+  const body = await readJson(request);
+  const cycle = { ...cleanCycle(body.cycle, true), created_by: session.id } as ProductionCycleInsert;
+  assertCycleDates(cycle);
+
+  const repo = createRepository(createServiceSupabase());
+  const data = await repo.cycles.create(cycle);
+  await recordAudit(repo, session, { table: 'production_cycles', recordId: data.id, action: 'insert', after: data });
+  return data;
+});
@@ -0,0 +1,23 @@
+// app/api/fna/headers/[id]/deleted/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { assertFnaAccess, requireFnaSession } from '@/lib/api/fna';
+
+export const dynamic = 'force-dynamic';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Soft-deleted tab rows of one FNA, newest deletion first: `[{ table, row }]`
+ */
+export const GET = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const fnaId = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  await assertFnaAccess(repo, session, fnaId);
+  return repo.fna.deletedRows(fnaId);
+});
@@ -0,0 +1,27 @@
+// app/api/fna/headers/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { assertFnaAccess, cleanFnaHeader, requireFnaSession } from '@/lib/api/fna';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Save FNA header fields. Body: `{ changes }`. Returns the saved header.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const id = requireId(params.id);
+  const body = await readJson(request);
+  const changes = cleanFnaHeader(body.changes);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await assertFnaAccess(repo, session, id);
+
+  const data = await repo.fna.updateHeader(id, changes);
+  await recordAudit(repo, session, { table: 'fna_header', recordId: id, action: 'update', before: existing, after: data });
+  return data;
+});
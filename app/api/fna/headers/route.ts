@@ -0,0 +1,28 @@
+// app/api/fna/headers/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { assertClientAccess, requireFnaSession } from '@/lib/api/fna';
+import { recordAudit } from '@/lib/api/audit';
+
+/**
+ * Latest FNA header for a client, created if the client has none.
+ * Body: `{ client_id }`.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireFnaSession(request);
+  const body = await readJson(request);
+  const clientId = requireId(body.client_id, 'client_id');
+
+  const repo = createRepository(createServiceSupabase());
+  await assertClientAccess(repo, session, clientId);
+
+  const existing = await repo.fna.latestHeader(clientId);
+  if (existing) return existing;
+
+  const data = await repo.fna.createHeader(clientId);
+  await recordAudit(repo, session, { table: 'fna_header', recordId: data.id, action: 'insert', after: data });
+  return data;
+});
@@ -0,0 +1,27 @@
+// app/api/fna/rows/[table]/[id]/restore/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { loadFnaRow, requireFnaSession, requireRowTable } from '@/lib/api/fna';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { table: string; id: string } };
+
+/**
+ * Bring a soft-deleted FNA row back. Returns the restored row.
+ */
+export const POST = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const table = requireRowTable(params.table);
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadFnaRow(repo, session, table, id, true);
+  if (!existing.deleted_at) throw new ApiError(400, 'This row is not deleted.');
+
+  const data = await repo.fna.restoreRow(table, id);
+  await recordAudit(repo, session, { table, recordId: id, parentId: existing.fna_id, action: 'update', before: existing, after: data });
+  return data;
+});
@@ -0,0 +1,44 @@
+// app/api/fna/rows/[table]/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { cleanFnaRow, loadFnaRow, requireFnaSession, requireRowTable } from '@/lib/api/fna';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { table: string; id: string } };
+
+/**
+ * Update a row of an FNA tab table. Body: `{ row }`. Returns the saved row.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const table = requireRowTable(params.table);
+  const id = requireId(params.id);
+  const body = await readJson(request);
+  const row = cleanFnaRow(table, body.row);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadFnaRow(repo, session, table, id);
+
+  const data = await repo.fna.updateRow(table, id, row);
+  await recordAudit(repo, session, { table, recordId: id, parentId: existing.fna_id, action: 'update', before: existing, after: data });
+  return data;
+});
+
+/**
+ * Soft delete: the row shows under the FNA's "Recently deleted" until restored or purged.
+ */
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const table = requireRowTable(params.table);
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadFnaRow(repo, session, table, id);
+
+  await repo.fna.softDeleteRow(table, id, session.id);
+  await recordAudit(repo, session, { table, recordId: id, parentId: existing.fna_id, action: 'delete', before: existing });
+  return { id };
+});
@@ -0,0 +1,28 @@
+// app/api/fna/rows/[table]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+import { assertFnaAccess, cleanFnaRow, requireFnaSession, requireRowTable } from '@/lib/api/fna';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { table: string } };
+
+/**
+ * Add a row to one of the FNA tab tables. Body: `{ fna_id, row }`.
+ */
+export const POST = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireFnaSession(request);
+  const table = requireRowTable(params.table);
+  const body = await readJson(request);
+  const fnaId = requireId(body.fna_id, 'fna_id');
+  const row = cleanFnaRow(table, body.row);
+
+  const repo = createRepository(createServiceSupabase());
+  await assertFnaAccess(repo, session, fnaId);
+
+  const data = await repo.fna.createRow(table, { ...row, fna_id: fnaId });
+  await recordAudit(repo, session, { table, recordId: data.id, parentId: fnaId, action: 'insert', after: data });
+  return data;
+});
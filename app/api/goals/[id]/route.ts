@@ -0,0 +1,23 @@
+// app/api/goals/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { requirePermission, requireSession, route } from '@/lib/api/server';
+import { assertGoalAccess, loadGoal } from '@/lib/api/goals';
+import { requireId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { id: string } };
+
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'goals.manage', 'Only field trainers and admins can remove goals.');
+  const id = requireId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadGoal(repo, id);
+  await assertGoalAccess(repo, session, existing.agent_id);
+  await repo.goals.remove(id);
+  await recordAudit(repo, session, { table: 'goals', recordId: id, action: 'delete', before: existing });
+  return { id };
+});
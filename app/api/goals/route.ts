@@ -0,0 +1,32 @@
+// app/api/goals/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { assertGoalAccess, cleanGoal } from '@/lib/api/goals';
+import { recordAudit } from '@/lib/api/audit';
+
+/**
+ * Set a goal. Body: `{ goal }` with agent_id, applies_to, metric, period and
+ * target; an existing goal for the same agent/team, metric and period gets the
+ * new target. Returns the saved goal.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'goals.manage', 'Only field trainers and admins can set goals.');
+  const body = await readJson(request);
+  const goal = cleanGoal(body.goal);
+
+  const repo = createRepository(createServiceSupabase());
+  await assertGoalAccess(repo, session, goal.agent_id);
+  const existing = await repo.goals.find(goal);
+  const data = await repo.goals.save({ ...goal, created_by: existing?.created_by ?? session.id });
+  await recordAudit(
+    repo,
+    session,
+    existing
+      ? { table: 'goals', recordId: data.id, action: 'update', before: existing, after: data }
+      : { table: 'goals', recordId: data.id, action: 'insert', after: data }
+  );
+  return data;
+});
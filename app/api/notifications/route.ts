@@ -0,0 +1,20 @@
+// app/api/notifications/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, readJson, requireSession, route } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+
+/**
+ * Mark the signed-in agent's notifications read. Body: `{ ids }`, or `{}` for
+ * all of them. Returns how many were marked.
+ */
+export const PATCH = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  const body = await readJson(request);
+  if (body.ids !== undefined && !Array.isArray(body.ids)) throw new ApiError(400, 'Expected a list of ids');
+  const ids = body.ids?.map((id: unknown) => requireId(id, 'notification'));
+
+  const repo = createRepository(createServiceSupabase());
+  return { marked: await repo.notifications.markRead(session.id, ids) };
+});
@@ -0,0 +1,27 @@
+// app/api/prospects/[id]/restore/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, requirePermission, requireSession, route } from '@/lib/api/server';
+import { loadProspect } from '@/lib/api/prospects';
+import { requireNumericId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Bring a soft-deleted prospect back. Returns the restored row.
+ */
+export const POST = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'prospects.delete', 'Only admins can restore prospects.');
+  const id = requireNumericId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadProspect(repo, id, true);
+  if (!existing.deleted_at) throw new ApiError(400, 'This prospect is not deleted.');
+
+  const data = await repo.prospects.restore(id);
+  await recordAudit(repo, session, { table: 'prospects', recordId: id, action: 'update', before: existing, after: data });
+  return data;
+});
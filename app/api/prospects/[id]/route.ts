@@ -0,0 +1,47 @@
+// app/api/prospects/[id]/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { ApiError, assertOwnerAccess, readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { cleanProspect, loadProspect } from '@/lib/api/prospects';
+import { requireNumericId } from '@/lib/api/validate';
+import { recordAudit } from '@/lib/api/audit';
+
+type Ctx = { params: { id: string } };
+
+/**
+ * Update a prospect. Body: `{ prospect }` with the changed fields. Returns the saved row.
+ */
+export const PATCH = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  const id = requireNumericId(params.id);
+  const body = await readJson(request);
+  const changes = cleanProspect(body.prospect, false);
+  if (!Object.keys(changes).length) throw new ApiError(400, 'Nothing to update');
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadProspect(repo, id);
+  assertOwnerAccess(session, existing.owner_id);
+  if ('owner_id' in changes && changes.owner_id !== existing.owner_id) {
+    requirePermission(session, 'records.reassign', 'Only field trainers and admins can reassign prospects.');
+  }
+
+  const data = await repo.prospects.update(id, changes);
+  await recordAudit(repo, session, { table: 'prospects', recordId: id, action: 'update', before: existing, after: data });
+  return data;
+});
+
+/**
+ * Soft delete: the prospect moves to "Recently deleted" until restored or purged.
+ */
+export const DELETE = route(async (request: NextRequest, { params }: Ctx) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'prospects.delete', 'Only admins can delete prospects.');
+  const id = requireNumericId(params.id);
+
+  const repo = createRepository(createServiceSupabase());
+  const existing = await loadProspect(repo, id);
+  await repo.prospects.softDelete(id, session.id);
+  await recordAudit(repo, session, { table: 'prospects', recordId: id, action: 'delete', before: existing });
+  return { id };
+});
@@ -0,0 +1,18 @@
+// app/api/prospects/deleted/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { requirePermission, requireSession, route } from '@/lib/api/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * "Recently deleted" prospects, newest deletion first
+ */
+export const GET = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  requirePermission(session, 'prospects.delete', 'Only admins can see deleted prospects.');
+
+  const repo = createRepository(createServiceSupabase());
+  return repo.prospects.listDeleted();
+});
@@ -0,0 +1,25 @@
+// app/api/prospects/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requirePermission, requireSession, route } from '@/lib/api/server';
+import { cleanProspect, withOwner } from '@/lib/api/prospects';
+import { recordAudit } from '@/lib/api/audit';
+
+/**
+ * Create a prospect. Body: `{ prospect }`. Returns the saved row.
+ */
+export const POST = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  const body = await readJson(request);
+  const prospect = withOwner(cleanProspect(body.prospect, true), session);
+
+  if (prospect.owner_id !== session.id) {
+    requirePermission(session, 'records.reassign', 'Only field trainers and admins can add prospects for other agents.');
+  }
+
+  const repo = createRepository(createServiceSupabase());
+  const data = await repo.prospects.create(prospect);
+  await recordAudit(repo, session, { table: 'prospects', recordId: data.id, action: 'insert', after: data });
+  return data;
+});
@@ -0,0 +1,34 @@
+// app/api/reminders/run/route.ts
+import { timingSafeEqual } from 'node:crypto';
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { requirePermission, requireSession, route } from '@/lib/api/server';
+import { runReminders } from '@/lib/api/reminders';
+
+// A scheduler calls this with `Authorization: Bearer <CRON_SECRET>`
+function isScheduler(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') ?? '';
+  if (!secret || !header.startsWith('Bearer ')) return false;
+  const given = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Send the meeting reminders that are due. Meant to be called every few
+ * minutes by a scheduler (cron, Vercel Cron, a GitHub Action) with the
+ * CRON_SECRET bearer token; admins can also run it while signed in.
+ * Returns `{ sent, failed }`.
+ */
+const run = route(async (request: NextRequest) => {
+  if (!isScheduler(request)) {
+    const session = await requireSession(request);
+    requirePermission(session, 'reminders.run', 'Only admins can send reminders.');
+  }
+  return runReminders(createRepository(createServiceSupabase()));
+});
+
+export const GET = run;
+export const POST = run;
@@ -0,0 +1,26 @@
+// app/api/reminders/settings/route.ts
+import type { NextRequest } from 'next/server';
+import { createServiceSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { readJson, requireSession, route } from '@/lib/api/server';
+import { assertPublicWebhook, cleanReminderSettings } from '@/lib/api/reminders';
+import { toReminderSettings } from '@/lib/reminders';
+
+/**
+ * Save the signed-in agent's reminder settings. Body: `{ lead_minutes,
+ * channels, webhook_url }`. Returns the saved settings.
+ */
+export const PUT = route(async (request: NextRequest) => {
+  const session = await requireSession(request);
+  const settings = cleanReminderSettings(await readJson(request));
+  await assertPublicWebhook(settings);
+
+  const repo = createRepository(createServiceSupabase());
+  const row = await repo.reminders.saveSettings({
+    agent_id: session.id,
+    lead_minutes: settings.leadMinutes,
+    channels: settings.channels,
+    webhook_url: settings.webhookUrl,
+  });
+  return toReminderSettings(row);
+});
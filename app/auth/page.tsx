@@ -2,19 +2,20 @@
 'use client';
 
 import { useState } from 'react';
+import { safeNext, signIn as signInWithCredentials } from '@/lib/auth';
+import { getSupabase } from '@/lib/supabase/client';
 
 const DESTINATIONS = [
   { value: 'dashboard', label: 'Dashboard', path: '/dashboard' },
   { value: 'prospect', label: 'Prospect List', path: '/prospect' },
  ];
 
-const AUTH_COOKIE = 'canfs_auth';
-
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [destination, setDestination] = useState<string>('dashboard');
   const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
   const signIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,13 +27,24 @@ export default function LoginPage() {
       return;
     }
 
-    // Set auth cookie with secure flag for HTTPS
-    const secure = window.location.protocol === 'https:' ? '; secure' : '';
-    document.cookie = `${AUTH_COOKIE}=true; path=/; max-age=86400; samesite=lax${secure}`;
+    // Verify credentials on the server; it sets the signed HttpOnly session cookie
+    setSubmitting(true);
+    try {
+      const { supabaseSession } = await signInWithCredentials(email, password);
+      if (supabaseSession) {
+        // Let browser-side Supabase queries run as the signed-in user
+        await getSupabase().auth.setSession(supabaseSession);
+      }
+    } catch (err: any) {
+      setError(err?.message ?? 'Sign-in failed');
+      setSubmitting(false);
+      return;
+    }
 
-    // Get the selected destination path
+    // Go back to the page that sent us here, else the selected destination
+    const next = safeNext(new URLSearchParams(window.location.search).get('next'));
     const dest = DESTINATIONS.find((d) => d.value === destination);
-    const redirectTo = dest?.path ?? '/dashboard';
+    const redirectTo = next ?? dest?.path ?? '/dashboard';
 
     // Redirect to selected destination
     window.location.href = redirectTo;
@@ -104,9 +116,10 @@ export default function LoginPage() {
 
           <button
             type="submit"
-            className="mt-2 w-full rounded-lg bg-green-600 hover:bg-green-700 text-white font-semibold py-2.5 text-sm"
+            disabled={submitting}
+            className="mt-2 w-full rounded-lg bg-green-600 hover:bg-green-700 text-white font-semibold py-2.5 text-sm disabled:opacity-60"
           >
-            Sign In📲 → {DESTINATIONS.find((d) => d.value === destination)?.label ?? 'Dashboard'}
+            {submitting ? 'Signing in…' : 'Sign In📲'} → {DESTINATIONS.find((d) => d.value === destination)?.label ?? 'Dashboard'}
           </button>
         </form>
 
@@ -0,0 +1,355 @@
+'use client';
+
+// app/clients/[id]/page.tsx
+/**
+ * One client: profile header, editable sections by topic (lib/clientFields.ts),
+ * the FNA at a glance and the activity timeline. Saves go through
+ * /api/clients/[id] like the dashboard grid, with the same status-field rule
+ * and double-booking check. Which clients an agent may open is decided by the
+ * database: row-level security hides other agents' clients (and their FNA)
+ * from trainees, so the read below comes back empty, and the API checks the
+ * owner again on save.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useRequireAuth } from '@/components/AuthProvider';
+import { Button, Card, Pill } from '@/components/ui';
+import { ClientTimeline } from '@/components/ClientTimeline';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { api } from '@/lib/api/client';
+import { getRepository, type FnaRowsByTable } from '@/lib/repo';
+import {
+  CLIENT_SECTIONS,
+  fromDateInput,
+  labelFor,
+  optionsForKey,
+  toDateInput,
+  type ClientField,
+  type ClientSection,
+} from '@/lib/clientFields';
+import { CLIENT_STATUS_FIELDS, can } from '@/lib/roles';
+import { confirmMeetingTimes } from '@/lib/scheduling';
+import { agentLabel, type Agent } from '@/lib/team';
+import { agentTimeZone, formatInZone, fromZonedInput, toZonedInput } from '@/lib/timezone';
+import { cellOf, type ClientRegistration, type ClientRegistrationUpdate, type FnaHeader } from '@/lib/models';
+import type { SessionPayload } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+type Drafts = Record<string, string>;
+
+const money = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const sum = (values: (number | null)[]) => values.reduce<number>((total, v) => total + (v ?? 0), 0);
+
+const asList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String).filter(Boolean) : typeof value === 'string' && value.trim() ? value.split(',').map((s) => s.trim()).filter(Boolean) : [];
+
+/** A column as its input's string value */
+function inputValue(client: ClientRegistration, field: ClientField, timeZone: string): string {
+  const value = cellOf(client, field.key);
+  if (field.input === 'datetime') return toZonedInput(value, timeZone);
+  if (field.input === 'date') return toDateInput(value);
+  if (field.input === 'list') return asList(value).join(', ');
+  return value == null ? '' : String(value);
+}
+
+/** An input's string value as what is stored */
+function storedValue(field: ClientField, input: string, timeZone: string): string | string[] | null {
+  if (field.input === 'datetime') return fromZonedInput(input, timeZone);
+  if (field.input === 'date') return fromDateInput(input);
+  if (field.input === 'list') {
+    const items = asList(input);
+    return items.length ? items : null;
+  }
+  return input.trim() || null;
+}
+
+function displayValue(client: ClientRegistration, field: ClientField, timeZone: string): string {
+  const value = cellOf(client, field.key);
+  if (value == null || value === '') return '—';
+  if (field.input === 'datetime') return formatInZone(value, timeZone, { dateStyle: 'medium', timeStyle: 'short' });
+  if (field.input === 'date') return toDateInput(value) || '—';
+  if (field.input === 'list') return asList(value).join(', ') || '—';
+  return String(value);
+}
+
+function FieldInput({ field, value, disabled, onChange }: { field: ClientField; value: string; disabled: boolean; onChange: (v: string) => void }) {
+  const cls = 'w-full rounded border border-slate-300 px-2 py-1 text-sm disabled:bg-slate-100 disabled:text-slate-500';
+  if (field.input === 'select') {
+    const options = optionsForKey(field.key) ?? [];
+    return (
+      <select className={cls} value={value} disabled={disabled} onChange={(e) => onChange(e.target.value)}>
+        {/* keep a stored value that is no longer on the list */}
+        {[...options, ...(value && !options.includes(value) ? [value] : [])].map((o) => (
+          <option key={o} value={o}>{o || '—'}</option>
+        ))}
+      </select>
+    );
+  }
+  if (field.input === 'textarea') {
+    return <textarea className={cls} rows={3} value={value} disabled={disabled} onChange={(e) => onChange(e.target.value)} />;
+  }
+  const type = field.input === 'datetime' ? 'datetime-local' : field.input === 'list' ? 'text' : field.input;
+  return (
+    <input
+      className={cls}
+      type={type}
+      value={value}
+      disabled={disabled}
+      placeholder={field.input === 'list' ? 'Comma-separated' : undefined}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function FnaSummary({ clientId, fna, timeZone }: { clientId: string; fna: { header: FnaHeader; rows: FnaRowsByTable } | null; timeZone: string }) {
+  const fnaLink = `/fna?client=${encodeURIComponent(clientId)}&from=fna_header`;
+  if (!fna) {
+    return (
+      <div className="text-sm text-slate-700">
+        No FNA yet. <Link href={fnaLink} className="font-semibold text-teal-700 hover:underline">Start one →</Link>
+      </div>
+    );
+  }
+  const { header, rows } = fna;
+  const next = header.next_appointment_date
+    ? `${formatInZone(header.next_appointment_date, 'UTC', { dateStyle: 'medium' })}${header.next_appointment_time ? ` at ${header.next_appointment_time.slice(0, 5)}` : ''}`
+    : '—';
+  const figure = (n: number | null) => (n == null ? '—' : money.format(n));
+  const items: [string, string][] = [
+    ['Next appointment', next],
+    ['Goals', header.goals_text || '—'],
+    ['Children', String(rows.fna_children.length)],
+    ['Properties', String(rows.fna_properties.length)],
+    ['Assets', `${rows.fna_assets.length} • ${money.format(sum(rows.fna_assets.map((a) => a.balance)))}`],
+    ['Liabilities', `${rows.fna_liabilities.length} • ${money.format(sum(rows.fna_liabilities.map((l) => l.balance)))}`],
+    ['Policies', `${rows.fna_insurance.length} • ${money.format(sum(rows.fna_insurance.map((p) => p.death_benefit)))} cover`],
+    ['Income', money.format(sum(rows.fna_income.map((i) => i.amount)))],
+    ['Life insurance needed', figure(header.li_total_needed)],
+    ['Insurance gap', figure(header.li_insurance_gap)],
+    ['Retirement need (monthly)', figure(header.retirement_monthly_need)],
+    ['Monthly commitment', figure(header.monthly_commitment)],
+  ];
+  return (
+    <div className="space-y-3 text-sm text-black">
+      <dl className="grid grid-cols-1 gap-x-4 gap-y-1 sm:grid-cols-2">
+        {items.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2 border-b border-slate-100 py-1">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>Updated {formatInZone(header.updated_at, timeZone, { dateStyle: 'medium', timeStyle: 'short' })}</span>
+        <Link href={fnaLink} className="font-semibold text-teal-700 hover:underline">Open FNA →</Link>
+      </div>
+    </div>
+  );
+}
+
+export default function ClientPage() {
+  const auth = useRequireAuth();
+  const params = useParams<{ id: string }>();
+  const clientId = params?.id ?? '';
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [client, setClient] = useState<ClientRegistration | null>(null);
+  const [fna, setFna] = useState<{ header: FnaHeader; rows: FnaRowsByTable } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<string | null>(null); // section id
+  const [drafts, setDrafts] = useState<Drafts>({});
+  const [saving, setSaving] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0); // bump to reload History and the timeline after a save
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+  const timeZone = agentTimeZone(session ? agentsById.get(session.id) : null);
+
+  useEffect(() => {
+    // useRequireAuth handles the login redirect
+    const current = auth.session;
+    if (!current || !clientId) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const repo = getRepository();
+        const [list, row] = await Promise.all([repo.agents.list(), repo.clients.get(clientId)]);
+        if (cancelled) return;
+        setSession(current);
+        setAgents(list);
+        setClient(row);
+        if (!row) setError('Client not found, or it belongs to another agent.');
+        if (row) {
+          const loaded = await repo.fna.loadForClient(clientId);
+          if (!cancelled) setFna(loaded);
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ?? 'Failed to load the client.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [auth.session?.id, clientId]);
+
+  const canEditStatus = can(session?.role, 'clients.edit_status');
+  const locked = (field: ClientField) => CLIENT_STATUS_FIELDS.includes(field.key) && !canEditStatus;
+
+  const startEdit = (section: ClientSection) => {
+    if (!client) return;
+    setNotice(null);
+    setError(null);
+    setEditing(section.id);
+    setDrafts(Object.fromEntries(section.fields.map((f) => [f.key, inputValue(client, f, timeZone)])));
+  };
+
+  // The owner's calendar is checked for BOP / follow-up clashes, as on the dashboard
+  const confirmClientMeetingTimes = (row: ClientRegistration, changes: ClientRegistrationUpdate) =>
+    confirmMeetingTimes(getRepository(), row, changes, {
+      ownerZone: agentTimeZone(row.owner_id ? agentsById.get(row.owner_id) : null),
+      viewerZone: timeZone,
+    });
+
+  const saveSection = async (section: ClientSection) => {
+    if (!client) return;
+    const changes: Record<string, string | string[] | null> = {};
+    for (const field of section.fields) {
+      if (locked(field) || drafts[field.key] === inputValue(client, field, timeZone)) continue;
+      changes[field.key] = storedValue(field, drafts[field.key] ?? '', timeZone);
+    }
+    if (!Object.keys(changes).length) {
+      setEditing(null);
+      return;
+    }
+    if (('first_name' in changes && !changes.first_name) || ('last_name' in changes && !changes.last_name)) {
+      setError('First and last name are required.');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      if (!(await confirmClientMeetingTimes(client, changes as ClientRegistrationUpdate))) return;
+      const saved = await api.clients.update(String(client.id), changes as ClientRegistrationUpdate);
+      setClient(saved);
+      setEditing(null);
+      setHistoryKey((k) => k + 1);
+      setNotice(`${section.title} saved.`);
+    } catch (e: any) {
+      setError(e?.message ?? 'Save failed.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const name = client ? `${client.first_name ?? ''} ${client.last_name ?? ''}`.trim() : '';
+  const owner = client?.owner_id ? agentsById.get(client.owner_id) : undefined;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="max-w-[1400px] mx-auto p-6 space-y-6">
+        {/* Profile header */}
+        <div className="rounded-2xl border border-slate-200 bg-white px-6 py-5 shadow-sm">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <Link href="/dashboard" className="text-xs font-semibold text-teal-700 hover:underline">← Dashboard</Link>
+              <div className="mt-1 text-2xl font-bold text-[#1E5AA8]">{name || (loading ? 'Loading…' : 'Client')}</div>
+              {client && (
+                <div className="mt-1 text-sm text-slate-700">
+                  {[client.phone, client.email, [client.city, client.state].filter(Boolean).join(', ')].filter(Boolean).join(' • ') || 'No contact details'}
+                </div>
+              )}
+              {client && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {client.client_status && <Pill>{client.client_status}</Pill>}
+                  {client.status && <Pill>{client.status}</Pill>}
+                  <Pill>Agent: {owner ? agentLabel(owner) : '—'}</Pill>
+                  <Pill>Registered {formatInZone(client.created_at, timeZone, { dateStyle: 'medium' })}</Pill>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {client && session && (
+                <Link
+                  href={`/fna?client=${encodeURIComponent(String(client.id))}&from=fna_header`}
+                  className="rounded-xl border border-slate-200 bg-white px-4 py-2 font-semibold text-slate-700 hover:bg-slate-100"
+                >
+                  FNA
+                </Link>
+              )}
+              <Button variant="secondary" onClick={() => setHistoryOpen((v) => !v)} disabled={!client}>
+                {historyOpen ? 'Hide History' : 'History'}
+              </Button>
+            </div>
+          </div>
+          {error && <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+          {notice && <div className="mt-4 rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">{notice}</div>}
+        </div>
+
+        {historyOpen && client && (
+          <HistoryPanel table="client_registrations" recordId={client.id} refreshKey={historyKey} title={`History — ${name || 'Client'}`} />
+        )}
+
+        {client && (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <div className="space-y-6 lg:col-span-2">
+              {CLIENT_SECTIONS.map((section) => {
+                const isEditing = editing === section.id;
+                return (
+                  <Card key={section.id} title={section.title}>
+                    <div className="grid grid-cols-1 gap-x-6 gap-y-3 text-sm text-black md:grid-cols-2">
+                      {section.fields.map((field) => (
+                        <label key={field.key} className={field.input === 'textarea' ? 'block md:col-span-2' : 'block'}>
+                          <span className="mb-1 block text-xs font-semibold text-slate-500">{labelFor(field.key)}</span>
+                          {isEditing ? (
+                            <FieldInput
+                              field={field}
+                              value={drafts[field.key] ?? ''}
+                              disabled={saving || locked(field)}
+                              onChange={(v) => setDrafts((d) => ({ ...d, [field.key]: v }))}
+                            />
+                          ) : (
+                            <span className="block whitespace-pre-wrap">{displayValue(client, field, timeZone)}</span>
+                          )}
+                        </label>
+                      ))}
+                    </div>
+                    <div className="mt-4 flex gap-2">
+                      {isEditing ? (
+                        <>
+                          <Button onClick={() => saveSection(section)} disabled={saving}>{saving ? 'Saving…' : 'Save'}</Button>
+                          <Button variant="secondary" onClick={() => setEditing(null)} disabled={saving}>Cancel</Button>
+                          {section.fields.some(locked) && <span className="self-center text-xs text-slate-500">Only admins can change status fields.</span>}
+                        </>
+                      ) : (
+                        <Button variant="secondary" onClick={() => startEdit(section)} disabled={editing !== null}>Edit</Button>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+            <div className="space-y-6">
+              {session && (
+                <Card title="FNA">
+                  <FnaSummary clientId={String(client.id)} fna={fna} timeZone={timeZone} />
+                </Card>
+              )}
+              <Card title="Activity">
+                <ClientTimeline clientId={String(client.id)} timeZone={timeZone} agents={agents} refreshKey={historyKey} />
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
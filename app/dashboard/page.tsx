@@ -15,45 +15,61 @@
  * No backend changes (schema, procedures, routes, auth, Supabase policies). 
  */ 
 
-import React, { useEffect, useMemo, useRef, useState } from "react"; 
-import { useRouter } from "next/navigation";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link"; 
 import * as XLSX from "xlsx"; 
-import { 
-  addDays, 
-  addMonths, 
-  format, 
-  isValid, 
-  parseISO, 
-  startOfMonth, 
-  subMonths, 
-  subDays, 
-  endOfMonth, 
-} from "date-fns"; 
 import { 
   ResponsiveContainer, 
   XAxis, 
   YAxis, 
   Tooltip, 
-  BarChart, 
+  ComposedChart, 
   Bar, 
+  Line, 
   LabelList, 
+  Legend, 
 } from "recharts"; 
-import { getSupabase } from "@/lib/supabaseClient"; 
-import { Button, Card } from "@/components/ui"; 
+import { getRepository, type ClientFilter } from "@/lib/repo";
+import { EMPTY_QUERY, countConditions, isFilterableClientColumn, type ClientQuery, type ClientViewFilters } from "@/lib/clientQuery";
+import { AGENCY_TIME_ZONE, addDaysToKey, agentTimeZone, dayKey, formatInZone, fromZonedInput, monthKey, startOfZonedDay, timeZoneOptions, toZonedInput, todayKey, wallClock } from "@/lib/timezone";
+import { TREND_BUCKET_LABELS, TREND_RANGE_LABELS, compareTrends, formatChange, percentChange, previousTrendRange, resolveTrendRange, trendExportRows, trendTotals, type TrendBucket, type TrendPoint, type TrendRange, type TrendRangePreset } from "@/lib/trends";
+import { useRequireAuth } from "@/components/AuthProvider";
+import { api } from "@/lib/api/client";
+import { CLIENT_STATUS_FIELDS, can } from "@/lib/roles";
+import { watchSearchLinks } from "@/lib/search";
+import { SCOPE_LABELS, agentLabel, defaultScope, ownerIdsForScope, scopesForRole, type Agent, type Scope } from "@/lib/team";
+import type { SessionPayload } from "@/lib/session";
+import { clearDraft, loadDraft, saveDraft } from "@/lib/drafts";
+import { Button, Card } from "@/components/ui";
+import { HistoryPanel } from "@/components/HistoryPanel"; 
+import { FunnelCard } from "@/components/FunnelCard";
+import { LeaderboardCard } from "@/components/LeaderboardCard";
+import { GoalsCard } from "@/components/GoalsCard";
+import { MeetingCalendar } from "@/components/MeetingCalendar";
+import { QueryBuilder } from "@/components/QueryBuilder";
+import { ClientViewsBar } from "@/components/ClientViewsBar";
+import { CyclesPanel } from "@/components/CyclesPanel";
+import { NotificationBell } from "@/components/NotificationBell";
+import { ClientDrawer } from "@/components/ClientDrawer";
+import { cycleDays, cycleRange, cycleTargets } from "@/lib/cycles";
+import { meetingEvents, meetingsToIcs } from "@/lib/calendar";
+import { confirmMeetingTimes } from "@/lib/scheduling";
+import type { LeaderboardCounts } from "@/lib/leaderboard";
+import { cellOf, type ClientProgressSummary, type ClientRegistration, type ProductionCycle } from "@/lib/models";
+import { DATE_ONLY_KEYS, DATE_TIME_KEYS, clientPath, fromDateInput, labelFor, optionsForKey, toDateInput } from "@/lib/clientFields";
 
 export const dynamic = "force-dynamic"; 
 
-type Row = Record<string, any>; 
 type SortKey = 
   | "client" 
   | "created_at" 
   | "BOP_Date" 
-  | "BOP_" 
   | "Followup_Date" 
   | "status" 
   | "CalledOn" 
   | "Issued"; 
 type SortDir = "asc" | "desc"; 
+type ProgressRow = Omit<ClientProgressSummary, "owner_id"> & { client_name: string }; 
 type ProgressSortKey = 
   | "client_name" 
   | "last_call_date" 
@@ -66,19 +82,6 @@ const ALL_PAGE_SIZE = 10;
 const PROGRESS_PAGE_SIZE = 10;
 const UPCOMING_PAGE_SIZE = 10;
 
-const AUTH_COOKIE = "canfs_auth";
-
-function hasAuthCookie() {
-  if (typeof document === "undefined") return false;
-  return document.cookie.split("; ").some((c) => c.startsWith(`${AUTH_COOKIE}=true`));
-}
-
-function clearAuthCookie() {
-  if (typeof document === "undefined") return;
-  const secure =
-    typeof window !== "undefined" && window.location?.protocol === "https:" ? "; secure" : "";
-  document.cookie = `${AUTH_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
-}
  
 const READONLY_LIST_COLS = new Set([ 
   "interest_type", 
@@ -86,141 +89,31 @@ const READONLY_LIST_COLS = new Set([
   "wealth_solutions", 
   "preferred_days", 
 ]); 
-// Date & datetime keys (UI mapping only) 
-const DATE_TIME_KEYS = new Set([ 
-  "BOP_Date", 
-  "CalledOn", 
-  "Followup_Date", 
-  "FollowUp_Date", 
-  "Issued", 
-  "FNA_Date", 
-]); 
-const DATE_ONLY_KEYS = new Set(["date_of_birth"]); // calendar date without time 
 /** ------- Yellow highlight helper (ignore timestamp) ------- */ 
-function dateOnOrAfterToday(dateVal: any): boolean { 
-  if (!dateVal) return false; 
-  const d = new Date(dateVal); 
-  if (Number.isNaN(d.getTime())) return false; 
-  const today = new Date(); 
-  const dOnly = new Date(d.getFullYear(), d.getMonth(), d.getDate()); 
-  const tOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate()); 
-  return dOnly.getTime() >= tOnly.getTime(); 
+function dateOnOrAfterToday(dateVal: unknown, timeZone: string): boolean { 
+  const day = dayKey(dateVal, timeZone); 
+  return !!day && day >= todayKey(timeZone); 
 } 
+// toLocaleDateString()-style dates
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { year: "numeric", month: "numeric", day: "numeric" }; 
 const HIGHLIGHT_DATE_KEYS = new Set(["BOP_Date", "Followup_Date", "FollowUp_Date"]); 
-const LABEL_OVERRIDES: Record<string, string> = { 
-  client_name: "Client Name", 
-  last_call_date: "Last Call On", 
-  call_attempts: "No of Calls", 
-  last_bop_date: "Last/Next BOP Call On", 
-  bop_attempts: "No of BOP Calls", 
-  last_followup_date: "Last/Next FollowUp On", 
-  followup_attempts: "No of FollowUp Calls", 
-  created_at: "Created Date", 
-  interest_type: "Interest Type", 
-  business_opportunities: "Business Opportunities", 
-  wealth_solutions: "Wealth Solutions", 
-  preferred_days: "Preferred Days", 
-  preferred_time: "Preferred Time", 
-  referred_by: "Referred By", 
-  Profession: "Profession", 
-  Product: "Products Sold", 
-  Comment: "Comment", 
-  Remark: "Remark", 
-  CalledOn: "Called On", 
-  BOP_Date: "BOP Date", 
-  BOP_Status: "BOP Status", 
-  Followup_Date: "Follow-Up Date", 
-  FollowUp_Status: "Follow-Up Status", 
-  spouse_name: "Spouse Name", 
-  date_of_birth: "Date Of Birth", 
-  children: "Children", 
-  city: "City", 
-  state: "State", 
-  immigration_status: "Immigration Status", 
-  work_details: "Work Details", 
-  status: "Record Status", 
-  client_status: "Status", 
-  FNA_Status: "FNA Status", 
-  FNA_Date: "FNA Date", 
-}; 
-function labelFor(key: string) { 
-  if (LABEL_OVERRIDES[key]) return LABEL_OVERRIDES[key]; 
-  const s = key.replace(/_/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").trim(); 
-  const acronyms = new Set(["BOP", "ID", "API", "URL", "CAN"]); 
-  return s 
-    .split(/\s+/) 
-    .map((w) => 
-      acronyms.has(w.toUpperCase()) 
-        ? w.toUpperCase() 
-        : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase() 
-    ) 
-    .join(" "); 
-} 
-function clientName(r: Row) { 
+// Columns never rendered as cells (owner_id is shown as the "Agent" column instead)
+const HIDDEN_KEYS = new Set(["owner_id"]); 
+// Unsaved Clients List edits, kept across a forced re-login (see lib/drafts.ts)
+const PENDING_EDITS_DRAFT = "dashboard:pendingEdits";
+type PendingEditsDraft = { selectedRecordId: string | null; pendingEdits: Record<string, Record<string, string>> };
+function clientName(r: Pick<Partial<ClientRegistration>, "first_name" | "last_name">) { 
   return `${r.first_name ?? ""} ${r.last_name ?? ""}`.trim(); 
 } 
-function toLocalInput(value: any) { 
-  if (!value || value === null || value === undefined || String(value).trim() === '') return ""; 
-  
-  // Value from database is in format: 2026-01-23T19:01:00.000Z
-  // We want to display it as: 2026-01-23T19:01 (without timezone conversion)
-  // This preserves the exact time that was entered
-  const str = String(value);
-  const match = str.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
-  if (!match) return "";
-  
-  const [, year, month, day, hour, minute] = match;
-  return `${year}-${month}-${day}T${hour}:${minute}`;
-} 
-function toLocalDateInput(value: any) { 
-  if (!value || value === null || value === undefined || String(value).trim() === '') return ""; 
-  const d = new Date(value); 
-  const timestamp = d.getTime();
-  // Reject invalid dates, negative timestamps, and dates from 1969-1970 (likely epoch/default values)
-  if (Number.isNaN(timestamp) || timestamp < 0) return "";
-  const year = d.getFullYear();
-  if (year === 1969 || year === 1970) return ""; // Reject epoch dates
-  const pad = (n: number) => String(n).padStart(2, "0"); 
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`; 
-} 
-function fromLocalInput(value: string) { 
-  if (!value?.trim()) return null;
-  
-  // datetime-local format: YYYY-MM-DDTHH:MM
-  // We want to store this EXACT time without timezone conversion
-  // Parse manually to avoid browser timezone interpretation
-  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
-  if (!match) {
-    console.error('Invalid datetime-local format:', value);
-    return null;
-  }
-  
-  const [, year, month, day, hour, minute] = match;
-  
-  // Create ISO string directly without timezone conversion
-  // This treats the input as if it's already in UTC
-  const isoString = `${year}-${month}-${day}T${hour}:${minute}:00.000Z`;
-  console.log('fromLocalInput:', value, '→', isoString);
-  return isoString;
-} 
-function fromLocalDate(value: string) { 
-  if (!value?.trim()) return null; 
-  const parts = value.split("-"); 
-  if (parts.length !== 3) return null; 
-  const [y, m, d] = parts.map((x) => Number(x)); 
-  const dt = new Date(y, (m ?? 1) - 1, d ?? 1); 
-  if (Number.isNaN(dt.getTime())) return null; 
-  return dt.toISOString(); 
-} 
 
 // Get a row's value as the same string format used by inputs (for dirty-checking)
-function getRowInputString(r: Row, k: string): string {
+function getRowInputString(r: ClientRegistration, k: string, timeZone: string): string {
   const isDateTime = DATE_TIME_KEYS.has(k);
   const isDateOnly = DATE_ONLY_KEYS.has(k);
-  const val = (r as any)?.[k];
-  if (isDateTime) return toLocalInput(val);
-  if (isDateOnly) return toLocalDateInput(val);
-  return val ?? "";
+  const val = cellOf(r, k);
+  if (isDateTime) return toZonedInput(val, timeZone);
+  if (isDateOnly) return toDateInput(val);
+  return String(val ?? "");
 }
 function asListItems(value: any): string[] { 
   if (value == null) return []; 
@@ -284,49 +177,32 @@ function useColumnResizer() {
   }; 
   return { widths, setWidths, startResize }; 
 } 
-const US_STATE_OPTIONS: string[] = [ 
-  "", 
-  "Alabama", "Alaska", "Arizona", "Arkansas", "California", "Colorado", "Connecticut", "Delaware", 
-  "Florida", "Georgia", "Hawaii", "Idaho", "Illinois", "Indiana", "Iowa", "Kansas", "Kentucky", 
-  "Louisiana", "Maine", "Maryland", "Massachusetts", "Michigan", "Minnesota", "Mississippi", "Missouri", 
-  "Montana", "Nebraska", "Nevada", "New Hampshire", "New Jersey", "New Mexico", "New York", "North Carolina", 
-  "North Dakota", "Ohio", "Oklahoma", "Oregon", "Pennsylvania", "Rhode Island", "South Carolina", "South Dakota", 
-  "Tennessee", "Texas", "Utah", "Vermont", "Virginia", "Washington", "West Virginia", "Wisconsin", "Wyoming", 
-]; 
-const IMMIGRATION_STATUS_OPTIONS: string[] = [ 
-  "", 
-  "U.S. Citizen", "U.S.Green Card", "H-1B", "H-1B/I-140 Approved", "L-1A", "L-1B", "F-1 Student", 
-  "F-1 OPT", "F-1 STEM OPT", "H-4 EAD", "E-3", "I-485 Pending", "I-485 EAD/AP", "Other Visa Status", 
-]; 
-const STATUS_OPTIONS: Record<string, string[]> = { 
-  status: ["", "Successful Client", "Prospect Client", "New Client",  "Existing Client", "Referral Client", "Initiated", "Not-Interested", "In-Progress", "On-Hold", "Closed", "Completed"], 
-  followup_status: ["", "Open", "In-Progress", "Follow-Up", "Follow-Up 2", "On Hold", "Completed"], 
-  "follow-up_status": ["", "Open", "In-Progress", "Follow-Up", "Follow-Up 2", "On Hold", "Completed"], 
-  client_status: ["", "Policy Issued", "New Client", "Initiated", "Interested", "Not-Interested", "In-Progress", "Closed", "On Hold", "Purchased", "Re-Opened", "Completed"],
-  bop_status: ["", "Presented", "Business", "Client", "In-Progress", "On-Hold", "Clarification", "Not Interested", "Completed", "Closed"], 
-  fna_status: ["", "In-Progress", "Completed", "Not Interested", "Solution Provided", "Skipped"], 
-  state: US_STATE_OPTIONS, 
-  immigration_status: IMMIGRATION_STATUS_OPTIONS, 
-}; 
-function optionsForKey(k: string): string[] | null { 
-  const lk = k.toLowerCase().replace(/\s+/g, "_"); 
-  if (lk in STATUS_OPTIONS) return STATUS_OPTIONS[lk]; 
-  return null; 
-} 
 export default function Dashboard() {
-  const router = useRouter(); 
+  const auth = useRequireAuth();
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [scope, setScope] = useState<Scope>("mine");
+  const [reassignTo, setReassignTo] = useState("");
   const [error, setError] = useState<string | null>(null); 
-  const [daily60, setDaily60] = useState<{ day: string; calls?: number; bops?: number; followups?: number }[]>([]); 
-  const [monthly12, setMonthly12] = useState<{ month: string; calls?: number; bops?: number; followups?: number }[]>([]); 
+  const [notice, setNotice] = useState<string | null>(null);
+  const [trendPreset, setTrendPreset] = useState<TrendRangePreset>("year"); 
+  const [trendFirst, setTrendFirst] = useState(""); 
+  const [trendLast, setTrendLast] = useState(""); 
+  const [trendBucket, setTrendBucket] = useState<TrendBucket | "auto">("auto"); 
+  const [trendCompare, setTrendCompare] = useState(false); 
+  type TrendData = { range: TrendRange; points: TrendPoint[] }; 
+  const [trend, setTrend] = useState<TrendData & { previous: TrendData | null } | null>(null); 
   const [trendLoading, setTrendLoading] = useState(false); 
-  const [rangeStart, setRangeStart] = useState(format(new Date(), "yyyy-MM-dd")); 
-  const [rangeEnd, setRangeEnd] = useState(format(addDays(new Date(), 30), "yyyy-MM-dd")); 
-  const [upcoming, setUpcoming] = useState<Row[]>([]); 
+  const [cycle, setCycle] = useState<{ cycle: ProductionCycle; counts: LeaderboardCounts } | null>(null); 
+  const [cyclesOpen, setCyclesOpen] = useState(false); 
+  const [rangeStart, setRangeStart] = useState(todayKey(AGENCY_TIME_ZONE)); 
+  const [rangeEnd, setRangeEnd] = useState(addDaysToKey(todayKey(AGENCY_TIME_ZONE), 30)); 
+  const [upcoming, setUpcoming] = useState<ClientRegistration[]>([]); 
   const [upcomingLoading, setUpcomingLoading] = useState(false); 
   const [sortUpcoming, setSortUpcoming] = useState<{ key: SortKey; dir: SortDir }>({ key: "BOP_Date", dir: "desc" }); 
   const [upcomingPage, setUpcomingPage] = useState(0);
   const [upcomingPageJump, setUpcomingPageJump] = useState("1"); 
-  const [progressRows, setProgressRows] = useState<Row[]>([]); 
+  const [progressRows, setProgressRows] = useState<ProgressRow[]>([]); 
   const [progressLoading, setProgressLoading] = useState(false); 
   const [progressFilter, setProgressFilter] = useState(""); 
   const [progressSort, setProgressSort] = useState<{ key: ProgressSortKey; dir: SortDir }>({ key: "last_call_date", dir: "desc" }); 
@@ -335,9 +211,12 @@ export default function Dashboard() {
   
   // Column filters for all cards
   const [recordsColumnFilters, setRecordsColumnFilters] = useState<Record<string, Set<string>>>({});
+  // Advanced search (lib/clientQuery.ts), applied on top of the search box and column filters
+  const [recordsQuery, setRecordsQuery] = useState<ClientQuery>(EMPTY_QUERY);
+  const [queryOpen, setQueryOpen] = useState(false);
   
   const [q, setQ] = useState(""); 
-  const [records, setRecords] = useState<Row[]>([]); 
+  const [records, setRecords] = useState<ClientRegistration[]>([]); 
   const [total, setTotal] = useState(0); 
   const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
   const [page, setPage] = useState(0); 
@@ -348,6 +227,17 @@ export default function Dashboard() {
   const [pendingEdits, setPendingEdits] = useState<Record<string, Record<string, string>>>({});
   const [batchSaving, setBatchSaving] = useState(false);
   const [resetDraftsToken, setResetDraftsToken] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [drawerClientId, setDrawerClientId] = useState<string | null>(null); // client detail drawer (activity timeline)
+  const [historyKey, setHistoryKey] = useState(0); // bump to reload the History panel after a save
+  // Same edits keyed by table cell (`${id}:${key}`) so the table shows them after a reload
+  const pendingDraftCells = useMemo(() => {
+    const cells: Record<string, string> = {};
+    for (const [id, edits] of Object.entries(pendingEdits)) {
+      for (const [key, value] of Object.entries(edits)) cells[`${id}:${key}`] = value;
+    }
+    return cells;
+  }, [pendingEdits]);
   const saveEnabled = useMemo(() => {
     if (!selectedRecordId) return false;
     const edits = pendingEdits[selectedRecordId];
@@ -359,32 +249,95 @@ export default function Dashboard() {
 
   const [trendsVisible, setTrendsVisible] = useState(false);
   const [upcomingVisible, setUpcomingVisible] = useState(false);
+  const [upcomingCalendar, setUpcomingCalendar] = useState(false);
   const [progressVisible, setProgressVisible] = useState(false);
  
+  // Initialize once the AuthProvider has a session (useRequireAuth handles the login redirect)
   useEffect(() => {
+    const session = auth.session;
+    if (!session) return;
     (async () => {
       try {
-        // Guard: accept either the simple cookie auth (used by /auth) OR a Supabase session (if configured).
-        const cookieOk = hasAuthCookie();
-        if (!cookieOk) {
-          const supabase = getSupabase();
-          const { data } = await supabase.auth.getSession();
-          if (!data.session) {
-            router.replace("/auth?next=/dashboard");
-            return;
-          }
+        setAgents(await getRepository().agents.list());
+        setScope(defaultScope(session.role));
+        const draft = loadDraft<PendingEditsDraft>(session.id, PENDING_EDITS_DRAFT);
+        if (draft && Object.keys(draft.pendingEdits ?? {}).length) {
+          setPendingEdits(draft.pendingEdits);
+          setSelectedRecordId(draft.selectedRecordId);
+          setNotice("Restored unsaved edits from your last session. Click Save to keep them.");
         }
-        await Promise.all([fetchTrends(), fetchProgressSummary(), loadPage(0)]);
+        setSession(session);
       } catch (e: any) {
         setError(e?.message ?? "Failed to initialize");
       } finally {
         setLoading(false);
       }
     })();
-  }, [router]); 
+  }, [auth.session?.id]); 
+  // Persist unsaved edits (session is only set after any draft was restored)
+  useEffect(() => {
+    if (!session) return;
+    if (Object.keys(pendingEdits).length) saveDraft<PendingEditsDraft>(session.id, PENDING_EDITS_DRAFT, { selectedRecordId, pendingEdits });
+    else clearDraft(session.id, PENDING_EDITS_DRAFT);
+  }, [session, pendingEdits, selectedRecordId]);
+  // Global search links here with ?client=<id>: show just that record, across every record the role can see
+  useEffect(() => {
+    if (!session) return;
+    return watchSearchLinks("/dashboard", (params) => {
+      const id = params.get("client");
+      if (!id) return;
+      setScope(scopesForRole(session.role).at(-1) ?? defaultScope(session.role));
+      setQ("");
+      setRecordsColumnFilters({});
+      setRecordsQuery({ match: "all", conditions: [{ column: "id", op: "equals", value: id }] });
+      setRecordsVisible(true);
+      handleRowSelect(id);
+    });
+  }, [session]);
+  const ownerIds = useMemo(() => ownerIdsForScope(scope, session, agents), [scope, session, agents]);
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+  // Meeting times are shown and typed in the agent's zone
+  const timeZone = agentTimeZone(session ? agentsById.get(session.id) : null);
+  async function changeTimeZone(value: string) {
+    setError(null);
+    try {
+      const me = await api.agents.updateMe({ time_zone: value || null });
+      setAgents((prev) => prev.map((a) => (a.id === me.id ? { ...a, time_zone: me.time_zone } : a)));
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to change time zone");
+    }
+  }
+  // The current production cycle, counted over all of the signed-in agent's own records
+  async function fetchCycle() {
+    if (!session) return;
+    try {
+      const repo = getRepository();
+      const current = await repo.cycles.on(todayKey(AGENCY_TIME_ZONE));
+      if (!current) {
+        setCycle(null);
+        return;
+      }
+      const { from, to } = cycleRange(current);
+      const [mine] = await repo.reports.leaderboard([session.id], from, to);
+      setCycle({ cycle: current, counts: mine ?? { calls: 0, bops: 0, followups: 0, fnas: 0, issued: 0 } });
+    } catch (e: any) {
+      setError(e?.message ?? "Failed to load the current cycle");
+    }
+  }
+  useEffect(() => {
+    fetchCycle();
+  }, [session?.id]);
+  // (Re)load every card whenever the owner scope changes (and once the session is known)
+  useEffect(() => {
+    if (!session) return;
+    fetchTrends();
+    fetchProgressSummary();
+    loadPage(0);
+    if (upcoming.length) fetchUpcoming();
+  }, [ownerIds]); 
   useEffect(() => { 
     loadPage(0); 
-  }, [sortAll.key, sortAll.dir]); 
+  }, [sortAll.key, sortAll.dir, recordsColumnFilters, recordsQuery]); 
   useEffect(() => { 
     if (upcoming.length) fetchUpcoming(); 
   }, [sortUpcoming.key, sortUpcoming.dir]); 
@@ -394,95 +347,25 @@ export default function Dashboard() {
     }, 300);
     return () => clearTimeout(id);
   }, [q]); 
-  function applySort(query: any, sort: { key: SortKey; dir: SortDir }) { 
-    const ascending = sort.dir === "asc"; 
-    if (sort.key === "client") return query.order("first_name", { ascending }).order("last_name", { ascending }); 
-    return query.order(sort.key, { ascending }); 
-  } 
- async function logout() { 
-    try { 
-      const supabase = getSupabase(); 
-      await supabase.auth.signOut(); 
-    } finally {
-      clearAuthCookie();
-      router.replace("/auth");
-    } 
-  } 
-  async function ut() { 
-    try { 
-      const supabase = getSupabase(); 
-      await supabase.auth.signOut(); 
-    } finally {
-      clearAuthCookie();
-      router.replace("/auth");
-    } 
-  } 
-  async function fetchTrends() { 
+  const canEditStatus = can(session?.role, "clients.edit_status");
+  const statusLockedKeys = useMemo(() => new Set<string>(canEditStatus ? [] : CLIENT_STATUS_FIELDS), [canEditStatus]);
+  async function fetchTrends(
+    preset = trendPreset,
+    bucket = trendBucket,
+    compare = trendCompare,
+    custom = { first: trendFirst, last: trendLast }
+  ) { 
+    const range = resolveTrendRange(preset, custom, bucket); 
+    if (!range) return; 
     setTrendLoading(true); 
     setError(null); 
     try { 
-      const supabase = getSupabase(); 
-      const today = new Date(); 
-      const startDaily = subDays(today, 59); 
-      const [{ data: callsRows }, { data: bopsRows }, { data: fuRows }] = await Promise.all([ 
-        supabase.from("client_registrations").select("CalledOn").gte("CalledOn", startDaily.toISOString()).order("CalledOn", { ascending: true }).limit(50000), 
-        supabase.from("client_registrations").select("BOP_Date").gte("BOP_Date", startDaily.toISOString()).order("BOP_Date", { ascending: true }).limit(50000), 
-        supabase.from("client_registrations").select("Followup_Date").gte("Followup_Date", startDaily.toISOString()).order("Followup_Date", { ascending: true }).limit(50000), 
-      ]); 
-      const days: string[] = []; 
-      const callsDay = new Map<string, number>(); 
-      const bopsDay = new Map<string, number>(); 
-      const fuDay = new Map<string, number>(); 
-      for (let i = 0; i < 60; i++) { 
-        const d = addDays(startDaily, i); 
-        const key = format(d, "yyyy-MM-dd"); 
-        days.push(key); 
-        callsDay.set(key, 0); 
-        bopsDay.set(key, 0); 
-        fuDay.set(key, 0); 
-      } 
-      const bumpDay = (dateVal: any, map: Map<string, number>) => { 
-        if (!dateVal) return; 
-        const d = parseISO(String(dateVal)); 
-        if (!isValid(d)) return; 
-        const k = format(d, "yyyy-MM-dd"); 
-        if (map.has(k)) map.set(k, (map.get(k) ?? 0) + 1); 
-      }; 
-      (callsRows ?? []).forEach((r: any) => bumpDay(r.CalledOn, callsDay)); 
-      (bopsRows ?? []).forEach((r: any) => bumpDay(r.BOP_Date, bopsDay)); 
-      (fuRows ?? []).forEach((r: any) => bumpDay(r.Followup_Date, fuDay)); 
-      const nz = (n: number | undefined) => (n && n !== 0 ? n : undefined); 
-      setDaily60(days.map((day) => ({ day, calls: nz(callsDay.get(day) ?? 0), bops: nz(bopsDay.get(day) ?? 0), followups: nz(fuDay.get(day) ?? 0) }))); 
-      const startMonth = startOfMonth(subMonths(today, 11)); 
-      const months: string[] = []; 
-      const callsMonth = new Map<string, number>(); 
-      const bopsMonth = new Map<string, number>(); 
-      const fuMonth = new Map<string, number>(); 
-      for (let i = 0; i < 12; i++) { 
-        const mDate = addMonths(startMonth, i); 
-        const key = format(mDate, "yyyy-MM"); 
-        months.push(key); 
-        callsMonth.set(key, 0); 
-        bopsMonth.set(key, 0); 
-        fuMonth.set(key, 0); 
-      } 
-      const [{ data: callsY }, { data: bopsY }, { data: fuY }] = await Promise.all([ 
-        supabase.from("client_registrations").select("CalledOn").gte("CalledOn", startMonth.toISOString()).lt("CalledOn", addMonths(endOfMonth(today), 1).toISOString()).order("CalledOn", { ascending: true }).limit(200000), 
-        supabase.from("client_registrations").select("BOP_Date").gte("BOP_Date", startMonth.toISOString()).lt("BOP_Date", addMonths(endOfMonth(today), 1).toISOString()).order("BOP_Date", { ascending: true }).limit(200000), 
-        supabase.from("client_registrations").select("Followup_Date").gte("Followup_Date", startMonth.toISOString()).lt("Followup_Date", addMonths(endOfMonth(today), 1).toISOString()).order("Followup_Date", { ascending: true }).limit(200000), 
-         ]); 
-      const bumpMonth = (dateVal: any, map: Map<string, number>) => { 
-        if (!dateVal) return; 
-        const d = parseISO(String(dateVal)); 
-        if (!isValid(d)) return; 
-        const k = format(d, "yyyy-MM"); 
-        if (map.has(k)) map.set(k, (map.get(k) ?? 0) + 1); 
-      }; 
-      (callsY ?? []).forEach((r: any) => bumpMonth(r.CalledOn, callsMonth)); 
-      (bopsY ?? []).forEach((r: any) => bumpMonth(r.BOP_Date, bopsMonth)); 
-      (fuY ?? []).forEach((r: any) => bumpMonth(r.Followup_Date, fuMonth)); 
-      // Don't filter out zero values - show all months including zeros for proper chart display
-      setMonthly12(months.map((month) => ({ month, calls: callsMonth.get(month) ?? 0, bops: bopsMonth.get(month) ?? 0, followups: fuMonth.get(month) ?? 0 }))); 
+      // Counted in the database per agency-zone bucket; only the buckets come back
+      const clients = getRepository().clients; 
+      const load = (r: TrendRange) => clients.activityCounts({ ownerIds }, r.from, r.to, r.bucket); 
+      const prevRange = compare ? previousTrendRange(range) : null; 
+      const [points, prevPoints] = await Promise.all([load(range), prevRange ? load(prevRange) : null]); 
+      setTrend({ range, points, previous: prevRange && prevPoints ? { range: prevRange, points: prevPoints } : null }); 
     } catch (e: any) { 
       setError(e?.message ?? "Failed to load trends"); 
     } finally { 
@@ -493,31 +376,22 @@ export default function Dashboard() {
     setUpcomingLoading(true); 
     setError(null); 
     try { 
-      const supabase = getSupabase(); 
-      const start = new Date(rangeStart); 
-      const end = new Date(rangeEnd); 
-      const startIso = start.toISOString(); 
-      const endIso = new Date(end.getTime() + 24 * 60 * 60 * 1000).toISOString(); 
-      const { data: bopRows, error: bopErr } = await supabase.from("client_registrations").select("*").gte("BOP_Date", startIso).lt("BOP_Date", endIso).limit(5000); 
-      if (bopErr) throw bopErr; 
-      const { data: fuRows, error: fuErr } = await supabase.from("client_registrations").select("*").gte("Followup_Date", startIso).lt("Followup_Date", endIso).limit(5000); 
-      if (fuErr) throw fuErr; 
-      const map = new Map<string, any>(); 
-      for (const r of bopRows ?? []) map.set(String((r as any).id), r); 
-      for (const r of fuRows ?? []) map.set(String((r as any).id), r); 
-      let merged = Array.from(map.values()); 
+      // The picked days are days in the agent's zone
+      const start = startOfZonedDay(rangeStart, timeZone); 
+      const end = startOfZonedDay(addDaysToKey(rangeEnd, 1), timeZone); 
+      const merged = await getRepository().clients.scheduledBetween({ ownerIds }, start, end); 
       const asc = sortUpcoming.dir === "asc"; 
       const key = sortUpcoming.key; 
-      const getVal = (r: any) => { 
-        if (key === "client") return `${r.first_name ?? ""} ${r.last_name ?? ""}`.trim(); 
-        return r[key]; 
+      const getVal = (r: ClientRegistration) => { 
+        if (key === "client") return clientName(r); 
+        return cellOf(r, key); 
       }; 
-      merged.sort((a: any, b: any) => { 
+      merged.sort((a, b) => { 
         const av = getVal(a); 
         const bv = getVal(b); 
         if (key === "created_at" || key === "BOP_Date" || key === "Followup_Date" || key === "CalledOn" || key === "Issued") { 
-          const at = av ? new Date(av).getTime() : 0; 
-          const bt = bv ? new Date(bv).getTime() : 0; 
+          const at = av ? new Date(String(av)).getTime() : 0; 
+          const bt = bv ? new Date(String(bv)).getTime() : 0; 
           return asc ? at - bt : bt - at; 
         } 
         return asc ? String(av ?? "").localeCompare(String(bv ?? "")) : String(bv ?? "").localeCompare(String(av ?? "")); 
@@ -534,13 +408,8 @@ export default function Dashboard() {
     setProgressLoading(true); 
     setError(null); 
     try { 
-      const supabase = getSupabase(); 
-      const { data, error } = await supabase 
-        .from("v_client_progress_summary") 
-        .select("clientid, first_name, last_name, phone, email, last_call_date, call_attempts, last_bop_date, bop_attempts, last_followup_date, followup_attempts") 
-        .order("clientid", { ascending: false }); 
-      if (error) throw error; 
-      const rows = (data ?? []).map((r: any) => ({ 
+      const data = await getRepository().clients.progressSummary({ ownerIds }); 
+      const rows: ProgressRow[] = data.map((r) => ({ 
         clientid: r.clientid, 
         client_name: `${r.first_name ?? ""} ${r.last_name ?? ""}`.trim(), 
         first_name: r.first_name, 
@@ -563,41 +432,32 @@ export default function Dashboard() {
       setProgressLoading(false); 
     } 
   } 
+  // Scope, search and column filters of the Clients List, all applied by the database
+  function recordsFilter(): ClientFilter { 
+    const columns = Object.fromEntries(Object.entries(recordsColumnFilters).map(([k, v]) => [k, Array.from(v)])); 
+    return { ownerIds, search: q, columns, query: recordsQuery, timeZone }; 
+  } 
+  // What "Save view" stores, and applying a saved view
+  const currentView: ClientViewFilters = { search: q, columns: recordsFilter().columns, query: recordsQuery }; 
+  function applyView(filters: ClientViewFilters) { 
+    setQ(filters.search ?? ""); 
+    setRecordsColumnFilters(Object.fromEntries(Object.entries(filters.columns ?? {}).map(([k, v]) => [k, new Set(v)]))); 
+    setRecordsQuery(filters.query ?? EMPTY_QUERY); 
+  } 
   async function loadPage(nextPage: number) { 
+    if (!session) return;
     setError(null); 
     setLoading(true); 
     try { 
-      const supabase = getSupabase(); 
-      const search = q.trim(); 
-      let countQuery = supabase.from("client_registrations").select("id", { count: "exact", head: true }); 
-      if (search) countQuery = countQuery.or(`first_name.ilike.%${search}%,last_name.ilike.%${search}%,phone.ilike.%${search}%`); 
-      const { count, error: cErr } = await countQuery; 
-      if (cErr) throw cErr; 
-      setTotal(count ?? 0); 
-      
-      // Fetch all status counts
-      let allStatusQuery = supabase.from("client_registrations").select("status, client_status");
-      if (search) allStatusQuery = allStatusQuery.or(`first_name.ilike.%${search}%,last_name.ilike.%${search}%,phone.ilike.%${search}%`);
-      const { data: allStatusData, error: statusErr } = await allStatusQuery;
-      if (statusErr) throw statusErr;
-      
-      const counts: Record<string, number> = {};
-      (allStatusData ?? []).forEach((row: any) => {
-        const status = row.status;
-        const clientStatus = row.client_status;
-        if (status) counts[`status_${status}`] = (counts[`status_${status}`] || 0) + 1;
-        if (clientStatus) counts[`client_status_${clientStatus}`] = (counts[`client_status_${clientStatus}`] || 0) + 1;
-      });
+      const clients = getRepository().clients; 
+      const filter = recordsFilter(); 
+      const [result, counts] = await Promise.all([ 
+        clients.list({ ...filter, page: nextPage, pageSize: ALL_PAGE_SIZE, sort: { column: sortAll.key, ascending: sortAll.dir === "asc" } }), 
+        clients.statusCounts(filter), 
+      ]); 
+      setTotal(result.total); 
       setStatusCounts(counts);
-      
-      const from = nextPage * ALL_PAGE_SIZE; 
-      const to = from + ALL_PAGE_SIZE - 1; 
-      let dataQuery = supabase.from("client_registrations").select("*").range(from, to); 
-      if (search) dataQuery = dataQuery.or(`first_name.ilike.%${search}%,last_name.ilike.%${search}%,phone.ilike.%${search}%`); 
-      dataQuery = applySort(dataQuery, sortAll); 
-      const { data, error } = await dataQuery; 
-      if (error) throw error; 
-      setRecords(data ?? []); 
+      setRecords(result.rows); 
       setPage(nextPage); 
       setPageJump(String(nextPage + 1)); 
     } catch (e: any) { 
@@ -606,18 +466,25 @@ export default function Dashboard() {
       setLoading(false); 
     } 
   } 
+  function loadFilterValues(key: string): Promise<string[]> { 
+    if (!isFilterableClientColumn(key)) return Promise.resolve([]); 
+    return getRepository().clients.columnValues(recordsFilter(), key); 
+  } 
   async function updateCell(id: string, key: string, rawValue: string) { 
     setSavingId(id); 
     setError(null); 
     try { 
-      const supabase = getSupabase(); 
-      const payload: any = {}; 
+      const payload: Record<string, string | null> = {}; 
       const isDateOnly = DATE_ONLY_KEYS.has(key); 
       const isDateTime = DATE_TIME_KEYS.has(key); 
-      payload[key] = isDateTime ? fromLocalInput(rawValue) : isDateOnly ? fromLocalDate(rawValue) : rawValue?.trim() ? rawValue : null; 
-      const { error } = await supabase.from("client_registrations").update(payload).eq("id", id); 
-      if (error) throw error; 
-      const patch = (prev: Row[]) => prev.map((r) => (String(r.id) === String(id) ? { ...r, [key]: payload[key] } : r)); 
+      payload[key] = isDateTime ? fromZonedInput(rawValue, timeZone) : isDateOnly ? fromDateInput(rawValue) : rawValue?.trim() ? rawValue : null; 
+      if (!(await confirmRecordMeetingTimes(id, payload))) { 
+        setResetDraftsToken((t) => t + 1); 
+        return; 
+      } 
+      await api.clients.update(id, payload); 
+      setHistoryKey((k) => k + 1);
+      const patch = (prev: ClientRegistration[]) => prev.map((r) => (String(r.id) === String(id) ? { ...r, [key]: payload[key] } : r)); 
       setRecords(patch); 
       setUpcoming(patch); 
     } catch (e: any) { 
@@ -627,7 +494,16 @@ export default function Dashboard() {
       setSavingId(null); 
     } 
   } 
+  // Warn before a new BOP or follow-up time double-books the client's agent (lib/scheduling.ts)
+  async function confirmRecordMeetingTimes(id: string, payload: Record<string, string | null>): Promise<boolean> {
+    if (!payload.BOP_Date && !payload.Followup_Date) return true;
+    const row = [...records, ...upcoming].find((r) => String(r.id) === String(id)) ?? (await getRepository().clients.get(id));
+    if (!row) return true;
+    const ownerZone = agentTimeZone(row.owner_id ? agentsById.get(row.owner_id) : null);
+    return confirmMeetingTimes(getRepository(), row, payload, { ownerZone, viewerZone: timeZone });
+  }
   function clearSaveState() {
+    setNotice(null);
     setPendingEdits({});
     setSelectedRecordId(null);
     setResetDraftsToken((t) => t + 1);
@@ -650,7 +526,7 @@ export default function Dashboard() {
     const baseRow = (records ?? []).find((r) => String(r.id) === String(id));
     if (!baseRow) return;
     
-    const baseVal = String(getRowInputString(baseRow, key) ?? '');
+    const baseVal = String(getRowInputString(baseRow, key, timeZone) ?? '');
     const newVal = String(value ?? '');
     
     setPendingEdits((prev) => {
@@ -681,40 +557,31 @@ export default function Dashboard() {
     setSavingId(selectedRecordId);
     setError(null);
     try {
-      const supabase = getSupabase();
-      const payload: any = {};
+      const payload: Record<string, string | null> = {};
       for (const [key, rawValue] of Object.entries(edits)) {
         const isDateOnly = DATE_ONLY_KEYS.has(key);
         const isDateTime = DATE_TIME_KEYS.has(key);
         
         if (isDateTime) {
-          // rawValue should be in format: YYYY-MM-DDTHH:MM (datetime-local format)
-          const converted = fromLocalInput(String(rawValue ?? ''));
-          payload[key] = converted;
+          // rawValue is a datetime-local value (YYYY-MM-DDTHH:MM) in the agent's zone
+          payload[key] = fromZonedInput(String(rawValue ?? ''), timeZone);
         } else if (isDateOnly) {
-          payload[key] = fromLocalDate(String(rawValue ?? ''));
+          payload[key] = fromDateInput(String(rawValue ?? ''));
         } else {
           payload[key] = String(rawValue ?? '').trim() ? String(rawValue) : null;
         }
       }
       
-      const { error } = await supabase
-        .from('client_registrations')
-        .update(payload)
-        .eq('id', selectedRecordId);
-      if (error) throw error;
+      if (!(await confirmRecordMeetingTimes(selectedRecordId, payload))) return;
+
+      // The API returns the saved record with exact database values
+      const savedRecord = await api.clients.update(selectedRecordId, payload);
+      setHistoryKey((k) => k + 1);
 
-      // Fetch the saved record to get exact database values
-      const { data: savedRecord, error: fetchError } = await supabase
-        .from('client_registrations')
-        .select('*')
-        .eq('id', selectedRecordId)
-        .single();
-      
       // Use savedRecord if available, otherwise fall back to payload
       const updatedData = savedRecord || payload;
 
-      const patch = (prev: Row[]) =>
+      const patch = (prev: ClientRegistration[]) =>
         prev.map((r) =>
           String(r.id) === String(selectedRecordId) 
             ? { ...r, ...updatedData } 
@@ -739,6 +606,7 @@ export default function Dashboard() {
         delete next[selectedRecordId];
         return next;
       });
+      setNotice(null);
       setResetDraftsToken((t) => t + 1);
     } catch (e: any) {
       setError(e?.message ?? 'Save failed');
@@ -749,17 +617,60 @@ export default function Dashboard() {
     }
   }
 
+  async function reassignSelectedRecord() {
+    if (!selectedRecordId || !reassignTo) return;
+    const target = agentsById.get(reassignTo);
+    if (!confirm(`Reassign this client to ${agentLabel(target)}?`)) return;
+    setSavingId(selectedRecordId);
+    setError(null);
+    try {
+      await api.clients.update(selectedRecordId, { owner_id: reassignTo });
+      setHistoryKey((k) => k + 1);
+      setReassignTo("");
+      await loadPage(page);
+    } catch (e: any) {
+      setError(e?.message ?? "Reassign failed");
+    } finally {
+      setSavingId(null);
+    }
+  }
 
   const totalPages = Math.max(1, Math.ceil((total ?? 0) / ALL_PAGE_SIZE)); 
   const canPrev = page > 0; 
   const canNext = (page + 1) * ALL_PAGE_SIZE < total; 
+  const trendRows = useMemo(() => (trend ? compareTrends(trend.points, trend.previous?.points ?? null) : []), [trend]); 
+  // Period totals against the previous period, when comparing
+  const trendChanges = useMemo(() => { 
+    if (!trend?.previous) return null; 
+    const now = trendTotals(trend.points); 
+    const before = trendTotals(trend.previous.points); 
+    return ([["Calls", "calls"], ["BOPs", "bops"], ["Follow-ups", "followups"]] as const).map(([label, key]) => ({ label, total: now[key], change: percentChange(now[key], before[key]) })); 
+  }, [trend]); 
+  const exportTrendsXlsx = () => { 
+    if (!trend) return; 
+    const ws = XLSX.utils.aoa_to_sheet(trendExportRows(trend.range, trendRows, trend.previous?.range ?? null)); 
+    const wb = XLSX.utils.book_new(); 
+    XLSX.utils.book_append_sheet(wb, ws, "Trends"); 
+    XLSX.writeFile(wb, `Trends_${trend.range.first}_to_${trend.range.last}_by_${trend.range.bucket}.xlsx`); 
+  }; 
   const exportUpcomingXlsx = () => { 
     const ws = XLSX.utils.json_to_sheet(upcoming); 
     const wb = XLSX.utils.book_new(); 
     XLSX.utils.book_append_sheet(wb, ws, "Upcoming_BOP"); 
     XLSX.writeFile(wb, `Upcoming_${rangeStart}_to_${rangeEnd}.xlsx`); 
   }; 
-  const extraClientCol = useMemo(() => [{ label: "Client Name", sortable: "client" as SortKey, render: (r: Row) => clientName(r) }], []); 
+  // The loaded BOPs and follow-ups as an iCalendar file for any calendar app
+  const exportUpcomingIcs = () => { 
+    const events = meetingEvents(upcoming, startOfZonedDay(rangeStart, timeZone), startOfZonedDay(addDaysToKey(rangeEnd, 1), timeZone)); 
+    const url = URL.createObjectURL(new Blob([meetingsToIcs(events)], { type: "text/calendar;charset=utf-8" })); 
+    const a = document.createElement("a"); 
+    a.href = url; 
+    a.download = `Meetings_${rangeStart}_to_${rangeEnd}.ics`; 
+    a.click(); 
+    URL.revokeObjectURL(url); 
+  }; 
+  const extraClientCol = useMemo(() => [{ label: "Client Name", sortable: "client" as SortKey, render: (r: ClientRegistration) => clientName(r) }], []); 
+  const agentCol = { label: "Agent", render: (r: ClientRegistration) => agentLabel(r.owner_id ? agentsById.get(r.owner_id) : null) || "—" };
   const progressFilteredSorted = useMemo(() => { 
     const needle = progressFilter.trim().toLowerCase(); 
     const filtered = (progressRows ?? []).filter((r) => (!needle ? true : String(r.client_name ?? "").toLowerCase().includes(needle))); 
@@ -814,24 +725,6 @@ export default function Dashboard() {
   }; 
   const hideZeroFormatter = (val: any) => { const n = Number(val); return Number.isFinite(n) && n === 0 ? "" : val; }; 
   
-  // Apply column filters to Clients List records
-  const filteredRecords = useMemo(() => {
-    if (Object.keys(recordsColumnFilters).length === 0) return records;
-    
-    return records.filter(record => {
-      // Check each column filter
-      for (const [columnKey, selectedValues] of Object.entries(recordsColumnFilters)) {
-        if (selectedValues.size === 0) continue; // No filter for this column
-        
-        const recordValue = String(record[columnKey] ?? '');
-        if (!selectedValues.has(recordValue)) {
-          return false; // Record doesn't match this column's filter
-        }
-      }
-      return true; // Record passes all filters
-    });
-  }, [records, recordsColumnFilters]);
-  
   return ( 
     <div className="min-h-screen"> 
       <div className="max-w-[1600px] mx-auto p-4 space-y-4"> 
@@ -849,14 +742,13 @@ export default function Dashboard() {
   {(() => {
     const successfulClientsCount = statusCounts["status_Successful Client"] || 0;
     const newClientsCount = statusCounts["client_status_New Client"] || 0;
-    const latestIssuedDate = records.map(r => r.Issued).filter(Boolean).map(d => new Date(d)).sort((a,b)=>b.getTime()-a.getTime())[0];
-     
-    const cycleStart = latestIssuedDate ? latestIssuedDate.toLocaleDateString() : "—";
-    const cycleEnd = latestIssuedDate ? new Date(latestIssuedDate.getTime() + 30 * 60 * 60 * 1000).toLocaleDateString() : "—";
-
-    const cycleDays = latestIssuedDate ? Math.floor((Date.now()-latestIssuedDate.getTime())/(1000*60*60*24)) : 0;
-    const today = new Date().toISOString().split("T")[0];
-    const meetingTodayCount = records.filter(r => r.BOP_Date?.startsWith(today) || r.Followup_Date?.startsWith(today)).length;
+    const showDay = (day: string) => formatInZone(`${day}T00:00:00Z`, "UTC", DATE_FORMAT);
+    const cycleStart = cycle ? showDay(cycle.cycle.starts_on) : "—";
+    const cycleEnd = cycle ? showDay(cycle.cycle.ends_on) : "—";
+    const days = cycle ? cycleDays(cycle.cycle, todayKey(AGENCY_TIME_ZONE)) : null;
+    const targets = cycle ? cycleTargets(cycle.cycle, cycle.counts) : [];
+    const today = todayKey(timeZone);
+    const meetingTodayCount = records.filter(r => dayKey(r.BOP_Date, timeZone) === today || dayKey(r.Followup_Date, timeZone) === today).length;
      
     return (
       <>
@@ -866,37 +758,72 @@ export default function Dashboard() {
         <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap">
           New Clients✏️ {newClientsCount}
         </div>
-        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap">
+        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap" title={cycle?.cycle.name ?? "No cycle covers today"}>
           Cycle Start on↪️ {cycleStart}
         </div>
-        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap">
+        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap" title={cycle?.cycle.name}>
           Cycle End on↩️ {cycleEnd}
         </div>
-        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap">
-          Cycle Days🔄 {cycleDays}
+        <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap" title={days ? `Day ${days.elapsed} of ${days.total}` : undefined}>
+          Cycle Days🔄 {days ? `${days.elapsed}/${days.total} (${days.left} left)` : "—"}
         </div>
+        {targets.map((t) => (
+          <div key={t.metric} className="px-2 py-1 bg-gray-200 text-xs rounded text-center whitespace-nowrap" title={`${t.label} this cycle: ${t.actual} of ${t.target}`}>
+            {t.label} {t.actual}/{t.target}
+            <div className="mt-1 h-1 w-full rounded bg-white">
+              <div className={`h-1 rounded ${t.actual >= t.target ? "bg-emerald-500" : "bg-teal-600"}`} style={{ width: `${t.target ? Math.min(100, (t.actual / t.target) * 100) : 100}%` }} />
+            </div>
+          </div>
+        ))}
         <div className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap">
           Today Meetings📣 {meetingTodayCount}
         </div>
+        <NotificationBell session={session} timeZone={timeZone} />
       </>
     );
   })()}
+              <select
+                className="border border-slate-300 bg-white px-2 py-2 text-xs rounded"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as Scope)}
+                disabled={scopesForRole(session?.role).length <= 1}
+                title="Which agents' records to show"
+              >
+                {scopesForRole(session?.role).map((sc) => (<option key={sc} value={sc}>{SCOPE_LABELS[sc]}</option>))}
+              </select>
+              <select
+                className="border border-slate-300 bg-white px-2 py-2 text-xs rounded max-w-[11rem]"
+                value={session ? agentsById.get(session.id)?.time_zone ?? "" : ""}
+                onChange={(e) => changeTimeZone(e.target.value)}
+                disabled={!session}
+                title="Time zone for meeting dates and times"
+              >
+                <option value="">Agency ({AGENCY_TIME_ZONE})</option>
+                {timeZoneOptions().map((tz) => (<option key={tz} value={tz}>{tz}</option>))}
+              </select>
+              {can(session?.role, "cycles.manage") && (
+                <Button variant="secondary" onClick={() => setCyclesOpen((v) => !v)}>
+                  <span className="text-xs whitespace-nowrap">Cycles🔄</span>
+                </Button>
+              )}
               <Button variant="secondary" onClick={toggleAllCards}>
                 <span className="text-xs whitespace-nowrap">{allVisible ? "Hide Cards📦" : "Show Cards🗃️"}</span>
               </Button> 
-              <Button variant="secondary" onClick={logout}> 
+              <Button variant="secondary" onClick={auth.logout}> 
                 <span className="text-xs whitespace-nowrap">Logout ➜</span>
               </Button> 
             </div> 
           </div> 
         </header> 
         {error && (<div className="rounded-xl border border-red-200 bg-red-50 p-4 text-red-700">{error}</div>)} 
+        {notice && (<div className="rounded-xl border border-amber-200 bg-amber-50 p-4 text-amber-800 flex items-center justify-between gap-3"><span>{notice}</span><button type="button" className="text-sm font-semibold" onClick={() => setNotice(null)}>Dismiss</button></div>)}
+        {cyclesOpen && can(session?.role, "cycles.manage") && <CyclesPanel onChanged={fetchCycle} />} 
         <Card title="Trends 📊"> 
   <div className="mb-2">
     <Button variant="secondary" onClick={() => {
       const willShow = !trendsVisible;
       setTrendsVisible(willShow);
-      if (willShow && monthly12.length === 0) {
+      if (willShow && !trend) {
         fetchTrends();
       }
     }}>
@@ -905,13 +832,70 @@ export default function Dashboard() {
   </div>
           {trendsVisible ? ( 
             <> 
-              <div className="text-xs font-semibold text-black mb-2">Rolling 12 Months</div> 
+              <div className="flex flex-wrap items-end gap-2 mb-2"> 
+                <select 
+                  className="border border-slate-300 bg-white px-2 py-1 text-xs rounded" 
+                  value={trendPreset} 
+                  onChange={(e) => { 
+                    const preset = e.target.value as TrendRangePreset; 
+                    setTrendPreset(preset); 
+                    fetchTrends(preset); 
+                  }} 
+                > 
+                  {(Object.keys(TREND_RANGE_LABELS) as TrendRangePreset[]).map((p) => (<option key={p} value={p}>{TREND_RANGE_LABELS[p]}</option>))} 
+                </select> 
+                <select 
+                  className="border border-slate-300 bg-white px-2 py-1 text-xs rounded" 
+                  value={trendBucket} 
+                  onChange={(e) => { 
+                    const bucket = e.target.value as TrendBucket | "auto"; 
+                    setTrendBucket(bucket); 
+                    fetchTrends(trendPreset, bucket); 
+                  }} 
+                  title="Granularity" 
+                > 
+                  <option value="auto">Auto</option> 
+                  {(Object.keys(TREND_BUCKET_LABELS) as TrendBucket[]).map((b) => (<option key={b} value={b}>By {TREND_BUCKET_LABELS[b].toLowerCase()}</option>))} 
+                </select> 
+                <label className="flex items-center gap-1 text-xs text-black"> 
+                  <input 
+                    type="checkbox" 
+                    checked={trendCompare} 
+                    onChange={(e) => { 
+                      setTrendCompare(e.target.checked); 
+                      fetchTrends(trendPreset, trendBucket, e.target.checked); 
+                    }} 
+                  /> 
+                  Compare to previous period 
+                </label> 
+                {trendPreset === "custom" && ( 
+                  <> 
+                    <input type="date" className="border border-slate-300 px-2 py-1 text-xs rounded" value={trendFirst} onChange={(e) => setTrendFirst(e.target.value)} /> 
+                    <span className="text-xs text-black">to</span> 
+                    <input type="date" className="border border-slate-300 px-2 py-1 text-xs rounded" value={trendLast} onChange={(e) => setTrendLast(e.target.value)} /> 
+                    <Button variant="secondary" onClick={() => fetchTrends()} disabled={!trendFirst || !trendLast || trendLoading}>Apply</Button> 
+                  </> 
+                )} 
+                {trend && ( 
+                  <span className="text-xs font-semibold text-black"> 
+                    {trend.range.first} – {trend.range.last} · per {trend.range.bucket} ({AGENCY_TIME_ZONE}) 
+                    {trend.previous && <> vs {trend.previous.range.first} – {trend.previous.range.last}</>} 
+                  </span> 
+                )} 
+                {trendChanges && ( 
+                  <span className="text-xs text-black"> 
+                    {trendChanges.map((c) => `${c.label} ${c.total} (${formatChange(c.change)})`).join(" · ")} 
+                  </span> 
+                )} 
+                <Button variant="secondary" onClick={exportTrendsXlsx} disabled={!trend}>📤</Button> 
+              </div> 
               <div className="h-64"> 
                 <ResponsiveContainer width="100%" height="100%"> 
-                  <BarChart data={monthly12}> 
-                    <XAxis dataKey="month" tick={{ fontSize: 11 }} /> 
+                  <ComposedChart data={trendRows}> 
+                    <XAxis dataKey="bucket" tick={{ fontSize: 11 }} /> 
                     <YAxis allowDecimals={false} /> 
                     <Tooltip /> 
+                    <Legend wrapperStyle={{ fontSize: 11 }} /> 
                     <Bar dataKey="calls" fill="#2563eb"> 
                       <LabelList dataKey="calls" position="top" fill="#0f172a" formatter={hideZeroFormatter} /> 
                     </Bar> 
@@ -921,7 +905,14 @@ export default function Dashboard() {
                     <Bar dataKey="followups" fill="#10b981"> 
                       <LabelList dataKey="followups" position="top" fill="#0f172a" formatter={hideZeroFormatter} /> 
                     </Bar> 
-                  </BarChart> 
+                    {trend?.previous && ( 
+                      <> 
+                        <Line dataKey="previousCalls" name="calls (previous)" stroke="#2563eb" strokeDasharray="4 3" dot={false} /> 
+                        <Line dataKey="previousBops" name="bops (previous)" stroke="#f97316" strokeDasharray="4 3" dot={false} /> 
+                        <Line dataKey="previousFollowups" name="followups (previous)" stroke="#10b981" strokeDasharray="4 3" dot={false} /> 
+                      </> 
+                    )} 
+                  </ComposedChart> 
                 </ResponsiveContainer> 
               </div> 
               {trendLoading && <div className="mt-2 text-xs text-black">Loading…</div>} 
@@ -930,6 +921,9 @@ export default function Dashboard() {
             <div className="text-sm text-black">Results are hidden.</div> 
           )} 
         </Card> 
+        <FunnelCard ownerIds={ownerIds} agents={agents} /> 
+        {can(session?.role, "records.view_all") && <LeaderboardCard ownerIds={ownerIds} agents={agents} />} 
+        <GoalsCard ownerIds={ownerIds} agents={agents} session={session} /> 
         <Card title="Upcoming Meetings📣"> 
           <div className="grid md:grid-cols-5 gap-3 items-end"> 
             <label className="block md:col-span-1"> 
@@ -945,9 +939,8 @@ export default function Dashboard() {
               <Button 
                 variant="secondary" 
                 onClick={() => { 
-                  const today = new Date(); 
-                  const start = format(today, "yyyy-MM-dd"); 
-                  const end = format(addDays(today, 30), "yyyy-MM-dd"); 
+                  const start = todayKey(timeZone); 
+                  const end = addDaysToKey(start, 30); 
                   setRangeStart(start); 
                   setRangeEnd(end); 
                   fetchUpcoming(); 
@@ -957,6 +950,10 @@ export default function Dashboard() {
                 {upcomingLoading ? "Refreshing…" : "🔄"} 
               </Button> 
              <Button variant="secondary" onClick={exportUpcomingXlsx} disabled={upcoming.length === 0}>📤</Button> 
+             <Button variant="secondary" onClick={exportUpcomingIcs} disabled={upcoming.length === 0}>Export .ics</Button> 
+             <Button variant="secondary" onClick={() => setUpcomingCalendar((v) => !v)} disabled={!upcomingVisible}> 
+                {upcomingCalendar ? "Table📋" : "Calendar📅"} 
+              </Button> 
              <Button variant="secondary" onClick={() => {
                const willShow = !upcomingVisible;
                setUpcomingVisible(willShow);
@@ -999,9 +996,18 @@ export default function Dashboard() {
               Click headers to sort: <b>Client Name</b>, <b>Created Date</b>, <b>BOP Date</b>, <b>BOP Status</b>, <b>Follow-Up Date</b>, <b>Status</b>. 
             </div> 
           </div> 
-          {upcomingVisible && ( 
+          {upcomingVisible && upcomingCalendar && ( 
+            <MeetingCalendar 
+              ownerIds={ownerIds} 
+              timeZone={timeZone} 
+              refreshKey={historyKey} 
+              onReschedule={(id, field, input) => updateCell(id, field, input)} 
+            /> 
+          )} 
+          {upcomingVisible && !upcomingCalendar && ( 
             <ExcelTableEditable 
               rows={upcomingSlice} 
+              timeZone={timeZone} 
               savingId={savingId} 
               onUpdate={updateCell} 
               preferredOrder={[ 
@@ -1011,16 +1017,17 @@ export default function Dashboard() {
                 "spouse_name", "date_of_birth", "children", "city", "state", "profession", "work_details", "immigration_status", 
                 "referred_by", "preferred_days", "preferred_time", 
               ]} 
-              extraLeftCols={[{ label: "Client Name", sortable: "client", render: (r) => clientName(r) }]} 
+              extraLeftCols={[{ label: "Client Name", sortable: "client", render: (r) => clientName(r) }, agentCol]} 
+              onOpenClient={setDrawerClientId} 
               maxHeightClass="max-h-[420px]" 
               sortState={sortUpcoming} 
               onSortChange={(k) => setSortUpcoming((cur) => toggleSort(cur, k))} 
               stickyLeftCount={1} 
-              nonEditableKeys={new Set(["spouse_name", "date_of_birth", "children", "city", "work_details"])} 
+              nonEditableKeys={new Set(["spouse_name", "date_of_birth", "children", "city", "work_details", ...statusLockedKeys])} 
               viewOnlyPopupKeys={new Set(["work_details"])} 
             /> 
           )} 
-          {upcomingVisible && (
+          {upcomingVisible && !upcomingCalendar && (
             <div className="mt-2 text-xs text-black">
               Page {upcomingPageSafe + 1} of {upcomingTotalPages} • Showing {upcomingSlice.length} of {upcoming.length} records • {UPCOMING_PAGE_SIZE} per page
             </div>
@@ -1065,7 +1072,7 @@ export default function Dashboard() {
             </div> 
           </div> 
           <div className="text-xs text-black mb-2">Click headers to sort.</div> 
-          {progressVisible && (<ProgressSummaryTable rows={progressSlice} sortState={progressSort} onSortChange={(k) => setProgressSort((cur) => toggleProgressSort(cur, k))} />)} 
+          {progressVisible && (<ProgressSummaryTable rows={progressSlice} timeZone={timeZone} sortState={progressSort} onSortChange={(k) => setProgressSort((cur) => toggleProgressSort(cur, k))} onOpenClient={setDrawerClientId} />)} 
           {progressVisible && (
             <div className="mt-2 text-xs text-black">
               Page {progressPageSafe + 1} of {progressTotalPages} • Showing {progressSlice.length} of {progressFilteredSorted.length} records • {PROGRESS_PAGE_SIZE} per page
@@ -1079,6 +1086,19 @@ export default function Dashboard() {
               <Button variant="secondary" onClick={() => loadPage(0)} disabled={!recordsVisible}>➡️</Button> 
               <Button variant="secondary" onClick={() => { clearSaveState(); setQ(""); loadPage(0); }} disabled={!recordsVisible}>🔄</Button> 
               <Button variant="secondary" onClick={saveSelectedRecord} disabled={!saveEnabled || batchSaving || !selectedRecordId}>Save</Button> 
+              <Button variant="secondary" onClick={() => setHistoryOpen((v) => !v)} disabled={!selectedRecordId}>{historyOpen ? "Hide History" : "History"}</Button>
+              <Button variant="secondary" onClick={() => setQueryOpen((v) => !v)}>
+                {queryOpen ? "Hide Advanced" : "Advanced🔎"}{countConditions(recordsQuery) ? ` (${countConditions(recordsQuery)})` : ""}
+              </Button>
+              {can(session?.role, "records.reassign") && (
+                <div className="flex items-center gap-1">
+                  <select className="border border-slate-300 bg-white px-2 py-2 text-sm" value={reassignTo} onChange={(e) => setReassignTo(e.target.value)} disabled={!selectedRecordId}>
+                    <option value="">Reassign to…</option>
+                    {agents.map((a) => (<option key={a.id} value={a.id}>{agentLabel(a)}</option>))}
+                  </select>
+                  <Button variant="secondary" onClick={reassignSelectedRecord} disabled={!selectedRecordId || !reassignTo || savingId != null}>Assign</Button>
+                </div>
+              )}
               <Button variant="secondary" onClick={() => {
                 const willShow = !recordsVisible;
                 setRecordsVisible(willShow);
@@ -1097,26 +1117,45 @@ export default function Dashboard() {
               <Button variant="secondary" onClick={() => loadPage(page + 1)} disabled={!canNext || loading}>▶️</Button> 
             </div> 
           </div> 
-          <div className="text-sm text-black mb-2">{total.toLocaleString()} records • showing {ALL_PAGE_SIZE} per page</div> 
+          <ClientViewsBar agentId={session?.id ?? null} current={currentView} onApply={applyView} />
+          {queryOpen && <QueryBuilder value={recordsQuery} labelFor={labelFor} onApply={setRecordsQuery} />}
+          <div className="text-sm text-black mb-2">
+            {total.toLocaleString()} records • showing {ALL_PAGE_SIZE} per page
+            {Object.keys(recordsColumnFilters).length > 0 && (
+              <button type="button" className="ml-3 text-xs font-semibold text-blue-600 hover:underline" onClick={() => setRecordsColumnFilters({})}>
+                Clear column filters
+              </button>
+            )}
+          </div> 
    
 <div className="flex gap-4 mb-2 text-xs font-semibold text-black">
   <div className="px-3 py-1 text-xs font-bold rounded text-center">Client Status:</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#B1FB17] rounded"></span>New Client {records.filter(r => r.client_status === "New Client").length} / {statusCounts["client_status_New Client"] || 0}</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#728FCE] rounded"></span>Interested {records.filter(r => r.client_status === "Interested").length} / {statusCounts["client_status_Interested"] || 0}</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#ADDFFF] rounded"></span>In-Progress {records.filter(r => r.client_status === "In-Progress").length} / {statusCounts["client_status_In-Progress"] || 0}</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#C9BE62] rounded"></span>On Hold {records.filter(r => r.client_status === "On Hold").length} / {statusCounts["client_status_On Hold"] || 0}</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#E6BF83] rounded"></span>Closed {records.filter(r => r.client_status === "Closed").length} / {statusCounts["client_status_Closed"] || 0}</div>
-  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#3CB371] rounded"></span>Policy Issued {records.filter(r => r.client_status === "Policy Issued").length} / {statusCounts["client_status_Policy Issued"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#B1FB17] rounded"></span>New Client {statusCounts["client_status_New Client"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#728FCE] rounded"></span>Interested {statusCounts["client_status_Interested"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#ADDFFF] rounded"></span>In-Progress {statusCounts["client_status_In-Progress"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#C9BE62] rounded"></span>On Hold {statusCounts["client_status_On Hold"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#E6BF83] rounded"></span>Closed {statusCounts["client_status_Closed"] || 0}</div>
+  <div className="flex items-center gap-1"><span className="inline-block w-3 h-3 bg-[#3CB371] rounded"></span>Policy Issued {statusCounts["client_status_Policy Issued"] || 0}</div>
 </div>
 
+{historyOpen && selectedRecordId && (
+            <div className="mb-3">
+              <HistoryPanel
+                table="client_registrations"
+                recordId={selectedRecordId}
+                refreshKey={historyKey}
+                title={`History — ${clientName(records.find((r) => String(r.id) === String(selectedRecordId)) ?? {}) || "Selected client"}`}
+              />
+            </div>
+          )}
 {recordsVisible && ( 
             <> 
               {loading ? ( 
                 <div className="text-black">Loading…</div> 
               ) : ( 
                 <ExcelTableEditable 
-                  rows={filteredRecords} 
-                  allRows={records}
+                  rows={records} 
+                  timeZone={timeZone} 
                   savingId={savingId} 
                   onUpdate={updateCell} 
                   preferredOrder={[ 
@@ -1126,17 +1165,21 @@ export default function Dashboard() {
                     "spouse_name", "date_of_birth", "children", "city", "state", "profession", "work_details", "immigration_status", 
                     "referred_by", "preferred_days", "preferred_time", 
                   ]} 
-                  extraLeftCols={[{ label: "Client Name", sortable: "client", render: (r) => clientName(r) }]} 
+                  extraLeftCols={[{ label: "Client Name", sortable: "client", render: (r) => clientName(r) }, agentCol]} 
+                  onOpenClient={setDrawerClientId} 
                   maxHeightClass="max-h-[560px]" 
                   sortState={sortAll} 
                   onSortChange={(k) => setSortAll((cur) => toggleSort(cur, k))} 
                   stickyLeftCount={1} 
+                  nonEditableKeys={statusLockedKeys}
                   viewOnlyPopupKeys={new Set()} 
                 deferSave={true} 
                   onRowSelect={handleRowSelect} 
                   onPendingChange={handlePendingChange} 
                   resetDraftsToken={resetDraftsToken} 
+                  seedDrafts={pendingDraftCells}
                   columnFilters={recordsColumnFilters}
+                  filterValues={loadFilterValues}
                   onColumnFilterChange={(key, values) => {
                     setRecordsColumnFilters(prev => {
                       const next = { ...prev };
@@ -1154,10 +1197,22 @@ export default function Dashboard() {
           )} 
         </Card> 
       </div> 
+      {drawerClientId && ( 
+        <ClientDrawer clientId={drawerClientId} timeZone={timeZone} agents={agents} refreshKey={historyKey} onClose={() => setDrawerClientId(null)} /> 
+      )} 
     </div> 
   ); 
 } 
-function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[]; sortState: { key: ProgressSortKey; dir: SortDir }; onSortChange: (k: ProgressSortKey) => void; }) { 
+/** A client name linking to the client page, with 🕘 opening the drawer; neither selects the row */
+function ClientNameButton({ id, name, onClick }: { id: string; name: string; onClick: () => void }) { 
+  return ( 
+    <span className="inline-flex items-center gap-1"> 
+      <Link href={clientPath(id)} className="hover:underline" title="Open client page" onClick={(e) => e.stopPropagation()}>{name || "—"}</Link> 
+      <button type="button" title="Open client details and timeline" onClick={(e) => { e.stopPropagation(); onClick(); }}>🕘</button> 
+    </span> 
+  ); 
+} 
+function ProgressSummaryTable({ rows, timeZone, sortState, onSortChange, onOpenClient }: { rows: ProgressRow[]; timeZone: string; sortState: { key: ProgressSortKey; dir: SortDir }; onSortChange: (k: ProgressSortKey) => void; onOpenClient?: (id: string) => void; }) { 
   const { widths, startResize } = useColumnResizer(); 
   const cols = useMemo(() => [ 
     { id: "client_name", label: "Client Name", key: "client_name" as ProgressSortKey, defaultW: 200 }, 
@@ -1183,13 +1238,14 @@ function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[];
     const d = new Date(v); 
     const t = d.getTime(); 
     if (!Number.isFinite(t)) return "—"; 
+    const w = wallClock(d, timeZone); 
     
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    const year = d.getFullYear();
+    const month = String(w.month).padStart(2, '0');
+    const day = String(w.day).padStart(2, '0');
+    const year = w.year;
     
-    let hours = d.getHours();
-    const minutes = String(d.getMinutes()).padStart(2, '0');
+    let hours = w.hour;
+    const minutes = String(w.minute).padStart(2, '0');
     const ampm = hours >= 12 ? 'PM' : 'AM';
     hours = hours % 12;
     hours = hours ? hours : 12; // the hour '0' should be '12'
@@ -1200,11 +1256,8 @@ function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[];
   
   // Check if date is in current month
   const isCurrentMonth = (v: any) => {
-    if (!v) return false;
-    const d = new Date(v);
-    if (!Number.isFinite(d.getTime())) return false;
-    const now = new Date();
-    return d.getMonth() === now.getMonth() && d.getFullYear() === now.getFullYear();
+    const month = monthKey(v, timeZone);
+    return !!month && month === todayKey(timeZone).slice(0, 7);
   };
   
   const fmtCount = (v: any) => { const n = Number(v); if (!Number.isFinite(n)) return "—"; return String(n); }; 
@@ -1239,7 +1292,7 @@ function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[];
         </thead> 
         <tbody> 
           {rows.map((r, ridx) => ( 
-            <tr key={String((r as any).clientid ?? ridx)} className="hover:bg-slate-50"> 
+            <tr key={String(r.clientid ?? ridx)} className="hover:bg-slate-50"> 
               {cols.map((c, idx) => { 
                 const w = getW(c.id, c.defaultW); 
                 const isSticky = idx === 0; 
@@ -1275,6 +1328,9 @@ function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[];
                   tdClass += " bg-yellow-100";
                 }
                 
+                if (c.id === "client_name" && onOpenClient && r.clientid) { 
+                  return (<td key={c.id} className={`${tdClass} font-semibold text-black`} style={style}><ClientNameButton id={String(r.clientid)} name={v} onClick={() => onOpenClient(String(r.clientid))} /></td>); 
+                } 
                 return (<td key={c.id} className={`${tdClass} ${isSticky ? "font-semibold text-black" : ""}`} style={style}>{v}</td>); 
               })} 
             </tr> 
@@ -1285,26 +1341,44 @@ function ProgressSummaryTable({ rows, sortState, onSortChange }: { rows: Row[];
   ); 
 } 
 function ExcelTableEditable({ 
-  rows, allRows, savingId, onUpdate, extraLeftCols, maxHeightClass, sortState, onSortChange, preferredOrder, stickyLeftCount = 1, nonEditableKeys = new Set<string>(), viewOnlyPopupKeys = new Set<string>(), 
-  deferSave = false, onRowSelect, onPendingChange, resetDraftsToken, columnFilters, onColumnFilterChange,
+  rows, timeZone, savingId, onUpdate, extraLeftCols, maxHeightClass, sortState, onSortChange, preferredOrder, stickyLeftCount = 1, nonEditableKeys = new Set<string>(), viewOnlyPopupKeys = new Set<string>(), 
+  deferSave = false, onRowSelect, onPendingChange, resetDraftsToken, seedDrafts, columnFilters, onColumnFilterChange, filterValues, hiddenKeys = HIDDEN_KEYS, onOpenClient,
 }: { 
-  rows: Row[]; allRows?: Row[]; savingId: string | null; onUpdate: (id: string, key: string, value: string) => Promise<void>; 
-  extraLeftCols: { label: string; render: (r: Row) => string; sortable?: SortKey }[]; maxHeightClass: string; 
+  rows: ClientRegistration[]; timeZone: string; savingId: string | null; onUpdate: (id: string, key: string, value: string) => Promise<void>; 
+  extraLeftCols: { label: string; render: (r: ClientRegistration) => string; sortable?: SortKey }[]; maxHeightClass: string; 
   sortState: { key: SortKey; dir: SortDir }; onSortChange: (key: SortKey) => void; preferredOrder?: string[]; stickyLeftCount?: number; 
   nonEditableKeys?: Set<string>; viewOnlyPopupKeys?: Set<string>;
   deferSave?: boolean;
   onRowSelect?: (id: string) => void;
+  /** Shows a button on the first extra column (the client name) that opens the client drawer */
+  onOpenClient?: (id: string) => void;
   onPendingChange?: (id: string, key: string, value: string) => void;
   resetDraftsToken?: number;
+  /** Cell drafts (`${id}:${key}`) to show on mount, e.g. edits restored after a re-login */
+  seedDrafts?: Record<string, string>;
   columnFilters?: Record<string, Set<string>>;
   onColumnFilterChange?: (key: string, values: Set<string>) => void;
+  /** Values a column's filter menu offers, loaded when the menu opens */
+  filterValues?: (key: string) => Promise<string[]>;
+  hiddenKeys?: Set<string>;
 }) { 
   const { widths, startResize } = useColumnResizer(); 
   const [openCell, setOpenCell] = useState<string | null>(null); 
   const [drafts, setDrafts] = useState<Record<string, string>>({});
   const [openFilterKey, setOpenFilterKey] = useState<string | null>(null);
+  const [filterOptions, setFilterOptions] = useState<{ key: string; values: string[] | null } | null>(null);
   
-  const sourceRows = allRows || rows; // Use allRows for filter values if provided
+  const openFilter = async (key: string) => {
+    if (openFilterKey === key) return setOpenFilterKey(null);
+    setOpenFilterKey(key);
+    setFilterOptions({ key, values: null });
+    try {
+      const values = (await filterValues?.(key)) ?? [];
+      setFilterOptions((cur) => (cur?.key === key ? { key, values } : cur));
+    } catch {
+      setFilterOptions((cur) => (cur?.key === key ? { key, values: [] } : cur));
+    }
+  };
   
   // Close filter dropdown when clicking outside
   useEffect(() => {
@@ -1320,17 +1394,20 @@ function ExcelTableEditable({
     setDrafts({});
     setOpenCell(null);
   }, [resetDraftsToken]); 
+  useEffect(() => {
+    if (seedDrafts) setDrafts((prev) => ({ ...seedDrafts, ...prev }));
+  }, [seedDrafts]);
   const sortIcon = (k?: SortKey) => { if (!k) return null; if (sortState.key !== k) return <span className="ml-1 text-black">↕</span>; return <span className="ml-1 text-black">{sortState.dir === "asc" ? "↑" : "↓"}</span>; }; 
   const keys = useMemo(() => { 
     if (!rows.length) return [] as string[]; 
-    const baseKeys = Object.keys(rows[0]).filter((k) => k !== "id"); 
+    const baseKeys = Object.keys(rows[0]).filter((k) => k !== "id" && !hiddenKeys.has(k)); 
     if (!preferredOrder || !preferredOrder.length) return baseKeys; 
     const set = new Set(baseKeys); 
     const ordered: string[] = []; 
     for (const k of preferredOrder) if (set.has(k)) ordered.push(k); 
     for (const k of baseKeys) if (!ordered.includes(k)) ordered.push(k); 
     return ordered; 
-  }, [rows, preferredOrder]); 
+  }, [rows, preferredOrder, hiddenKeys]); 
   const WRAP_KEYS = new Set(["referred_by", "Product", "Comment", "Remark", "product", "comment", "remark", "immigration_status", "work_details"]); 
   const SAVE_KEY_NORMALIZE: Record<string, string> = { comment: "Comment", remark: "Remark", product: "Product", Comment: "Comment", Remark: "Remark", Product: "Product", ReferredBy: "referred_by", referredby: "referred_by" }; 
   const columns = useMemo(() => { 
@@ -1348,8 +1425,8 @@ function ExcelTableEditable({
   const getW = (id: string, def: number) => widths[id] ?? def; 
   const stickyLeftPx = (colIndex: number) => { let left = 0; for (let i = 0; i < colIndex; i++) { const c = (columns as any)[i]; left += getW(c.id, c.defaultW ?? 160); } return left; }; 
   const minWidth = (columns as any).reduce((sum: number, c: any) => sum + getW(c.id, c.defaultW ?? 160), 0); 
-  const getCellValueForInput = (r: Row, k: string) => { const isDateTime = DATE_TIME_KEYS.has(k); const isDateOnly = DATE_ONLY_KEYS.has(k); const val = r[k]; if (isDateTime) return toLocalInput(val); if (isDateOnly) return toLocalDateInput(val); return val ?? ""; }; 
-  const shouldHighlight = (k: string, r: Row) => HIGHLIGHT_DATE_KEYS.has(k) && dateOnOrAfterToday(r[k]); 
+  const getCellValueForInput = (r: ClientRegistration, k: string) => { const isDateTime = DATE_TIME_KEYS.has(k); const isDateOnly = DATE_ONLY_KEYS.has(k); const val = cellOf(r, k); if (isDateTime) return toZonedInput(val, timeZone); if (isDateOnly) return toDateInput(val); return val ?? ""; }; 
+  const shouldHighlight = (k: string, r: ClientRegistration) => HIGHLIGHT_DATE_KEYS.has(k) && dateOnOrAfterToday(cellOf(r, k), timeZone); 
   return ( 
     <div className={`overflow-auto border border-slate-500 bg-white ${maxHeightClass}`}> 
       <table className="w-full table-fixed border-collapse" style={{ minWidth }}> 
@@ -1362,22 +1439,10 @@ function ExcelTableEditable({
               const style: React.CSSProperties = { width: w, minWidth: w, maxWidth: w, position: isSticky ? "sticky" : undefined, left: isSticky ? stickyLeftPx(colIndex) : undefined, top: 0, zIndex: isTopLeft ? 50 : 20, background: isSticky ? "#f1f5f9" : undefined }; 
               const headerLabel = c.label; 
               const columnKey = c.key as string || c.id;
-              const hasFilter = columnFilters && onColumnFilterChange;
+              const hasFilter = !!(columnFilters && onColumnFilterChange && filterValues) && c.kind === "data" && isFilterableClientColumn(columnKey);
               const activeFilter = columnFilters?.[columnKey];
               const isFiltered = !!(activeFilter && activeFilter.size > 0);
-              
-              // Compute unique values inline (no hook - just a regular computation)
-              const uniqueValues: string[] = (() => {
-                if (!hasFilter) return [];
-                const values = new Set<string>();
-                (sourceRows || []).forEach((row: any) => {
-                  const val = row[columnKey];
-                  if (val !== null && val !== undefined && String(val).trim() !== '') {
-                    values.add(String(val));
-                  }
-                });
-                return Array.from(values).sort().slice(0, 100);
-              })();
+              const uniqueValues = filterOptions && filterOptions.key === columnKey ? filterOptions.values : null;
               
               return ( 
                 <th key={c.id} className="border border-slate-500 px-2 py-2 whitespace-nowrap relative" style={style}> 
@@ -1392,13 +1457,13 @@ function ExcelTableEditable({
                         <span className="truncate">{headerLabel}</span>
                       )} 
                     </div>
-                    {hasFilter && uniqueValues.length > 0 && (
+                    {hasFilter && (
                       <div className="relative">
                         <button
                           type="button"
                           onClick={(e) => {
                             e.stopPropagation();
-                            setOpenFilterKey(openFilterKey === columnKey ? null : columnKey);
+                            openFilter(columnKey);
                           }}
                           className={`p-1 hover:bg-slate-200 rounded text-xs ${isFiltered ? 'text-blue-600' : 'text-slate-600'}`}
                           title="Filter"
@@ -1428,7 +1493,9 @@ function ExcelTableEditable({
                               </button>
                             </div>
                             <div className="p-2">
-                              {uniqueValues.map(value => {
+                              {uniqueValues === null && <div className="p-1 text-sm text-slate-600">Loading…</div>}
+                              {uniqueValues?.length === 0 && <div className="p-1 text-sm text-slate-600">No values</div>}
+                              {uniqueValues?.map(value => {
                                 const isChecked = !isFiltered || !!(activeFilter && activeFilter.has(value));
                                 return (
                                   <label key={value} className="flex items-center gap-2 p-1 hover:bg-slate-50 cursor-pointer text-sm">
@@ -1475,17 +1542,17 @@ function ExcelTableEditable({
                   const idx = Number(String(c.id).split(":")[1] ?? "0"); 
                   const colDef = extraLeftCols[idx]; 
                   const v = colDef?.render ? colDef.render(r) : ""; 
-                  return (<td key={c.id} className={`border border-slate-300 px-2 py-2 whitespace-nowrap font-semibold text-black ${shouldHighlight(c.key as string, r) ? "bg-yellow-200" : ""}`} style={style}>{v}</td>); 
+                  const cell = idx === 0 && onOpenClient ? <ClientNameButton id={String(r.id)} name={v} onClick={() => onOpenClient(String(r.id))} /> : v; 
+                  return (<td key={c.id} className={`border border-slate-300 px-2 py-2 whitespace-nowrap font-semibold text-black ${shouldHighlight(c.key as string, r) ? "bg-yellow-200" : ""}`} style={style}>{cell}</td>); 
                 } 
                 const k = c.key as string; 
                 if (k === "created_at") { 
-                  const d = new Date(r.created_at); 
-                  const v = Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString(); 
+                  const v = formatInZone(r.created_at, timeZone, DATE_FORMAT); 
                   return (<td key={c.id} className={`border border-slate-300 px-2 py-2 whitespace-nowrap ${shouldHighlight(k, r) ? "bg-yellow-200" : ""}`} style={style}>{v}</td>); 
                 } 
                 const cellId = `${r.id}:${k}`; 
                 const statusOptions = optionsForKey(k); 
-                if (statusOptions) { 
+                if (statusOptions && !nonEditableKeys.has(k)) { 
                   const value = drafts[cellId] !== undefined ? drafts[cellId] : String(getCellValueForInput(r, k)); 
                   return ( 
                     <td key={c.id} className={`border border-slate-300 px-2 py-2 ${shouldHighlight(k, r) ? "bg-yellow-200" : ""}`} style={style}> 
@@ -1511,7 +1578,7 @@ function ExcelTableEditable({
                 } 
                 if (READONLY_LIST_COLS.has(k)) { 
                   const cellIdList = `${r.id}:${k}`; 
-                  const items = asListItems(r[k]); 
+                  const items = asListItems(cellOf(r, k)); 
                   const display = items.join(", "); 
                   const showPopup = openCell === cellIdList; 
                   return ( 
@@ -1553,14 +1620,10 @@ function ExcelTableEditable({
                   ); 
                 } 
                 if (nonEditableKeys.has(k)) { 
+                  const value = cellOf(r, k);
                   const displayVal = DATE_ONLY_KEYS.has(k) ? (() => { 
-                    if (!r[k] || r[k] === null || r[k] === undefined || String(r[k]).trim() === '') return "—";
-                    const d = new Date(r[k]); 
-                    const timestamp = d.getTime();
-                    if (Number.isNaN(timestamp) || timestamp < 0) return "—";
-                    const year = d.getFullYear();
-                    if (year === 1969 || year === 1970) return "—"; // Reject epoch dates
-                    return d.toLocaleDateString(); 
+                    const day = toDateInput(value); 
+                    return day ? formatInZone(`${day}T00:00:00Z`, "UTC", DATE_FORMAT) : "—"; 
                   })() : String(getCellValueForInput(r, k)) || "—"; 
                   return (<td key={c.id} className={`border border-slate-300 px-2 py-2 whitespace-normal break-words ${shouldHighlight(k, r) ? "bg-yellow-200" : ""}`} style={style}>{displayVal}</td>); 
                 } 
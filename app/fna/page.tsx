@@ -3,15 +3,28 @@
 
 export const dynamic = "force-dynamic";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { useRouter } from "next/navigation";
-import { getSupabase } from "@/lib/supabaseClient";
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { getRepository, type FnaRowsByTable } from "@/lib/repo";
+import { useRequireAuth } from "@/components/AuthProvider";
+import type { SessionPayload } from "@/lib/session";
+import { clearDraft, loadDraft, saveDraft } from "@/lib/drafts";
+import { HistoryPanel } from "@/components/HistoryPanel";
+import { RecentlyDeletedPanel, type DeletedItem } from "@/components/RecentlyDeletedPanel";
+import { can } from "@/lib/roles";
+import { clientPath } from "@/lib/clientFields";
+import { api } from "@/lib/api/client";
+import { watchSearchLinks } from "@/lib/search";
+import { confirmMeetingTimes } from "@/lib/scheduling";
+import { agentTimeZone, fromZonedInput } from "@/lib/timezone";
+import { SCOPE_LABELS, agentLabel, defaultScope, ownerIdsForScope, scopesForRole, type Agent, type Scope } from "@/lib/team";
+import { cellOf, type ClientRegistration, type FnaHeader, type FnaRow, type FnaRowInsert, type FnaRowTable, type FnaRowUpdate } from "@/lib/models";
 
 /**
  * Financial Needs Analysis (FNA) ” page.tsx
  *
  * Fixes included:
- * 1) Client search now queries public.client_registrations (via supabase().from("client_registrations"))
+ * 1) Client search now queries public.client_registrations (via getRepository().clients.search)
  *    using first_name / last_name / phone (ILIKE) and displays First, Last, Phone, Email.
  * 2) Selecting a client loads/creates an fna_header row, then fetches each tables data from the
  *    appropriate fna_* tables using fna_id.
@@ -23,89 +36,12 @@ import { getSupabase } from "@/lib/supabaseClient";
  */
 
 
-// Auth cookie utilities
-const AUTH_COOKIE = 'canfs_auth';
-
-function hasAuthCookie(): boolean {
-  if (typeof document === 'undefined') return false;
-  return document.cookie.split('; ').some((c) => c.startsWith(`${AUTH_COOKIE}=true`));
-}
-
-function clearAuthCookie(): void {
-  if (typeof document === 'undefined') return;
-  const secure =
-    typeof window !== 'undefined' && window.location?.protocol === 'https:' ? '; secure' : '';
-  document.cookie = `${AUTH_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
-}
-
 type UUID = string;
 
-type ClientRow = {
-  id: UUID;
-  first_name: string;
-  last_name: string;
-  phone: string;
-  email: string;
-};
-
-type FnaHeader = {
-  id: UUID;
-  client_id: UUID;
-  created_at?: string;
-  updated_at?: string;
-
-  // Tell us about you
-  spouse_name?: string | null;
-  spouse_dob?: string | null; // date
-  address?: string | null;
-  city?: string | null;
-  state?: string | null;
-  zip_code?: string | null;
-  client_dob?: string | null; // date
-  home_phone?: string | null;
-  mobile_phone?: string | null;
-  personal_email?: string | null;
-  spouse_mobile_phone?: string | null;
-  spouse_email?: string | null;
-
-  // Children / education
-  more_children_planned?: boolean | null;
-  more_children_count?: number | null;
-
-  // Goals / properties
-  goals_text?: string | null;
-  own_or_rent?: string | null;
-  properties_notes?: string | null;
-
-  // Assets (general)
-  has_old_401k?: boolean | null;
-  expects_lump_sum?: boolean | null;
-
-  // Life insurance need summary
-  li_debt?: number | null;
-  li_income?: number | null;
-  li_mortgage?: number | null;
-  li_education?: number | null;
-  li_total_needed?: number | null;
-  li_insurance_in_place?: number | null;
-  li_insurance_gap?: number | null;
-
-  // Estate / retirement questions
-  has_will?: boolean | null;
-  will_last_updated?: string | null; // date
-  has_trust?: boolean | null;
-  trust_type?: string | null;
-  trust_purpose?: string | null;
-  retirement_monthly_need?: number | null;
-  retirement_target_date?: string | null; // date
-  monthly_commitment?: number | null;
-
-  // Next appointment
-  next_appointment_date?: string | null; // date
-  next_appointment_time?: string | null; // time
-};
+type ClientRow = Pick<ClientRegistration, "id" | "first_name" | "last_name" | "phone" | "email">;
 
-type RowBase = { id: UUID; fna_id: UUID } & Record<string, any>;
+/** A tab row being edited; rows added in the UI carry a tmp_ id until saved */
+type TabRow<T extends FnaRowTable = FnaRowTable> = FnaRowInsert<T> & { id: UUID; fna_id: UUID };
 
 type SortConfig = {
   key: string | null;
@@ -135,6 +71,22 @@ const TAB_LABELS: Record<TabKey, string> = {
   insurance: "☂️Insurance",
   income_estate: "💲Income & 🏘️Estate",
 };
+
+/** The header's next appointment as a `datetime-local` value, when it has a date and a time */
+function appointmentKey(h: Partial<FnaHeader>): string | null {
+  return h.next_appointment_date && h.next_appointment_time ? `${h.next_appointment_date}T${h.next_appointment_time.slice(0, 5)}` : null;
+}
+
+/** Tab showing each FNA table, for global search links (?client=<id>&from=<table>) */
+const TAB_FOR_TABLE: Record<string, TabKey> = {
+  fna_header: "goals_properties",
+  fna_children: "client_family",
+  fna_properties: "goals_properties",
+  fna_assets: "assets",
+  fna_liabilities: "liabilities",
+  fna_insurance: "insurance",
+  fna_income: "income_estate",
+};
 const US_STATES = [
   "",
   "Alabama",
@@ -205,6 +157,117 @@ const INCOME_TYPES = [
   "OTHER",
 ];
 
+// ---------- Unsaved-edit drafts (kept across a forced re-login, see lib/drafts.ts) ----------
+type FnaTabRows = {
+  children: TabRow<"fna_children">[];
+  properties: TabRow<"fna_properties">[];
+  assets: TabRow<"fna_assets">[];
+  liabilities: TabRow<"fna_liabilities">[];
+  insurance: TabRow<"fna_insurance">[];
+  income: TabRow<"fna_income">[];
+  tax_refund: TabRow<"fna_tax_refund">[];
+};
+
+type FnaSnapshot = { header: FnaHeader; rows: FnaTabRows };
+
+/** Tab list each row table is shown in */
+const TAB_OF_TABLE: Record<FnaRowTable, keyof FnaTabRows> = {
+  fna_children: "children",
+  fna_properties: "properties",
+  fna_assets: "assets",
+  fna_liabilities: "liabilities",
+  fna_insurance: "insurance",
+  fna_income: "income",
+  fna_tax_refund: "tax_refund",
+};
+
+/**
+ * Unsaved edits of one FNA: only the fields that differ from what the server
+ * last sent, with the server values they replace so a newer change is noticed.
+ */
+type FnaDraft = {
+  /** header.updated_at the edits were made against */
+  basedOn: string;
+  header: Record<string, unknown>;
+  rows: Partial<Record<keyof FnaTabRows, FnaTabDraft>>;
+};
+
+/** Changed fields of saved rows, and new rows not saved yet */
+type FnaTabDraft = {
+  edited: { id: string; base: Record<string, unknown>; value: Record<string, unknown> }[];
+  added: Record<string, unknown>[];
+};
+
+const fnaDraftKey = (fnaId: UUID) => `fna:${fnaId}`;
+const DRAFT_IGNORED_KEYS = new Set(["id", "fna_id", "client_id", "created_at", "updated_at"]);
+
+const sameValue = (a: unknown, b: unknown) => String(a ?? "") === String(b ?? "");
+
+function changedKeys(current: Record<string, any>, base: Record<string, any> | undefined): string[] {
+  return Object.keys(current).filter((k) => !DRAFT_IGNORED_KEYS.has(k) && !sameValue(current[k], base?.[k]));
+}
+
+const pick = (from: Record<string, any>, keys: string[]) => Object.fromEntries(keys.map((k) => [k, from[k]]));
+
+/** The edits in `current` since `server` was loaded or saved, or null if there are none */
+function fnaDraft(current: FnaSnapshot, server: FnaSnapshot): FnaDraft | null {
+  const headerKeys = changedKeys(current.header, server.header);
+  const draft: FnaDraft = { basedOn: server.header.updated_at, header: pick(current.header, headerKeys), rows: {} };
+  let dirty = headerKeys.length > 0;
+  for (const tab of Object.keys(current.rows) as (keyof FnaTabRows)[]) {
+    const serverRows = new Map<string, Record<string, any>>(server.rows[tab].map((r) => [String(r.id), r]));
+    const edited: FnaTabDraft = { edited: [], added: [] };
+    for (const row of current.rows[tab] as Record<string, any>[]) {
+      const base = serverRows.get(String(row.id));
+      if (!base) {
+        if (String(row.id).startsWith("tmp_") && changedKeys(row, undefined).length) edited.added.push(row);
+        continue;
+      }
+      const keys = changedKeys(row, base);
+      if (keys.length) edited.edited.push({ id: String(row.id), base: pick(base, keys), value: pick(row, keys) });
+    }
+    if (edited.edited.length || edited.added.length) {
+      draft.rows[tab] = edited;
+      dirty = true;
+    }
+  }
+  return dirty ? draft : null;
+}
+
+/**
+ * Freshly loaded data with a draft's edits on top, or null when the draft is
+ * out of date: the header was saved since, or an edited row changed or went away.
+ */
+function applyFnaDraft(draft: FnaDraft, loaded: FnaSnapshot): FnaSnapshot | null {
+  if (!draft.basedOn || new Date(loaded.header.updated_at).getTime() > new Date(draft.basedOn).getTime()) return null;
+  const rows: Record<string, Record<string, unknown>[]> = { ...loaded.rows };
+  for (const tab of Object.keys(draft.rows ?? {}) as (keyof FnaTabRows)[]) {
+    const { edited = [], added = [] } = draft.rows[tab] ?? {};
+    const list = (loaded.rows[tab] ?? []) as Record<string, any>[];
+    for (const edit of edited) {
+      const row = list.find((r) => String(r.id) === edit.id);
+      if (!row || Object.keys(edit.base).some((k) => !sameValue(row[k], edit.base[k]))) return null;
+    }
+    const merged = list.map((r) => {
+      const edit = edited.find((e) => e.id === String(r.id));
+      return edit ? { ...r, ...edit.value } : r;
+    });
+    rows[tab] = [...merged, ...added.map((r) => ({ ...r, fna_id: loaded.header.id }))];
+  }
+  return { header: { ...loaded.header, ...draft.header }, rows: rows as FnaTabRows };
+}
+
+// Column that names a row in the "Recently deleted" list
+const DELETED_ROW_TITLES: Record<FnaRowTable, { label: string; key: string }> = {
+  fna_children: { label: "Child", key: "child_name" },
+  fna_properties: { label: "Property", key: "address" },
+  fna_assets: { label: "Asset", key: "asset_name" },
+  fna_liabilities: { label: "Liability", key: "liability_type" },
+  fna_insurance: { label: "Insurance", key: "insured_role" },
+  fna_income: { label: "Income", key: "fna_income_role" },
+  fna_tax_refund: { label: "Tax Refund", key: "last_year_tax_refund" },
+};
+
 function tmpId(prefix: string) {
   return `tmp_${prefix}_${Math.random().toString(16).slice(2)}_${Date.now()}`;
 }
@@ -228,15 +291,10 @@ function asTimeInput(v: any): string {
   return "";
 }
 
-function sanitizeSearchTerm(s: string) {
-  // Supabase `or()` filter uses comma separators; remove commas + parentheses to avoid breaking filter string.
-  return s.replace(/[,()]/g, " ").trim();
-}
-
 type FieldType = "text" | "textarea" | "number" | "date" | "time" | "bool" | "select";
 
-type FieldDef = {
-  key: string;
+type FieldDef<K extends string = string> = {
+  key: K;
   label: string;
   type: FieldType;
   options?: string[];
@@ -254,6 +312,14 @@ function coerceValue(type: FieldType, raw: any) {
   return raw;
 }
 
+/** Columns of one tab table / of the header, checked against the schema */
+type ColumnsOf<T extends FnaRowTable> = FieldDef<keyof FnaRow<T> & string>[];
+type HeaderField = FieldDef<keyof FnaHeader & string>;
+
+function inputText(v: unknown): string {
+  return v == null ? "" : String(v);
+}
+
 function TopButton({
   onClick,
   children,
@@ -406,7 +472,7 @@ function Field({
   );
 }
 
-function EditableTable({
+function EditableTable<R extends TabRow>({
   title,
   rows,
   setRows,
@@ -416,11 +482,11 @@ function EditableTable({
   addLabel = "Add Row",
 }: {
   title: string;
-  rows: RowBase[];
-  setRows: React.Dispatch<React.SetStateAction<RowBase[]>>;
-  columns: FieldDef[];
-  onSaveRow: (row: RowBase) => Promise<void>;
-  onDeleteRow: (row: RowBase) => Promise<void>;
+  rows: R[];
+  setRows: React.Dispatch<React.SetStateAction<R[]>>;
+  columns: FieldDef<keyof R & string>[];
+  onSaveRow: (row: R) => Promise<void>;
+  onDeleteRow: (row: R) => Promise<void>;
   addLabel?: string;
 }) {
   const [saving, setSaving] = useState<Record<string, boolean>>({});
@@ -443,7 +509,7 @@ function EditableTable({
               {
                 id: tmpId("row"),
                 fna_id: prev[0]?.fna_id ?? "",
-              },
+              } as R,
             ]);
           }}
         >
@@ -478,7 +544,7 @@ function EditableTable({
                       {c.type === "textarea" ? (
                         <textarea
                           className="w-full rounded-lg border border-slate-300 px-2 py-2 text-sm min-h-[60px]"
-                          value={r[c.key] ?? ""}
+                          value={inputText(r[c.key])}
                           onChange={(e) =>
                             setRows((prev) =>
                               prev.map((x) => (x.id === r.id ? { ...x, [c.key]: e.target.value } : x))
@@ -488,7 +554,7 @@ function EditableTable({
                       ) : c.type === "select" ? (
                         <select
                           className="w-full rounded-lg border border-slate-300 px-2 py-2 text-sm"
-                          value={r[c.key] ?? ""}
+                          value={inputText(r[c.key])}
                           onChange={(e) =>
                             setRows((prev) =>
                               prev.map((x) => (x.id === r.id ? { ...x, [c.key]: e.target.value } : x))
@@ -521,7 +587,7 @@ function EditableTable({
                               ? asDateInput(r[c.key])
                               : c.type === "time"
                               ? asTimeInput(r[c.key])
-                              : r[c.key] ?? ""
+                              : inputText(r[c.key])
                           }
                           onChange={(e) =>
                             setRows((prev) =>
@@ -575,15 +641,12 @@ function EditableTable({
 }
 
 export default function Page() {
-  const router = useRouter();
-  // Lazily initialize Supabase  on the  runtime only
-  const supabaseRef = useRef<ReturnType<typeof getSupabase> | null>(null);
-  const supabase = () => {
-    if (!supabaseRef.current) supabaseRef.current = getSupabase();
-    return supabaseRef.current!;
-  };
-
+  const auth = useRequireAuth();
   const [authChecked, setAuthChecked] = useState(false);
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [scope, setScope] = useState<Scope>("mine");
+  const ownerIds = useMemo(() => ownerIdsForScope(scope, session, agents), [scope, session, agents]);
 
   //  search
   const [search, setSearch] = useState("");
@@ -604,38 +667,44 @@ export default function Page() {
   // Selected client + FNA
   const [selectedClient, setSelectedClient] = useState<ClientRow | null>(null);
   const [activeTab, setActiveTab] = useState<TabKey>("client_family");
+  // The next appointment as last loaded or saved, so only a changed one is checked for clashes
+  const [savedAppointment, setSavedAppointment] = useState<string | null>(null);
 
   const [fnaHeader, setFnaHeader] = useState<FnaHeader | null>(null);
   const [fnaId, setFnaId] = useState<UUID | null>(null);
+  // The open FNA as the server last sent it; the draft is what differs from this
+  const [serverFna, setServerFna] = useState<FnaSnapshot | null>(null);
 
-  const [childrenRows, setChildrenRows] = useState<RowBase[]>([]);
-  const [propertyRows, setPropertyRows] = useState<RowBase[]>([]);
-  const [assetRows, setAssetRows] = useState<RowBase[]>([]);
-  const [liabilityRows, setLiabilityRows] = useState<RowBase[]>([]);
-  const [insuranceRows, setInsuranceRows] = useState<RowBase[]>([]);
-  const [incomeRows, setIncomeRows] = useState<RowBase[]>([]);
-  const [taxRefundRow, setTaxRefundRow] = useState<RowBase | null>(null);
+  const [childrenRows, setChildrenRows] = useState<TabRow<"fna_children">[]>([]);
+  const [propertyRows, setPropertyRows] = useState<TabRow<"fna_properties">[]>([]);
+  const [assetRows, setAssetRows] = useState<TabRow<"fna_assets">[]>([]);
+  const [liabilityRows, setLiabilityRows] = useState<TabRow<"fna_liabilities">[]>([]);
+  const [insuranceRows, setInsuranceRows] = useState<TabRow<"fna_insurance">[]>([]);
+  const [incomeRows, setIncomeRows] = useState<TabRow<"fna_income">[]>([]);
+  const [taxRefundRow, setTaxRefundRow] = useState<TabRow<"fna_tax_refund"> | null>(null);
 
   const [loadingFna, setLoadingFna] = useState(false);
   const [savingHeader, setSavingHeader] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0); // bump to reload the History panel after a save
+  const [deletedOpen, setDeletedOpen] = useState(false);
+  const [deletedRows, setDeletedRows] = useState<{ table: FnaRowTable; row: FnaRow }[]>([]);
+  const [deletedLoading, setDeletedLoading] = useState(false);
+  const [deletedError, setDeletedError] = useState<string | null>(null);
 
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
 
   // ---------- Auth gate ----------
   useEffect(() => {
+    // useRequireAuth handles the login redirect
+    const session = auth.session;
+    if (!session) return;
     (async () => {
       try {
-        // Check cookie first (fast)
-        const cookieOk = hasAuthCookie();
-        if (!cookieOk) {
-          // Fallback to Supabase session check
-          const { data } = await supabase().auth.getSession();
-          if (!data.session) {
-            router.replace("/auth");
-            return;
-          }
-        }
+        setScope(defaultScope(session.role));
+        setSession(session);
+        setAgents(await getRepository().agents.list());
       } catch {
         // ignore; page will show error on subsequent calls
       } finally {
@@ -643,16 +712,31 @@ export default function Page() {
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [auth.session?.id]);
 
-  async function logout() {
-    try {
-      await supabase().auth.signOut();
-    } finally {
-      clearAuthCookie();
-      router.replace("/auth");
-    }
-  }
+  // Global search links here with ?client=<id>&from=<table>: open that client's FNA on the matching tab
+  useEffect(() => {
+    if (!authChecked) return;
+    return watchSearchLinks("/fna", (params) => {
+      const id = params.get("client");
+      if (!id) return;
+      void (async () => {
+        try {
+          const client = await getRepository().clients.get(id);
+          if (!client) {
+            setError("That client no longer exists.");
+            return;
+          }
+          const { first_name, last_name, phone, email } = client;
+          await loadFnaForClient({ id: client.id, first_name, last_name, phone, email });
+          setActiveTab(TAB_FOR_TABLE[params.get("from") ?? ""] ?? "client_family");
+        } catch (e: any) {
+          setError(e?.message ?? "Failed to open the client.");
+        }
+      })();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authChecked]);
 
   // Client table resize effect
   useEffect(() => {
@@ -714,28 +798,13 @@ export default function Page() {
 
     return () => clearTimeout(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [search, authChecked, clientSort]);
+  }, [search, authChecked, clientSort, ownerIds]);
 
   async function searchClients(term: string) {
     setError(null);
     setClientLoading(true);
     try {
-      const needle = sanitizeSearchTerm(term);
-      let q = supabase().from("client_registrations")
-        .select("id, first_name, last_name, phone, email")
-        .order("created_at", { ascending: false })
-        .limit(50);
-
-      if (needle) {
-        q = q.or(
-          `first_name.ilike.%${needle}%,last_name.ilike.%${needle}%,phone.ilike.%${needle}%`
-        );
-      }
-
-      const { data, error: qErr } = await q;
-      if (qErr) throw qErr;
-
-      let results = (data ?? []) as ClientRow[];
+      const results: ClientRow[] = await getRepository().clients.search({ ownerIds, search: term });
       
       // Apply client-side sorting
       if (clientSort.key) {
@@ -762,26 +831,8 @@ export default function Page() {
 
   // ---------- FNA load ----------
   async function ensureHeaderForClient(clientId: UUID): Promise<FnaHeader> {
-    const { data: existing, error: e1 } = await supabase().from("fna_header")
-      .select("*")
-      .eq("client_id", clientId)
-      .order("updated_at", { ascending: false })
-      .limit(1);
-
-    if (e1) throw e1;
-
-    if (existing && existing.length > 0) {
-      return existing[0] as FnaHeader;
-    }
-
-    const { data: inserted, error: e2 } = await supabase().from("fna_header")
-      .insert({ client_id: clientId })
-      .select("*")
-      .limit(1);
-
-    if (e2) throw e2;
-    if (!inserted || inserted.length === 0) throw new Error("Failed to create FNA header.");
-    return inserted[0] as FnaHeader;
+    // Latest header for the client, created server-side if missing
+    return api.fna.ensureHeader(clientId);
   }
 
   async function loadFnaForClient(client: ClientRow) {
@@ -794,6 +845,7 @@ export default function Page() {
     setActiveTab("client_family");
     setFnaHeader(null);
     setFnaId(null);
+    setServerFna(null);
     setChildrenRows([]);
     setPropertyRows([]);
     setAssetRows([]);
@@ -801,46 +853,52 @@ export default function Page() {
     setInsuranceRows([]);
     setIncomeRows([]);
     setTaxRefundRow(null);
+    setDeletedOpen(false);
+    setDeletedRows([]);
 
     try {
-      const header = await ensureHeaderForClient(client.id);
-      setFnaHeader(header);
-      setFnaId(header.id);
-
-      // Fetch all tab data in parallel
+      // A client without an FNA gets an empty header, created server-side
+      const fna = (await getRepository().fna.loadForClient(client.id)) ?? {
+        header: await ensureHeaderForClient(client.id),
+        rows: null,
+      };
+      const header = fna.header;
       const fna_id = header.id;
+      setSavedAppointment(appointmentKey(header));
+      const rows: Partial<FnaRowsByTable> = fna.rows ?? {};
+
+      const loaded: FnaSnapshot = {
+        header,
+        rows: {
+          children: rows.fna_children ?? [],
+          properties: rows.fna_properties ?? [],
+          assets: rows.fna_assets ?? [],
+          liabilities: rows.fna_liabilities ?? [],
+          insurance: rows.fna_insurance ?? [],
+          income: rows.fna_income ?? [],
+          tax_refund: (rows.fna_tax_refund ?? []).slice(0, 1),
+        },
+      };
 
-      const [
-        children,
-        props,
-        assets,
-        liabilities,
-        insurance,
-        incomes,
-        taxRefund,
-      ] = await Promise.all([
-        supabase().from("fna_children").select("*").eq("fna_id", fna_id).order("child_name", { ascending: true }),
-        supabase().from("fna_properties").select("*").eq("fna_id", fna_id).order("address", { ascending: true }),
-        supabase().from("fna_assets").select("*").eq("fna_id", fna_id).order("asset_name", { ascending: true }),
-        supabase().from("fna_liabilities").select("*").eq("fna_id", fna_id).order("liability_type", { ascending: true }),
-        supabase().from("fna_insurance").select("*").eq("fna_id", fna_id).order("insured_role", { ascending: true }),
-        supabase().from("fna_income").select("*").eq("fna_id", fna_id).order("fna_income_role", { ascending: true }),
-        supabase().from("fna_tax_refund").select("*").eq("fna_id", fna_id).limit(1),
-      ]);
-
-      for (const r of [children, props, assets, liabilities, insurance, incomes, taxRefund]) {
-        if ((r as any).error) throw (r as any).error;
-      }
-
-      setChildrenRows(((children as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-      setPropertyRows(((props as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-      setAssetRows(((assets as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-      setLiabilityRows(((liabilities as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-      setInsuranceRows(((insurance as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-      setIncomeRows(((incomes as any).data ?? []).map((x: any) => ({ ...x, fna_id })) as RowBase[]);
-
-      const tr = ((taxRefund as any).data ?? [])[0];
-      setTaxRefundRow(tr ? ({ ...tr, fna_id } as RowBase) : null);
+      // Put back edits that were not saved before the last forced sign-out,
+      // unless someone saved this FNA since
+      const draft = session ? loadDraft<FnaDraft>(session.id, fnaDraftKey(fna_id)) : null;
+      const restored = draft ? applyFnaDraft(draft, loaded) : null;
+      const view = restored ?? loaded;
+      if (session && draft && !restored) clearDraft(session.id, fnaDraftKey(fna_id));
+
+      setServerFna(loaded);
+      setFnaHeader(view.header);
+      setFnaId(fna_id);
+      setChildrenRows(view.rows.children);
+      setPropertyRows(view.rows.properties);
+      setAssetRows(view.rows.assets);
+      setLiabilityRows(view.rows.liabilities);
+      setInsuranceRows(view.rows.insurance);
+      setIncomeRows(view.rows.income);
+      setTaxRefundRow(view.rows.tax_refund[0] ?? null);
+      if (restored) setNotice("Restored unsaved FNA edits from your last session. Save each tab to keep them.");
+      else if (draft) setNotice("Unsaved FNA edits from your last session were dropped: this FNA was changed since.");
     } catch (e: any) {
       setError(e?.message ?? "Failed to load FNA.");
     } finally {
@@ -848,52 +906,67 @@ export default function Page() {
     }
   }
 
+  // Keep what differs from the server as a draft; nothing once it is all saved
+  useEffect(() => {
+    if (!session || !fnaHeader || !serverFna || loadingFna) return;
+    const current: FnaSnapshot = {
+      header: fnaHeader,
+      rows: {
+        children: childrenRows,
+        properties: propertyRows,
+        assets: assetRows,
+        liabilities: liabilityRows,
+        insurance: insuranceRows,
+        income: incomeRows,
+        tax_refund: taxRefundRow ? [taxRefundRow] : [],
+      },
+    };
+    const draft = fnaDraft(current, serverFna);
+    if (draft) saveDraft<FnaDraft>(session.id, fnaDraftKey(fnaHeader.id), draft);
+    else clearDraft(session.id, fnaDraftKey(fnaHeader.id));
+  }, [session, fnaHeader, serverFna, loadingFna, childrenRows, propertyRows, assetRows, liabilityRows, insuranceRows, incomeRows, taxRefundRow]);
+
+  /** Record what the server now holds for a row (null: it was deleted) */
+  function markRowSaved(table: FnaRowTable, id: UUID, saved: TabRow | null) {
+    const tab = TAB_OF_TABLE[table];
+    setServerFna((prev) => {
+      if (!prev) return prev;
+      const rest = (prev.rows[tab] as TabRow[]).filter((r) => r.id !== id);
+      return { ...prev, rows: { ...prev.rows, [tab]: saved ? [...rest, saved] : rest } };
+    });
+  }
+
   // ---------- Save header ----------
+  // Warn before a new next appointment double-books the client's agent (lib/scheduling.ts)
+  async function confirmAppointment(header: Partial<FnaHeader>): Promise<boolean> {
+    const key = appointmentKey(header);
+    if (!key || key === savedAppointment || !selectedClient) return true;
+    const repo = getRepository();
+    const client = await repo.clients.get(selectedClient.id);
+    if (!client?.owner_id) return true;
+    const ownerZone = agentTimeZone(agents.find((a) => a.id === client.owner_id));
+    const saved = savedAppointment ? fromZonedInput(savedAppointment, ownerZone) : null;
+    return confirmMeetingTimes(
+      repo,
+      { ...client, fna_appointment: saved },
+      { fna_appointment: fromZonedInput(key, ownerZone) },
+      { ownerZone, viewerZone: agentTimeZone(agents.find((a) => a.id === session?.id)) }
+    );
+  }
+
   async function saveHeader(partial?: Partial<FnaHeader>) {
     if (!fnaHeader) return;
     setSavingHeader(true);
     setError(null);
     setNotice(null);
     try {
-      const payload: Partial<FnaHeader> = {
-        ...(partial ?? fnaHeader),
-        updated_at: new Date().toISOString(),
-      };
-
-      // coerce numbers/bools where relevant
-      const numericKeys = new Set([
-        "more_children_count",
-        "li_debt",
-        "li_income",
-        "li_mortgage",
-        "li_education",
-        "li_total_needed",
-        "li_insurance_in_place",
-        "li_insurance_gap",
-        "retirement_monthly_need",
-        "monthly_commitment",
-      ]);
-
-      const boolKeys = new Set(["more_children_planned", "has_old_401k", "expects_lump_sum", "has_will", "has_trust"]);
-
-      const cleaned: any = {};
-      for (const [k, v] of Object.entries(payload)) {
-        if (k === "id" || k === "client_id" || k === "created_at") continue;
-        if (numericKeys.has(k)) cleaned[k] = v === "" || v == null ? null : Number(v);
-        else if (boolKeys.has(k)) cleaned[k] = v == null ? null : !!v;
-        else cleaned[k] = v === "" ? null : v;
-      }
-      cleaned.updated_at = payload.updated_at;
-
-      const { data, error: uErr } = await supabase().from("fna_header")
-        .update(cleaned)
-        .eq("id", fnaHeader.id)
-        .select("*")
-        .limit(1);
-
-      if (uErr) throw uErr;
-      const next = (data ?? [])[0] as FnaHeader | undefined;
-      if (next) setFnaHeader(next);
+      if (!(await confirmAppointment({ ...fnaHeader, ...partial }))) return;
+      // The API coerces numbers/bools and ignores id/client_id/timestamps
+      const next = await api.fna.updateHeader(fnaHeader.id, partial ?? fnaHeader);
+      setFnaHeader(next);
+      setServerFna((prev) => (prev ? { ...prev, header: next } : prev));
+      setSavedAppointment(appointmentKey(next));
+      setHistoryKey((k) => k + 1);
 
       setNotice("Saved.");
       setTimeout(() => setNotice(null), 2000);
@@ -905,18 +978,14 @@ export default function Page() {
   }
 
   // ---------- Generic row upsert/delete ----------
-  async function upsertRow(table: string, row: RowBase, columns: FieldDef[]) {
+  async function upsertRow<T extends FnaRowTable>(table: T, row: TabRow<T>, columns: ColumnsOf<T>): Promise<FnaRow<T>> {
     if (!fnaId) throw new Error("Missing FNA ID");
     const isTmp = String(row.id).startsWith("tmp_");
 
-    const payload: any = { ...row };
-    // remove local-only / temp-only
-    if (isTmp) delete payload.id;
-    payload.fna_id = fnaId;
-
-    // coerce values
+    // Only the tab's columns are sent; ids and timestamps stay with the server
+    const payload: Record<string, unknown> = {};
     for (const c of columns) {
-      payload[c.key] = coerceValue(c.type, payload[c.key]);
+      payload[c.key] = coerceValue(c.type, cellOf(row, c.key));
     }
 
     if (table === "fna_income") {
@@ -925,26 +994,87 @@ export default function Page() {
       payload.fna_income_type = payload.fna_income_type ?? "";
     }
 
-    if (isTmp) {
-      const { data, error } = await supabase().from(table).insert(payload).select("*").limit(1);
-      if (error) throw error;
-      return (data ?? [])[0] as RowBase | undefined;
-    } else {
-      const { data, error } = await supabase().from(table).update(payload).eq("id", row.id).select("*").limit(1);
-      if (error) throw error;
-      return (data ?? [])[0] as RowBase | undefined;
-    }
+    const changes = payload as FnaRowUpdate<T>;
+    const saved = isTmp ? await api.fna.createRow(table, fnaId, changes) : await api.fna.updateRow(table, row.id, changes);
+    markRowSaved(table, row.id, { ...(saved as FnaRow), fna_id: fnaId });
+    setHistoryKey((k) => k + 1);
+    return saved;
   }
 
-  async function deleteRow(table: string, row: RowBase) {
+  async function deleteRow(table: FnaRowTable, row: TabRow) {
     const isTmp = String(row.id).startsWith("tmp_");
     if (isTmp) return; // only local
-    const { error } = await supabase().from(table).delete().eq("id", row.id);
-    if (error) throw error;
+    await api.fna.deleteRow(table, row.id);
+    markRowSaved(table, row.id, null);
+    setHistoryKey((k) => k + 1);
+    if (deletedOpen) await loadDeletedRows();
+  }
+
+  // ---------- Recently deleted rows ----------
+  async function loadDeletedRows() {
+    if (!fnaId) return;
+    setDeletedLoading(true);
+    setDeletedError(null);
+    try {
+      setDeletedRows(await api.fna.deletedRows(fnaId));
+    } catch (e: any) {
+      setDeletedError(e?.message ?? "Failed to load deleted rows.");
+    } finally {
+      setDeletedLoading(false);
+    }
+  }
+
+  async function restoreRow(key: string) {
+    const item = deletedRows.find((d) => `${d.table}:${d.row.id}` === key);
+    if (!item || !fnaId) return;
+    setError(null);
+    try {
+      const restored: TabRow = { ...(await api.fna.restoreRow(item.table, item.row.id)), fna_id: fnaId };
+      markRowSaved(item.table, restored.id, restored);
+      // item.table says which tab list the row belongs to
+      const append = <R extends TabRow>(prev: R[]) => [...prev, restored as R];
+      if (item.table === "fna_children") setChildrenRows(append);
+      else if (item.table === "fna_properties") setPropertyRows(append);
+      else if (item.table === "fna_assets") setAssetRows(append);
+      else if (item.table === "fna_liabilities") setLiabilityRows(append);
+      else if (item.table === "fna_insurance") setInsuranceRows(append);
+      else if (item.table === "fna_income") setIncomeRows(append);
+      else if (item.table === "fna_tax_refund") setTaxRefundRow(restored as TabRow<"fna_tax_refund">);
+      setHistoryKey((k) => k + 1);
+      setNotice("Restored.");
+      setTimeout(() => setNotice(null), 1500);
+      await loadDeletedRows();
+    } catch (e: any) {
+      setError(e?.message ?? "Restore failed.");
+    }
   }
 
+  async function purgeDeletedRows() {
+    setError(null);
+    try {
+      await api.admin.purge();
+      await loadDeletedRows();
+    } catch (e: any) {
+      setError(e?.message ?? "Purge failed.");
+    }
+  }
+
+  const deletedItems = useMemo<DeletedItem[]>(
+    () =>
+      deletedRows.map(({ table, row }) => {
+        const t = DELETED_ROW_TITLES[table];
+        return {
+          key: `${table}:${row.id}`,
+          title: `${t.label}: ${cellOf(row, t.key) ?? "—"}`,
+          deletedAt: row.deleted_at ?? "",
+          deletedBy: agentLabel(agents.find((a) => a.id === row.deleted_by)) || undefined,
+        };
+      }),
+    [deletedRows, agents]
+  );
+
   // ---------- Tab column definitions ----------
-  const childCols: FieldDef[] = useMemo(
+  const childCols: ColumnsOf<"fna_children"> = useMemo(
     () => [
       { key: "child_name", label: "Child Name", type: "text" },
       { key: "child_age", label: "Age", type: "number" },
@@ -957,7 +1087,7 @@ export default function Page() {
     []
   );
 
-  const propertyCols: FieldDef[] = useMemo(
+  const propertyCols: ColumnsOf<"fna_properties"> = useMemo(
     () => [
       { key: "address", label: "Address", type: "text" },
       { key: "mortgage_company", label: "Mortgage Company", type: "text" },
@@ -970,7 +1100,7 @@ export default function Page() {
     []
   );
 
-  const assetCols: FieldDef[] = useMemo(
+  const assetCols: ColumnsOf<"fna_assets"> = useMemo(
     () => [
       { key: "tax_type", label: "Tax Type", type: "select", options: ASSET_TAX_TYPES },
       { key: "asset_name", label: "Asset Name", type: "text" },
@@ -984,7 +1114,7 @@ export default function Page() {
     []
   );
 
-  const liabilityCols: FieldDef[] = useMemo(
+  const liabilityCols: ColumnsOf<"fna_liabilities"> = useMemo(
     () => [
       { key: "liability_type", label: "Liability Type", type: "select", options: LIABILITY_TYPES },
       { key: "description", label: "Description", type: "text" },
@@ -998,7 +1128,7 @@ export default function Page() {
     []
   );
 
-  const insuranceCols: FieldDef[] = useMemo(
+  const insuranceCols: ColumnsOf<"fna_insurance"> = useMemo(
     () => [
       { key: "insured_role", label: "Insured Role", type: "select", options: INSURED_ROLES },
       { key: "insurance_type", label: "Insurance Type", type: "select", options: INSURANCE_TYPES },
@@ -1017,7 +1147,7 @@ export default function Page() {
     []
   );
 
-  const incomeCols: FieldDef[] = useMemo(
+  const incomeCols: ColumnsOf<"fna_income"> = useMemo(
     () => [
       { key: "fna_income_role", label: "Income Role", type: "select", options: INCOME_ROLES },
       { key: "fna_income_type", label: "Income Type", type: "select", options: INCOME_TYPES },
@@ -1028,7 +1158,7 @@ export default function Page() {
   );
 
   // ---------- Header fields by tab ----------
-  const headerClientFields: FieldDef[] = useMemo(
+  const headerClientFields: HeaderField[] = useMemo(
     () => [
       { key: "spouse_name", label: "Spouse Name", type: "text" },
       { key: "spouse_dob", label: "Spouse DOB", type: "date" },
@@ -1048,7 +1178,7 @@ export default function Page() {
     []
   );
 
-  const headerGoalsFields: FieldDef[] = useMemo(
+  const headerGoalsFields: HeaderField[] = useMemo(
     () => [
       { key: "goals_text", label: "Goals", type: "textarea", widthClass: "md:col-span-2 lg:col-span-3" },
       { key: "own_or_rent", label: "Own or Rent", type: "select", options: ["Own", "Rent"] },
@@ -1057,7 +1187,7 @@ export default function Page() {
     []
   );
 
-  const headerAssetsFields: FieldDef[] = useMemo(
+  const headerAssetsFields: HeaderField[] = useMemo(
     () => [
       { key: "has_old_401k", label: "Has Old 401(k)", type: "bool" },
       { key: "expects_lump_sum", label: "Expects Lump Sum", type: "bool" },
@@ -1065,7 +1195,7 @@ export default function Page() {
     []
   );
 
-  const headerInsuranceNeedFields: FieldDef[] = useMemo(
+  const headerInsuranceNeedFields: HeaderField[] = useMemo(
     () => [
       { key: "li_debt", label: "Debt", type: "number" },
       { key: "li_income", label: "Income Replacement", type: "number" },
@@ -1078,7 +1208,7 @@ export default function Page() {
     []
   );
 
-  const headerEstateFields: FieldDef[] = useMemo(
+  const headerEstateFields: HeaderField[] = useMemo(
     () => [
       { key: "has_will", label: "Has Will", type: "bool" },
       { key: "will_last_updated", label: "Will Last Updated", type: "date" },
@@ -1112,16 +1242,16 @@ export default function Page() {
   useEffect(() => {
     if (!fnaId) return;
 
-    const patchFnaId = (rows: RowBase[], setRows: React.Dispatch<React.SetStateAction<RowBase[]>>) => {
+    const patchFnaId = <R extends TabRow>(setRows: React.Dispatch<React.SetStateAction<R[]>>) => {
       setRows((prev) => prev.map((r) => ({ ...r, fna_id: fnaId })));
     };
 
-    patchFnaId(childrenRows, setChildrenRows);
-    patchFnaId(propertyRows, setPropertyRows);
-    patchFnaId(assetRows, setAssetRows);
-    patchFnaId(liabilityRows, setLiabilityRows);
-    patchFnaId(insuranceRows, setInsuranceRows);
-    patchFnaId(incomeRows, setIncomeRows);
+    patchFnaId(setChildrenRows);
+    patchFnaId(setPropertyRows);
+    patchFnaId(setAssetRows);
+    patchFnaId(setLiabilityRows);
+    patchFnaId(setInsuranceRows);
+    patchFnaId(setIncomeRows);
 
     if (taxRefundRow) setTaxRefundRow((r) => (r ? { ...r, fna_id: fnaId } : r));
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -1144,7 +1274,7 @@ export default function Page() {
             <button
               type="button"
               className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold transition-colors border border-slate-300 bg-transparent hover:bg-slate-50 text-slate-700"
-              onClick={logout}
+              onClick={auth.logout}
             >
               Logout ➜]
             </button>
@@ -1189,6 +1319,18 @@ export default function Page() {
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
               />
+              <select
+                className="rounded-lg border border-slate-300 bg-white px-3 py-3 text-sm"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as Scope)}
+                disabled={scopesForRole(session?.role).length <= 1}
+              >
+                {scopesForRole(session?.role).map((sc) => (
+                  <option key={sc} value={sc}>
+                    {SCOPE_LABELS[sc]}
+                  </option>
+                ))}
+              </select>
          <div className="text-slate-500 mt-1"> 👇 Select a client and complete all six sections of the FNA</div>
               <button
                 type="button"
@@ -1198,6 +1340,7 @@ export default function Page() {
                   setActiveTab("client_family");
                   setFnaHeader(null);
                   setFnaId(null);
+                  setServerFna(null);
                   setChildrenRows([]);
                   setPropertyRows([]);
                   setAssetRows([]);
@@ -1301,7 +1444,9 @@ export default function Page() {
                           onClick={() => loadFnaForClient(c)}
                         >
                           <td className="px-4 py-3 border border-slate-300 font-semibold text-slate-900 truncate" style={{ width: `${clientColumnWidths.first_name}px` }}>
-                            {c.first_name}
+                            <Link href={clientPath(c.id)} className="hover:underline" title="Open client page" onClick={(e) => e.stopPropagation()}>
+                              {c.first_name}
+                            </Link>
                           </td>
                           <td className="px-4 py-3 border border-slate-300 text-slate-900 truncate" style={{ width: `${clientColumnWidths.last_name}px` }}>{c.last_name}</td>
                           <td className="px-4 py-3 border border-slate-300 text-slate-700 truncate" style={{ width: `${clientColumnWidths.phone}px` }}>{c.phone}</td>
@@ -1342,6 +1487,32 @@ export default function Page() {
                   </button>
                 );
               })}
+              <button
+                onClick={() => setHistoryOpen((v) => !v)}
+                disabled={!canUseTabs}
+                className={[
+                  "ml-auto px-4 py-2 rounded-lg text-sm font-semibold border transition-colors",
+                  historyOpen ? "bg-slate-100 text-slate-900 border-slate-300" : "bg-white text-slate-700 border-slate-200 hover:bg-slate-50",
+                  !canUseTabs ? "opacity-50 cursor-not-allowed" : "",
+                ].join(" ")}
+              >
+                {historyOpen ? "Hide History" : "History"}
+              </button>
+              <button
+                onClick={() => {
+                  const willShow = !deletedOpen;
+                  setDeletedOpen(willShow);
+                  if (willShow) void loadDeletedRows();
+                }}
+                disabled={!canUseTabs}
+                className={[
+                  "px-4 py-2 rounded-lg text-sm font-semibold border transition-colors",
+                  deletedOpen ? "bg-slate-100 text-slate-900 border-slate-300" : "bg-white text-slate-700 border-slate-200 hover:bg-slate-50",
+                  !canUseTabs ? "opacity-50 cursor-not-allowed" : "",
+                ].join(" ")}
+              >
+                {deletedOpen ? "Hide Deleted" : "Recently deleted"}
+              </button>
             </div>
           </div>
 
@@ -1350,6 +1521,25 @@ export default function Page() {
               <div className="text-slate-600">Select a client above to begin the Financial Needs Analysis.</div>
             ) : (
               <>
+                {historyOpen && (
+                  <div className="mb-6">
+                    <HistoryPanel table="fna_header" recordId={fnaId} refreshKey={historyKey} title="FNA History" />
+                  </div>
+                )}
+
+                {deletedOpen && (
+                  <div className="mb-6">
+                    <RecentlyDeletedPanel
+                      title="Recently deleted FNA rows"
+                      items={deletedItems}
+                      loading={deletedLoading}
+                      error={deletedError}
+                      onRestore={restoreRow}
+                      onPurge={can(session?.role, "records.purge") ? purgeDeletedRows : undefined}
+                    />
+                  </div>
+                )}
+
                 {/* Tab content */}
                 {activeTab === "client_family" && (
                   <div className="space-y-6">
@@ -1365,8 +1555,8 @@ export default function Page() {
                         <Field
                           key={def.key}
                           def={def}
-                          value={(fnaHeader as any)?.[def.key]}
-                          onChange={(v) => setFnaHeader((prev) => (prev ? ({ ...prev, [def.key]: v } as any) : prev))}
+                          value={fnaHeader?.[def.key]}
+                          onChange={(v) => setFnaHeader((prev) => (prev ? { ...prev, [def.key]: v } : prev))}
                         />
                       ))}
                     </FormGrid>
@@ -1383,7 +1573,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_children", row, childCols);
                           if (saved) {
                             setChildrenRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1421,8 +1611,8 @@ export default function Page() {
                         <Field
                           key={def.key}
                           def={def}
-                          value={(fnaHeader as any)?.[def.key]}
-                          onChange={(v) => setFnaHeader((prev) => (prev ? ({ ...prev, [def.key]: v } as any) : prev))}
+                          value={fnaHeader?.[def.key]}
+                          onChange={(v) => setFnaHeader((prev) => (prev ? { ...prev, [def.key]: v } : prev))}
                         />
                       ))}
                     </FormGrid>
@@ -1439,7 +1629,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_properties", row, propertyCols);
                           if (saved) {
                             setPropertyRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1477,8 +1667,8 @@ export default function Page() {
                         <Field
                           key={def.key}
                           def={def}
-                          value={(fnaHeader as any)?.[def.key]}
-                          onChange={(v) => setFnaHeader((prev) => (prev ? ({ ...prev, [def.key]: v } as any) : prev))}
+                          value={fnaHeader?.[def.key]}
+                          onChange={(v) => setFnaHeader((prev) => (prev ? { ...prev, [def.key]: v } : prev))}
                         />
                       ))}
                     </FormGrid>
@@ -1495,7 +1685,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_assets", row, assetCols);
                           if (saved) {
                             setAssetRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1537,7 +1727,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_liabilities", row, liabilityCols);
                           if (saved) {
                             setLiabilityRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1577,8 +1767,8 @@ export default function Page() {
                           <Field
                             key={def.key}
                             def={def}
-                            value={(fnaHeader as any)?.[def.key]}
-                            onChange={(v) => setFnaHeader((prev) => (prev ? ({ ...prev, [def.key]: v } as any) : prev))}
+                            value={fnaHeader?.[def.key]}
+                            onChange={(v) => setFnaHeader((prev) => (prev ? { ...prev, [def.key]: v } : prev))}
                           />
                         ))}
                       </FormGrid>
@@ -1596,7 +1786,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_insurance", row, insuranceCols);
                           if (saved) {
                             setInsuranceRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1641,7 +1831,7 @@ export default function Page() {
                           const saved = await upsertRow("fna_income", row, incomeCols);
                           if (saved) {
                             setIncomeRows((prev) =>
-                              prev.map((r) => (r.id === row.id ? ({ ...saved, fna_id: fnaId! } as any) : r))
+                              prev.map((r) => (r.id === row.id ? { ...saved, fna_id: fnaId! } : r))
                             );
                           }
                           setNotice("Saved.");
@@ -1670,8 +1860,8 @@ export default function Page() {
                           <Field
                             key={def.key}
                             def={def}
-                            value={(fnaHeader as any)?.[def.key]}
-                            onChange={(v) => setFnaHeader((prev) => (prev ? ({ ...prev, [def.key]: v } as any) : prev))}
+                            value={fnaHeader?.[def.key]}
+                            onChange={(v) => setFnaHeader((prev) => (prev ? { ...prev, [def.key]: v } : prev))}
                           />
                         ))}
                       </FormGrid>
@@ -1687,22 +1877,22 @@ export default function Page() {
                             try {
                               if (!fnaId) return;
 
-                              const cols: FieldDef[] = [{ key: "last_year_tax_refund", label: "Last Year Tax Refund", type: "number" }];
+                              const cols: ColumnsOf<"fna_tax_refund"> = [{ key: "last_year_tax_refund", label: "Last Year Tax Refund", type: "number" }];
 
                               if (!taxRefundRow) {
                                 const inserted = await upsertRow(
                                   "fna_tax_refund",
-                                  { id: tmpId("tax"), fna_id: fnaId, last_year_tax_refund: null } as any,
+                                  { id: tmpId("tax"), fna_id: fnaId, last_year_tax_refund: null },
                                   cols
                                 );
-                                if (inserted) setTaxRefundRow({ ...inserted, fna_id: fnaId } as any);
+                                if (inserted) setTaxRefundRow({ ...inserted, fna_id: fnaId });
                                 setNotice("Saved.");
                                 setTimeout(() => setNotice(null), 1500);
                                 return;
                               }
 
-                              const saved = await upsertRow("fna_tax_refund", taxRefundRow as any, cols);
-                              if (saved) setTaxRefundRow({ ...saved, fna_id: fnaId } as any);
+                              const saved = await upsertRow("fna_tax_refund", taxRefundRow, cols);
+                              if (saved) setTaxRefundRow({ ...saved, fna_id: fnaId });
                               setNotice("Saved.");
                               setTimeout(() => setNotice(null), 1500);
                             } catch (e: any) {
@@ -1717,8 +1907,8 @@ export default function Page() {
                       <div className="mt-3 max-w-[420px]">
                         <Field
                           def={{ key: "last_year_tax_refund", label: "Amount", type: "number" }}
-                          value={(taxRefundRow as any)?.last_year_tax_refund ?? ""}
-                          onChange={(v) => setTaxRefundRow((prev) => ({ ...(prev ?? { id: tmpId("tax"), fna_id: fnaId! }), last_year_tax_refund: v } as any))}
+                          value={taxRefundRow?.last_year_tax_refund ?? ""}
+                          onChange={(v) => setTaxRefundRow((prev) => ({ ...(prev ?? { id: tmpId("tax"), fna_id: fnaId! }), last_year_tax_refund: v }))}
                         />
                       </div>
                     </div>
@@ -1733,7 +1923,7 @@ export default function Page() {
         <div className="text-xs text-slate-500">
           Note: If you still see No clients found but you know data exists, verify Supabase RLS policies for
           <span className="font-semibold"> client_registrations</span> and the <span className="font-semibold">fna_* tables</span>.
-          This page uses direct <span className="font-mono">supabase().from("...")</span> reads/writes.
+          This page reads through <span className="font-mono">lib/repo</span> and writes through <span className="font-mono">/api</span>.
         </div>
       </div>
     </div>
@@ -1,5 +1,7 @@
 import "./globals.css";
 import type { Metadata } from "next";
+import { AuthProvider } from "@/components/AuthProvider";
+import { GlobalSearch } from "@/components/GlobalSearch";
 
 export const metadata: Metadata = {
   title: "AnuNathan Reports",
@@ -11,7 +13,12 @@ export default function RootLayout({
 }: Readonly<{ children: React.ReactNode }>) {
   return (
     <html lang="en">
-      <body className="bg-slate-50 text-slate-900">{children}</body>
+      <body className="bg-slate-50 text-slate-900">
+        <AuthProvider>
+          {children}
+          <GlobalSearch />
+        </AuthProvider>
+      </body>
     </html>
   );
 }
@@ -2,51 +2,16 @@
 'use client';
 
 import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
-import { useRouter } from 'next/navigation';
-
-// Auth cookie utilities
-const AUTH_COOKIE = 'canfs_auth';
-
-function hasAuthCookie(): boolean {
-  if (typeof document === 'undefined') return false;
-  return document.cookie.split('; ').some((c) => c.startsWith(`${AUTH_COOKIE}=true`));
-}
-
-function clearAuthCookie(): void {
-  if (typeof document === 'undefined') return;
-  const secure =
-    typeof window !== 'undefined' && window.location?.protocol === 'https:' ? '; secure' : '';
-  document.cookie = `${AUTH_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
-}
-
-import { createClient } from '@supabase/supabase-js';
-
-type Prospect = {
-  id: number;
-  first_name: string; // NOT NULL
-  last_name: string | null;
-  spouse_name: string | null;
-  relation_type: string | null; // Friend / Relative / Acquaintance / Referral/Others
-  phone: string | null;
-  city: string | null;
-  state: string | null; // two-letter abbreviation
-  top25: string | null; // Y / N
-  immigration: string | null;
-  age25plus: string | null; // Y / N
-  married: string | null; // Y / N
-  children: string | null; // Y / N
-  homeowner: string | null; // Y / N
-  good_career: string | null; // Y / N
-  income_60k: string | null; // Y / N
-  dissatisfied: string | null; // Y / N
-  ambitious: string | null; // Y / N
-  contact_date: string | null; // YYYY-MM-DD
-  result: string | null; // Business / Both / Client Solution / In-Progress / Called / Not Interested / Others
-  next_steps: string | null;
-  comments: string | null;
-  created_at?: string | null;
-  updated_at?: string | null;
-};
+import { useRequireAuth } from '@/components/AuthProvider';
+import { can } from '@/lib/roles';
+import { SCOPE_LABELS, agentLabel, defaultScope, ownerIdsForScope, scopesForRole, type Agent, type Scope } from '@/lib/team';
+import type { SessionPayload } from '@/lib/session';
+import { api } from '@/lib/api/client';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { RecentlyDeletedPanel, type DeletedItem } from '@/components/RecentlyDeletedPanel';
+import type { Prospect } from '@/lib/models';
+import { getRepository } from '@/lib/repo';
+import { watchSearchLinks } from '@/lib/search';
 
 type ProspectForm = {
   first_name: string;
@@ -70,6 +35,7 @@ type ProspectForm = {
   result: string;
   next_steps: string;
   comments: string;
+  owner_id: string;
 };
 
 type SortConfig = {
@@ -216,6 +182,7 @@ const emptyForm = (): ProspectForm => ({
   result: '',
   next_steps: '',
   comments: '',
+  owner_id: '',
 });
 
 const toProspectForm = (p: Prospect): ProspectForm => ({
@@ -240,13 +207,9 @@ const toProspectForm = (p: Prospect): ProspectForm => ({
   result: p.result ?? '',
   next_steps: p.next_steps ?? '',
   comments: p.comments ?? '',
+  owner_id: p.owner_id ?? '',
 });
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 // Column configuration for resizing
 type ColumnConfig = {
   key: string;
@@ -386,10 +349,18 @@ function SubCard({ children }: { children: ReactNode }) {
 }
 
 export default function ProspectPage() {
-  const router = useRouter();
+  const auth = useRequireAuth();
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [scope, setScope] = useState<Scope>('mine');
   const [prospects, setProspects] = useState<Prospect[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0); // bump to reload the History panel after a save
+  const [deletedOpen, setDeletedOpen] = useState(false);
+  const [deletedProspects, setDeletedProspects] = useState<Prospect[]>([]);
+  const [deletedLoading, setDeletedLoading] = useState(false);
+  const [deletedError, setDeletedError] = useState<string | null>(null);
 
   const [mode, setMode] = useState<'new' | 'edit'>('new');
   const [showCard, setShowCard] = useState(false);
@@ -400,6 +371,8 @@ export default function ProspectPage() {
   const [search, setSearch] = useState('');
   const [resultFilter, setResultFilter] = useState('ALL');
   const [page, setPage] = useState(1);
+  // Prospect opened from global search; its page is shown once the list has it
+  const [linkedId, setLinkedId] = useState<number | null>(null);
 
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
@@ -474,23 +447,64 @@ export default function ProspectPage() {
     }, 5000);
   };
 
-  // Auth
+  // Auth (useRequireAuth handles the login redirect)
   useEffect(() => {
-    if (!hasAuthCookie()) {
-      router.push('/auth');
-    }
-  }, [router]);
+    const s = auth.session;
+    if (!s) return;
+    void (async () => {
+      try {
+        setAgents(await getRepository().agents.list());
+      } catch (e: any) {
+        setToast('error', `Error loading agents: ${e?.message ?? e}`);
+      }
+      setScope(defaultScope(s.role));
+      setSession(s);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [auth.session?.id]);
 
-  const logout = () => {
-    clearAuthCookie();
-    router.push('/auth');
-  };
+  const ownerIds = useMemo(() => ownerIdsForScope(scope, session, agents), [scope, session, agents]);
 
-  // Load prospects on mount
+  // Load prospects once the session is known, and again whenever the owner scope changes
   useEffect(() => {
+    if (!session) return;
     void loadProspects();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [ownerIds]);
+
+  // Global search links here with ?prospect=<id>: open that prospect, across every prospect the role can see
+  useEffect(() => {
+    if (!session) return;
+    return watchSearchLinks('/prospect', (params) => {
+      const id = Number(params.get('prospect'));
+      if (!id) return;
+      void (async () => {
+        try {
+          const p = await getRepository().prospects.get(id);
+          if (!p || p.deleted_at) {
+            setToast('error', 'That prospect no longer exists.');
+            return;
+          }
+          setScope(scopesForRole(session.role).at(-1) ?? defaultScope(session.role));
+          setSearch('');
+          setResultFilter('ALL');
+          setLinkedId(p.id);
+          setActiveId(p.id);
+          setOriginal(p);
+          setForm(toProspectForm(p));
+          setMode('edit');
+          setShowCard(true);
+        } catch (e: any) {
+          setToast('error', `Error loading prospect: ${e?.message ?? e}`);
+        }
+      })();
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session]);
+
+  const canDelete = can(session?.role, 'prospects.delete');
+  const canReassign = can(session?.role, 'records.reassign');
+  const canPurge = can(session?.role, 'records.purge');
 
   // Ensure form is updated when entering edit mode with a selected prospect
   useEffect(() => {
@@ -508,13 +522,11 @@ export default function ProspectPage() {
     setLoading(true);
     setErrorMsg(null);
 
-    const { data, error } = await supabase.from('prospects').select('*').order('id', { ascending: false });
-
-    if (error) {
-      setToast('error', `Error loading prospects: ${error.message}`);
+    try {
+      setProspects(await getRepository().prospects.list(ownerIds));
+    } catch (e: any) {
+      setToast('error', `Error loading prospects: ${e?.message ?? e}`);
       setProspects([]);
-    } else {
-      setProspects(data || []);
     }
     setLoading(false);
   };
@@ -610,6 +622,14 @@ export default function ProspectPage() {
     return filtered.slice(start, start + PAGE_SIZE);
   }, [filtered, safePage]);
 
+  useEffect(() => {
+    if (linkedId == null) return;
+    const index = filtered.findIndex((p) => p.id === linkedId);
+    if (index < 0) return;
+    setPage(Math.floor(index / PAGE_SIZE) + 1);
+    setLinkedId(null);
+  }, [linkedId, filtered]);
+
   const requiredFilled = !!form.first_name.trim() && !!form.last_name.trim() && !!form.phone.trim();
 
   const dirty = useMemo(() => {
@@ -690,8 +710,8 @@ export default function ProspectPage() {
     // Note: If you get "duplicate key value" error, the database sequence needs to be reset.
     // Run this SQL in your database:
     // SELECT setval('prospects_id_seq', (SELECT MAX(id) FROM prospects) + 1);
-    const { data, error } = await supabase.from('prospects').insert([
-      {
+    try {
+      await api.prospects.create({
         first_name: form.first_name.trim(),
         last_name: toNull(form.last_name),
         spouse_name: toNull(form.spouse_name),
@@ -713,20 +733,20 @@ export default function ProspectPage() {
         result: toNull(form.result),
         next_steps: toNull(form.next_steps),
         comments: toNull(form.comments),
-      },
-    ]).select();
-
-    setSaving(false);
-
-    if (error) {
+        owner_id: toNull(form.owner_id) ?? session?.id ?? null,
+      });
+    } catch (e: any) {
+      const message = e?.message ?? 'Save failed';
       // Provide helpful message for sequence error
-      if (error.message.includes('duplicate key') || error.message.includes('prospects_pkey')) {
+      if (message.includes('duplicate key') || message.includes('prospects_pkey')) {
         setToast('error', 'Database error: ID sequence out of sync. Please contact administrator to reset the sequence.');
         console.error('Database sequence needs reset. Run: SELECT setval(\'prospects_id_seq\', (SELECT MAX(id) FROM prospects) + 1);');
       } else {
-        setToast('error', `Error saving: ${error.message}`);
+        setToast('error', `Error saving: ${message}`);
       }
       return;
+    } finally {
+      setSaving(false);
     }
 
     setToast('success', 'Saved.');
@@ -749,9 +769,8 @@ export default function ProspectPage() {
     setSaving(true);
     setErrorMsg(null);
 
-    const { error } = await supabase
-      .from('prospects')
-      .update({
+    try {
+      await api.prospects.update(activeId, {
         first_name: form.first_name.trim(),
         last_name: toNull(form.last_name),
         spouse_name: toNull(form.spouse_name),
@@ -773,17 +792,17 @@ export default function ProspectPage() {
         result: toNull(form.result),
         next_steps: toNull(form.next_steps),
         comments: toNull(form.comments),
-      })
-      .eq('id', activeId);
-
-    setSaving(false);
-
-    if (error) {
-      setToast('error', `Error updating: ${error.message}`);
+        ...(canReassign ? { owner_id: toNull(form.owner_id) } : {}),
+      });
+    } catch (e: any) {
+      setToast('error', `Error updating: ${e?.message ?? 'Update failed'}`);
       return;
+    } finally {
+      setSaving(false);
     }
 
     setToast('success', 'Updated.');
+    setHistoryKey((k) => k + 1);
     await loadProspects();
     setShowCard(false);
   };
@@ -803,19 +822,19 @@ export default function ProspectPage() {
       return;
     }
 
-    const confirmed = confirm('Delete this prospect?');
+    const confirmed = confirm('Delete this prospect? It can be restored from "Recently deleted".');
     if (!confirmed) return;
 
     setSaving(true);
     setErrorMsg(null);
 
-    const { error } = await supabase.from('prospects').delete().eq('id', activeId);
-
-    setSaving(false);
-
-    if (error) {
-      setToast('error', `Error deleting: ${error.message}`);
+    try {
+      await api.prospects.remove(activeId);
+    } catch (e: any) {
+      setToast('error', `Error deleting: ${e?.message ?? 'Delete failed'}`);
       return;
+    } finally {
+      setSaving(false);
     }
 
     setToast('success', 'Deleted.');
@@ -824,8 +843,60 @@ export default function ProspectPage() {
     setOriginal(null);
     setForm(emptyForm());
     await loadProspects();
+    if (deletedOpen) await loadDeleted();
+  };
+
+  // ---------- Recently deleted ----------
+  const loadDeleted = async () => {
+    setDeletedLoading(true);
+    setDeletedError(null);
+    try {
+      setDeletedProspects(await api.prospects.deleted());
+    } catch (e: any) {
+      setDeletedError(e?.message ?? 'Failed to load deleted prospects');
+    } finally {
+      setDeletedLoading(false);
+    }
   };
 
+  const toggleDeleted = async () => {
+    const willShow = !deletedOpen;
+    setDeletedOpen(willShow);
+    if (willShow) await loadDeleted();
+  };
+
+  const restoreProspect = async (key: string) => {
+    try {
+      await api.prospects.restore(Number(key));
+      setToast('success', 'Restored.');
+      await Promise.all([loadDeleted(), loadProspects()]);
+    } catch (e: any) {
+      setToast('error', `Error restoring: ${e?.message ?? 'Restore failed'}`);
+    }
+  };
+
+  const purgeDeleted = async () => {
+    try {
+      const { purged } = await api.admin.purge();
+      setToast('success', `Purged ${purged.prospects ?? 0} prospect(s).`);
+      await loadDeleted();
+    } catch (e: any) {
+      setToast('error', `Error purging: ${e?.message ?? 'Purge failed'}`);
+    }
+  };
+
+  const deletedItems = useMemo<DeletedItem[]>(
+    () =>
+      deletedProspects.map((p) => ({
+        key: String(p.id),
+        title: `${p.first_name} ${p.last_name ?? ''}`.trim(),
+        subtitle: p.phone ?? undefined,
+        deletedAt: p.deleted_at ?? '',
+        deletedBy: agentLabel(agents.find((a) => a.id === p.deleted_by)) || undefined,
+      })),
+    [deletedProspects, agents]
+  );
+
   const handleRefresh = async () => {
     if (saving) return;
     setSearch('');
@@ -871,7 +942,7 @@ export default function ProspectPage() {
             <button
               type="button"
               className="inline-flex items-center justify-center rounded-lg px-4 py-2 text-sm font-semibold transition-colors border border-slate-300 bg-transparent text-slate-700"
-              onClick={logout}
+              onClick={auth.logout}
             >
               Logout ➜
             </button>
@@ -921,6 +992,22 @@ export default function ProspectPage() {
                     </option>
                   ))}
                 </select>
+
+                <select
+                  className="h-10 w-full rounded-lg border border-slate-200 bg-white px-3 text-sm md:w-40"
+                  value={scope}
+                  onChange={(e) => {
+                    setScope(e.target.value as Scope);
+                    setPage(1);
+                  }}
+                  disabled={scopesForRole(session?.role).length <= 1}
+                >
+                  {scopesForRole(session?.role).map((sc) => (
+                    <option key={sc} value={sc}>
+                      {SCOPE_LABELS[sc]}
+                    </option>
+                  ))}
+                </select>
               </div>
 
               <div className="flex flex-wrap items-center gap-2">
@@ -1149,17 +1236,41 @@ export default function ProspectPage() {
                 {topActionLabel}
               </button>
 
-              <button
-                type="button"
-                className="inline-flex h-10 items-center justify-center rounded-lg border border-red-200 bg-white px-4 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
-                onClick={handleDelete}
-                disabled={!activeId || saving}
-              >
-                Delete
-              </button>
+              {canDelete && (
+                <button
+                  type="button"
+                  className="inline-flex h-10 items-center justify-center rounded-lg border border-red-200 bg-white px-4 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  onClick={handleDelete}
+                  disabled={!activeId || saving}
+                >
+                  Delete
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  className="inline-flex h-10 items-center justify-center rounded-lg border border-slate-200 bg-white px-4 text-sm font-semibold text-slate-900 hover:bg-slate-50 disabled:opacity-50"
+                  onClick={toggleDeleted}
+                >
+                  {deletedOpen ? 'Hide Deleted' : 'Recently deleted'}
+                </button>
+              )}
             </div>
           </div>
 
+          {deletedOpen && (
+            <div className="border-t border-slate-200 px-6 py-5">
+              <RecentlyDeletedPanel
+                title="Recently deleted prospects"
+                items={deletedItems}
+                loading={deletedLoading}
+                error={deletedError}
+                onRestore={restoreProspect}
+                onPurge={canPurge ? purgeDeleted : undefined}
+              />
+            </div>
+          )}
+
           {/* Edit/New Form Card */}
           {showCard && (
             <div className="border-t border-slate-200 bg-slate-50 px-6 py-5">
@@ -1235,6 +1346,24 @@ export default function ProspectPage() {
                         ))}
                       </select>
                     </Field>
+
+                    {canReassign && (
+                      <Field label="Owner (Agent)">
+                        <select
+                          className="h-9 w-full rounded-lg border border-slate-200 bg-white px-2 text-xs text-slate-900"
+                          value={form.owner_id}
+                          onChange={(e) => setForm((p) => ({ ...p, owner_id: e.target.value }))}
+                          disabled={saving}
+                        >
+                          <option value="">Unassigned</option>
+                          {agents.map((a) => (
+                            <option key={a.id} value={a.id}>
+                              {agentLabel(a)}
+                            </option>
+                          ))}
+                        </select>
+                      </Field>
+                    )}
                   </div>
                 </SubCard>
 
@@ -1377,6 +1506,12 @@ export default function ProspectPage() {
                   </Field>
                 </SubCard>
               </div>
+
+              {mode === 'edit' && activeId && (
+                <div className="mt-4">
+                  <HistoryPanel table="prospects" recordId={activeId} refreshKey={historyKey} />
+                </div>
+              )}
             </div>
           )}
         </div>
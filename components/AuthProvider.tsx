@@ -0,0 +1,164 @@
+'use client';
+
+// components/AuthProvider.tsx
+/**
+ * App-wide session state. Wrapped around every page in app/layout.tsx.
+ *
+ *   const { session, status, logout } = useSession();      // read only
+ *   const { session } = useRequireAuth();                  // also redirects to login / away from forbidden pages
+ *
+ * The session slides: user activity renews it (at most every RENEW_AFTER_SECONDS),
+ * and a countdown modal asks the user to stay signed in shortly before it expires.
+ */
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { SESSION_EXPIRED_EVENT, extendSession, fetchSession, loginPath, logout as signOut } from '@/lib/auth';
+import { rolesForPath } from '@/lib/roles';
+import type { SessionPayload } from '@/lib/session';
+import { SessionExpiryModal } from '@/components/SessionExpiryModal';
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+type AuthContextValue = {
+  session: SessionPayload | null;
+  status: AuthStatus;
+  /** Re-read the session from the server */
+  refresh: () => Promise<SessionPayload | null>;
+  /** Slide the session forward */
+  renew: () => Promise<SessionPayload | null>;
+  logout: () => Promise<void>;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const FALLBACK_PAGE = '/dashboard';
+const RENEW_AFTER_SECONDS = 5 * 60;
+const WARNING_SECONDS = 5 * 60;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<SessionPayload | null>(null);
+  const [status, setStatus] = useState<AuthStatus>('loading');
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null); // only while the countdown shows
+  const [renewing, setRenewing] = useState(false);
+  const renewingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    const next = await fetchSession();
+    setSession(next);
+    setStatus(next ? 'authenticated' : 'unauthenticated');
+    return next;
+  }, []);
+
+  const expire = useCallback(() => {
+    setSession(null);
+    setStatus('unauthenticated');
+  }, []);
+
+  const renew = useCallback(async () => {
+    if (renewingRef.current) return null;
+    renewingRef.current = true;
+    setRenewing(true);
+    try {
+      const next = await extendSession();
+      if (next) setSession(next);
+      else expire();
+      return next;
+    } catch {
+      // Network hiccup: keep the current session; the countdown still applies
+      return null;
+    } finally {
+      renewingRef.current = false;
+      setRenewing(false);
+    }
+  }, [expire]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Countdown near the end, and drop the session the moment it expires
+  useEffect(() => {
+    if (!session) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () => {
+      const left = session.exp - Date.now() / 1000;
+      if (left <= 0) expire();
+      else setSecondsLeft(left <= WARNING_SECONDS ? Math.ceil(left) : null);
+    };
+    tick();
+    const id = setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [session, expire]);
+
+  // Activity slides the session quietly; once the countdown shows, the user has to choose
+  useEffect(() => {
+    if (!session) return;
+    const onActivity = () => {
+      const now = Date.now() / 1000;
+      if (now - session.iat < RENEW_AFTER_SECONDS || session.exp - now <= WARNING_SECONDS) return;
+      void renew();
+    };
+    const opts = { capture: true, passive: true };
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, opts));
+    return () => ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity, opts));
+  }, [session, renew]);
+
+  // API calls that come back 401 mean the cookie expired or was revoked
+  useEffect(() => {
+    window.addEventListener(SESSION_EXPIRED_EVENT, expire);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, expire);
+  }, [expire]);
+
+  // Timers do not run while a laptop sleeps; re-check when the tab is shown again
+  useEffect(() => {
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') void refresh();
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => document.removeEventListener('visibilitychange', onVisible);
+  }, [refresh]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ session, status, refresh, renew, logout: signOut }),
+    [session, status, refresh, renew]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {session && secondsLeft != null && (
+        <SessionExpiryModal secondsLeft={secondsLeft} renewing={renewing} onStay={() => void renew()} onLogout={() => void signOut()} />
+      )}
+    </AuthContext.Provider>
+  );
+}
+
+export function useSession(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error('useSession must be used inside <AuthProvider>');
+  return ctx;
+}
+
+/**
+ * Session for a protected page: signed-out users go to login (and come back via `?next=`),
+ * roles not allowed on the page go to the dashboard.
+ */
+export function useRequireAuth(): AuthContextValue {
+  const auth = useSession();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    if (auth.status === 'unauthenticated') {
+      router.replace(loginPath(pathname + window.location.search));
+      return;
+    }
+    const roles = rolesForPath(pathname);
+    if (auth.session && roles && !roles.includes(auth.session.role)) router.replace(FALLBACK_PAGE);
+  }, [auth.status, auth.session, pathname, router]);
+
+  return auth;
+}
@@ -0,0 +1,100 @@
+'use client';
+
+// components/ClientDrawer.tsx
+/**
+ * Side drawer with one client's key details and activity timeline, opened
+ * from the dashboard tables. Links to the full /clients/[id] page.
+ * Bump `refreshKey` after a save elsewhere to reload it.
+ */
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ClientTimeline } from '@/components/ClientTimeline';
+import { getRepository } from '@/lib/repo';
+import { clientPath } from '@/lib/clientFields';
+import type { ClientRegistration } from '@/lib/models';
+import { agentLabel, type Agent } from '@/lib/team';
+import { formatInZone } from '@/lib/timezone';
+
+export function ClientDrawer({
+  clientId,
+  timeZone,
+  agents,
+  refreshKey = 0,
+  onClose,
+}: {
+  clientId: string;
+  timeZone: string;
+  agents: Agent[];
+  refreshKey?: number;
+  onClose: () => void;
+}) {
+  const [client, setClient] = useState<ClientRegistration | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getRepository()
+      .clients.get(clientId)
+      .then((c) => {
+        if (!cancelled) setClient(c);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? 'Could not load the client');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, refreshKey]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const name = client ? `${client.first_name ?? ''} ${client.last_name ?? ''}`.trim() : '';
+  const owner = client?.owner_id ? agents.find((a) => a.id === client.owner_id) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[90] flex justify-end bg-black/30" onClick={onClose}>
+      <aside className="flex h-full w-full max-w-md flex-col bg-white text-sm text-black shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between border-b border-slate-200 px-4 py-3">
+          <div>
+            <div className="text-lg font-bold">{name || (loading ? 'Loading…' : 'Client')}</div>
+            {client && (
+              <div className="text-xs text-slate-600">
+                {[client.phone, client.email].filter(Boolean).join(' • ') || 'No contact details'}
+              </div>
+            )}
+            <Link href={clientPath(clientId)} className="text-xs font-semibold text-teal-700 hover:underline">
+              Open client page →
+            </Link>
+          </div>
+          <button type="button" className="text-xl leading-none text-slate-500 hover:text-black" onClick={onClose} title="Close">×</button>
+        </div>
+        {error && <div className="px-4 py-2 text-xs text-red-700">{error}</div>}
+        {client && (
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1 border-b border-slate-200 px-4 py-3 text-xs">
+            <dt className="text-slate-500">Client status</dt><dd>{client.client_status || '—'}</dd>
+            <dt className="text-slate-500">Status</dt><dd>{client.status || '—'}</dd>
+            <dt className="text-slate-500">Agent</dt><dd>{owner ? agentLabel(owner) : '—'}</dd>
+            <dt className="text-slate-500">Registered</dt><dd>{formatInZone(client.created_at, timeZone, { dateStyle: 'medium' })}</dd>
+            <dt className="text-slate-500">Product</dt><dd>{client.Product || '—'}</dd>
+            <dt className="text-slate-500">Referred by</dt><dd>{client.referred_by || '—'}</dd>
+          </dl>
+        )}
+        <div className="flex-1 overflow-auto px-4 py-3">
+          <ClientTimeline clientId={clientId} timeZone={timeZone} agents={agents} refreshKey={refreshKey} />
+        </div>
+      </aside>
+    </div>
+  );
+}
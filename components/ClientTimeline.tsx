@@ -0,0 +1,199 @@
+'use client';
+
+// components/ClientTimeline.tsx
+/**
+ * One client's activity timeline (see lib/activities.ts), newest first, where
+ * activities can be logged, corrected and removed. Used by the client drawer
+ * and the /clients/[id] page. Bump `refreshKey` after a client save to reload it.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui';
+import { api } from '@/lib/api/client';
+import { getRepository } from '@/lib/repo';
+import {
+  ACTIVITY_KIND_LABELS,
+  ACTIVITY_KIND_STYLES,
+  ACTIVITY_OUTCOME_SUGGESTIONS,
+  sortTimeline,
+  type ActivityKind,
+  type ClientActivity,
+} from '@/lib/activities';
+import { agentLabel, type Agent } from '@/lib/team';
+import { formatInZone, fromZonedInput, toZonedInput } from '@/lib/timezone';
+
+type Draft = { kind: ActivityKind; at: string; outcome: string; notes: string };
+
+const WHEN: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' };
+
+function ActivityForm({
+  initial,
+  saving,
+  onSave,
+  onCancel,
+}: {
+  initial: Draft;
+  saving: boolean;
+  onSave: (draft: Draft) => void;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const set = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+  const listId = `activity-outcomes-${draft.kind}`;
+  return (
+    <div className="space-y-2 rounded border border-slate-200 bg-slate-50 p-2 text-xs">
+      <div className="flex gap-2">
+        <select className="rounded border border-slate-300 bg-white px-2 py-1" value={draft.kind} onChange={(e) => set({ kind: e.target.value as ActivityKind })}>
+          {(Object.keys(ACTIVITY_KIND_LABELS) as ActivityKind[]).map((k) => (
+            <option key={k} value={k}>{ACTIVITY_KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        <input type="datetime-local" className="flex-1 rounded border border-slate-300 px-2 py-1" value={draft.at} onChange={(e) => set({ at: e.target.value })} />
+      </div>
+      <input className="w-full rounded border border-slate-300 px-2 py-1" placeholder="Outcome" list={listId} value={draft.outcome} onChange={(e) => set({ outcome: e.target.value })} />
+      <datalist id={listId}>
+        {ACTIVITY_OUTCOME_SUGGESTIONS[draft.kind].map((o) => (
+          <option key={o} value={o} />
+        ))}
+      </datalist>
+      <textarea className="w-full rounded border border-slate-300 px-2 py-1" rows={3} placeholder="Notes" value={draft.notes} onChange={(e) => set({ notes: e.target.value })} />
+      <div className="flex gap-2">
+        <Button onClick={() => onSave(draft)} disabled={saving || !draft.at}>{saving ? 'Saving…' : 'Save'}</Button>
+        {onCancel && <Button variant="secondary" onClick={onCancel} disabled={saving}>Cancel</Button>}
+      </div>
+    </div>
+  );
+}
+
+export function ClientTimeline({
+  clientId,
+  timeZone,
+  agents,
+  refreshKey = 0,
+}: {
+  clientId: string;
+  timeZone: string;
+  agents: Agent[];
+  refreshKey?: number;
+}) {
+  const [activities, setActivities] = useState<ClientActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setAdding(false);
+    setEditingId(null);
+    getRepository()
+      .activities.forClient(clientId)
+      .then((list) => {
+        if (!cancelled) setActivities(list);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? 'Could not load the timeline');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, refreshKey]);
+
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+  const timeline = useMemo(() => sortTimeline(activities), [activities]);
+  const now = Date.now();
+
+  const toPayload = (draft: Draft) => ({
+    kind: draft.kind,
+    occurred_at: fromZonedInput(draft.at, timeZone) ?? '',
+    outcome: draft.outcome.trim() || null,
+    notes: draft.notes.trim() || null,
+  });
+
+  const save = async (draft: Draft, activityId?: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = activityId ? await api.activities.update(activityId, toPayload(draft)) : await api.activities.create(clientId, toPayload(draft));
+      setActivities((prev) => [saved, ...prev.filter((a) => a.id !== saved.id)]);
+      setAdding(false);
+      setEditingId(null);
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not save the activity');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (activity: ClientActivity) => {
+    if (!confirm(`Remove this ${ACTIVITY_KIND_LABELS[activity.kind]} from the timeline?`)) return;
+    setError(null);
+    try {
+      await api.activities.remove(activity.id);
+      setActivities((prev) => prev.filter((a) => a.id !== activity.id));
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not remove the activity');
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm text-black">
+      <div className="flex items-center justify-between">
+        <div className="font-bold">Timeline</div>
+        {!adding && (
+          <Button variant="secondary" onClick={() => { setAdding(true); setEditingId(null); }}>
+            Log activity
+          </Button>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-700">{error}</div>}
+      {adding && (
+        <ActivityForm
+          initial={{ kind: 'call', at: toZonedInput(new Date(), timeZone), outcome: '', notes: '' }}
+          saving={saving}
+          onSave={(draft) => save(draft)}
+          onCancel={() => setAdding(false)}
+        />
+      )}
+      {loading && timeline.length === 0 && <div className="text-xs text-slate-600">Loading…</div>}
+      {!loading && timeline.length === 0 && <div className="text-xs text-slate-600">No activities yet.</div>}
+      <ol className="relative space-y-3 border-l border-slate-200 pl-4">
+        {timeline.map((a) => (
+          <li key={a.id} className="relative">
+            <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full border border-white bg-slate-400" />
+            {editingId === a.id ? (
+              <ActivityForm
+                initial={{ kind: a.kind, at: toZonedInput(a.occurred_at, timeZone), outcome: a.outcome ?? '', notes: a.notes ?? '' }}
+                saving={saving}
+                onSave={(draft) => save(draft, a.id)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`rounded border px-1.5 py-0.5 text-xs font-semibold ${ACTIVITY_KIND_STYLES[a.kind]}`}>{ACTIVITY_KIND_LABELS[a.kind]}</span>
+                  {a.outcome && <span className="text-xs font-semibold">{a.outcome}</span>}
+                  {new Date(a.occurred_at).getTime() > now && <span className="text-xs text-teal-700">Upcoming</span>}
+                </div>
+                <div className="text-xs text-slate-600">
+                  {formatInZone(a.occurred_at, timeZone, WHEN)}
+                  {a.created_by && agentsById.has(a.created_by) ? ` • ${agentLabel(agentsById.get(a.created_by))}` : ''}
+                </div>
+                {a.notes && <div className="mt-1 whitespace-pre-wrap text-xs">{a.notes}</div>}
+                <div className="mt-1 flex gap-3 text-xs">
+                  <button type="button" className="text-teal-700 hover:underline" onClick={() => { setEditingId(a.id); setAdding(false); }}>Edit</button>
+                  <button type="button" className="text-red-700 hover:underline" onClick={() => remove(a)}>Remove</button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+// components/ClientViewsBar.tsx
+/**
+ * The signed-in agent's saved Clients List views: pinned ones as buttons, the
+ * rest in a menu, plus save / update / pin / delete for the view in use.
+ */
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api/client';
+import { getRepository } from '@/lib/repo';
+import type { ClientView, ClientViewFilters } from '@/lib/clientQuery';
+
+const chip = 'px-2 py-1 text-xs font-semibold rounded border';
+
+export function ClientViewsBar({
+  agentId,
+  current,
+  onApply,
+}: {
+  agentId: string | null;
+  /** The filters on screen, saved by "Save view" */
+  current: ClientViewFilters;
+  onApply: (filters: ClientViewFilters) => void;
+}) {
+  const [views, setViews] = useState<ClientView[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = views.find((v) => v.id === activeId) ?? null;
+
+  const load = async () => {
+    if (!agentId) return;
+    try {
+      setViews(await getRepository().clientViews.list(agentId));
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load saved views');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [agentId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const apply = (view: ClientView) => {
+    setActiveId(view.id);
+    onApply(view.filters);
+  };
+
+  const saveAs = () => {
+    const name = prompt('Name this view', active?.name ?? '')?.trim();
+    if (!name) return;
+    run(async () => {
+      const view = await api.clientViews.create({ name, filters: current });
+      setActiveId(view.id);
+    }, 'Failed to save the view');
+  };
+
+  return (
+    <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-black">
+      <span className="font-bold">Views:</span>
+      {views
+        .filter((v) => v.pinned)
+        .map((v) => (
+          <button
+            key={v.id}
+            type="button"
+            className={`${chip} ${v.id === activeId ? 'border-teal-700 bg-teal-700 text-white' : 'border-slate-300 bg-white'}`}
+            onClick={() => apply(v)}
+            title="Pinned view"
+          >
+            📌 {v.name}
+          </button>
+        ))}
+      <select
+        className="border border-slate-300 bg-white px-2 py-1 text-xs rounded"
+        value=""
+        onChange={(e) => {
+          const view = views.find((v) => v.id === e.target.value);
+          if (view) apply(view);
+        }}
+      >
+        <option value="">{views.length ? 'Saved views…' : 'No saved views'}</option>
+        {views.map((v) => (
+          <option key={v.id} value={v.id}>{v.name}</option>
+        ))}
+      </select>
+      <button type="button" className={`${chip} border-slate-300 bg-white`} onClick={saveAs} disabled={busy || !agentId}>
+        Save view
+      </button>
+      {active && (
+        <>
+          <button
+            type="button"
+            className={`${chip} border-slate-300 bg-white`}
+            onClick={() => run(async () => void (await api.clientViews.update(active.id, { filters: current })), 'Failed to update the view')}
+            disabled={busy}
+            title="Save the filters on screen into this view"
+          >
+            Update “{active.name}”
+          </button>
+          <button
+            type="button"
+            className={`${chip} border-slate-300 bg-white`}
+            onClick={() => run(async () => void (await api.clientViews.update(active.id, { pinned: !active.pinned })), 'Failed to pin the view')}
+            disabled={busy}
+          >
+            {active.pinned ? 'Unpin' : 'Pin'}
+          </button>
+          <button
+            type="button"
+            className={`${chip} border-red-200 bg-white text-red-600`}
+            onClick={() => {
+              if (!confirm(`Delete the view "${active.name}"?`)) return;
+              run(async () => {
+                await api.clientViews.remove(active.id);
+                setActiveId(null);
+              }, 'Failed to delete the view');
+            }}
+            disabled={busy}
+          >
+            Delete
+          </button>
+        </>
+      )}
+      {error && <span className="text-red-700">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+// components/CyclesPanel.tsx
+/**
+ * Admin list of production cycles with add / edit / remove (see lib/cycles.ts).
+ * Calls `onChanged` after every save so the page can refresh its header.
+ */
+import { useEffect, useState } from 'react';
+import { Button, Card } from '@/components/ui';
+import { api } from '@/lib/api/client';
+import { getRepository } from '@/lib/repo';
+import { CYCLE_TARGET_COLUMNS } from '@/lib/cycles';
+import { LEADERBOARD_METRICS } from '@/lib/leaderboard';
+import type { ProductionCycle, ProductionCycleUpdate } from '@/lib/models';
+
+type Form = { name: string; starts_on: string; ends_on: string; targets: Record<string, string> };
+
+const EMPTY_FORM: Form = { name: '', starts_on: '', ends_on: '', targets: {} };
+
+function toForm(cycle: ProductionCycle): Form {
+  const targets: Record<string, string> = {};
+  for (const { key } of LEADERBOARD_METRICS) {
+    const v = cycle[CYCLE_TARGET_COLUMNS[key]];
+    targets[key] = v == null ? '' : String(v);
+  }
+  return { name: cycle.name, starts_on: cycle.starts_on, ends_on: cycle.ends_on, targets };
+}
+
+function toChanges(form: Form): ProductionCycleUpdate {
+  const changes: ProductionCycleUpdate = { name: form.name, starts_on: form.starts_on, ends_on: form.ends_on };
+  for (const { key } of LEADERBOARD_METRICS) {
+    const v = form.targets[key]?.trim();
+    changes[CYCLE_TARGET_COLUMNS[key]] = v ? Number(v) : null;
+  }
+  return changes;
+}
+
+export function CyclesPanel({ onChanged }: { onChanged?: () => void }) {
+  const [cycles, setCycles] = useState<ProductionCycle[]>([]);
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setCycles(await getRepository().cycles.list());
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load cycles');
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const reset = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      if (editingId) await api.cycles.update(editingId, toChanges(form));
+      else await api.cycles.create(toChanges(form));
+      reset();
+      await load();
+      onChanged?.();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to save the cycle');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (cycle: ProductionCycle) => {
+    if (!confirm(`Remove the cycle "${cycle.name}"? Client records are not affected.`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await api.cycles.remove(cycle.id);
+      if (editingId === cycle.id) reset();
+      await load();
+      onChanged?.();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to remove the cycle');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const input = 'border border-slate-300 px-2 py-2 text-xs rounded';
+
+  return (
+    <Card title="Production Cycles 🔄">
+      {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <label className="block">
+          <div className="text-xs font-semibold text-black mb-1">Name</div>
+          <input className={input} value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} placeholder="Q4 promotion" />
+        </label>
+        <label className="block">
+          <div className="text-xs font-semibold text-black mb-1">Start</div>
+          <input type="date" className={input} value={form.starts_on} onChange={(e) => setForm((f) => ({ ...f, starts_on: e.target.value }))} />
+        </label>
+        <label className="block">
+          <div className="text-xs font-semibold text-black mb-1">End</div>
+          <input type="date" className={input} value={form.ends_on} onChange={(e) => setForm((f) => ({ ...f, ends_on: e.target.value }))} />
+        </label>
+        {LEADERBOARD_METRICS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <div className="text-xs font-semibold text-black mb-1">{label}</div>
+            <input
+              type="number"
+              min={0}
+              className={`${input} w-24`}
+              value={form.targets[key] ?? ''}
+              onChange={(e) => setForm((f) => ({ ...f, targets: { ...f.targets, [key]: e.target.value } }))}
+              placeholder="—"
+            />
+          </label>
+        ))}
+        <Button onClick={save} disabled={busy || !form.name.trim() || !form.starts_on || !form.ends_on}>
+          {editingId ? 'Save' : 'Add'}
+        </Button>
+        {editingId && (
+          <Button variant="secondary" onClick={reset} disabled={busy}>Cancel</Button>
+        )}
+      </div>
+      {cycles.length === 0 ? (
+        <div className="text-sm text-black">No cycles defined yet.</div>
+      ) : (
+        <table className="w-full text-xs text-black">
+          <thead>
+            <tr className="text-left border-b border-slate-200">
+              <th className="py-1 pr-2">Name</th>
+              <th className="py-1 pr-2">Start</th>
+              <th className="py-1 pr-2">End</th>
+              {LEADERBOARD_METRICS.map(({ key, label }) => (
+                <th key={key} className="py-1 pr-2 text-right">{label}</th>
+              ))}
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {cycles.map((c) => (
+              <tr key={c.id} className="border-b border-slate-100">
+                <td className="py-1 pr-2 font-semibold">{c.name}</td>
+                <td className="py-1 pr-2">{c.starts_on}</td>
+                <td className="py-1 pr-2">{c.ends_on}</td>
+                {LEADERBOARD_METRICS.map(({ key }) => (
+                  <td key={key} className="py-1 pr-2 text-right">{c[CYCLE_TARGET_COLUMNS[key]] ?? '—'}</td>
+                ))}
+                <td className="py-1 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-teal-700 mr-3 disabled:opacity-50"
+                    onClick={() => {
+                      setEditingId(c.id);
+                      setForm(toForm(c));
+                    }}
+                    disabled={busy}
+                  >
+                    Edit
+                  </button>
+                  <button type="button" className="text-xs font-semibold text-red-600 disabled:opacity-50" onClick={() => remove(c)} disabled={busy}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
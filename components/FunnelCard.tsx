@@ -0,0 +1,159 @@
+'use client';
+
+// components/FunnelCard.tsx
+/**
+ * Conversion funnel card for the dashboard (see lib/funnel.ts). Loads itself
+ * whenever the scope or one of its filters changes while it is shown.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Button, Card } from '@/components/ui';
+import { getRepository } from '@/lib/repo';
+import { formatRate, funnelRows, type FunnelRow } from '@/lib/funnel';
+import { TREND_RANGE_LABELS, resolveTrendRange, type TrendRangePreset } from '@/lib/trends';
+import { agentLabel, type Agent } from '@/lib/team';
+
+const BAR_COLORS = ['#64748b', '#94a3b8', '#0891b2', '#0d9488', '#2563eb', '#f97316', '#10b981', '#8b5cf6', '#dc2626'];
+
+export function FunnelCard({ ownerIds, agents }: { ownerIds: string[] | null; agents: Agent[] }) {
+  const [visible, setVisible] = useState(false);
+  const [preset, setPreset] = useState<TrendRangePreset>('90d');
+  const [first, setFirst] = useState('');
+  const [last, setLast] = useState('');
+  const [agentId, setAgentId] = useState('');
+  const [referredBy, setReferredBy] = useState('');
+  const [rows, setRows] = useState<FunnelRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Agents the current scope covers; picking one narrows the funnel to them
+  const scopedAgents = useMemo(
+    () => (ownerIds ? agents.filter((a) => ownerIds.includes(a.id)) : agents),
+    [agents, ownerIds]
+  );
+  const agentOwnerIds = agentId && scopedAgents.some((a) => a.id === agentId) ? [agentId] : ownerIds;
+  const range = resolveTrendRange(preset, { first, last }, 'day');
+
+  useEffect(() => {
+    if (!visible || !range) return;
+    let cancelled = false;
+    const id = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const counts = await getRepository().reports.conversionFunnel({ ownerIds: agentOwnerIds, referredBy }, range.from, range.to);
+        if (!cancelled) setRows(funnelRows(counts));
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ?? 'Failed to load the funnel');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+    // range is derived from preset, first and last
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, preset, first, last, referredBy, agentOwnerIds?.join(',')]);
+
+  const widest = Math.max(1, ...rows.map((r) => r.reached ?? 0));
+
+  return (
+    <Card title="Conversion Funnel 🔻">
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <Button variant="secondary" onClick={() => setVisible((v) => !v)}>
+          {visible ? 'Hide 🔻' : 'Show 🔻'}
+        </Button>
+        <label className="block">
+          <div className="text-xs font-semibold text-black mb-1">Registered</div>
+          <select
+            className="border border-slate-300 bg-white px-2 py-2 text-xs rounded"
+            value={preset}
+            onChange={(e) => setPreset(e.target.value as TrendRangePreset)}
+          >
+            {(Object.keys(TREND_RANGE_LABELS) as TrendRangePreset[]).map((p) => (
+              <option key={p} value={p}>{TREND_RANGE_LABELS[p]}</option>
+            ))}
+          </select>
+        </label>
+        {preset === 'custom' && (
+          <>
+            <input type="date" className="border border-slate-300 px-2 py-2 text-xs rounded" value={first} onChange={(e) => setFirst(e.target.value)} />
+            <span className="text-xs text-black pb-2">to</span>
+            <input type="date" className="border border-slate-300 px-2 py-2 text-xs rounded" value={last} onChange={(e) => setLast(e.target.value)} />
+          </>
+        )}
+        {scopedAgents.length > 1 && (
+          <label className="block">
+            <div className="text-xs font-semibold text-black mb-1">Agent</div>
+            <select
+              className="border border-slate-300 bg-white px-2 py-2 text-xs rounded"
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+            >
+              <option value="">Everyone in scope</option>
+              {scopedAgents.map((a) => (
+                <option key={a.id} value={a.id}>{agentLabel(a)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="block">
+          <div className="text-xs font-semibold text-black mb-1">Referred by</div>
+          <input
+            className="border border-slate-300 px-2 py-2 text-xs rounded"
+            value={referredBy}
+            onChange={(e) => setReferredBy(e.target.value)}
+            placeholder="Any"
+          />
+        </label>
+      </div>
+      {!visible ? (
+        <div className="text-sm text-black">Results are hidden.</div>
+      ) : (
+        <>
+          {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+          {range && (
+            <div className="text-xs text-slate-600 mb-2">
+              Prospects entered and clients registered {range.first} – {range.last}. Prospects count as contacted once a Result is
+              set and as interested for Business, Both, Client Solution or In-Progress. Each client counts toward every stage up to
+              the furthest one reached.
+            </div>
+          )}
+          <table className="w-full text-xs text-black">
+            <thead>
+              <tr className="text-left border-b border-slate-200">
+                <th className="py-1 pr-2 w-32">Stage</th>
+                <th className="py-1 pr-2">Count</th>
+                <th className="py-1 pr-2 w-20 text-right">From previous</th>
+                <th className="py-1 pr-2 w-20 text-right">Overall</th>
+                <th className="py-1 w-28 text-right">Median days since previous</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={r.stage} className="border-b border-slate-100" title={r.reachedBy}>
+                  <td className="py-1 pr-2 font-semibold">{r.label}</td>
+                  <td className="py-1 pr-2">
+                    {r.reached == null ? (
+                      <span className="text-slate-500">n/a with a referral filter</span>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <div className="h-4 rounded" style={{ width: `${Math.max(2, (r.reached / widest) * 100)}%`, background: BAR_COLORS[i % BAR_COLORS.length] }} />
+                        <span>{r.reached}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{formatRate(r.fromPrevious)}</td>
+                  <td className="py-1 pr-2 text-right">{formatRate(r.fromFirst)}</td>
+                  <td className="py-1 text-right">{r.medianDays == null ? '—' : `${r.medianDays} d`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {loading && <div className="mt-2 text-xs text-black">Loading…</div>}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+// components/GlobalSearch.tsx
+/**
+ * Ctrl+K (⌘K) search over clients, prospects and FNA notes (see lib/search.ts).
+ * Rendered once in app/layout.tsx; shows nothing until someone is signed in.
+ */
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from '@/components/AuthProvider';
+import { getRepository } from '@/lib/repo';
+import { MIN_SEARCH_LENGTH, followSearchHit, groupHits, sourceLabel, type SearchHit } from '@/lib/search';
+import { ownerIdsForScope } from '@/lib/team';
+
+export function GlobalSearch() {
+  const { session } = useSession();
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [term, setTerm] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen((v) => !v);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [session]);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  useEffect(() => {
+    const q = term.trim();
+    if (!open || q.length < MIN_SEARCH_LENGTH) {
+      setHits([]);
+      return;
+    }
+    let cancelled = false;
+    const id = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        // Everything the role may see; the database enforces it either way
+        const found = await getRepository().search.global(q, ownerIdsForScope('all', session, []));
+        if (!cancelled) {
+          setHits(found);
+          setCursor(0);
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ?? 'Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(id);
+    };
+  }, [term, open, session]);
+
+  const groups = useMemo(() => groupHits(hits), [hits]);
+  const flat = useMemo(() => groups.flatMap((g) => g.hits), [groups]);
+
+  const close = () => {
+    setOpen(false);
+    setTerm('');
+    setHits([]);
+  };
+
+  const go = (hit: SearchHit) => {
+    close();
+    followSearchHit(hit, (href) => router.push(href));
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+    else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setCursor((c) => Math.min(flat.length - 1, c + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (e.key === 'Enter' && flat[cursor]) {
+      go(flat[cursor]);
+    }
+  };
+
+  if (!session || !open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start justify-center bg-black/30 pt-24" onClick={close}>
+      <div className="w-full max-w-2xl rounded-lg border border-slate-300 bg-white shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          className="w-full border-b border-slate-200 px-4 py-3 text-sm outline-none"
+          placeholder="Search clients, prospects and FNA notes…"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+        <div className="max-h-[60vh] overflow-auto py-2 text-sm text-black">
+          {error && <div className="px-4 py-2 text-red-700">{error}</div>}
+          {!error && term.trim().length >= MIN_SEARCH_LENGTH && !loading && flat.length === 0 && (
+            <div className="px-4 py-2 text-slate-600">No matches.</div>
+          )}
+          {loading && flat.length === 0 && <div className="px-4 py-2 text-slate-600">Searching…</div>}
+          {groups.map((g) => (
+            <div key={g.entity} className="mb-1">
+              <div className="px-4 py-1 text-xs font-bold uppercase text-slate-500">{g.label}</div>
+              {g.hits.map((hit) => {
+                const index = flat.indexOf(hit);
+                return (
+                  <button
+                    key={`${hit.entity}:${hit.recordId}`}
+                    type="button"
+                    className={`block w-full px-4 py-2 text-left ${index === cursor ? 'bg-teal-50' : 'hover:bg-slate-50'}`}
+                    onMouseEnter={() => setCursor(index)}
+                    onClick={() => go(hit)}
+                  >
+                    <div className="font-semibold">{hit.title || '(no name)'}</div>
+                    <div className="truncate text-xs text-slate-600">
+                      {sourceLabel(hit.source)}: {hit.snippet}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        <div className="border-t border-slate-200 px-4 py-2 text-xs text-slate-500">↑↓ to move • Enter to open • Esc to close</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+// components/GoalsCard.tsx
+/**
+ * Goals for the agents in the current scope with progress bars and the
+ * projected end-of-period result (see lib/goals.ts). Field trainers and admins
+ * can set and remove goals here.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Button, Card } from '@/components/ui';
+import { api } from '@/lib/api/client';
+import { getRepository } from '@/lib/repo';
+import {
+  GOAL_APPLIES_TO_LABELS,
+  GOAL_METRICS,
+  GOAL_PERIOD_LABELS,
+  currentPeriod,
+  goalOwnerIds,
+  goalProgress,
+  sumCounts,
+  type Goal,
+  type GoalAppliesTo,
+  type GoalMetric,
+  type GoalPeriod,
+  type GoalPeriodRange,
+  type GoalProgress,
+} from '@/lib/goals';
+import { can } from '@/lib/roles';
+import { agentLabel, teamIds, type Agent } from '@/lib/team';
+import type { SessionPayload } from '@/lib/session';
+
+type Row = { goal: Goal; range: GoalPeriodRange; progress: GoalProgress };
+
+const METRIC_LABELS = Object.fromEntries(GOAL_METRICS.map((m) => [m.key, m.label])) as Record<GoalMetric, string>;
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+export function GoalsCard({ ownerIds, agents, session }: { ownerIds: string[] | null; agents: Agent[]; session: SessionPayload | null }) {
+  const [visible, setVisible] = useState(false);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<{ agent_id: string; applies_to: GoalAppliesTo; metric: GoalMetric; period: GoalPeriod; target: string }>({
+    agent_id: '',
+    applies_to: 'agent',
+    metric: 'calls',
+    period: 'month',
+    target: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+  const canManage = can(session?.role, 'goals.manage');
+  // Agents this user may set goals for
+  const assignable = useMemo(() => {
+    if (!session || !canManage) return [];
+    if (session.role === 'admin') return agents;
+    const team = new Set(teamIds(agents, session.id));
+    return agents.filter((a) => team.has(a.id));
+  }, [agents, session, canManage]);
+
+  const load = async () => {
+    if (!agents.length) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const repo = getRepository();
+      const goals = await repo.goals.list(ownerIds);
+      // One count query per period, covering every agent any goal needs
+      const periods = Array.from(new Set(goals.map((g) => g.period)));
+      const counted = await Promise.all(
+        periods.map(async (period) => {
+          const range = currentPeriod(period);
+          const needed = Array.from(new Set(goals.filter((g) => g.period === period).flatMap((g) => goalOwnerIds(g, agents))));
+          return { period, range, byAgent: await repo.reports.agentCounts(needed, range.from, range.to) };
+        })
+      );
+      const byPeriod = new Map(counted.map((c) => [c.period, c]));
+      setRows(
+        goals.map((goal) => {
+          const { range, byAgent } = byPeriod.get(goal.period)!;
+          const actual = sumCounts(byAgent, goalOwnerIds(goal, agents))[goal.metric];
+          return { goal, range, progress: goalProgress(goal, actual, range) };
+        })
+      );
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load goals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, ownerIds?.join(','), agents.length]);
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await api.goals.save({ ...form, agent_id: form.agent_id || session!.id, target: Number(form.target) });
+      setForm((f) => ({ ...f, target: '' }));
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to save the goal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (goal: Goal) => {
+    if (!confirm('Remove this goal?')) return;
+    setError(null);
+    try {
+      await api.goals.remove(goal.id);
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to remove the goal');
+    }
+  };
+
+  const select = 'border border-slate-300 bg-white px-2 py-2 text-xs rounded';
+
+  return (
+    <Card title="Goals 🎯">
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <Button variant="secondary" onClick={() => setVisible((v) => !v)}>
+          {visible ? 'Hide 🎯' : 'Show 🎯'}
+        </Button>
+        {visible && canManage && (
+          <>
+            <select className={select} value={form.agent_id || session?.id || ''} onChange={(e) => setForm((f) => ({ ...f, agent_id: e.target.value }))}>
+              {assignable.map((a) => (
+                <option key={a.id} value={a.id}>{agentLabel(a)}</option>
+              ))}
+            </select>
+            <select className={select} value={form.applies_to} onChange={(e) => setForm((f) => ({ ...f, applies_to: e.target.value as GoalAppliesTo }))}>
+              {(Object.keys(GOAL_APPLIES_TO_LABELS) as GoalAppliesTo[]).map((k) => (
+                <option key={k} value={k}>{k === 'team' ? 'Their team' : 'Just them'}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              className="border border-slate-300 px-2 py-2 text-xs rounded w-20"
+              value={form.target}
+              onChange={(e) => setForm((f) => ({ ...f, target: e.target.value }))}
+              placeholder="Target"
+            />
+            <select className={select} value={form.metric} onChange={(e) => setForm((f) => ({ ...f, metric: e.target.value as GoalMetric }))}>
+              {GOAL_METRICS.map((m) => (
+                <option key={m.key} value={m.key}>{m.label}</option>
+              ))}
+            </select>
+            <span className="text-xs text-black pb-2">per</span>
+            <select className={select} value={form.period} onChange={(e) => setForm((f) => ({ ...f, period: e.target.value as GoalPeriod }))}>
+              {(Object.keys(GOAL_PERIOD_LABELS) as GoalPeriod[]).map((p) => (
+                <option key={p} value={p}>{GOAL_PERIOD_LABELS[p].toLowerCase()}</option>
+              ))}
+            </select>
+            <Button onClick={save} disabled={saving || !session || !(Number(form.target) > 0)}>Set goal</Button>
+          </>
+        )}
+      </div>
+      {!visible ? (
+        <div className="text-sm text-black">Results are hidden.</div>
+      ) : (
+        <>
+          {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+          {!loading && rows.length === 0 && <div className="text-sm text-black">No goals set for this scope.</div>}
+          <div className="space-y-3">
+            {rows.map(({ goal, range, progress }) => (
+              <div key={goal.id} className="text-xs text-black">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                  <span className="font-semibold">
+                    {agentLabel(agentsById.get(goal.agent_id)) || 'Unknown agent'}
+                    {goal.applies_to === 'team' ? ' (team)' : ''} · {METRIC_LABELS[goal.metric]} per {GOAL_PERIOD_LABELS[goal.period].toLowerCase()}
+                  </span>
+                  <span>
+                    {progress.actual}/{goal.target} ({pct(progress.attainment)}) · projected {progress.projected} ({pct(progress.projectedAttainment)}) · day {range.elapsedDays} of {range.totalDays}
+                    {canManage && assignable.some((a) => a.id === goal.agent_id) && (
+                      <button type="button" className="ml-3 font-semibold text-red-600" onClick={() => remove(goal)}>Remove</button>
+                    )}
+                  </span>
+                </div>
+                <div className="relative h-3 w-full rounded bg-slate-100">
+                  {/* Projected result behind the actual one */}
+                  <div className="absolute inset-y-0 left-0 rounded bg-teal-100" style={{ width: `${Math.min(100, progress.projectedAttainment * 100)}%` }} />
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded ${progress.attainment >= 1 ? 'bg-emerald-500' : progress.projectedAttainment >= 1 ? 'bg-teal-600' : 'bg-amber-500'}`}
+                    style={{ width: `${Math.min(100, progress.attainment * 100)}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          {loading && <div className="mt-2 text-xs text-black">Loading…</div>}
+        </>
+      )}
+    </Card>
+  );
+}
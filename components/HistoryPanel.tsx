@@ -0,0 +1,111 @@
+'use client';
+
+// components/HistoryPanel.tsx
+/**
+ * Timeline of audit_log entries for one record (see lib/api/audit.ts).
+ * Bump `refreshKey` after a save to reload it.
+ */
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api/client';
+import type { AuditEntry, AuditedTable } from '@/lib/api/audit';
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  insert: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  update: 'bg-blue-50 text-blue-700 border-blue-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+function formatValue(v: unknown): string {
+  if (v === null || v === undefined || v === '') return '—';
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+}
+
+function tableLabel(table: string): string {
+  return table.replace(/^fna_/, 'FNA ').replace(/_/g, ' ');
+}
+
+export function HistoryPanel({
+  table,
+  recordId,
+  refreshKey = 0,
+  title = 'History',
+}: {
+  table: AuditedTable;
+  recordId: string | number | null;
+  refreshKey?: number;
+  title?: string;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (recordId == null || recordId === '') {
+      setEntries([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api.audit
+      .history(table, recordId)
+      .then((rows) => {
+        if (!cancelled) setEntries(rows ?? []);
+      })
+      .catch((e: any) => {
+        if (!cancelled) setError(e?.message ?? 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [table, recordId, refreshKey]);
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4">
+      <div className="text-sm font-bold text-slate-800 mb-3">{title}</div>
+      {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+      {loading ? (
+        <div className="text-sm text-slate-500">Loading…</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-slate-500">No changes recorded yet.</div>
+      ) : (
+        <ol className="space-y-3 max-h-[420px] overflow-auto pr-1">
+          {entries.map((e) => {
+            const fields = e.action === 'update' ? Object.keys(e.after ?? {}) : [];
+            return (
+              <li key={e.id} className="border-l-2 border-slate-200 pl-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+                  <span className={`rounded-full border px-2 py-0.5 font-semibold ${ACTION_STYLES[e.action]}`}>{ACTION_LABELS[e.action]}</span>
+                  {e.table_name !== table && <span className="font-semibold text-slate-700">{tableLabel(e.table_name)}</span>}
+                  <span>{new Date(e.changed_at).toLocaleString()}</span>
+                  <span>by {e.changed_by_email ?? 'unknown'}</span>
+                </div>
+                {fields.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-sm">
+                    {fields.map((k) => (
+                      <li key={k} className="break-words">
+                        <span className="font-semibold text-slate-700">{k}</span>:{' '}
+                        <span className="text-slate-500 line-through">{formatValue(e.before?.[k])}</span>{' '}
+                        → <span className="text-slate-900">{formatValue(e.after?.[k])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
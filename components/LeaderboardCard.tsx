@@ -0,0 +1,146 @@
+'use client';
+
+// components/LeaderboardCard.tsx
+/**
+ * Agent leaderboard for the dashboard (see lib/leaderboard.ts): one row per
+ * agent in the current scope, sortable by any column and exportable to XLSX.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Button, Card } from '@/components/ui';
+import { getRepository } from '@/lib/repo';
+import {
+  LEADERBOARD_METRICS,
+  leaderboardExportRows,
+  leaderboardTotals,
+  sortLeaderboard,
+  type LeaderboardEntry,
+  type LeaderboardSort,
+} from '@/lib/leaderboard';
+import { TREND_RANGE_LABELS, resolveTrendRange, type TrendRange, type TrendRangePreset } from '@/lib/trends';
+import { agentLabel, type Agent } from '@/lib/team';
+
+export function LeaderboardCard({ ownerIds, agents }: { ownerIds: string[] | null; agents: Agent[] }) {
+  const [visible, setVisible] = useState(false);
+  const [preset, setPreset] = useState<TrendRangePreset>('week');
+  const [first, setFirst] = useState('');
+  const [last, setLast] = useState('');
+  const [sort, setSort] = useState<LeaderboardSort>({ key: 'issued', ascending: false });
+  const [data, setData] = useState<{ range: TrendRange; entries: LeaderboardEntry[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const agentsById = useMemo(() => new Map(agents.map((a) => [a.id, a])), [agents]);
+  const range = resolveTrendRange(preset, { first, last }, 'day');
+
+  useEffect(() => {
+    if (!visible || !range) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const entries = await getRepository().reports.leaderboard(ownerIds, range.from, range.to);
+        if (!cancelled) setData({ range, entries });
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ?? 'Failed to load the leaderboard');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // range is derived from preset, first and last
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, preset, first, last, ownerIds?.join(',')]);
+
+  const sorted = useMemo(() => (data ? sortLeaderboard(data.entries, sort, agentsById) : []), [data, sort, agentsById]);
+  const totals = useMemo(() => leaderboardTotals(sorted), [sorted]);
+
+  const toggleSort = (key: LeaderboardSort['key']) =>
+    setSort((cur) => (cur.key === key ? { key, ascending: !cur.ascending } : { key, ascending: key === 'agent' }));
+  const arrow = (key: LeaderboardSort['key']) => (sort.key === key ? (sort.ascending ? ' ▲' : ' ▼') : '');
+
+  const exportXlsx = () => {
+    if (!data) return;
+    const ws = XLSX.utils.aoa_to_sheet(leaderboardExportRows(data.range, sorted, agentsById));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Leaderboard');
+    XLSX.writeFile(wb, `Leaderboard_${data.range.first}_to_${data.range.last}.xlsx`);
+  };
+
+  return (
+    <Card title="Agent Leaderboard 🏆">
+      <div className="flex flex-wrap items-end gap-2 mb-3">
+        <Button variant="secondary" onClick={() => setVisible((v) => !v)}>
+          {visible ? 'Hide 🏆' : 'Show 🏆'}
+        </Button>
+        <select
+          className="border border-slate-300 bg-white px-2 py-2 text-xs rounded"
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as TrendRangePreset)}
+        >
+          {(Object.keys(TREND_RANGE_LABELS) as TrendRangePreset[]).map((p) => (
+            <option key={p} value={p}>{TREND_RANGE_LABELS[p]}</option>
+          ))}
+        </select>
+        {preset === 'custom' && (
+          <>
+            <input type="date" className="border border-slate-300 px-2 py-2 text-xs rounded" value={first} onChange={(e) => setFirst(e.target.value)} />
+            <span className="text-xs text-black pb-2">to</span>
+            <input type="date" className="border border-slate-300 px-2 py-2 text-xs rounded" value={last} onChange={(e) => setLast(e.target.value)} />
+          </>
+        )}
+        <Button variant="secondary" onClick={exportXlsx} disabled={!visible || !data || sorted.length === 0}>📤</Button>
+        {data && visible && (
+          <span className="text-xs font-semibold text-black pb-2">{data.range.first} – {data.range.last}</span>
+        )}
+      </div>
+      {!visible ? (
+        <div className="text-sm text-black">Results are hidden.</div>
+      ) : (
+        <>
+          {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+          <div className="overflow-auto max-h-[420px]">
+            <table className="w-full text-xs text-black">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left border-b border-slate-200">
+                  <th className="py-1 pr-2 w-10">#</th>
+                  <th className="py-1 pr-2 cursor-pointer select-none" onClick={() => toggleSort('agent')}>Agent{arrow('agent')}</th>
+                  {LEADERBOARD_METRICS.map((m) => (
+                    <th key={m.key} className="py-1 pr-2 text-right cursor-pointer select-none" onClick={() => toggleSort(m.key)}>
+                      {m.label}{arrow(m.key)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((e, i) => (
+                  <tr key={e.agentId} className="border-b border-slate-100">
+                    <td className="py-1 pr-2">{i + 1}</td>
+                    <td className="py-1 pr-2 font-semibold">{agentLabel(agentsById.get(e.agentId)) || e.agentId}</td>
+                    {LEADERBOARD_METRICS.map((m) => (
+                      <td key={m.key} className="py-1 pr-2 text-right">{e[m.key]}</td>
+                    ))}
+                  </tr>
+                ))}
+                {sorted.length > 1 && (
+                  <tr className="font-bold border-t border-slate-300">
+                    <td className="py-1 pr-2" />
+                    <td className="py-1 pr-2">Total</td>
+                    {LEADERBOARD_METRICS.map((m) => (
+                      <td key={m.key} className="py-1 pr-2 text-right">{totals[m.key]}</td>
+                    ))}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {!loading && sorted.length === 0 && <div className="mt-2 text-sm text-black">No agents in this scope.</div>}
+          {loading && <div className="mt-2 text-xs text-black">Loading…</div>}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+// components/MeetingCalendar.tsx
+/**
+ * Month / week / day calendar of BOPs and follow-ups (see lib/calendar.ts).
+ * Loads the days on screen itself; dragging an event to another day (or, in
+ * the day view, another hour) reschedules it through `onReschedule`.
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui';
+import { getRepository } from '@/lib/repo';
+import {
+  CALENDAR_VIEW_LABELS,
+  MEETING_FIELDS,
+  calendarDays,
+  eventsByDay,
+  isSameSlot,
+  meetingEvents,
+  rescheduledInput,
+  shiftAnchor,
+  type CalendarView,
+  type MeetingEvent,
+} from '@/lib/calendar';
+import { addDaysToKey, formatInZone, startOfZonedDay, todayKey, wallClock } from '@/lib/timezone';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const KIND_STYLES: Record<MeetingEvent['kind'], string> = {
+  bop: 'bg-teal-100 border-teal-400 text-teal-900',
+  followup: 'bg-orange-100 border-orange-400 text-orange-900',
+};
+
+const hourLabel = (hour: number) => new Intl.DateTimeFormat(undefined, { hour: 'numeric', timeZone: 'UTC' }).format(new Date(Date.UTC(2000, 0, 1, hour)));
+
+const dayLabel = (key: string, options: Intl.DateTimeFormatOptions) =>
+  new Intl.DateTimeFormat(undefined, { ...options, timeZone: 'UTC' }).format(new Date(`${key}T12:00:00Z`));
+
+export function MeetingCalendar({
+  ownerIds,
+  timeZone,
+  refreshKey,
+  onReschedule,
+}: {
+  ownerIds: string[] | null;
+  timeZone: string;
+  /** Bump to reload after the meetings were edited elsewhere */
+  refreshKey: number;
+  /** Saves the new date as a `datetime-local` value in `timeZone` */
+  onReschedule: (clientId: string, field: 'BOP_Date' | 'Followup_Date', input: string) => Promise<void>;
+}) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => todayKey(timeZone));
+  const [events, setEvents] = useState<MeetingEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<MeetingEvent | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = useMemo(() => calendarDays(view, anchor), [view, anchor]);
+  const byDay = useMemo(() => eventsByDay(events, timeZone), [events, timeZone]);
+  const today = todayKey(timeZone);
+
+  const load = async () => {
+    const from = startOfZonedDay(days[0], timeZone);
+    const to = startOfZonedDay(addDaysToKey(days[days.length - 1], 1), timeZone);
+    setLoading(true);
+    setError(null);
+    try {
+      const rows = await getRepository().clients.scheduledBetween({ ownerIds }, from, to);
+      setEvents(meetingEvents(rows, from, to));
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to load meetings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days, timeZone, ownerIds, refreshKey]);
+
+  const drop = async (day: string, hour?: number) => {
+    const event = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!event) return;
+    const input = rescheduledInput(event, day, timeZone, hour);
+    if (isSameSlot(event, input, timeZone)) return;
+    setError(null);
+    try {
+      await onReschedule(event.clientId, MEETING_FIELDS[event.kind].date, input);
+      await load();
+    } catch (e: any) {
+      setError(e?.message ?? 'Failed to reschedule');
+    }
+  };
+
+  // Drag-and-drop handlers for a day cell or, in the day view, an hour row
+  const dropZone = (day: string, hour?: number) => {
+    const key = hour == null ? day : `${day}T${hour}`;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!dragging) return;
+        e.preventDefault();
+        setDropTarget(key);
+      },
+      onDragLeave: () => setDropTarget((cur) => (cur === key ? null : cur)),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        drop(day, hour);
+      },
+      highlighted: dropTarget === key,
+    };
+  };
+
+  const renderEvent = (e: MeetingEvent) => (
+    <div
+      key={e.id}
+      draggable
+      onDragStart={(ev) => {
+        ev.dataTransfer.effectAllowed = 'move';
+        ev.dataTransfer.setData('text/plain', e.id);
+        setDragging(e);
+      }}
+      onDragEnd={() => {
+        setDragging(null);
+        setDropTarget(null);
+      }}
+      className={`mb-1 cursor-move truncate rounded border px-1 py-0.5 text-[11px] ${KIND_STYLES[e.kind]}`}
+      title={`${MEETING_FIELDS[e.kind].label}: ${e.title}${e.status ? ` (${e.status})` : ''} — drag to reschedule`}
+    >
+      <b>{formatInZone(e.start, timeZone, { timeStyle: 'short' })}</b> {MEETING_FIELDS[e.kind].label} · {e.title || '(no name)'}
+    </div>
+  );
+
+  const heading =
+    view === 'month'
+      ? dayLabel(anchor, { month: 'long', year: 'numeric' })
+      : view === 'week'
+        ? `${dayLabel(days[0], { month: 'short', day: 'numeric' })} – ${dayLabel(days[6], { month: 'short', day: 'numeric', year: 'numeric' })}`
+        : dayLabel(anchor, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="text-black">
+      <div className="mb-2 flex flex-wrap items-center gap-2">
+        <Button variant="secondary" onClick={() => setAnchor((a) => shiftAnchor(view, a, -1))}>◀️</Button>
+        <Button variant="secondary" onClick={() => setAnchor(todayKey(timeZone))}>Today</Button>
+        <Button variant="secondary" onClick={() => setAnchor((a) => shiftAnchor(view, a, 1))}>▶️</Button>
+        <div className="font-bold">{heading}</div>
+        <div className="ml-auto flex gap-1">
+          {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map((v) => (
+            <button
+              key={v}
+              type="button"
+              className={`rounded border px-2 py-1 text-xs font-semibold ${v === view ? 'border-teal-700 bg-teal-700 text-white' : 'border-slate-300 bg-white'}`}
+              onClick={() => setView(v)}
+            >
+              {CALENDAR_VIEW_LABELS[v]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <div className="mb-2 text-sm text-red-700">{error}</div>}
+      {loading && <div className="mb-2 text-xs text-slate-600">Loading…</div>}
+
+      {view !== 'day' && (
+        <div className="grid grid-cols-7 border-l border-t border-slate-300 text-xs">
+          {WEEKDAYS.map((d) => (
+            <div key={d} className="border-b border-r border-slate-300 bg-slate-50 px-1 py-1 text-center font-semibold">{d}</div>
+          ))}
+          {days.map((day) => {
+            const zone = dropZone(day);
+            const outside = view === 'month' && day.slice(0, 7) !== anchor.slice(0, 7);
+            return (
+              <div
+                key={day}
+                onDragOver={zone.onDragOver}
+                onDragLeave={zone.onDragLeave}
+                onDrop={zone.onDrop}
+                className={`border-b border-r border-slate-300 p-1 align-top ${view === 'week' ? 'min-h-[240px]' : 'min-h-[96px]'} ${
+                  zone.highlighted ? 'bg-teal-50' : outside ? 'bg-slate-50 text-slate-400' : 'bg-white'
+                }`}
+              >
+                <button
+                  type="button"
+                  className={`mb-1 font-semibold ${day === today ? 'rounded bg-teal-700 px-1 text-white' : ''}`}
+                  onClick={() => {
+                    setAnchor(day);
+                    setView('day');
+                  }}
+                  title="Open this day"
+                >
+                  {Number(day.slice(8))}
+                </button>
+                {(byDay.get(day) ?? []).map(renderEvent)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {view === 'day' && (
+        <div className="max-h-[480px] overflow-auto border-t border-slate-300 text-xs">
+          {HOURS.map((hour) => {
+            const zone = dropZone(anchor, hour);
+            const inHour = (byDay.get(anchor) ?? []).filter((e) => wallClock(new Date(e.start), timeZone).hour === hour);
+            return (
+              <div
+                key={hour}
+                onDragOver={zone.onDragOver}
+                onDragLeave={zone.onDragLeave}
+                onDrop={zone.onDrop}
+                className={`flex min-h-[36px] border-b border-slate-200 ${zone.highlighted ? 'bg-teal-50' : 'bg-white'}`}
+              >
+                <div className="w-16 shrink-0 border-r border-slate-200 px-1 py-1 text-right text-slate-500">
+                  {hourLabel(hour)}
+                </div>
+                <div className="flex-1 px-1 pt-1">{inHour.map(renderEvent)}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="mt-2 text-xs text-slate-600">
+        <span className="mr-3 inline-block rounded border border-teal-400 bg-teal-100 px-1">BOP</span>
+        <span className="mr-3 inline-block rounded border border-orange-400 bg-orange-100 px-1">Follow-up</span>
+        Drag a meeting to another day{view === 'day' ? ' or hour' : ''} to reschedule it. Times are in {timeZone}.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+// components/NotificationBell.tsx
+/**
+ * The signed-in agent's inbox of meeting reminders (see lib/reminders.ts) with
+ * an unread count, plus their reminder settings: how long before a meeting
+ * and on which channels.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui';
+import { api } from '@/lib/api/client';
+import { getRepository } from '@/lib/repo';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  LEAD_TIME_OPTIONS,
+  REMINDER_CHANNELS,
+  REMINDER_CHANNEL_LABELS,
+  formatLead,
+  toReminderSettings,
+  type Notification,
+  type ReminderChannel,
+  type ReminderSettings,
+} from '@/lib/reminders';
+import { can } from '@/lib/roles';
+import { followRecordLink } from '@/lib/search';
+import { formatInZone } from '@/lib/timezone';
+import type { SessionPayload } from '@/lib/session';
+
+/** How often the unread count is refreshed */
+const POLL_MS = 60_000;
+
+export function NotificationBell({ session, timeZone }: { session: SessionPayload | null; timeZone: string }) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [unread, setUnread] = useState(0);
+  const [items, setItems] = useState<Notification[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const agentId = session?.id;
+
+  const refreshCount = useCallback(async () => {
+    if (!agentId) return;
+    try {
+      setUnread(await getRepository().notifications.unreadCount(agentId));
+    } catch {
+      // keep the last count; the next poll tries again
+    }
+  }, [agentId]);
+
+  useEffect(() => {
+    refreshCount();
+    const id = setInterval(refreshCount, POLL_MS);
+    return () => clearInterval(id);
+  }, [refreshCount]);
+
+  useEffect(() => {
+    if (!open || !agentId) return;
+    let cancelled = false;
+    (async () => {
+      setError(null);
+      try {
+        const repo = getRepository();
+        const [list, saved] = await Promise.all([repo.notifications.list(agentId), repo.reminders.settings(agentId)]);
+        if (cancelled) return;
+        setItems(list);
+        setSettings(toReminderSettings(saved));
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ?? 'Could not load notifications');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, agentId]);
+
+  if (!session) return null;
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await api.notifications.markRead(ids);
+      const now = new Date().toISOString();
+      setItems((prev) => prev.map((n) => (!ids || ids.includes(n.id) ? { ...n, read_at: n.read_at ?? now } : n)));
+      await refreshCount();
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not mark as read');
+    }
+  };
+
+  const openItem = async (n: Notification) => {
+    if (!n.read_at) await markRead([n.id]);
+    if (n.link) {
+      setOpen(false);
+      followRecordLink(n.link, (href) => router.push(href));
+    }
+  };
+
+  const toggleLead = (minutes: number) =>
+    setSettings((s) => ({
+      ...s,
+      leadMinutes: s.leadMinutes.includes(minutes) ? s.leadMinutes.filter((m) => m !== minutes) : [...s.leadMinutes, minutes].sort((a, b) => b - a),
+    }));
+
+  const toggleChannel = (channel: ReminderChannel) =>
+    setSettings((s) => ({
+      ...s,
+      channels: s.channels.includes(channel) ? s.channels.filter((c) => c !== channel) : [...s.channels, channel],
+    }));
+
+  const saveSettings = async () => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setSettings(await api.reminders.saveSettings(settings));
+      setNotice('Reminder settings saved.');
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not save the settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runNow = async () => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const { sent, failed } = await api.reminders.run();
+      setNotice(`Sent ${sent} reminder${sent === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}.`);
+      await refreshCount();
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not send reminders');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const leadOptions = Array.from(new Set([...LEAD_TIME_OPTIONS, ...settings.leadMinutes])).sort((a, b) => a - b);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 py-2 bg-gray-200 text-xs rounded text-center whitespace-nowrap"
+        onClick={() => setOpen((v) => !v)}
+        title="Meeting reminders"
+      >
+        Reminders🔔 {unread > 0 && <span className="ml-1 rounded-full bg-red-600 px-1.5 text-white">{unread}</span>}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-50 mt-1 w-96 rounded-lg border border-slate-300 bg-white text-sm text-black shadow-xl">
+          <div className="flex items-center justify-between border-b border-slate-200 px-3 py-2">
+            <span className="font-bold">Notifications</span>
+            <span className="flex gap-2 text-xs">
+              <button type="button" className="text-teal-700 hover:underline disabled:text-slate-400" disabled={!unread} onClick={() => markRead()}>
+                Mark all read
+              </button>
+              <button type="button" className="text-teal-700 hover:underline" onClick={() => setShowSettings((v) => !v)}>
+                {showSettings ? 'Inbox' : 'Settings'}
+              </button>
+            </span>
+          </div>
+          {error && <div className="px-3 py-2 text-xs text-red-700">{error}</div>}
+          {notice && <div className="px-3 py-2 text-xs text-emerald-700">{notice}</div>}
+          {showSettings ? (
+            <div className="space-y-3 px-3 py-3 text-xs">
+              <div>
+                <div className="mb-1 font-semibold">Remind me before a meeting</div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {leadOptions.map((m) => (
+                    <label key={m} className="flex items-center gap-1">
+                      <input type="checkbox" checked={settings.leadMinutes.includes(m)} onChange={() => toggleLead(m)} />
+                      {formatLead(m)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="mb-1 font-semibold">Send reminders to</div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {REMINDER_CHANNELS.map((c) => (
+                    <label key={c} className="flex items-center gap-1">
+                      <input type="checkbox" checked={settings.channels.includes(c)} onChange={() => toggleChannel(c)} />
+                      {REMINDER_CHANNEL_LABELS[c]}
+                    </label>
+                  ))}
+                </div>
+                {settings.channels.includes('email') && <div className="mt-1 text-slate-600">Emails go to {session.email}.</div>}
+              </div>
+              {settings.channels.includes('webhook') && (
+                <label className="block">
+                  <span className="mb-1 block font-semibold">Webhook URL</span>
+                  <input
+                    className="w-full rounded border border-slate-300 px-2 py-1"
+                    placeholder="https://…"
+                    value={settings.webhookUrl ?? ''}
+                    onChange={(e) => setSettings((s) => ({ ...s, webhookUrl: e.target.value || null }))}
+                  />
+                </label>
+              )}
+              <div className="flex gap-2">
+                <Button onClick={saveSettings} disabled={busy}>
+                  Save
+                </Button>
+                {can(session.role, 'reminders.run') && (
+                  <Button variant="secondary" onClick={runNow} disabled={busy}>
+                    Send due reminders now
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="max-h-96 overflow-auto">
+              {items.length === 0 && <div className="px-3 py-4 text-slate-600">No notifications yet.</div>}
+              {items.map((n) => (
+                <button
+                  key={n.id}
+                  type="button"
+                  className={`block w-full border-b border-slate-100 px-3 py-2 text-left hover:bg-slate-50 ${n.read_at ? 'text-slate-500' : 'bg-teal-50/50'}`}
+                  onClick={() => openItem(n)}
+                >
+                  <div className={n.read_at ? '' : 'font-semibold'}>{n.title}</div>
+                  {n.body && <div className="text-xs">{n.body}</div>}
+                  <div className="text-[11px] text-slate-500">
+                    {formatInZone(n.created_at, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
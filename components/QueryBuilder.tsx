@@ -0,0 +1,179 @@
+'use client';
+
+// components/QueryBuilder.tsx
+/**
+ * Editor for the Clients List advanced search (see lib/clientQuery.ts):
+ * conditions on any column, grouped with all / any. Edits stay local until
+ * Apply, so the list is not reloaded on every keystroke.
+ */
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui';
+import {
+  CLIENT_QUERY_COLUMNS,
+  EMPTY_QUERY,
+  MAX_QUERY_DEPTH,
+  QUERY_OPERATORS,
+  QUERY_PERIOD_LABELS,
+  isQueryGroup,
+  operatorsFor,
+  queryColumnType,
+  type ClientQuery,
+  type QueryCondition,
+  type QueryGroup,
+  type QueryNode,
+  type QueryPeriod,
+} from '@/lib/clientQuery';
+import type { ClientColumn } from '@/lib/models';
+
+const COLUMNS = Object.keys(CLIENT_QUERY_COLUMNS) as ClientColumn[];
+
+const NEW_CONDITION: QueryCondition = { column: 'client_status', op: 'equals', value: '' };
+
+const input = 'border border-slate-300 bg-white px-2 py-1 text-xs rounded';
+
+function ConditionEditor({
+  condition,
+  labelFor,
+  onChange,
+  onRemove,
+}: {
+  condition: QueryCondition;
+  labelFor: (key: string) => string;
+  onChange: (c: QueryCondition) => void;
+  onRemove: () => void;
+}) {
+  const type = queryColumnType(condition.column) ?? 'text';
+  const kind = QUERY_OPERATORS[condition.op]?.value ?? 'text';
+
+  const changeColumn = (column: ClientColumn) => {
+    const ops = operatorsFor(queryColumnType(column) ?? 'text');
+    const op = ops.includes(condition.op) ? condition.op : ops[0];
+    // Keep the value only while it still means the same thing
+    const keep = QUERY_OPERATORS[op].value === kind;
+    onChange({ column, op, ...(keep ? { value: condition.value, values: condition.values } : {}) });
+  };
+
+  const changeOp = (op: QueryCondition['op']) => {
+    const keep = QUERY_OPERATORS[op].value === kind;
+    onChange({ column: condition.column, op, ...(keep ? { value: condition.value, values: condition.values } : {}) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select className={input} value={condition.column} onChange={(e) => changeColumn(e.target.value as ClientColumn)}>
+        {COLUMNS.map((c) => (
+          <option key={c} value={c}>{labelFor(c)}</option>
+        ))}
+      </select>
+      <select className={input} value={condition.op} onChange={(e) => changeOp(e.target.value as QueryCondition['op'])}>
+        {operatorsFor(type).map((op) => (
+          <option key={op} value={op}>{QUERY_OPERATORS[op].label}</option>
+        ))}
+      </select>
+      {kind === 'text' && (
+        <input className={input} value={condition.value ?? ''} onChange={(e) => onChange({ ...condition, value: e.target.value })} placeholder="Value" />
+      )}
+      {kind === 'list' && (
+        <input
+          className={`${input} w-56`}
+          value={(condition.values ?? []).join(',')}
+          onChange={(e) => onChange({ ...condition, values: e.target.value.split(',') })}
+          placeholder="Comma-separated values"
+        />
+      )}
+      {kind === 'day' && (
+        <input type="date" className={input} value={condition.value ?? ''} onChange={(e) => onChange({ ...condition, value: e.target.value })} />
+      )}
+      {kind === 'period' && (
+        <select className={input} value={condition.value ?? ''} onChange={(e) => onChange({ ...condition, value: e.target.value })}>
+          <option value="" disabled>Choose…</option>
+          {(Object.keys(QUERY_PERIOD_LABELS) as QueryPeriod[]).map((p) => (
+            <option key={p} value={p}>{QUERY_PERIOD_LABELS[p]}</option>
+          ))}
+        </select>
+      )}
+      <button type="button" className="text-xs font-semibold text-red-600" onClick={onRemove} title="Remove condition">
+        ✕
+      </button>
+    </div>
+  );
+}
+
+function GroupEditor({
+  group,
+  depth,
+  labelFor,
+  onChange,
+  onRemove,
+}: {
+  group: QueryGroup;
+  depth: number;
+  labelFor: (key: string) => string;
+  onChange: (g: QueryGroup) => void;
+  onRemove?: () => void;
+}) {
+  const setNode = (i: number, node: QueryNode) => onChange({ ...group, conditions: group.conditions.map((n, j) => (j === i ? node : n)) });
+  const removeNode = (i: number) => onChange({ ...group, conditions: group.conditions.filter((_, j) => j !== i) });
+  const add = (node: QueryNode) => onChange({ ...group, conditions: [...group.conditions, node] });
+
+  return (
+    <div className={depth > 0 ? 'border-l-2 border-teal-300 pl-3 space-y-2' : 'space-y-2'}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-black">
+        <span>Match</span>
+        <select className={input} value={group.match} onChange={(e) => onChange({ ...group, match: e.target.value as QueryGroup['match'] })}>
+          <option value="all">all (AND)</option>
+          <option value="any">any (OR)</option>
+        </select>
+        <span>of these conditions</span>
+        {onRemove && (
+          <button type="button" className="font-semibold text-red-600" onClick={onRemove}>
+            Remove group
+          </button>
+        )}
+      </div>
+      {group.conditions.map((node, i) =>
+        isQueryGroup(node) ? (
+          <GroupEditor key={i} group={node} depth={depth + 1} labelFor={labelFor} onChange={(g) => setNode(i, g)} onRemove={() => removeNode(i)} />
+        ) : (
+          <ConditionEditor key={i} condition={node} labelFor={labelFor} onChange={(c) => setNode(i, c)} onRemove={() => removeNode(i)} />
+        )
+      )}
+      <div className="flex gap-3 text-xs font-semibold">
+        <button type="button" className="text-teal-700" onClick={() => add({ ...NEW_CONDITION })}>
+          + Condition
+        </button>
+        {depth < MAX_QUERY_DEPTH && (
+          <button type="button" className="text-teal-700" onClick={() => add({ match: group.match === 'all' ? 'any' : 'all', conditions: [{ ...NEW_CONDITION }] })}>
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function QueryBuilder({ value, labelFor, onApply }: { value: ClientQuery; labelFor: (key: string) => string; onApply: (query: ClientQuery) => void }) {
+  const [draft, setDraft] = useState<ClientQuery>(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <div className="mb-3 rounded border border-slate-300 bg-slate-50 p-3 space-y-3">
+      <GroupEditor group={draft} depth={0} labelFor={labelFor} onChange={setDraft} />
+      <div className="flex gap-2">
+        <Button onClick={() => onApply(draft)}>Apply</Button>
+        <Button
+          variant="secondary"
+          onClick={() => {
+            setDraft(EMPTY_QUERY);
+            onApply(EMPTY_QUERY);
+          }}
+        >
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+// components/RecentlyDeletedPanel.tsx
+/**
+ * List of soft-deleted records with Restore buttons (see lib/softDelete.ts).
+ * Pages map their rows to DeletedItem and handle restore/purge themselves.
+ */
+import { useState } from 'react';
+import { SOFT_DELETE_RETENTION_DAYS, isPurgeable } from '@/lib/softDelete';
+
+export type DeletedItem = {
+  key: string;
+  title: string;
+  subtitle?: string;
+  deletedAt: string;
+  deletedBy?: string;
+};
+
+export function RecentlyDeletedPanel({
+  title = 'Recently deleted',
+  items,
+  loading,
+  error,
+  onRestore,
+  onPurge,
+}: {
+  title?: string;
+  items: DeletedItem[];
+  loading: boolean;
+  error: string | null;
+  onRestore: (key: string) => Promise<void>;
+  /** Only passed for users allowed to purge */
+  onPurge?: () => Promise<void>;
+}) {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [purging, setPurging] = useState(false);
+  const purgeableCount = items.filter((i) => isPurgeable(i.deletedAt)).length;
+
+  const restore = async (key: string) => {
+    setBusyKey(key);
+    try {
+      await onRestore(key);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const purge = async () => {
+    if (!onPurge) return;
+    if (!confirm(`Permanently remove everything deleted more than ${SOFT_DELETE_RETENTION_DAYS} days ago? This cannot be undone.`)) return;
+    setPurging(true);
+    try {
+      await onPurge();
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <div className="text-sm font-bold text-slate-800">{title}</div>
+        {onPurge && (
+          <button
+            type="button"
+            className="inline-flex h-9 items-center justify-center rounded-lg border border-red-200 bg-white px-3 text-xs font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50"
+            onClick={purge}
+            disabled={purging || purgeableCount === 0}
+          >
+            {purging ? 'Purging...' : `Purge expired (${purgeableCount})`}
+          </button>
+        )}
+      </div>
+      <div className="text-xs text-slate-500 mb-3">
+        Deleted items can be restored. After {SOFT_DELETE_RETENTION_DAYS} days an admin may remove them permanently.
+      </div>
+      {error && <div className="mb-2 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>}
+      {loading ? (
+        <div className="text-sm text-slate-500">Loading…</div>
+      ) : items.length === 0 ? (
+        <div className="text-sm text-slate-500">Nothing deleted.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-[360px] overflow-auto">
+          {items.map((item) => (
+            <li key={item.key} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold text-slate-900 truncate">{item.title}</div>
+                <div className="text-xs text-slate-500">
+                  {item.subtitle ? `${item.subtitle} • ` : ''}
+                  Deleted {new Date(item.deletedAt).toLocaleString()}
+                  {item.deletedBy ? ` by ${item.deletedBy}` : ''}
+                  {isPurgeable(item.deletedAt) ? ' • past retention' : ''}
+                </div>
+              </div>
+              <button
+                type="button"
+                className="inline-flex h-9 items-center justify-center rounded-lg border border-slate-200 bg-white px-3 text-xs font-semibold text-slate-900 hover:bg-slate-50 disabled:opacity-50"
+                onClick={() => restore(item.key)}
+                disabled={busyKey != null}
+              >
+                {busyKey === item.key ? 'Restoring...' : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+// components/SessionExpiryModal.tsx
+import { Button } from '@/components/ui';
+
+function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export function SessionExpiryModal({
+  secondsLeft,
+  renewing,
+  onStay,
+  onLogout,
+}: {
+  secondsLeft: number;
+  renewing: boolean;
+  onStay: () => void;
+  onLogout: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 px-4" role="alertdialog" aria-modal="true">
+      <div className="w-full max-w-sm rounded-2xl bg-white border border-slate-200 shadow-xl p-6">
+        <div className="text-lg font-bold text-slate-800 mb-2">Session expiring</div>
+        <p className="text-sm text-slate-600 mb-4">
+          You will be signed out in <span className="font-semibold text-slate-900 tabular-nums">{formatCountdown(secondsLeft)}</span>.
+          Unsaved edits are kept and restored after you sign in again.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onLogout}>
+            Sign out
+          </Button>
+          <Button onClick={onStay} disabled={renewing}>
+            {renewing ? 'Renewing…' : 'Stay signed in'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+// lib/activities.ts
+/**
+ * Client activity timeline (table public.client_activities): calls, BOPs,
+ * follow-ups, FNA sessions and issued policies, each with an outcome and
+ * notes. Saving a client's CalledOn / BOP_Date / Followup_Date / FNA_Date /
+ * Issued through /api/clients logs the event (see activitiesFromClientChange),
+ * so the history survives the columns being overwritten.
+ */
+import type { ClientActivityRow, ClientRegistration } from '@/lib/models';
+
+export type ActivityKind = 'call' | 'bop' | 'followup' | 'fna' | 'policy_issued';
+
+export const ACTIVITY_KIND_LABELS: Record<ActivityKind, string> = {
+  call: 'Call',
+  bop: 'BOP',
+  followup: 'Follow-up',
+  fna: 'FNA session',
+  policy_issued: 'Policy issued',
+};
+
+export const ACTIVITY_KIND_STYLES: Record<ActivityKind, string> = {
+  call: 'bg-slate-50 text-slate-700 border-slate-200',
+  bop: 'bg-blue-50 text-blue-700 border-blue-200',
+  followup: 'bg-amber-50 text-amber-700 border-amber-200',
+  fna: 'bg-violet-50 text-violet-700 border-violet-200',
+  policy_issued: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+};
+
+export function isActivityKind(value: unknown): value is ActivityKind {
+  return typeof value === 'string' && Object.hasOwn(ACTIVITY_KIND_LABELS, value);
+}
+
+export type ClientActivity = Omit<ClientActivityRow, 'kind'> & { kind: ActivityKind };
+
+/**
+ * The client columns each kind is logged from. The outcome is the matching
+ * status (the product for an issued policy); calls have none. A new CalledOn
+ * is another call; a new date of any other kind moves the existing event
+ * (a rescheduled BOP, a corrected issue date).
+ */
+export const ACTIVITY_COLUMNS: Record<ActivityKind, { date: keyof ClientRegistration; outcome: keyof ClientRegistration | null; moves: boolean }> = {
+  call: { date: 'CalledOn', outcome: null, moves: false },
+  bop: { date: 'BOP_Date', outcome: 'BOP_Status', moves: true },
+  followup: { date: 'Followup_Date', outcome: 'FollowUp_Status', moves: true },
+  fna: { date: 'FNA_Date', outcome: 'FNA_Status', moves: true },
+  policy_issued: { date: 'Issued', outcome: 'Product', moves: true },
+};
+
+/** Offered in the outcome field; any text is accepted */
+export const ACTIVITY_OUTCOME_SUGGESTIONS: Record<ActivityKind, string[]> = {
+  call: ['Reached', 'No answer', 'Left voicemail', 'Call back later', 'Wrong number', 'Not interested'],
+  bop: ['Presented', 'Business', 'Client', 'In-Progress', 'On-Hold', 'Clarification', 'Not Interested', 'Completed', 'Closed'],
+  followup: ['Open', 'In-Progress', 'Follow-Up', 'Follow-Up 2', 'On Hold', 'Completed'],
+  fna: ['In-Progress', 'Completed', 'Not Interested', 'Solution Provided', 'Skipped'],
+  policy_issued: [],
+};
+
+export type LoggedActivity = Pick<ClientActivityRow, 'client_id' | 'kind' | 'occurred_at' | 'outcome'> & {
+  /** Time of the event this one moves, when the date changed on a kind that moves */
+  replaces: string | null;
+};
+
+const text = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+/**
+ * Events to log after a client save: one per kind whose date is set and whose
+ * date or outcome changed. A changed status alone updates the event at the
+ * current date (the timeline keeps one event per kind and time); a changed
+ * date names the previous one in `replaces` when the kind moves.
+ */
+export function activitiesFromClientChange(before: Partial<ClientRegistration>, after: ClientRegistration): LoggedActivity[] {
+  const out: LoggedActivity[] = [];
+  for (const [kind, cols] of Object.entries(ACTIVITY_COLUMNS) as [ActivityKind, (typeof ACTIVITY_COLUMNS)[ActivityKind]][]) {
+    const date = after[cols.date];
+    if (typeof date !== 'string' || !date) continue;
+    const outcome = cols.outcome ? text(after[cols.outcome]) : null;
+    const previous = before[cols.date];
+    const previousTime = typeof previous === 'string' && previous ? new Date(previous).getTime() : NaN;
+    const dateChanged = new Date(date).getTime() !== previousTime;
+    const outcomeChanged = !!cols.outcome && outcome !== text(before[cols.outcome]);
+    if (!dateChanged && !outcomeChanged) continue;
+    const replaces = dateChanged && cols.moves && !Number.isNaN(previousTime) ? new Date(previousTime).toISOString() : null;
+    out.push({ client_id: after.id, kind, occurred_at: new Date(date).toISOString(), outcome, replaces });
+  }
+  return out;
+}
+
+/** Newest first; events at the same time in kind order */
+export function sortTimeline(activities: ClientActivity[]): ClientActivity[] {
+  const order = Object.keys(ACTIVITY_KIND_LABELS);
+  return [...activities].sort(
+    (a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime() || order.indexOf(a.kind) - order.indexOf(b.kind)
+  );
+}
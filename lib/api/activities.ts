@@ -0,0 +1,53 @@
+// lib/api/activities.ts
+/**
+ * Activity write rules shared by the /api/clients/[id]/activities and
+ * /api/activities handlers
+ */
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import type { ClientActivityInsert, ClientActivityUpdate } from '@/lib/models';
+import { isActivityKind, type ClientActivity } from '@/lib/activities';
+import { ApiError } from '@/lib/api/server';
+import { assertClientAccess } from '@/lib/api/fna';
+
+const MAX_NOTES_LENGTH = 5000;
+
+const optionalText = (v: unknown, label: string): string | null => {
+  if (v == null) return null;
+  if (typeof v !== 'string') throw new ApiError(400, `Invalid ${label}`);
+  if (v.length > MAX_NOTES_LENGTH) throw new ApiError(400, `The ${label} is too long`);
+  return v.trim() || null;
+};
+
+/**
+ * Kind, time, outcome and notes of an activity. With `partial`, only the
+ * fields present are checked and returned (for edits).
+ */
+export function cleanActivity(input: unknown): Pick<ClientActivityInsert, 'kind' | 'occurred_at' | 'outcome' | 'notes'>;
+export function cleanActivity(input: unknown, partial: true): ClientActivityUpdate;
+export function cleanActivity(input: unknown, partial = false): ClientActivityUpdate {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new ApiError(400, 'Expected an activity');
+  const a = input as Record<string, unknown>;
+  const out: ClientActivityUpdate = {};
+  if (!partial || 'kind' in a) {
+    if (!isActivityKind(a.kind)) throw new ApiError(400, 'Unknown activity type');
+    out.kind = a.kind;
+  }
+  if (!partial || 'occurred_at' in a) {
+    const t = typeof a.occurred_at === 'string' ? new Date(a.occurred_at) : null;
+    if (!t || Number.isNaN(t.getTime())) throw new ApiError(400, 'Enter when the activity happened');
+    out.occurred_at = t.toISOString();
+  }
+  if (!partial || 'outcome' in a) out.outcome = optionalText(a.outcome, 'outcome');
+  if (!partial || 'notes' in a) out.notes = optionalText(a.notes, 'notes');
+  if (partial && !Object.keys(out).length) throw new ApiError(400, 'Nothing to update');
+  return out;
+}
+
+/** An activity, if the caller may work on its client */
+export async function loadActivity(repo: Repository, session: SessionPayload, id: string): Promise<ClientActivity> {
+  const activity = await repo.activities.get(id);
+  if (!activity) throw new ApiError(404, 'Activity not found');
+  await assertClientAccess(repo, session, activity.client_id);
+  return activity;
+}
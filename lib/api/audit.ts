@@ -0,0 +1,98 @@
+// lib/api/audit.ts
+/**
+ * Audit trail for writes made through the app/api handlers (table public.audit_log).
+ *
+ * Handlers read the row before changing it and call recordAudit() afterwards
+ * with both versions; only the columns that changed are stored.
+ */
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import type { Json } from '@/lib/database.types';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+/** Tables that have a History panel */
+export const AUDITED_TABLES = ['client_registrations', 'prospects', 'fna_header'] as const;
+export type AuditedTable = (typeof AUDITED_TABLES)[number];
+
+export type AuditEntry = {
+  id: number;
+  table_name: string;
+  record_id: string;
+  parent_id: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+};
+
+type Row = Record<string, unknown>;
+
+// Bookkeeping columns that change on every save
+const IGNORED_KEYS = new Set(['updated_at']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Before/after of just the columns that differ
+ */
+export function diffRows(before: Row, after: Row): { before: Row; after: Row } | null {
+  const b: Row = {};
+  const a: Row = {};
+  for (const key of Object.keys(after)) {
+    if (IGNORED_KEYS.has(key) || sameValue(before[key], after[key])) continue;
+    b[key] = before[key] ?? null;
+    a[key] = after[key] ?? null;
+  }
+  return Object.keys(a).length ? { before: b, after: a } : null;
+}
+
+// A row as the jsonb column stores it (dates become strings, undefined keys drop out)
+function toJson(row: Row | null): Json | null {
+  return row && (JSON.parse(JSON.stringify(row)) as Json);
+}
+
+/**
+ * Write one audit entry. Best effort: the change itself already succeeded,
+ * so a failed audit insert is logged rather than surfaced to the user.
+ */
+export async function recordAudit(
+  repo: Repository,
+  session: SessionPayload,
+  entry: { table: string; recordId: string | number; parentId?: string | number | null; action: AuditAction; before?: Row | null; after?: Row | null }
+) {
+  let before = entry.before ?? null;
+  let after = entry.after ?? null;
+  if (entry.action === 'update' && before && after) {
+    const diff = diffRows(before, after);
+    if (!diff) return; // nothing actually changed
+    ({ before, after } = diff);
+  }
+
+  try {
+    await repo.audit.insert({
+      table_name: entry.table,
+      record_id: String(entry.recordId),
+      parent_id: entry.parentId == null ? null : String(entry.parentId),
+      action: entry.action,
+      before: toJson(before),
+      after: toJson(after),
+      changed_by: session.id,
+      changed_by_email: session.email,
+    });
+  } catch (e) {
+    console.error(`Audit log insert failed for ${entry.table}/${entry.recordId}:`, e);
+  }
+}
+
+/**
+ * Newest-first history of a record (and, for FNA headers, of its tab rows)
+ */
+export async function loadHistory(repo: Repository, table: AuditedTable, recordId: string, limit = 200): Promise<AuditEntry[]> {
+  const rows = await repo.audit.history(table, recordId, { includeChildren: table === 'fna_header', limit });
+  return rows as AuditEntry[];
+}
@@ -0,0 +1,133 @@
+// lib/api/client.ts
+/**
+ * Browser calls to the app/api route handlers. All writes go through here so
+ * validation and role checks run on the server; reads go through lib/repo.
+ */
+import { SESSION_EXPIRED_EVENT } from '@/lib/auth';
+import type { AuditEntry, AuditedTable } from '@/lib/api/audit';
+import type { ClientActivity } from '@/lib/activities';
+import type { Agent } from '@/lib/team';
+import type { ClientView, ClientViewFilters } from '@/lib/clientQuery';
+import type { Goal } from '@/lib/goals';
+import type { ReminderSettings } from '@/lib/reminders';
+import type {
+  ClientActivityUpdate,
+  ClientRegistration,
+  ClientRegistrationUpdate,
+  FnaHeader,
+  FnaHeaderUpdate,
+  FnaRow,
+  FnaRowTable,
+  FnaRowUpdate,
+  ProductionCycle,
+  ProductionCycleUpdate,
+  Prospect,
+  ProspectUpdate,
+} from '@/lib/models';
+
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => null);
+  // Let the AuthProvider send the user back to login
+  if (res.status === 401) window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+  if (!res.ok) throw new ApiRequestError(res.status, json?.error ?? `Request failed (${res.status})`);
+  return json?.data as T;
+}
+
+const id = (value: string | number) => encodeURIComponent(String(value));
+
+export const api = {
+  agents: {
+    /** The signed-in agent's own settings */
+    updateMe: (settings: Pick<Agent, 'time_zone'>) => request<Agent>('PATCH', '/api/agents/me', settings),
+  },
+  clients: {
+    update: (clientId: string, changes: ClientRegistrationUpdate) =>
+      request<ClientRegistration>('PATCH', `/api/clients/${id(clientId)}`, { changes }),
+  },
+  activities: {
+    create: (clientId: string, activity: Pick<ClientActivity, 'kind' | 'occurred_at' | 'outcome' | 'notes'>) =>
+      request<ClientActivity>('POST', `/api/clients/${id(clientId)}/activities`, { activity }),
+    update: (activityId: string, changes: ClientActivityUpdate) =>
+      request<ClientActivity>('PATCH', `/api/activities/${id(activityId)}`, { changes }),
+    remove: (activityId: string) => request<{ id: string }>('DELETE', `/api/activities/${id(activityId)}`),
+  },
+  prospects: {
+    create: (prospect: ProspectUpdate) => request<Prospect>('POST', '/api/prospects', { prospect }),
+    update: (prospectId: number, prospect: ProspectUpdate) =>
+      request<Prospect>('PATCH', `/api/prospects/${id(prospectId)}`, { prospect }),
+    remove: (prospectId: number) => request<{ id: number }>('DELETE', `/api/prospects/${id(prospectId)}`),
+    deleted: () => request<Prospect[]>('GET', '/api/prospects/deleted'),
+    restore: (prospectId: number) => request<Prospect>('POST', `/api/prospects/${id(prospectId)}/restore`),
+  },
+  fna: {
+    ensureHeader: (clientId: string) => request<FnaHeader>('POST', '/api/fna/headers', { client_id: clientId }),
+    updateHeader: (fnaId: string, changes: FnaHeaderUpdate) =>
+      request<FnaHeader>('PATCH', `/api/fna/headers/${id(fnaId)}`, { changes }),
+    createRow: <T extends FnaRowTable>(table: T, fnaId: string, row: FnaRowUpdate<T>) =>
+      request<FnaRow<T>>('POST', `/api/fna/rows/${id(table)}`, { fna_id: fnaId, row }),
+    updateRow: <T extends FnaRowTable>(table: T, rowId: string, row: FnaRowUpdate<T>) =>
+      request<FnaRow<T>>('PATCH', `/api/fna/rows/${id(table)}/${id(rowId)}`, { row }),
+    deleteRow: (table: FnaRowTable, rowId: string) =>
+      request<{ id: string }>('DELETE', `/api/fna/rows/${id(table)}/${id(rowId)}`),
+    deletedRows: (fnaId: string) =>
+      request<{ table: FnaRowTable; row: FnaRow }[]>('GET', `/api/fna/headers/${id(fnaId)}/deleted`),
+    restoreRow: <T extends FnaRowTable>(table: T, rowId: string) =>
+      request<FnaRow<T>>('POST', `/api/fna/rows/${id(table)}/${id(rowId)}/restore`),
+  },
+  cycles: {
+    create: (cycle: ProductionCycleUpdate) => request<ProductionCycle>('POST', '/api/cycles', { cycle }),
+    update: (cycleId: string, cycle: ProductionCycleUpdate) =>
+      request<ProductionCycle>('PATCH', `/api/cycles/${id(cycleId)}`, { cycle }),
+    remove: (cycleId: string) => request<{ id: string }>('DELETE', `/api/cycles/${id(cycleId)}`),
+  },
+  clientViews: {
+    create: (view: { name: string; filters: ClientViewFilters; pinned?: boolean }) =>
+      request<ClientView>('POST', '/api/client-views', { view }),
+    update: (viewId: string, view: { name?: string; filters?: ClientViewFilters; pinned?: boolean }) =>
+      request<ClientView>('PATCH', `/api/client-views/${id(viewId)}`, { view }),
+    remove: (viewId: string) => request<{ id: string }>('DELETE', `/api/client-views/${id(viewId)}`),
+  },
+  goals: {
+    /** Creates the goal, or replaces the target of the same agent/team, metric and period */
+    save: (goal: Pick<Goal, 'agent_id' | 'applies_to' | 'metric' | 'period' | 'target'>) =>
+      request<Goal>('POST', '/api/goals', { goal }),
+    remove: (goalId: string) => request<{ id: string }>('DELETE', `/api/goals/${id(goalId)}`),
+  },
+  reminders: {
+    saveSettings: (settings: ReminderSettings) =>
+      request<ReminderSettings>('PUT', '/api/reminders/settings', {
+        lead_minutes: settings.leadMinutes,
+        channels: settings.channels,
+        webhook_url: settings.webhookUrl,
+      }),
+    /** Send due reminders now instead of waiting for the scheduler (admins) */
+    run: () => request<{ sent: number; failed: number }>('POST', '/api/reminders/run'),
+  },
+  notifications: {
+    /** Marks the given notifications read, or all of them without ids */
+    markRead: (ids?: string[]) => request<{ marked: number }>('PATCH', '/api/notifications', ids ? { ids } : {}),
+  },
+  admin: {
+    /** Permanently remove soft-deleted rows past the retention period */
+    purge: () => request<{ purged: Record<string, number> }>('POST', '/api/admin/purge'),
+  },
+  audit: {
+    history: (table: AuditedTable, recordId: string | number) =>
+      request<AuditEntry[]>('GET', `/api/audit/${table}/${id(recordId)}`),
+  },
+};
@@ -0,0 +1,40 @@
+// lib/api/clientViews.ts
+/**
+ * Saved Clients List view rules shared by the /api/client-views handlers
+ */
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import { parseViewFilters, type ClientView, type ClientViewFilters } from '@/lib/clientQuery';
+import { ApiError } from '@/lib/api/server';
+
+export const MAX_VIEW_NAME_LENGTH = 80;
+
+export type ViewChanges = { name?: string; filters?: ClientViewFilters; pinned?: boolean };
+
+export function cleanView(input: unknown, creating: boolean): ViewChanges {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new ApiError(400, 'Expected a view');
+  const { name, filters, pinned } = input as Record<string, unknown>;
+  const out: ViewChanges = {};
+  if (name !== undefined || creating) {
+    if (typeof name !== 'string' || !name.trim()) throw new ApiError(400, 'A view needs a name');
+    if (name.trim().length > MAX_VIEW_NAME_LENGTH) throw new ApiError(400, `View names are at most ${MAX_VIEW_NAME_LENGTH} characters`);
+    out.name = name.trim();
+  }
+  if (filters !== undefined || creating) {
+    const parsed = parseViewFilters(filters ?? {});
+    if (!parsed) throw new ApiError(400, 'Invalid view filters');
+    out.filters = parsed;
+  }
+  if (pinned !== undefined) {
+    if (typeof pinned !== 'boolean') throw new ApiError(400, 'Pinned must be true or false');
+    out.pinned = pinned;
+  }
+  return out;
+}
+
+/** Views are private: someone else's view is reported as missing */
+export async function loadOwnView(repo: Repository, session: SessionPayload, id: string): Promise<ClientView> {
+  const view = await repo.clientViews.get(id);
+  if (!view || view.agent_id !== session.id) throw new ApiError(404, 'View not found');
+  return view;
+}
@@ -0,0 +1,15 @@
+// lib/api/cycles.test.ts
+import { describe, expect, it } from 'vitest';
+import { cleanCycle } from '@/lib/api/cycles';
+
+const cycle = (starts_on: string) => ({ name: 'Q1', starts_on, ends_on: '2026-03-31' });
+
+describe('cleanCycle', () => {
+  it('accepts calendar days', () => {
+    expect(cleanCycle(cycle('2026-02-28'), true)).toMatchObject({ starts_on: '2026-02-28' });
+  });
+
+  it.each(['2026-13-01', '2026-02-30', '2026-00-10', '2026-2-1', 'soon'])('rejects %s with a 400', (day) => {
+    expect(() => cleanCycle(cycle(day), true)).toThrow(expect.objectContaining({ status: 400, message: 'Invalid date for "starts_on"' }));
+  });
+});
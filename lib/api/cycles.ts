@@ -0,0 +1,54 @@
+// lib/api/cycles.ts
+/**
+ * Production cycle write rules shared by the /api/cycles handlers
+ */
+import type { Repository } from '@/lib/repo';
+import type { ProductionCycle, ProductionCycleUpdate } from '@/lib/models';
+import { CYCLE_TARGET_COLUMNS } from '@/lib/cycles';
+import { ApiError } from '@/lib/api/server';
+import { assertRequired, cleanChanges } from '@/lib/api/validate';
+
+const TARGET_FIELDS = Object.values(CYCLE_TARGET_COLUMNS);
+
+export const CYCLE_FIELDS: readonly (keyof ProductionCycleUpdate)[] = ['name', 'starts_on', 'ends_on', ...TARGET_FIELDS];
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A real calendar day as "YYYY-MM-DD" (not 2026-13-01, nor 2026-02-30 rolled into March) */
+function isDay(value: unknown): value is string {
+  if (typeof value !== 'string' || !DAY.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+export function cleanCycle(input: unknown, creating: boolean): ProductionCycleUpdate {
+  const changes = cleanChanges(input, { allowed: CYCLE_FIELDS });
+  if (typeof changes.name === 'string') changes.name = changes.name.trim();
+  assertRequired(changes, ['name', 'starts_on', 'ends_on'], 'Name, Start, End', creating);
+  for (const key of ['starts_on', 'ends_on']) {
+    if (key in changes && !isDay(changes[key])) throw new ApiError(400, `Invalid date for "${key}"`);
+  }
+  for (const key of TARGET_FIELDS) {
+    const v = changes[key];
+    // Blank targets are not tracked
+    if (v === '' || v == null) {
+      if (key in changes) changes[key] = null;
+      continue;
+    }
+    const n = typeof v === 'string' ? Number(v) : v;
+    if (typeof n !== 'number' || !Number.isSafeInteger(n) || n < 0) throw new ApiError(400, `Targets must be whole numbers (${key})`);
+    changes[key] = n;
+  }
+  return changes as ProductionCycleUpdate;
+}
+
+/** End on or after start, checked on the row as it will be saved */
+export function assertCycleDates(cycle: Pick<ProductionCycle, 'starts_on' | 'ends_on'>) {
+  if (cycle.ends_on < cycle.starts_on) throw new ApiError(400, 'A cycle must end on or after its start.');
+}
+
+export async function loadCycle(repo: Repository, id: string): Promise<ProductionCycle> {
+  const cycle = await repo.cycles.get(id);
+  if (!cycle) throw new ApiError(404, 'Cycle not found');
+  return cycle;
+}
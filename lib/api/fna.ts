@@ -0,0 +1,111 @@
+// lib/api/fna.ts
+/**
+ * FNA write rules shared by the /api/fna handlers
+ */
+import type { NextRequest } from 'next/server';
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import { ROUTE_ROLES } from '@/lib/roles';
+import {
+  FNA_HEADER_COLUMNS,
+  FNA_ROW_COLUMNS,
+  FNA_ROW_TABLES,
+  type ClientRegistration,
+  type FnaHeader,
+  type FnaHeaderUpdate,
+  type FnaRow,
+  type FnaRowTable,
+  type FnaRowUpdate,
+} from '@/lib/models';
+import { ApiError, assertOwnerAccess, requireSession } from '@/lib/api/server';
+import { cleanChanges } from '@/lib/api/validate';
+
+const HEADER_NUMERIC_KEYS = new Set([
+  'more_children_count',
+  'li_debt',
+  'li_income',
+  'li_mortgage',
+  'li_education',
+  'li_total_needed',
+  'li_insurance_in_place',
+  'li_insurance_gap',
+  'retirement_monthly_need',
+  'monthly_commitment',
+]);
+
+const HEADER_BOOL_KEYS = new Set(['more_children_planned', 'has_old_401k', 'expects_lump_sum', 'has_will', 'has_trust']);
+
+// Managed by the server, ignored when sent
+const SYSTEM_KEYS = ['id', 'fna_id', 'client_id', 'created_at', 'updated_at', 'deleted_at', 'deleted_by'];
+
+/** Same roles that may open the /fna page */
+export function requireFnaSession(request: NextRequest): Promise<SessionPayload> {
+  return requireSession(request, ROUTE_ROLES['/fna']);
+}
+
+export function requireRowTable(table: string): FnaRowTable {
+  if (!(FNA_ROW_TABLES as readonly string[]).includes(table)) throw new ApiError(404, `Unknown FNA table "${table}"`);
+  return table as FnaRowTable;
+}
+
+function withoutSystemKeys(input: unknown): unknown {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return input;
+  const rest: Record<string, unknown> = { ...(input as Record<string, unknown>) };
+  for (const k of SYSTEM_KEYS) delete rest[k];
+  return rest;
+}
+
+/** Header fields with numbers/bools coerced and blanks stored as null */
+export function cleanFnaHeader(input: unknown): FnaHeaderUpdate {
+  const changes = cleanChanges(withoutSystemKeys(input), { allowed: FNA_HEADER_COLUMNS });
+  for (const [k, v] of Object.entries(changes)) {
+    if (HEADER_NUMERIC_KEYS.has(k)) {
+      const n = v === '' || v == null ? null : Number(v);
+      if (n != null && !Number.isFinite(n)) throw new ApiError(400, `Invalid number for "${k}"`);
+      changes[k] = n;
+    } else if (HEADER_BOOL_KEYS.has(k)) changes[k] = v == null ? null : !!v;
+    else if (v === '') changes[k] = null;
+  }
+  return changes as FnaHeaderUpdate;
+}
+
+export function cleanFnaRow<T extends FnaRowTable>(table: T, input: unknown): FnaRowUpdate<T> {
+  return cleanChanges(withoutSystemKeys(input), { allowed: FNA_ROW_COLUMNS[table] }) as FnaRowUpdate<T>;
+}
+
+/**
+ * The caller may work on the client this FNA header belongs to. Returns the header.
+ */
+export async function assertFnaAccess(repo: Repository, session: SessionPayload, fnaId: string): Promise<FnaHeader> {
+  const header = await repo.fna.getHeader(fnaId);
+  if (!header) throw new ApiError(404, 'FNA not found');
+  await assertClientAccess(repo, session, header.client_id);
+  return header;
+}
+
+/**
+ * The caller may work on this client. Returns the client.
+ */
+export async function assertClientAccess(repo: Repository, session: SessionPayload, clientId: string): Promise<ClientRegistration> {
+  const client = await repo.clients.get(clientId);
+  if (!client) throw new ApiError(404, 'Client not found');
+  assertOwnerAccess(session, client.owner_id);
+  return client;
+}
+
+/**
+ * A tab row, if the caller may work on the FNA it belongs to.
+ * Soft-deleted rows count as missing unless `includeDeleted`.
+ */
+export async function loadFnaRow<T extends FnaRowTable>(
+  repo: Repository,
+  session: SessionPayload,
+  table: T,
+  id: string,
+  includeDeleted = false
+): Promise<FnaRow<T>> {
+  const row = (await repo.fna.getRow(table, id)) as FnaRow | null;
+  if (!row || (row.deleted_at && !includeDeleted)) throw new ApiError(404, 'Row not found');
+  await assertFnaAccess(repo, session, row.fna_id);
+  return row as FnaRow<T>;
+}
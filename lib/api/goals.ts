@@ -0,0 +1,36 @@
+// lib/api/goals.ts
+/**
+ * Goal write rules shared by the /api/goals handlers
+ */
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import type { GoalInsert } from '@/lib/models';
+import { isGoalAppliesTo, isGoalMetric, isGoalPeriod, type Goal } from '@/lib/goals';
+import { teamIds } from '@/lib/team';
+import { ApiError } from '@/lib/api/server';
+import { requireId } from '@/lib/api/validate';
+
+export function cleanGoal(input: unknown): GoalInsert {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) throw new ApiError(400, 'Expected a goal');
+  const { agent_id, applies_to = 'agent', metric, period, target } = input as Record<string, unknown>;
+  if (!isGoalAppliesTo(applies_to)) throw new ApiError(400, 'A goal is for an agent or a team');
+  if (!isGoalMetric(metric)) throw new ApiError(400, 'Unknown goal metric');
+  if (!isGoalPeriod(period)) throw new ApiError(400, 'Goals are per week, month or quarter');
+  const n = typeof target === 'string' ? Number(target) : target;
+  if (typeof n !== 'number' || !Number.isSafeInteger(n) || n <= 0) throw new ApiError(400, 'The target must be a whole number above zero');
+  return { agent_id: requireId(agent_id, 'agent'), applies_to, metric, period, target: n };
+}
+
+/** Admins set goals for anyone; field trainers for themselves and their team */
+export async function assertGoalAccess(repo: Repository, session: SessionPayload, agentId: string) {
+  if (session.role === 'admin') return;
+  const agents = await repo.agents.list();
+  if (!agents.some((a) => a.id === agentId)) throw new ApiError(400, 'Unknown agent');
+  if (!teamIds(agents, session.id).includes(agentId)) throw new ApiError(403, 'You can only set goals for your own team.');
+}
+
+export async function loadGoal(repo: Repository, id: string): Promise<Goal> {
+  const goal = await repo.goals.get(id);
+  if (!goal) throw new ApiError(404, 'Goal not found');
+  return goal;
+}
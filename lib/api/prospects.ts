@@ -0,0 +1,64 @@
+// lib/api/prospects.ts
+/**
+ * Prospect write rules shared by the /api/prospects handlers
+ */
+import type { SessionPayload } from '@/lib/session';
+import type { Repository } from '@/lib/repo';
+import type { Prospect, ProspectInsert, ProspectUpdate } from '@/lib/models';
+import { ApiError } from '@/lib/api/server';
+import { assertDates, assertRequired, cleanChanges } from '@/lib/api/validate';
+
+export const PROSPECT_FIELDS: readonly (keyof ProspectUpdate)[] = [
+  'first_name',
+  'last_name',
+  'spouse_name',
+  'relation_type',
+  'phone',
+  'city',
+  'state',
+  'top25',
+  'immigration',
+  'age25plus',
+  'married',
+  'children',
+  'homeowner',
+  'good_career',
+  'income_60k',
+  'dissatisfied',
+  'ambitious',
+  'contact_date',
+  'result',
+  'next_steps',
+  'comments',
+  'owner_id',
+];
+
+const REQUIRED_FIELDS = ['first_name', 'last_name', 'phone'];
+
+export function cleanProspect(input: unknown, creating: boolean): ProspectUpdate {
+  const changes = cleanChanges(input, { allowed: PROSPECT_FIELDS });
+  for (const [key, value] of Object.entries(changes)) {
+    // Blank text is stored as null, like the form does
+    if (typeof value === 'string') changes[key] = value.trim() ? value.trim() : null;
+  }
+  assertRequired(changes, REQUIRED_FIELDS, 'First Name, Last Name, Phone', creating);
+  assertDates(changes, ['contact_date']);
+  return changes as ProspectUpdate;
+}
+
+/**
+ * New prospects belong to their creator unless an owner is given.
+ * Expects changes from cleanProspect(input, true), which has the required fields.
+ */
+export function withOwner(changes: ProspectUpdate, session: SessionPayload): ProspectInsert {
+  return { ...changes, owner_id: changes.owner_id ?? session.id } as ProspectInsert;
+}
+
+/**
+ * One prospect; soft-deleted ones count as missing unless `includeDeleted`
+ */
+export async function loadProspect(repo: Repository, id: number, includeDeleted = false): Promise<Prospect> {
+  const prospect = await repo.prospects.get(id);
+  if (!prospect || (prospect.deleted_at && !includeDeleted)) throw new ApiError(404, 'Prospect not found');
+  return prospect;
+}
@@ -0,0 +1,119 @@
+// lib/api/reminders.ts
+/**
+ * Reminder settings rules and the reminder run, shared by the /api/reminders handlers
+ */
+import type { Repository } from '@/lib/repo';
+import {
+  MAX_LEAD_MINUTES,
+  dueReminders,
+  isReminderChannel,
+  reminderMessage,
+  toReminderSettings,
+  type ReminderChannel,
+  type ReminderSettings,
+} from '@/lib/reminders';
+import { getChannel } from '@/lib/notify';
+import { assertPublicUrl, webhookUrlProblem } from '@/lib/notify/publicUrl';
+import type { Agent } from '@/lib/team';
+import { agentTimeZone } from '@/lib/timezone';
+import { ApiError } from '@/lib/api/server';
+
+export function cleanReminderSettings(input: Record<string, unknown>): ReminderSettings {
+  const { lead_minutes, channels, webhook_url } = input;
+  if (!Array.isArray(lead_minutes) || !lead_minutes.length) throw new ApiError(400, 'Pick at least one reminder time');
+  for (const m of lead_minutes) {
+    if (typeof m !== 'number' || !Number.isSafeInteger(m) || m <= 0 || m > MAX_LEAD_MINUTES) {
+      throw new ApiError(400, 'Reminder times are whole minutes, up to a week before');
+    }
+  }
+  if (!Array.isArray(channels) || !channels.every(isReminderChannel)) throw new ApiError(400, 'Unknown reminder channel');
+  const url = typeof webhook_url === 'string' ? webhook_url.trim() : null;
+  const problem = url ? webhookUrlProblem(url) : null;
+  if (problem) throw new ApiError(400, problem);
+  if (channels.includes('webhook') && !url) throw new ApiError(400, 'Enter a webhook URL to use the webhook channel');
+  return {
+    leadMinutes: Array.from(new Set(lead_minutes as number[])).sort((a, b) => b - a),
+    channels: Array.from(new Set(channels as ReminderChannel[])),
+    webhookUrl: url || null,
+  };
+}
+
+/** Settings' webhook URL resolves to public addresses only (see lib/notify/publicUrl.ts) */
+export async function assertPublicWebhook(settings: ReminderSettings): Promise<void> {
+  if (!settings.webhookUrl) return;
+  try {
+    await assertPublicUrl(settings.webhookUrl);
+  } catch (e: any) {
+    throw new ApiError(400, e?.code === 'ENOTFOUND' ? 'The webhook URL\'s host could not be found' : e?.message ?? 'The webhook URL must be a public address');
+  }
+}
+
+export type ReminderRunResult = { sent: number; failed: number };
+
+const deliveryKey = (clientId: string, kind: string, startsAt: string, lead: number, channel: string) =>
+  [clientId, kind, new Date(startsAt).toISOString(), lead, channel].join('|');
+
+/**
+ * Sends every reminder due at `now` that has not been sent on its channel
+ * yet. Failures are recorded and retried on the next run until the meeting
+ * starts; one agent's failure does not stop the others.
+ */
+export async function runReminders(repo: Repository, now = new Date()): Promise<ReminderRunResult> {
+  const [agents, saved] = await Promise.all([repo.agents.list(), repo.reminders.allSettings()]);
+  const settingsFor = new Map(saved.map((row) => [row.agent_id, toReminderSettings(row)]));
+  const result: ReminderRunResult = { sent: 0, failed: 0 };
+
+  for (const agent of agents) {
+    const settings = settingsFor.get(agent.id) ?? toReminderSettings(null);
+    if (!settings.channels.length || !settings.leadMinutes.length) continue;
+    try {
+      await remindAgent(repo, agent, settings, now, result);
+    } catch (e) {
+      result.failed++;
+      console.error(`Reminders for ${agent.email} failed:`, e);
+    }
+  }
+  return result;
+}
+
+/** One agent's part of runReminders, counting into `result` */
+async function remindAgent(repo: Repository, agent: Agent, settings: ReminderSettings, now: Date, result: ReminderRunResult) {
+  const until = new Date(now.getTime() + Math.max(...settings.leadMinutes) * 60_000);
+  const [appointments, deliveries] = await Promise.all([
+    repo.reports.appointments(agent.id, now, until),
+    repo.reminders.deliveries(agent.id, now, until),
+  ]);
+  // Skips the ones already sent without a round trip each; claimDelivery() decides
+  const sent = new Set(
+    deliveries.filter((d) => d.sent_at).map((d) => deliveryKey(d.client_id, d.kind, d.starts_at, d.lead_minutes, d.channel))
+  );
+  const timeZone = agentTimeZone(agent);
+
+  for (const due of dueReminders(appointments, settings.leadMinutes, now)) {
+    const { appointment, leadMinutes } = due;
+    const message = reminderMessage(due, timeZone, now);
+    for (const channel of settings.channels) {
+      if (sent.has(deliveryKey(appointment.clientId, appointment.kind, appointment.start, leadMinutes, channel))) continue;
+      const delivery = {
+        agent_id: agent.id,
+        client_id: appointment.clientId,
+        kind: appointment.kind,
+        starts_at: appointment.start,
+        lead_minutes: leadMinutes,
+        channel,
+      };
+      // Claimed (marked sent) before sending: when the claim fails nothing goes
+      // out, and when another run claimed it first this one skips it
+      if (!(await repo.reminders.claimDelivery(delivery))) continue;
+      try {
+        await getChannel(channel).send(message, { repo, agent, settings });
+        result.sent++;
+      } catch (e: any) {
+        result.failed++;
+        console.error(`Reminder for ${agent.email} via ${channel} failed:`, e);
+        // Unmarked so the next run tries again
+        await repo.reminders.recordDelivery({ ...delivery, sent_at: null, error: e?.message ?? String(e) });
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+// lib/api/server.ts
+/**
+ * Helpers shared by the app/api route handlers (server only).
+ *
+ * Handlers return plain data; `route()` wraps it as `{ data }` and turns thrown
+ * errors into `{ error }` with a matching status code.
+ */
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken, type SessionPayload } from '@/lib/session';
+import { can, type Permission, type Role } from '@/lib/roles';
+import { RepoError, type RepoErrorKind } from '@/lib/repo/core';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const REPO_ERROR_STATUS: Record<RepoErrorKind, number> = {
+  not_found: 404,
+  conflict: 409,
+  invalid: 400,
+  forbidden: 403,
+  unauthorized: 401,
+  unavailable: 503,
+  unknown: 500,
+};
+
+export function route<C>(handler: (request: NextRequest, ctx: C) => Promise<unknown>) {
+  return async (request: NextRequest, ctx: C) => {
+    try {
+      const data = await handler(request, ctx);
+      return NextResponse.json({ data: data ?? null });
+    } catch (e: any) {
+      if (e instanceof ApiError) {
+        return NextResponse.json({ error: e.message }, { status: e.status });
+      }
+      if (e instanceof RepoError && e.kind !== 'unknown') {
+        return NextResponse.json({ error: e.message }, { status: REPO_ERROR_STATUS[e.kind] });
+      }
+      console.error(`${request.method} ${request.nextUrl.pathname} failed:`, e);
+      return NextResponse.json({ error: e?.message ?? 'Request failed' }, { status: 500 });
+    }
+  };
+}
+
+/**
+ * Signed-in session, optionally restricted to some roles
+ */
+export async function requireSession(request: NextRequest, roles?: Role[]): Promise<SessionPayload> {
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) throw new ApiError(401, 'Your session has expired. Please sign in again.');
+  if (roles && !roles.includes(session.role)) throw new ApiError(403, 'You do not have access to this.');
+  return session;
+}
+
+export function requirePermission(session: SessionPayload, permission: Permission, message: string) {
+  if (!can(session.role, permission)) throw new ApiError(403, message);
+}
+
+/**
+ * Users without `records.view_all` may only touch records they own
+ */
+export function assertOwnerAccess(session: SessionPayload, ownerId: string | null | undefined) {
+  if (can(session.role, 'records.view_all')) return;
+  if (ownerId !== session.id) throw new ApiError(403, 'This record belongs to another agent.');
+}
+
+export async function readJson(request: NextRequest): Promise<Record<string, any>> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body;
+  } catch {
+    // fall through
+  }
+  throw new ApiError(400, 'Invalid request body');
+}
@@ -0,0 +1,74 @@
+// lib/api/validate.ts
+/**
+ * Input checks for the app/api route handlers. Each throws ApiError(400) with
+ * a message the pages can show as-is.
+ */
+import { ApiError } from '@/lib/api/server';
+import type { CellValue } from '@/lib/models';
+
+export type Changes = Record<string, CellValue>;
+
+const COLUMN_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function isCellValue(v: unknown): boolean {
+  if (v === null) return true;
+  if (typeof v === 'string' || typeof v === 'boolean') return true;
+  if (typeof v === 'number') return Number.isFinite(v);
+  return Array.isArray(v) && v.every((x) => typeof x === 'string');
+}
+
+/**
+ * A `{ column: value }` object of plain cell values.
+ * `allowed` limits the columns; `forbidden` columns are never writable (ids, timestamps).
+ */
+export function cleanChanges(
+  input: unknown,
+  opts: { allowed?: readonly string[]; forbidden?: readonly string[] } = {}
+): Changes {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ApiError(400, 'Expected an object of changes');
+  }
+  const out: Changes = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!COLUMN_NAME.test(key) || opts.forbidden?.includes(key) || (opts.allowed && !opts.allowed.includes(key))) {
+      throw new ApiError(400, `Field "${key}" cannot be updated`);
+    }
+    if (!isCellValue(value)) throw new ApiError(400, `Invalid value for "${key}"`);
+    out[key] = value as Changes[string];
+  }
+  return out;
+}
+
+/** Date/time columns must be null or parseable */
+export function assertDates(changes: Changes, keys: Iterable<string>) {
+  for (const key of Array.from(keys)) {
+    const v = changes[key];
+    if (v == null || v === '') continue;
+    if (typeof v !== 'string' || Number.isNaN(new Date(v).getTime())) {
+      throw new ApiError(400, `Invalid date for "${key}"`);
+    }
+  }
+}
+
+/** Columns that may be left out, but not blanked */
+export function assertRequired(changes: Changes, keys: readonly string[], label: string, creating: boolean) {
+  const missing = keys.filter((k) => {
+    if (!creating && !(k in changes)) return false;
+    const v = changes[k];
+    return v == null || (typeof v === 'string' && !v.trim());
+  });
+  if (missing.length) throw new ApiError(400, `Missing required fields (${label}).`);
+}
+
+export function requireId(value: unknown, label = 'id'): string {
+  const s = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!s) throw new ApiError(400, `Missing ${label}`);
+  return s;
+}
+
+/** Ids of tables keyed by a bigint identity (prospects) */
+export function requireNumericId(value: unknown, label = 'id'): number {
+  const n = Number(requireId(value, label));
+  if (!Number.isSafeInteger(n) || n <= 0) throw new ApiError(400, `Invalid ${label}`);
+  return n;
+}
@@ -1,38 +1,107 @@
 // lib/auth.ts
 /**
  * Centralized authentication utilities for CAN Financial Solutions
+ *
+ * The session lives in an HttpOnly cookie set by /api/auth/login, so the
+ * browser never reads it directly; it asks /api/auth/session instead.
+ * Pages use the React side in components/AuthProvider.tsx (useSession / useRequireAuth).
  */
 
-const AUTH_COOKIE = 'canfs_auth';
+import type { SessionPayload, SessionUser } from '@/lib/session';
+import { getSupabase } from '@/lib/supabase/client';
+import { clearAllDrafts } from '@/lib/drafts';
+
+export const LOGIN_PAGE = '/auth';
+
+/** Fired on window when an API call comes back 401 (cookie expired or revoked) */
+export const SESSION_EXPIRED_EVENT = 'canfs:session-expired';
+
+export type SignInResult = {
+  user: SessionUser;
+  supabaseSession: { access_token: string; refresh_token: string } | null;
+};
+
+/**
+ * Verify credentials on the server; resolves with the signed-in user or throws with a display message
+ */
+export async function signIn(email: string, password: string): Promise<SignInResult> {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body?.error ?? 'Sign-in failed');
+  return body as SignInResult;
+}
 
 /**
- * Check if user has valid auth cookie
+ * Current session from the server, or null if signed out / expired
  */
-export function hasAuthCookie(): boolean {
-  if (typeof document === 'undefined') return false;
-  return document.cookie.split('; ').some((c) => c.startsWith(`${AUTH_COOKIE}=true`));
+export async function fetchSession(): Promise<SessionPayload | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    const res = await fetch('/api/auth/session', { cache: 'no-store' });
+    if (!res.ok) return null;
+    const body = await res.json();
+    return (body?.session ?? null) as SessionPayload | null;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Clear auth cookie and redirect to login
+ * Slide the session forward (fresh idle window). Null if it already expired;
+ * throws on network/server errors so callers do not mistake them for a sign-out.
  */
-export function logout(): void {
+export async function extendSession(): Promise<SessionPayload | null> {
+  const res = await fetch('/api/auth/refresh', { method: 'POST' });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`Session renewal failed (${res.status})`);
+  const body = await res.json();
+  return (body?.session ?? null) as SessionPayload | null;
+}
+
+/**
+ * Clear the HttpOnly session cookie (page scripts cannot remove it themselves)
+ */
+export async function clearSession(): Promise<void> {
   if (typeof window === 'undefined') return;
-  
-  // Clear the auth cookie
-  const secure = window.location.protocol === 'https:' ? '; secure' : '';
-  document.cookie = `${AUTH_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
-  
-  // Redirect to login page
-  window.location.href = '/auth';
+  try {
+    await fetch('/api/auth/logout', { method: 'POST' });
+  } catch {
+    // ignore; the cookie expires on its own
+  }
+}
+
+/**
+ * A `?next=` target that is safe to redirect to: a same-site page path, never the login page itself
+ */
+export function safeNext(next: string | null | undefined): string | null {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return null;
+  if (next === LOGIN_PAGE || next.startsWith(`${LOGIN_PAGE}?`) || next.startsWith('/api/')) return null;
+  return next;
+}
+
+/**
+ * Login page URL that comes back to `next` after signing in
+ */
+export function loginPath(next?: string | null): string {
+  const target = safeNext(next);
+  return target ? `${LOGIN_PAGE}?next=${encodeURIComponent(target)}` : LOGIN_PAGE;
 }
 
 /**
- * Set auth cookie (used by login page)
+ * Sign out of Supabase, clear the auth cookie and unsaved-edit drafts, and redirect to login
  */
-export function setAuthCookie(): void {
+export async function logout(): Promise<void> {
   if (typeof window === 'undefined') return;
-  
-  const secure = window.location.protocol === 'https:' ? '; secure' : '';
-  document.cookie = `${AUTH_COOKIE}=true; path=/; max-age=86400; samesite=lax${secure}`;
+  clearAllDrafts();
+  try {
+    await getSupabase().auth.signOut();
+  } catch {
+    // ignore; the browser Supabase session is dropped with the page anyway
+  }
+  await clearSession();
+  window.location.href = LOGIN_PAGE;
 }
@@ -0,0 +1,61 @@
+// lib/authProvider.ts
+/**
+ * Credential verification for the /auth login form (server only).
+ *
+ * Providers are looked up by AUTH_PROVIDER (defaults to "supabase"), so another
+ * identity backend can be added without touching the login route.
+ */
+import { createServerSupabase } from '@/lib/supabase/server';
+import { createRepository } from '@/lib/repo';
+import { DEFAULT_ROLE, isRole } from '@/lib/roles';
+import type { SessionUser } from '@/lib/session';
+
+export type AuthResult = {
+  user: SessionUser;
+  /** Tokens handed to the browser Supabase client so its queries run as this user */
+  supabaseSession?: { access_token: string; refresh_token: string } | null;
+};
+
+export interface AuthProvider {
+  name: string;
+  /** Resolve to null for wrong credentials; throw only for provider/config failures */
+  signIn(email: string, password: string): Promise<AuthResult | null>;
+}
+
+export const supabaseAuthProvider: AuthProvider = {
+  name: 'supabase',
+  async signIn(email, password) {
+    const supabase = await createServerSupabase();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error) {
+      // 400 = invalid credentials / unconfirmed email; anything else is a real failure
+      if (error.status === 400) return null;
+      throw error;
+    }
+    if (!data.user || !data.session) return null;
+
+    // Role comes from the agents table; this client now queries as the signed-in user
+    const stored = await createRepository(supabase).agents.role(data.user.id);
+    const role = isRole(stored) ? stored : DEFAULT_ROLE;
+
+    return {
+      user: { id: data.user.id, email: data.user.email ?? email, role },
+      supabaseSession: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token,
+      },
+    };
+  },
+};
+
+const PROVIDERS: Record<string, AuthProvider> = {
+  [supabaseAuthProvider.name]: supabaseAuthProvider,
+};
+
+export function getAuthProvider(): AuthProvider {
+  const name = process.env.AUTH_PROVIDER || supabaseAuthProvider.name;
+  const provider = PROVIDERS[name];
+  if (!provider) throw new Error(`Unknown AUTH_PROVIDER "${name}".`);
+  return provider;
+}
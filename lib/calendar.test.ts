@@ -0,0 +1,69 @@
+// lib/calendar.test.ts
+import { describe, expect, it } from 'vitest';
+import { meetingsToIcs, type MeetingEvent } from '@/lib/calendar';
+
+const NOW = new Date('2026-10-18T12:34:56.789Z');
+
+const event = (overrides: Partial<MeetingEvent> = {}): MeetingEvent => ({
+  id: '42:bop',
+  clientId: '42',
+  kind: 'bop',
+  title: 'Ana Silva',
+  start: '2026-10-20T23:30:00.000Z',
+  status: null,
+  phone: null,
+  email: null,
+  ...overrides,
+});
+
+/** Physical lines of the file, without the trailing empty one */
+const physicalLines = (ics: string) => ics.split('\r\n').slice(0, -1);
+
+/** Lines with folding undone */
+const unfolded = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('meetingsToIcs', () => {
+  it('writes times in UTC, with the event lasting an hour across midnight', () => {
+    const lines = unfolded(meetingsToIcs([event()], NOW));
+    expect(lines).toContain('DTSTAMP:20261018T123456Z');
+    expect(lines).toContain('DTSTART:20261020T233000Z');
+    expect(lines).toContain('DTEND:20261021T003000Z');
+    expect(lines).toContain('UID:42-bop@anunathan-reports');
+  });
+
+  it('ends every line with CRLF', () => {
+    const ics = meetingsToIcs([event()], NOW);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines in text', () => {
+    const ics = meetingsToIcs([event({ title: 'Silva, Ana; Jr\\', status: 'Done', phone: '555-0100' })], NOW);
+    const lines = unfolded(ics);
+    expect(lines).toContain('SUMMARY:BOP: Silva\\, Ana\\; Jr\\\\');
+    expect(lines).toContain('DESCRIPTION:Status: Done\\nPhone: 555-0100');
+  });
+
+  it('leaves out the description when there are no details', () => {
+    expect(meetingsToIcs([event()], NOW)).not.toContain('DESCRIPTION');
+  });
+
+  it('folds lines at 75 octets without splitting characters', () => {
+    const title = 'Zoë '.repeat(40).trim();
+    const ics = meetingsToIcs([event({ title, email: `${'a'.repeat(120)}@example.com` })], NOW);
+    const encoder = new TextEncoder();
+    for (const line of physicalLines(ics)) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    const folded = physicalLines(ics).filter((l) => l.startsWith(' '));
+    expect(folded.length).toBeGreaterThan(2);
+    expect(unfolded(ics)).toContain(`SUMMARY:BOP: ${title}`);
+  });
+
+  it('does not fold a line of exactly 75 octets', () => {
+    // "SUMMARY:BOP: " is 13 octets
+    const title = 'x'.repeat(62);
+    const lines = physicalLines(meetingsToIcs([event({ title })], NOW));
+    expect(lines).toContain(`SUMMARY:BOP: ${title}`);
+  });
+});
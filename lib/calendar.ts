@@ -0,0 +1,175 @@
+// lib/calendar.ts
+/**
+ * Upcoming Meetings as calendar events: every client's BOP and follow-up is
+ * one event, laid out on month / week / day grids in the agent's zone, and
+ * exportable as an iCalendar (.ics) file.
+ */
+import type { ClientRegistration } from '@/lib/models';
+import { addDaysToKey, dayKey, toZonedInput } from '@/lib/timezone';
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+export const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  month: 'Month',
+  week: 'Week',
+  day: 'Day',
+};
+
+export type MeetingKind = 'bop' | 'followup';
+
+/** The client column each kind of meeting is scheduled in, and its status column */
+export const MEETING_FIELDS = {
+  bop: { date: 'BOP_Date', status: 'BOP_Status', label: 'BOP' },
+  followup: { date: 'Followup_Date', status: 'FollowUp_Status', label: 'Follow-up' },
+} as const satisfies Record<MeetingKind, { date: keyof ClientRegistration; status: keyof ClientRegistration; label: string }>;
+
+/** Meetings have no end time in the data; exported events last this long */
+export const MEETING_MINUTES = 60;
+
+export type MeetingEvent = {
+  /** `${clientId}:${kind}`, stable across reloads */
+  id: string;
+  clientId: string;
+  kind: MeetingKind;
+  title: string;
+  /** ISO instant */
+  start: string;
+  status: string | null;
+  phone: string | null;
+  email: string | null;
+};
+
+/** BOPs and follow-ups of `rows` starting in [from, to), earliest first */
+export function meetingEvents(rows: ClientRegistration[], from: Date, to: Date): MeetingEvent[] {
+  const events: MeetingEvent[] = [];
+  for (const r of rows) {
+    for (const kind of Object.keys(MEETING_FIELDS) as MeetingKind[]) {
+      const { date, status } = MEETING_FIELDS[kind];
+      const start = r[date];
+      if (!start) continue;
+      const t = new Date(start).getTime();
+      if (Number.isNaN(t) || t < from.getTime() || t >= to.getTime()) continue;
+      events.push({
+        id: `${r.id}:${kind}`,
+        clientId: String(r.id),
+        kind,
+        title: `${r.first_name ?? ''} ${r.last_name ?? ''}`.trim(),
+        start: new Date(t).toISOString(),
+        status: r[status] ?? null,
+        phone: r.phone ?? null,
+        email: r.email ?? null,
+      });
+    }
+  }
+  return events.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+// ---------- Grids ----------
+
+/** 0 = Sunday */
+export function weekdayOfKey(key: string): number {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * The days a view shows around `anchor` ("yyyy-MM-dd"), in order. Weeks start
+ * on Sunday; a month is padded out to whole weeks.
+ */
+export function calendarDays(view: CalendarView, anchor: string): string[] {
+  if (view === 'day') return [anchor];
+  const first = view === 'month' ? `${anchor.slice(0, 7)}-01` : anchor;
+  const start = addDaysToKey(first, -weekdayOfKey(first));
+  if (view === 'week') return Array.from({ length: 7 }, (_, i) => addDaysToKey(start, i));
+  const days: string[] = [];
+  for (let day = start; day.slice(0, 7) <= anchor.slice(0, 7) || weekdayOfKey(day) !== 0; day = addDaysToKey(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/** The anchor one view-length before (-1) or after (+1) */
+export function shiftAnchor(view: CalendarView, anchor: string, step: -1 | 1): string {
+  if (view === 'day') return addDaysToKey(anchor, step);
+  if (view === 'week') return addDaysToKey(anchor, 7 * step);
+  const [y, m] = anchor.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1 + step, 1)).toISOString().slice(0, 10);
+}
+
+/** Events by the day they fall on in `timeZone` */
+export function eventsByDay(events: MeetingEvent[], timeZone: string): Map<string, MeetingEvent[]> {
+  const byDay = new Map<string, MeetingEvent[]>();
+  for (const e of events) {
+    const key = dayKey(e.start, timeZone)!;
+    byDay.set(key, [...(byDay.get(key) ?? []), e]);
+  }
+  return byDay;
+}
+
+/**
+ * Where a dragged event lands, as a `datetime-local` value in `timeZone`:
+ * dropped on a day it keeps its time; dropped on an hour it keeps its minutes.
+ */
+export function rescheduledInput(event: MeetingEvent, day: string, timeZone: string, hour?: number): string {
+  const [, time] = toZonedInput(event.start, timeZone).split('T');
+  const [hh, mm] = time.split(':');
+  return `${day}T${hour == null ? hh : String(hour).padStart(2, '0')}:${mm}`;
+}
+
+/** True when the drop would not move the event */
+export function isSameSlot(event: MeetingEvent, input: string, timeZone: string): boolean {
+  return input === toZonedInput(event.start, timeZone);
+}
+
+// ---------- iCalendar ----------
+
+const icsText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const icsInstant = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// RFC 5545: lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** A VCALENDAR with one VEVENT per meeting, times in UTC */
+export function meetingsToIcs(events: MeetingEvent[], now = new Date()): string {
+  const stamp = icsInstant(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//AnuNathan Financial Group//Reports//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  for (const e of events) {
+    const start = new Date(e.start);
+    const end = new Date(start.getTime() + MEETING_MINUTES * 60_000);
+    const details = [
+      e.status ? `Status: ${e.status}` : null,
+      e.phone ? `Phone: ${e.phone}` : null,
+      e.email ? `Email: ${e.email}` : null,
+    ].filter(Boolean);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.clientId}-${e.kind}@anunathan-reports`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsInstant(start)}`,
+      `DTEND:${icsInstant(end)}`,
+      `SUMMARY:${icsText(`${MEETING_FIELDS[e.kind].label}: ${e.title || 'Client'}`)}`,
+      ...(details.length ? [`DESCRIPTION:${icsText(details.join('\n'))}`] : []),
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
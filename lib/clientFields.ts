@@ -0,0 +1,205 @@
+// lib/clientFields.ts
+/**
+ * How client_registrations columns are labelled, picked and typed in the UI:
+ * the Clients List grid on the dashboard and the /clients/[id] page share these.
+ */
+import type { ClientColumn } from '@/lib/models';
+
+/** The client's own page */
+export function clientPath(id: string | number): string {
+  return `/clients/${encodeURIComponent(String(id))}`;
+}
+
+// ---------- Labels ----------
+
+const LABEL_OVERRIDES: Record<string, string> = {
+  client_name: 'Client Name',
+  last_call_date: 'Last Call On',
+  call_attempts: 'No of Calls',
+  last_bop_date: 'Last/Next BOP Call On',
+  bop_attempts: 'No of BOP Calls',
+  last_followup_date: 'Last/Next FollowUp On',
+  followup_attempts: 'No of FollowUp Calls',
+  created_at: 'Created Date',
+  interest_type: 'Interest Type',
+  business_opportunities: 'Business Opportunities',
+  wealth_solutions: 'Wealth Solutions',
+  preferred_days: 'Preferred Days',
+  preferred_time: 'Preferred Time',
+  referred_by: 'Referred By',
+  Profession: 'Profession',
+  Product: 'Products Sold',
+  Comment: 'Comment',
+  Remark: 'Remark',
+  CalledOn: 'Called On',
+  BOP_Date: 'BOP Date',
+  BOP_Status: 'BOP Status',
+  Followup_Date: 'Follow-Up Date',
+  FollowUp_Status: 'Follow-Up Status',
+  spouse_name: 'Spouse Name',
+  date_of_birth: 'Date Of Birth',
+  children: 'Children',
+  city: 'City',
+  state: 'State',
+  immigration_status: 'Immigration Status',
+  work_details: 'Work Details',
+  status: 'Record Status',
+  client_status: 'Status',
+  FNA_Status: 'FNA Status',
+  FNA_Date: 'FNA Date',
+};
+
+export function labelFor(key: string): string {
+  if (LABEL_OVERRIDES[key]) return LABEL_OVERRIDES[key];
+  const s = key.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  const acronyms = new Set(['BOP', 'ID', 'API', 'URL', 'CAN']);
+  return s
+    .split(/\s+/)
+    .map((w) => (acronyms.has(w.toUpperCase()) ? w.toUpperCase() : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()))
+    .join(' ');
+}
+
+// ---------- Pick lists ----------
+
+export const US_STATE_OPTIONS: string[] = [
+  '',
+  'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado', 'Connecticut', 'Delaware',
+  'Florida', 'Georgia', 'Hawaii', 'Idaho', 'Illinois', 'Indiana', 'Iowa', 'Kansas', 'Kentucky',
+  'Louisiana', 'Maine', 'Maryland', 'Massachusetts', 'Michigan', 'Minnesota', 'Mississippi', 'Missouri',
+  'Montana', 'Nebraska', 'Nevada', 'New Hampshire', 'New Jersey', 'New Mexico', 'New York', 'North Carolina',
+  'North Dakota', 'Ohio', 'Oklahoma', 'Oregon', 'Pennsylvania', 'Rhode Island', 'South Carolina', 'South Dakota',
+  'Tennessee', 'Texas', 'Utah', 'Vermont', 'Virginia', 'Washington', 'West Virginia', 'Wisconsin', 'Wyoming',
+];
+
+export const IMMIGRATION_STATUS_OPTIONS: string[] = [
+  '',
+  'U.S. Citizen', 'U.S.Green Card', 'H-1B', 'H-1B/I-140 Approved', 'L-1A', 'L-1B', 'F-1 Student',
+  'F-1 OPT', 'F-1 STEM OPT', 'H-4 EAD', 'E-3', 'I-485 Pending', 'I-485 EAD/AP', 'Other Visa Status',
+];
+
+// Keyed by lower-cased column name
+const STATUS_OPTIONS: Record<string, string[]> = {
+  status: ['', 'Successful Client', 'Prospect Client', 'New Client', 'Existing Client', 'Referral Client', 'Initiated', 'Not-Interested', 'In-Progress', 'On-Hold', 'Closed', 'Completed'],
+  followup_status: ['', 'Open', 'In-Progress', 'Follow-Up', 'Follow-Up 2', 'On Hold', 'Completed'],
+  'follow-up_status': ['', 'Open', 'In-Progress', 'Follow-Up', 'Follow-Up 2', 'On Hold', 'Completed'],
+  client_status: ['', 'Policy Issued', 'New Client', 'Initiated', 'Interested', 'Not-Interested', 'In-Progress', 'Closed', 'On Hold', 'Purchased', 'Re-Opened', 'Completed'],
+  bop_status: ['', 'Presented', 'Business', 'Client', 'In-Progress', 'On-Hold', 'Clarification', 'Not Interested', 'Completed', 'Closed'],
+  fna_status: ['', 'In-Progress', 'Completed', 'Not Interested', 'Solution Provided', 'Skipped'],
+  state: US_STATE_OPTIONS,
+  immigration_status: IMMIGRATION_STATUS_OPTIONS,
+};
+
+/** The pick list for a column, or null for free text */
+export function optionsForKey(k: string): string[] | null {
+  const lk = k.toLowerCase().replace(/\s+/g, '_');
+  if (Object.hasOwn(STATUS_OPTIONS, lk)) return STATUS_OPTIONS[lk];
+  return null;
+}
+
+// ---------- Dates ----------
+
+/** Timestamps, edited as date and time in the agent's zone */
+export const DATE_TIME_KEYS = new Set(['BOP_Date', 'CalledOn', 'Followup_Date', 'FollowUp_Date', 'Issued', 'FNA_Date']);
+
+/** Calendar dates without a time */
+export const DATE_ONLY_KEYS = new Set(['date_of_birth']);
+
+// Calendar dates are stored as "YYYY-MM-DD" (or midnight UTC); never shift them by a zone
+const DATE_ONLY_VALUE = /^(\d{4}-\d{2}-\d{2})(T00:00(:00(\.0+)?)?(Z|[+-]00(:?00)?)?)?$/;
+
+/** A stored calendar date as a `date` input value ("" when empty) */
+export function toDateInput(value: any): string {
+  if (!value || value === null || value === undefined || String(value).trim() === '') return '';
+  const plain = DATE_ONLY_VALUE.exec(String(value).trim());
+  if (plain) return plain[1];
+  // Older rows hold the browser's local midnight as a timestamp
+  const d = new Date(value);
+  const timestamp = d.getTime();
+  // Reject invalid dates, negative timestamps, and dates from 1969-1970 (likely epoch/default values)
+  if (Number.isNaN(timestamp) || timestamp < 0) return '';
+  const year = d.getFullYear();
+  if (year === 1969 || year === 1970) return ''; // Reject epoch dates
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** A `date` input value as the stored "YYYY-MM-DD" (null when blank or invalid) */
+export function fromDateInput(value: string): string | null {
+  if (!value?.trim()) return null;
+  const parts = value.split('-');
+  if (parts.length !== 3) return null;
+  const [y, m, d] = parts.map((x) => Number(x));
+  const dt = new Date(Date.UTC(y, (m ?? 1) - 1, d ?? 1));
+  if (Number.isNaN(dt.getTime())) return null;
+  return dt.toISOString().slice(0, 10);
+}
+
+// ---------- Client page sections ----------
+
+export type ClientFieldInput = 'text' | 'email' | 'tel' | 'textarea' | 'select' | 'list' | 'date' | 'datetime';
+
+export type ClientField = { key: ClientColumn; input: ClientFieldInput };
+
+export type ClientSection = { id: string; title: string; fields: ClientField[] };
+
+const field = (key: ClientColumn, input?: ClientFieldInput): ClientField => ({
+  key,
+  input: input ?? (DATE_TIME_KEYS.has(key) ? 'datetime' : DATE_ONLY_KEYS.has(key) ? 'date' : optionsForKey(key) ? 'select' : 'text'),
+});
+
+/** Columns of the /clients/[id] page, grouped by topic */
+export const CLIENT_SECTIONS: ClientSection[] = [
+  {
+    id: 'contact',
+    title: 'Contact',
+    fields: [
+      field('first_name'),
+      field('last_name'),
+      field('phone', 'tel'),
+      field('email', 'email'),
+      field('city'),
+      field('state'),
+      field('preferred_days', 'list'),
+      field('preferred_time'),
+      field('referred_by'),
+    ],
+  },
+  {
+    id: 'family',
+    title: 'Family',
+    fields: [field('spouse_name'), field('date_of_birth'), field('children')],
+  },
+  {
+    id: 'work',
+    title: 'Immigration & work',
+    fields: [field('immigration_status'), field('profession'), field('work_details', 'textarea')],
+  },
+  {
+    id: 'interests',
+    title: 'Interests',
+    fields: [
+      field('interest_type', 'list'),
+      field('business_opportunities', 'list'),
+      field('wealth_solutions', 'list'),
+      field('Product'),
+      field('Comment', 'textarea'),
+      field('Remark', 'textarea'),
+    ],
+  },
+  {
+    id: 'pipeline',
+    title: 'Pipeline',
+    fields: [
+      field('status'),
+      field('client_status'),
+      field('CalledOn'),
+      field('BOP_Date'),
+      field('BOP_Status'),
+      field('Followup_Date'),
+      field('FollowUp_Status'),
+      field('FNA_Date'),
+      field('FNA_Status'),
+      field('Issued'),
+    ],
+  },
+];
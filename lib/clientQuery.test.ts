@@ -0,0 +1,145 @@
+// lib/clientQuery.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_QUERY_CONDITIONS,
+  compileQuery,
+  countConditions,
+  isClientQuery,
+  parseViewFilters,
+  type ClientQuery,
+} from '@/lib/clientQuery';
+
+const NOW = new Date('2026-10-14T15:00:00Z'); // a Wednesday
+
+describe('isClientQuery', () => {
+  it('accepts nested groups up to the depth limit', () => {
+    const query = {
+      match: 'all',
+      conditions: [
+        { column: 'city', op: 'equals', value: 'Austin' },
+        { match: 'any', conditions: [{ match: 'all', conditions: [{ column: 'state', op: 'empty' }] }] },
+      ],
+    };
+    expect(isClientQuery(query)).toBe(true);
+  });
+
+  it('rejects groups nested past the depth limit', () => {
+    const deep = { match: 'all', conditions: [{ match: 'all', conditions: [{ match: 'all', conditions: [{ match: 'all', conditions: [] }] }] }] };
+    expect(isClientQuery(deep)).toBe(false);
+  });
+
+  it.each([
+    ['an unknown column', { column: 'password', op: 'equals', value: 'x' }],
+    ['an inherited property as column', { column: 'constructor', op: 'equals', value: 'x' }],
+    ['an unknown operator', { column: 'city', op: 'matches', value: 'x' }],
+    ['an inherited property as operator', { column: 'city', op: 'toString', value: 'x' }],
+    ['a non-text value', { column: 'city', op: 'equals', value: 3 }],
+    ['non-text list values', { column: 'city', op: 'in', values: ['a', 1] }],
+  ])('rejects %s', (_, condition) => {
+    expect(isClientQuery({ match: 'all', conditions: [condition] })).toBe(false);
+  });
+
+  it.each([null, [], 'all', { match: 'some', conditions: [] }, { match: 'all' }])('rejects %j as a group', (value) => {
+    expect(isClientQuery(value)).toBe(false);
+  });
+
+  it('rejects more than MAX_QUERY_CONDITIONS conditions', () => {
+    const conditions = Array.from({ length: MAX_QUERY_CONDITIONS + 1 }, () => ({ column: 'city', op: 'empty' }));
+    expect(isClientQuery({ match: 'any', conditions })).toBe(false);
+    expect(isClientQuery({ match: 'any', conditions: conditions.slice(1) })).toBe(true);
+  });
+
+  it('allows incomplete conditions, which count for nothing', () => {
+    const query: ClientQuery = { match: 'all', conditions: [{ column: 'city', op: 'equals', value: '  ' }] };
+    expect(isClientQuery(query)).toBe(true);
+    expect(countConditions(query)).toBe(0);
+  });
+});
+
+describe('compileQuery', () => {
+  it('is null for no query, an empty root and groups with only empty or incomplete children', () => {
+    expect(compileQuery(null, 'UTC', NOW)).toBeNull();
+    expect(compileQuery({ match: 'all', conditions: [] }, 'UTC', NOW)).toBeNull();
+    const hollow: ClientQuery = {
+      match: 'any',
+      conditions: [
+        { match: 'all', conditions: [] },
+        { match: 'all', conditions: [{ column: 'BOP_Date', op: 'on', value: 'tomorrow' }] },
+      ],
+    };
+    expect(compileQuery(hollow, 'UTC', NOW)).toBeNull();
+  });
+
+  it('drops empty groups and keeps the rest nested', () => {
+    const query: ClientQuery = {
+      match: 'all',
+      conditions: [
+        { match: 'any', conditions: [] },
+        {
+          match: 'any',
+          conditions: [
+            { column: 'city', op: 'equals', value: ' Austin ' },
+            { column: 'state', op: 'in', values: ['TX', ' ', 'CA '] },
+          ],
+        },
+      ],
+    };
+    expect(compileQuery(query, 'UTC', NOW)).toEqual({
+      match: 'all',
+      conditions: [
+        {
+          match: 'any',
+          conditions: [
+            { column: 'city', type: 'text', test: 'eq', value: 'Austin' },
+            { column: 'state', type: 'text', test: 'in', values: ['TX', 'CA'] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('skips operators that do not apply to the column', () => {
+    const query: ClientQuery = { match: 'all', conditions: [{ column: 'city', op: 'before', value: '2026-10-01' }] };
+    expect(compileQuery(query, 'UTC', NOW)).toBeNull();
+  });
+
+  it('escapes like wildcards in text matches', () => {
+    const query: ClientQuery = { match: 'all', conditions: [{ column: 'Comment', op: 'contains', value: '50%_off\\' }] };
+    expect(compileQuery(query, 'UTC', NOW)?.conditions[0]).toMatchObject({ test: 'ilike', value: '%50\\%\\_off\\\\%' });
+  });
+
+  it('turns days into instants at midnight in the viewer zone', () => {
+    const query: ClientQuery = { match: 'all', conditions: [{ column: 'BOP_Date', op: 'on', value: '2026-10-20' }] };
+    expect(compileQuery(query, 'America/Chicago', NOW)?.conditions[0]).toEqual({
+      match: 'all',
+      conditions: [
+        { column: 'BOP_Date', type: 'instant', test: 'gte', value: '2026-10-20T05:00:00.000Z' },
+        { column: 'BOP_Date', type: 'instant', test: 'lt', value: '2026-10-21T05:00:00.000Z' },
+      ],
+    });
+  });
+
+  it('keeps plain days for date columns and resolves periods against today', () => {
+    const query: ClientQuery = { match: 'all', conditions: [{ column: 'date_of_birth', op: 'within', value: 'this_week' }] };
+    expect(compileQuery(query, 'UTC', NOW)?.conditions[0]).toEqual({
+      match: 'all',
+      conditions: [
+        { column: 'date_of_birth', type: 'date', test: 'gte', value: '2026-10-12' },
+        { column: 'date_of_birth', type: 'date', test: 'lt', value: '2026-10-19' },
+      ],
+    });
+  });
+});
+
+describe('parseViewFilters', () => {
+  it('keeps only active filters', () => {
+    expect(parseViewFilters({ search: '  ', columns: { city: [], state: ['TX'] }, query: { match: 'all', conditions: [] } })).toEqual({
+      columns: { state: ['TX'] },
+    });
+  });
+
+  it('rejects columns that cannot be filtered and malformed queries', () => {
+    expect(parseViewFilters({ columns: { password: ['x'] } })).toBeNull();
+    expect(parseViewFilters({ query: { match: 'all', conditions: [{ column: 'city', op: 'drop' }] } })).toBeNull();
+  });
+});
@@ -0,0 +1,334 @@
+// lib/clientQuery.ts
+/**
+ * Clients List filters beyond the search box: per-column value filters, and an
+ * advanced search made of conditions on any client column,
+ * grouped with AND ("all") or OR ("any"). compileQuery() turns day and period
+ * values into instants in the viewer's zone and the database evaluates the
+ * result (public.client_query_matches), so a saved "BOP this week" view always
+ * means the current week.
+ */
+import type { ClientColumn, ClientViewRow } from '@/lib/models';
+import { addDaysToKey, addMonthsToKey, startOfZonedDay, todayKey } from '@/lib/timezone';
+
+/** Columns the Clients List can filter by value (array columns have no value menu) */
+export const FILTERABLE_CLIENT_COLUMNS: readonly ClientColumn[] = [
+  'created_at', 'first_name', 'last_name', 'phone', 'email', 'status', 'client_status',
+  'CalledOn', 'BOP_Date', 'BOP_Status', 'Followup_Date', 'FollowUp_Status', 'FNA_Date', 'FNA_Status', 'Issued',
+  'Product', 'Comment', 'Remark', 'spouse_name', 'date_of_birth', 'children', 'city', 'state', 'profession',
+  'work_details', 'immigration_status', 'referred_by', 'preferred_time',
+];
+
+export function isFilterableClientColumn(key: string): key is ClientColumn {
+  return (FILTERABLE_CLIENT_COLUMNS as readonly string[]).includes(key);
+}
+
+/** Allowed values per column, as the API returns them; an empty list is no filter */
+export type ClientColumnFilters = Partial<Record<ClientColumn, string[]>>;
+
+/** How a column is compared: `list` columns are text arrays, tested element by element */
+export type QueryColumnType = 'text' | 'instant' | 'date' | 'list';
+
+export const CLIENT_QUERY_COLUMNS: Partial<Record<ClientColumn, QueryColumnType>> = {
+  id: 'text',
+  created_at: 'instant',
+  first_name: 'text',
+  last_name: 'text',
+  phone: 'text',
+  email: 'text',
+  status: 'text',
+  client_status: 'text',
+  interest_type: 'list',
+  business_opportunities: 'list',
+  wealth_solutions: 'list',
+  CalledOn: 'instant',
+  BOP_Date: 'instant',
+  BOP_Status: 'text',
+  Followup_Date: 'instant',
+  FollowUp_Date: 'instant',
+  FollowUp_Status: 'text',
+  FNA_Date: 'instant',
+  FNA_Status: 'text',
+  Issued: 'instant',
+  Product: 'text',
+  Comment: 'text',
+  Remark: 'text',
+  spouse_name: 'text',
+  date_of_birth: 'date',
+  children: 'text',
+  city: 'text',
+  state: 'text',
+  profession: 'text',
+  work_details: 'text',
+  immigration_status: 'text',
+  referred_by: 'text',
+  preferred_days: 'list',
+  preferred_time: 'text',
+};
+
+export function queryColumnType(column: string): QueryColumnType | undefined {
+  return Object.hasOwn(CLIENT_QUERY_COLUMNS, column) ? CLIENT_QUERY_COLUMNS[column as ClientColumn] : undefined;
+}
+
+export type QueryOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'in'
+  | 'before'
+  | 'after'
+  | 'on'
+  | 'within'
+  | 'empty'
+  | 'not_empty';
+
+/** What an operator's value is: nothing, free text, a list, a day, or a QueryPeriod */
+export type QueryValueKind = 'none' | 'text' | 'list' | 'day' | 'period';
+
+export const QUERY_OPERATORS: Record<QueryOperator, { label: string; types: QueryColumnType[]; value: QueryValueKind }> = {
+  equals: { label: 'equals', types: ['text', 'list'], value: 'text' },
+  not_equals: { label: 'does not equal', types: ['text', 'list'], value: 'text' },
+  contains: { label: 'contains', types: ['text', 'list'], value: 'text' },
+  not_contains: { label: 'does not contain', types: ['text', 'list'], value: 'text' },
+  starts_with: { label: 'starts with', types: ['text'], value: 'text' },
+  in: { label: 'is one of', types: ['text', 'list'], value: 'list' },
+  before: { label: 'before', types: ['instant', 'date'], value: 'day' },
+  after: { label: 'after', types: ['instant', 'date'], value: 'day' },
+  on: { label: 'on', types: ['instant', 'date'], value: 'day' },
+  within: { label: 'within', types: ['instant', 'date'], value: 'period' },
+  empty: { label: 'is empty', types: ['text', 'instant', 'date', 'list'], value: 'none' },
+  not_empty: { label: 'is not empty', types: ['text', 'instant', 'date', 'list'], value: 'none' },
+};
+
+export function operatorsFor(type: QueryColumnType): QueryOperator[] {
+  return (Object.keys(QUERY_OPERATORS) as QueryOperator[]).filter((op) => QUERY_OPERATORS[op].types.includes(type));
+}
+
+/** Periods relative to today, resolved each time the query runs */
+export type QueryPeriod = 'today' | 'this_week' | 'next_7_days' | 'last_7_days' | 'this_month' | 'last_30_days' | 'this_quarter';
+
+export const QUERY_PERIOD_LABELS: Record<QueryPeriod, string> = {
+  today: 'today',
+  this_week: 'this week',
+  next_7_days: 'the next 7 days',
+  last_7_days: 'the last 7 days',
+  this_month: 'this month',
+  last_30_days: 'the last 30 days',
+  this_quarter: 'this quarter',
+};
+
+export type QueryCondition = {
+  column: ClientColumn;
+  op: QueryOperator;
+  /** Text, a YYYY-MM-DD day or a QueryPeriod, per QUERY_OPERATORS[op].value */
+  value?: string;
+  /** For `in` */
+  values?: string[];
+};
+
+export type QueryGroup = { match: 'all' | 'any'; conditions: QueryNode[] };
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+/** The root group */
+export type ClientQuery = QueryGroup;
+
+export const EMPTY_QUERY: ClientQuery = { match: 'all', conditions: [] };
+
+/** Groups nest this deep below the root */
+export const MAX_QUERY_DEPTH = 2;
+export const MAX_QUERY_CONDITIONS = 50;
+
+export function isQueryGroup(node: QueryNode): node is QueryGroup {
+  return 'conditions' in node;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDay(value: unknown): value is string {
+  return typeof value === 'string' && DAY.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function isPeriod(value: unknown): value is QueryPeriod {
+  return typeof value === 'string' && Object.hasOwn(QUERY_PERIOD_LABELS, value);
+}
+
+/** A condition with everything its operator needs (the builder keeps half-filled ones around) */
+export function isCompleteCondition(c: QueryCondition): boolean {
+  const type = queryColumnType(c.column);
+  const op = QUERY_OPERATORS[c.op];
+  if (!type || !op || !op.types.includes(type)) return false;
+  switch (op.value) {
+    case 'none':
+      return true;
+    case 'text':
+      return typeof c.value === 'string' && c.value.trim() !== '';
+    case 'list':
+      return Array.isArray(c.values) && c.values.some((v) => typeof v === 'string' && v.trim() !== '');
+    case 'day':
+      return isDay(c.value);
+    case 'period':
+      return isPeriod(c.value);
+  }
+}
+
+/**
+ * Whether untrusted input (a saved view, a request body) is a well-formed query.
+ * Incomplete conditions are allowed; they are ignored when the query runs.
+ */
+export function isClientQuery(value: unknown): value is ClientQuery {
+  let count = 0;
+  const check = (node: unknown, depth: number): boolean => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return false;
+    const n = node as Record<string, unknown>;
+    if ('conditions' in n) {
+      if (depth > MAX_QUERY_DEPTH || (n.match !== 'all' && n.match !== 'any') || !Array.isArray(n.conditions)) return false;
+      return n.conditions.every((child) => check(child, depth + 1));
+    }
+    if (++count > MAX_QUERY_CONDITIONS) return false;
+    if (typeof n.column !== 'string' || !queryColumnType(n.column)) return false;
+    if (typeof n.op !== 'string' || !Object.hasOwn(QUERY_OPERATORS, n.op)) return false;
+    if (n.value !== undefined && typeof n.value !== 'string') return false;
+    return n.values === undefined || (Array.isArray(n.values) && n.values.every((v) => typeof v === 'string'));
+  };
+  return check(value, 0);
+}
+
+export function countConditions(node: QueryNode): number {
+  return isQueryGroup(node) ? node.conditions.reduce((n, c) => n + countConditions(c), 0) : isCompleteCondition(node) ? 1 : 0;
+}
+
+// ---------- Compiling for the database ----------
+
+type CompiledTest = {
+  column: ClientColumn;
+  type: QueryColumnType;
+  test: 'eq' | 'neq' | 'ilike' | 'not_ilike' | 'in' | 'lt' | 'gte' | 'empty' | 'not_empty';
+  value?: string;
+  values?: string[];
+};
+
+/** What public.client_query_matches evaluates */
+export type CompiledQuery = { match: 'all' | 'any'; conditions: (CompiledTest | CompiledQuery)[] };
+
+/** First day and the day after the last of a period */
+function periodDays(period: QueryPeriod, today: string): [string, string] {
+  switch (period) {
+    case 'today':
+      return [today, addDaysToKey(today, 1)];
+    case 'this_week': {
+      const monday = addDaysToKey(today, -((new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7));
+      return [monday, addDaysToKey(monday, 7)];
+    }
+    case 'next_7_days':
+      return [today, addDaysToKey(today, 7)];
+    case 'last_7_days':
+      return [addDaysToKey(today, -6), addDaysToKey(today, 1)];
+    case 'this_month':
+      return [`${today.slice(0, 7)}-01`, `${addMonthsToKey(today.slice(0, 7), 1)}-01`];
+    case 'last_30_days':
+      return [addDaysToKey(today, -29), addDaysToKey(today, 1)];
+    case 'this_quarter': {
+      const month = Number(today.slice(5, 7));
+      const first = `${today.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, '0')}`;
+      return [`${first}-01`, `${addMonthsToKey(first, 3)}-01`];
+    }
+  }
+}
+
+/** `ilike` pattern matching the text literally */
+function likeLiteral(text: string): string {
+  return text.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function compileCondition(c: QueryCondition, timeZone: string, now: Date): CompiledTest | CompiledQuery {
+  const type = queryColumnType(c.column)!;
+  const base = { column: c.column, type };
+  // Day bounds: instants at the start of the day in the viewer's zone, or plain days
+  const bound = (day: string) => (type === 'instant' ? startOfZonedDay(day, timeZone).toISOString() : day);
+  const between = (first: string, next: string): CompiledQuery => ({
+    match: 'all',
+    conditions: [
+      { ...base, test: 'gte', value: bound(first) },
+      { ...base, test: 'lt', value: bound(next) },
+    ],
+  });
+  const value = c.value?.trim() ?? '';
+  switch (c.op) {
+    case 'equals':
+      return { ...base, test: 'eq', value };
+    case 'not_equals':
+      return { ...base, test: 'neq', value };
+    case 'contains':
+      return { ...base, test: 'ilike', value: `%${likeLiteral(value)}%` };
+    case 'not_contains':
+      return { ...base, test: 'not_ilike', value: `%${likeLiteral(value)}%` };
+    case 'starts_with':
+      return { ...base, test: 'ilike', value: `${likeLiteral(value)}%` };
+    case 'in':
+      return { ...base, test: 'in', values: (c.values ?? []).map((v) => v.trim()).filter(Boolean) };
+    case 'before':
+      return { ...base, test: 'lt', value: bound(value) };
+    case 'after':
+      return { ...base, test: 'gte', value: bound(addDaysToKey(value, 1)) };
+    case 'on':
+      return between(value, addDaysToKey(value, 1));
+    case 'within':
+      return between(...periodDays(value as QueryPeriod, todayKey(timeZone, now)));
+    case 'empty':
+      return { ...base, test: 'empty' };
+    case 'not_empty':
+      return { ...base, test: 'not_empty' };
+  }
+}
+
+/**
+ * The query as the database evaluates it, with incomplete conditions and empty
+ * groups left out; null when nothing is left to filter on
+ */
+export function compileQuery(query: ClientQuery | null | undefined, timeZone: string, now = new Date()): CompiledQuery | null {
+  const compile = (group: QueryGroup): CompiledQuery | null => {
+    const conditions: CompiledQuery['conditions'] = [];
+    for (const node of group.conditions) {
+      if (isQueryGroup(node)) {
+        const sub = compile(node);
+        if (sub) conditions.push(sub);
+      } else if (isCompleteCondition(node)) {
+        conditions.push(compileCondition(node, timeZone, now));
+      }
+    }
+    return conditions.length ? { match: group.match, conditions } : null;
+  };
+  return query ? compile(query) : null;
+}
+
+// ---------- Saved views ----------
+
+/** What a saved view restores on the Clients List */
+export type ClientViewFilters = { search?: string; columns?: ClientColumnFilters; query?: ClientQuery };
+
+export type ClientView = Omit<ClientViewRow, 'filters'> & { filters: ClientViewFilters };
+
+/** Saved view filters from untrusted input; null when malformed */
+export function parseViewFilters(value: unknown): ClientViewFilters | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { search, columns, query } = value as Record<string, unknown>;
+  const out: ClientViewFilters = {};
+  if (search !== undefined) {
+    if (typeof search !== 'string') return null;
+    if (search.trim()) out.search = search.trim();
+  }
+  if (columns !== undefined) {
+    if (!columns || typeof columns !== 'object' || Array.isArray(columns)) return null;
+    const entries = Object.entries(columns);
+    if (!entries.every(([k, v]) => isFilterableClientColumn(k) && Array.isArray(v) && v.every((x) => typeof x === 'string'))) return null;
+    const active = entries.filter(([, v]) => (v as string[]).length);
+    if (active.length) out.columns = Object.fromEntries(active);
+  }
+  if (query !== undefined) {
+    if (!isClientQuery(query)) return null;
+    if (countConditions(query)) out.query = query;
+  }
+  return out;
+}
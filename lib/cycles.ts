@@ -0,0 +1,51 @@
+// lib/cycles.ts
+/**
+ * Promotion / production cycles (table public.production_cycles). Admins set
+ * the dates and per-agent targets; the dashboard header shows the cycle that
+ * contains today and the signed-in agent's counts for it, over all their
+ * records (public.agent_leaderboard). Days are agency-zone calendar days.
+ */
+import type { ProductionCycle } from '@/lib/models';
+import { LEADERBOARD_METRICS, type LeaderboardCounts, type LeaderboardMetric } from '@/lib/leaderboard';
+import { AGENCY_TIME_ZONE, addDaysToKey, startOfZonedDay } from '@/lib/timezone';
+
+/** Target column of each counted metric */
+export const CYCLE_TARGET_COLUMNS: Record<LeaderboardMetric, keyof ProductionCycle & `target_${string}`> = {
+  calls: 'target_calls',
+  bops: 'target_bops',
+  followups: 'target_followups',
+  fnas: 'target_fnas',
+  issued: 'target_issued',
+};
+
+export type CycleTarget = { metric: LeaderboardMetric; label: string; target: number; actual: number };
+
+const dayNumber = (key: string) => Date.parse(`${key}T00:00:00Z`) / 86_400_000;
+
+/** The cycle whose days include `day` ("yyyy-MM-dd"); cycles never overlap */
+export function cycleOn(cycles: ProductionCycle[], day: string): ProductionCycle | null {
+  return cycles.find((c) => c.starts_on <= day && day <= c.ends_on) ?? null;
+}
+
+/** [from, to) of a cycle as instants */
+export function cycleRange(cycle: Pick<ProductionCycle, 'starts_on' | 'ends_on'>): { from: Date; to: Date } {
+  return {
+    from: startOfZonedDay(cycle.starts_on, AGENCY_TIME_ZONE),
+    to: startOfZonedDay(addDaysToKey(cycle.ends_on, 1), AGENCY_TIME_ZONE),
+  };
+}
+
+/** Length of a cycle, and how far into it `day` is (today counts as elapsed) */
+export function cycleDays(cycle: Pick<ProductionCycle, 'starts_on' | 'ends_on'>, day: string) {
+  const total = dayNumber(cycle.ends_on) - dayNumber(cycle.starts_on) + 1;
+  const elapsed = Math.min(total, Math.max(0, dayNumber(day) - dayNumber(cycle.starts_on) + 1));
+  return { total, elapsed, left: total - elapsed };
+}
+
+/** The cycle's targets (unset ones skipped) next to what was reached */
+export function cycleTargets(cycle: ProductionCycle, actual: LeaderboardCounts): CycleTarget[] {
+  return LEADERBOARD_METRICS.flatMap(({ key, label }) => {
+    const target = cycle[CYCLE_TARGET_COLUMNS[key]];
+    return target == null ? [] : [{ metric: key, label, target, actual: actual[key] }];
+  });
+}
@@ -0,0 +1,1373 @@
+// lib/database.types.ts
+// Supabase schema types, in the format of `supabase gen types typescript`.
+// Regenerate with `npm run gen:types` after adding a migration; domain
+// aliases for the app live in lib/models.ts.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      agents: {
+        Row: {
+          id: string
+          email: string
+          full_name: string | null
+          role: string
+          upline_id: string | null
+          time_zone: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          email: string
+          full_name?: string | null
+          role?: string
+          upline_id?: string | null
+          time_zone?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          full_name?: string | null
+          role?: string
+          upline_id?: string | null
+          time_zone?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agents_upline_id_fkey"
+            columns: ["upline_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: number
+          table_name: string
+          record_id: string
+          parent_id: string | null
+          action: string
+          before: Json | null
+          after: Json | null
+          changed_by: string | null
+          changed_by_email: string | null
+          changed_at: string
+        }
+        Insert: {
+          id?: never
+          table_name: string
+          record_id: string
+          parent_id?: string | null
+          action: string
+          before?: Json | null
+          after?: Json | null
+          changed_by?: string | null
+          changed_by_email?: string | null
+          changed_at?: string
+        }
+        Update: {
+          id?: never
+          table_name?: string
+          record_id?: string
+          parent_id?: string | null
+          action?: string
+          before?: Json | null
+          after?: Json | null
+          changed_by?: string | null
+          changed_by_email?: string | null
+          changed_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_activities: {
+        Row: {
+          id: string
+          client_id: string
+          kind: string
+          occurred_at: string
+          outcome: string | null
+          notes: string | null
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          kind: string
+          occurred_at: string
+          outcome?: string | null
+          notes?: string | null
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          kind?: string
+          occurred_at?: string
+          outcome?: string | null
+          notes?: string | null
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_activities_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client_registrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_activities_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_registrations: {
+        Row: {
+          id: string
+          created_at: string
+          first_name: string
+          last_name: string
+          phone: string | null
+          email: string | null
+          status: string | null
+          client_status: string | null
+          interest_type: string[] | null
+          business_opportunities: string[] | null
+          wealth_solutions: string[] | null
+          CalledOn: string | null
+          BOP_Date: string | null
+          BOP_Status: string | null
+          Followup_Date: string | null
+          FollowUp_Date: string | null
+          FollowUp_Status: string | null
+          FNA_Date: string | null
+          FNA_Status: string | null
+          Issued: string | null
+          Product: string | null
+          Comment: string | null
+          Remark: string | null
+          spouse_name: string | null
+          date_of_birth: string | null
+          children: string | null
+          city: string | null
+          state: string | null
+          profession: string | null
+          work_details: string | null
+          immigration_status: string | null
+          referred_by: string | null
+          preferred_days: string[] | null
+          preferred_time: string | null
+          owner_id: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          first_name: string
+          last_name: string
+          phone?: string | null
+          email?: string | null
+          status?: string | null
+          client_status?: string | null
+          interest_type?: string[] | null
+          business_opportunities?: string[] | null
+          wealth_solutions?: string[] | null
+          CalledOn?: string | null
+          BOP_Date?: string | null
+          BOP_Status?: string | null
+          Followup_Date?: string | null
+          FollowUp_Date?: string | null
+          FollowUp_Status?: string | null
+          FNA_Date?: string | null
+          FNA_Status?: string | null
+          Issued?: string | null
+          Product?: string | null
+          Comment?: string | null
+          Remark?: string | null
+          spouse_name?: string | null
+          date_of_birth?: string | null
+          children?: string | null
+          city?: string | null
+          state?: string | null
+          profession?: string | null
+          work_details?: string | null
+          immigration_status?: string | null
+          referred_by?: string | null
+          preferred_days?: string[] | null
+          preferred_time?: string | null
+          owner_id?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          first_name?: string
+          last_name?: string
+          phone?: string | null
+          email?: string | null
+          status?: string | null
+          client_status?: string | null
+          interest_type?: string[] | null
+          business_opportunities?: string[] | null
+          wealth_solutions?: string[] | null
+          CalledOn?: string | null
+          BOP_Date?: string | null
+          BOP_Status?: string | null
+          Followup_Date?: string | null
+          FollowUp_Date?: string | null
+          FollowUp_Status?: string | null
+          FNA_Date?: string | null
+          FNA_Status?: string | null
+          Issued?: string | null
+          Product?: string | null
+          Comment?: string | null
+          Remark?: string | null
+          spouse_name?: string | null
+          date_of_birth?: string | null
+          children?: string | null
+          city?: string | null
+          state?: string | null
+          profession?: string | null
+          work_details?: string | null
+          immigration_status?: string | null
+          referred_by?: string | null
+          preferred_days?: string[] | null
+          preferred_time?: string | null
+          owner_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_registrations_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_views: {
+        Row: {
+          id: string
+          agent_id: string
+          name: string
+          filters: Json
+          pinned: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          agent_id?: string
+          name: string
+          filters?: Json
+          pinned?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          name?: string
+          filters?: Json
+          pinned?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_views_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_assets: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          tax_type: string | null
+          asset_name: string | null
+          asset_category: string | null
+          balance: number | null
+          monthly_contribution: number | null
+          employer_match: number | null
+          rate_of_return: number | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          tax_type?: string | null
+          asset_name?: string | null
+          asset_category?: string | null
+          balance?: number | null
+          monthly_contribution?: number | null
+          employer_match?: number | null
+          rate_of_return?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          tax_type?: string | null
+          asset_name?: string | null
+          asset_category?: string | null
+          balance?: number | null
+          monthly_contribution?: number | null
+          employer_match?: number | null
+          rate_of_return?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_assets_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_assets_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_children: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          child_name: string | null
+          child_age: number | null
+          child_dob: string | null
+          education_goal: string | null
+          current_savings: number | null
+          monthly_contribution: number | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          child_name?: string | null
+          child_age?: number | null
+          child_dob?: string | null
+          education_goal?: string | null
+          current_savings?: number | null
+          monthly_contribution?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          child_name?: string | null
+          child_age?: number | null
+          child_dob?: string | null
+          education_goal?: string | null
+          current_savings?: number | null
+          monthly_contribution?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_children_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_children_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_header: {
+        Row: {
+          id: string
+          client_id: string
+          created_at: string
+          updated_at: string
+          spouse_name: string | null
+          spouse_dob: string | null
+          address: string | null
+          city: string | null
+          state: string | null
+          zip_code: string | null
+          client_dob: string | null
+          home_phone: string | null
+          mobile_phone: string | null
+          personal_email: string | null
+          spouse_mobile_phone: string | null
+          spouse_email: string | null
+          more_children_planned: boolean | null
+          more_children_count: number | null
+          goals_text: string | null
+          own_or_rent: string | null
+          properties_notes: string | null
+          has_old_401k: boolean | null
+          expects_lump_sum: boolean | null
+          li_debt: number | null
+          li_income: number | null
+          li_mortgage: number | null
+          li_education: number | null
+          li_total_needed: number | null
+          li_insurance_in_place: number | null
+          li_insurance_gap: number | null
+          has_will: boolean | null
+          will_last_updated: string | null
+          has_trust: boolean | null
+          trust_type: string | null
+          trust_purpose: string | null
+          retirement_monthly_need: number | null
+          retirement_target_date: string | null
+          monthly_commitment: number | null
+          next_appointment_date: string | null
+          next_appointment_time: string | null
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          created_at?: string
+          updated_at?: string
+          spouse_name?: string | null
+          spouse_dob?: string | null
+          address?: string | null
+          city?: string | null
+          state?: string | null
+          zip_code?: string | null
+          client_dob?: string | null
+          home_phone?: string | null
+          mobile_phone?: string | null
+          personal_email?: string | null
+          spouse_mobile_phone?: string | null
+          spouse_email?: string | null
+          more_children_planned?: boolean | null
+          more_children_count?: number | null
+          goals_text?: string | null
+          own_or_rent?: string | null
+          properties_notes?: string | null
+          has_old_401k?: boolean | null
+          expects_lump_sum?: boolean | null
+          li_debt?: number | null
+          li_income?: number | null
+          li_mortgage?: number | null
+          li_education?: number | null
+          li_total_needed?: number | null
+          li_insurance_in_place?: number | null
+          li_insurance_gap?: number | null
+          has_will?: boolean | null
+          will_last_updated?: string | null
+          has_trust?: boolean | null
+          trust_type?: string | null
+          trust_purpose?: string | null
+          retirement_monthly_need?: number | null
+          retirement_target_date?: string | null
+          monthly_commitment?: number | null
+          next_appointment_date?: string | null
+          next_appointment_time?: string | null
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          created_at?: string
+          updated_at?: string
+          spouse_name?: string | null
+          spouse_dob?: string | null
+          address?: string | null
+          city?: string | null
+          state?: string | null
+          zip_code?: string | null
+          client_dob?: string | null
+          home_phone?: string | null
+          mobile_phone?: string | null
+          personal_email?: string | null
+          spouse_mobile_phone?: string | null
+          spouse_email?: string | null
+          more_children_planned?: boolean | null
+          more_children_count?: number | null
+          goals_text?: string | null
+          own_or_rent?: string | null
+          properties_notes?: string | null
+          has_old_401k?: boolean | null
+          expects_lump_sum?: boolean | null
+          li_debt?: number | null
+          li_income?: number | null
+          li_mortgage?: number | null
+          li_education?: number | null
+          li_total_needed?: number | null
+          li_insurance_in_place?: number | null
+          li_insurance_gap?: number | null
+          has_will?: boolean | null
+          will_last_updated?: string | null
+          has_trust?: boolean | null
+          trust_type?: string | null
+          trust_purpose?: string | null
+          retirement_monthly_need?: number | null
+          retirement_target_date?: string | null
+          monthly_commitment?: number | null
+          next_appointment_date?: string | null
+          next_appointment_time?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_header_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client_registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_income: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          fna_income_role: string | null
+          fna_income_type: string | null
+          amount: number | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          fna_income_role?: string | null
+          fna_income_type?: string | null
+          amount?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          fna_income_role?: string | null
+          fna_income_type?: string | null
+          amount?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_income_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_income_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_insurance: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          insured_role: string | null
+          insurance_type: string | null
+          provider: string | null
+          policy_type: string | null
+          premium: number | null
+          term: string | null
+          death_benefit: number | null
+          cash_value: number | null
+          year_purchased: number | null
+          riders: string | null
+          tobacco: boolean | null
+          marketplace: string | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          insured_role?: string | null
+          insurance_type?: string | null
+          provider?: string | null
+          policy_type?: string | null
+          premium?: number | null
+          term?: string | null
+          death_benefit?: number | null
+          cash_value?: number | null
+          year_purchased?: number | null
+          riders?: string | null
+          tobacco?: boolean | null
+          marketplace?: string | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          insured_role?: string | null
+          insurance_type?: string | null
+          provider?: string | null
+          policy_type?: string | null
+          premium?: number | null
+          term?: string | null
+          death_benefit?: number | null
+          cash_value?: number | null
+          year_purchased?: number | null
+          riders?: string | null
+          tobacco?: boolean | null
+          marketplace?: string | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_insurance_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_insurance_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_liabilities: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          liability_type: string | null
+          description: string | null
+          lender: string | null
+          balance: number | null
+          interest_rate: number | null
+          min_payment: number | null
+          current_payment: number | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          liability_type?: string | null
+          description?: string | null
+          lender?: string | null
+          balance?: number | null
+          interest_rate?: number | null
+          min_payment?: number | null
+          current_payment?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          liability_type?: string | null
+          description?: string | null
+          lender?: string | null
+          balance?: number | null
+          interest_rate?: number | null
+          min_payment?: number | null
+          current_payment?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_liabilities_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_liabilities_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_properties: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          address: string | null
+          mortgage_company: string | null
+          market_value: number | null
+          balance: number | null
+          interest_rate: number | null
+          payment: number | null
+          notes: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          address?: string | null
+          mortgage_company?: string | null
+          market_value?: number | null
+          balance?: number | null
+          interest_rate?: number | null
+          payment?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          address?: string | null
+          mortgage_company?: string | null
+          market_value?: number | null
+          balance?: number | null
+          interest_rate?: number | null
+          payment?: number | null
+          notes?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_properties_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_properties_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fna_tax_refund: {
+        Row: {
+          id: string
+          fna_id: string
+          created_at: string
+          last_year_tax_refund: number | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: string
+          fna_id: string
+          created_at?: string
+          last_year_tax_refund?: number | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: string
+          fna_id?: string
+          created_at?: string
+          last_year_tax_refund?: number | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fna_tax_refund_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fna_tax_refund_fna_id_fkey"
+            columns: ["fna_id"]
+            isOneToOne: false
+            referencedRelation: "fna_header"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          id: string
+          agent_id: string
+          applies_to: string
+          metric: string
+          period: string
+          target: number
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          applies_to?: string
+          metric: string
+          period: string
+          target: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          applies_to?: string
+          metric?: string
+          period?: string
+          target?: number
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goals_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goals_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          id: string
+          agent_id: string
+          title: string
+          body: string | null
+          link: string | null
+          created_at: string
+          read_at: string | null
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          title: string
+          body?: string | null
+          link?: string | null
+          created_at?: string
+          read_at?: string | null
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          title?: string
+          body?: string | null
+          link?: string | null
+          created_at?: string
+          read_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      production_cycles: {
+        Row: {
+          id: string
+          name: string
+          starts_on: string
+          ends_on: string
+          target_calls: number | null
+          target_bops: number | null
+          target_followups: number | null
+          target_fnas: number | null
+          target_issued: number | null
+          created_at: string
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          starts_on: string
+          ends_on: string
+          target_calls?: number | null
+          target_bops?: number | null
+          target_followups?: number | null
+          target_fnas?: number | null
+          target_issued?: number | null
+          created_at?: string
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          starts_on?: string
+          ends_on?: string
+          target_calls?: number | null
+          target_bops?: number | null
+          target_followups?: number | null
+          target_fnas?: number | null
+          target_issued?: number | null
+          created_at?: string
+          created_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_cycles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prospects: {
+        Row: {
+          id: number
+          created_at: string
+          first_name: string
+          last_name: string | null
+          spouse_name: string | null
+          relation_type: string | null
+          phone: string | null
+          city: string | null
+          state: string | null
+          top25: string | null
+          immigration: string | null
+          age25plus: string | null
+          married: string | null
+          children: string | null
+          homeowner: string | null
+          good_career: string | null
+          income_60k: string | null
+          dissatisfied: string | null
+          ambitious: string | null
+          contact_date: string | null
+          result: string | null
+          next_steps: string | null
+          comments: string | null
+          owner_id: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+        }
+        Insert: {
+          id?: number
+          created_at?: string
+          first_name: string
+          last_name?: string | null
+          spouse_name?: string | null
+          relation_type?: string | null
+          phone?: string | null
+          city?: string | null
+          state?: string | null
+          top25?: string | null
+          immigration?: string | null
+          age25plus?: string | null
+          married?: string | null
+          children?: string | null
+          homeowner?: string | null
+          good_career?: string | null
+          income_60k?: string | null
+          dissatisfied?: string | null
+          ambitious?: string | null
+          contact_date?: string | null
+          result?: string | null
+          next_steps?: string | null
+          comments?: string | null
+          owner_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: {
+          id?: number
+          created_at?: string
+          first_name?: string
+          last_name?: string | null
+          spouse_name?: string | null
+          relation_type?: string | null
+          phone?: string | null
+          city?: string | null
+          state?: string | null
+          top25?: string | null
+          immigration?: string | null
+          age25plus?: string | null
+          married?: string | null
+          children?: string | null
+          homeowner?: string | null
+          good_career?: string | null
+          income_60k?: string | null
+          dissatisfied?: string | null
+          ambitious?: string | null
+          contact_date?: string | null
+          result?: string | null
+          next_steps?: string | null
+          comments?: string | null
+          owner_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prospects_deleted_by_fkey"
+            columns: ["deleted_by"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prospects_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_deliveries: {
+        Row: {
+          id: string
+          agent_id: string
+          client_id: string
+          kind: string
+          starts_at: string
+          lead_minutes: number
+          channel: string
+          sent_at: string | null
+          error: string | null
+          attempted_at: string
+        }
+        Insert: {
+          id?: string
+          agent_id: string
+          client_id: string
+          kind: string
+          starts_at: string
+          lead_minutes: number
+          channel: string
+          sent_at?: string | null
+          error?: string | null
+          attempted_at?: string
+        }
+        Update: {
+          id?: string
+          agent_id?: string
+          client_id?: string
+          kind?: string
+          starts_at?: string
+          lead_minutes?: number
+          channel?: string
+          sent_at?: string | null
+          error?: string | null
+          attempted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_deliveries_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminder_deliveries_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "client_registrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_settings: {
+        Row: {
+          agent_id: string
+          lead_minutes: number[]
+          channels: string[]
+          webhook_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          agent_id?: string
+          lead_minutes?: number[]
+          channels?: string[]
+          webhook_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          lead_minutes?: number[]
+          channels?: string[]
+          webhook_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_settings_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: true
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      v_client_progress_summary: {
+        Row: {
+          clientid: string | null
+          first_name: string | null
+          last_name: string | null
+          phone: string | null
+          email: string | null
+          last_call_date: string | null
+          call_attempts: number | null
+          last_bop_date: string | null
+          bop_attempts: number | null
+          last_followup_date: string | null
+          followup_attempts: number | null
+        }
+        Relationships: []
+      }
+      v_client_progress_summary_scoped: {
+        Row: {
+          clientid: string | null
+          first_name: string | null
+          last_name: string | null
+          phone: string | null
+          email: string | null
+          last_call_date: string | null
+          call_attempts: number | null
+          last_bop_date: string | null
+          bop_attempts: number | null
+          last_followup_date: string | null
+          followup_attempts: number | null
+          owner_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      agency_time_zone: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      activity_counts: {
+        Args: {
+          range_start: string
+          range_end: string
+          bucket?: string
+          owner_ids?: string[]
+        }
+        Returns: {
+          bucket_start: string
+          calls: number
+          bops: number
+          followups: number
+        }[]
+      }
+      agent_appointments: {
+        Args: {
+          agent: string
+          range_start: string
+          range_end: string
+        }
+        Returns: {
+          client_id: string
+          client_name: string
+          kind: string
+          starts_at: string
+        }[]
+      }
+      agent_leaderboard: {
+        Args: {
+          period_start: string
+          period_end: string
+          owner_ids?: string[]
+        }
+        Returns: {
+          agent_id: string
+          calls: number
+          bops: number
+          followups: number
+          fnas: number
+          issued: number
+        }[]
+      }
+      claim_reminder_delivery: {
+        Args: {
+          agent: string
+          client: string
+          kind: string
+          starts_at: string
+          lead_minutes: number
+          channel: string
+        }
+        Returns: Database["public"]["Tables"]["reminder_deliveries"]["Row"][]
+      }
+      client_column_values: {
+        Args: {
+          column_name: string
+          owner_ids?: string[]
+          search?: string
+          filters?: Json
+          query?: Json
+          max_values?: number
+        }
+        Returns: {
+          value: string
+        }[]
+      }
+      client_search: {
+        Args: {
+          owner_ids?: string[]
+          search?: string
+          filters?: Json
+          query?: Json
+        }
+        Returns: Database["public"]["Tables"]["client_registrations"]["Row"][]
+      }
+      client_status_counts: {
+        Args: {
+          owner_ids?: string[]
+          search?: string
+          filters?: Json
+          query?: Json
+        }
+        Returns: {
+          field: string
+          value: string
+          clients: number
+        }[]
+      }
+      conversion_funnel: {
+        Args: {
+          cohort_start: string
+          cohort_end: string
+          owner_ids?: string[]
+          referral?: string
+        }
+        Returns: {
+          stage: string
+          reached: number | null
+          median_days: number | null
+        }[]
+      }
+      current_agent_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      global_search: {
+        Args: {
+          term: string
+          max_per_entity?: number
+          owner_ids?: string[]
+        }
+        Returns: {
+          entity: string
+          record_id: string
+          client_id: string | null
+          title: string
+          source: string
+          snippet: string
+          score: number
+        }[]
+      }
+      team_agent_ids: {
+        Args: {
+          root: string
+        }
+        Returns: string[]
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof (PublicSchema["Tables"] & PublicSchema["Views"])> =
+  (PublicSchema["Tables"] & PublicSchema["Views"])[T] extends { Row: infer R } ? R : never
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> = PublicSchema["Tables"][T]["Update"]
@@ -0,0 +1,58 @@
+// lib/drafts.ts
+/**
+ * Unsaved edits kept in localStorage so they survive a forced re-login
+ * (session expiry, 401 from the API). Keyed per user so a different agent
+ * signing in on the same browser never sees them; signing out on purpose
+ * drops them all (lib/auth.ts logout).
+ */
+
+const PREFIX = 'canfs:draft';
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type Stored<T> = { savedAt: number; value: T };
+
+const storageKey = (userId: string, key: string) => `${PREFIX}:${userId}:${key}`;
+
+export function saveDraft<T>(userId: string, key: string, value: T) {
+  try {
+    const stored: Stored<T> = { savedAt: Date.now(), value };
+    localStorage.setItem(storageKey(userId, key), JSON.stringify(stored));
+  } catch {
+    // storage full or disabled; drafts are best effort
+  }
+}
+
+export function loadDraft<T>(userId: string, key: string): T | null {
+  try {
+    const raw = localStorage.getItem(storageKey(userId, key));
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Stored<T>;
+    if (!stored || Date.now() - stored.savedAt > DRAFT_TTL_MS) {
+      localStorage.removeItem(storageKey(userId, key));
+      return null;
+    }
+    return stored.value;
+  } catch {
+    return null;
+  }
+}
+
+export function clearDraft(userId: string, key: string) {
+  try {
+    localStorage.removeItem(storageKey(userId, key));
+  } catch {
+    // ignore
+  }
+}
+
+/** Every user's drafts on this browser */
+export function clearAllDrafts() {
+  try {
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(`${PREFIX}:`)) localStorage.removeItem(key);
+    }
+  } catch {
+    // ignore
+  }
+}
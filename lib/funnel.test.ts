@@ -0,0 +1,66 @@
+// lib/funnel.test.ts
+import { describe, expect, it } from 'vitest';
+import { FUNNEL_STAGES, formatRate, funnelRows, type FunnelCount } from '@/lib/funnel';
+import { createRepository } from '@/lib/repo';
+import { createMemoryDb, type MemoryFunction } from '@/lib/repo/memory';
+
+const counts = (reached: Partial<Record<FunnelCount['stage'], number | null>>): FunnelCount[] =>
+  FUNNEL_STAGES.map(({ key }) => ({ stage: key, reached: reached[key] ?? null, medianDays: null }));
+
+// public.conversion_funnel's prospect stages, counted by result; bigint counts arrive as text
+const conversionFunnel: MemoryFunction = (_args, tables) => {
+  const results = tables.prospects.filter((p) => p.deleted_at == null).map((p) => String(p.result ?? '').trim());
+  const reached: Partial<Record<FunnelCount['stage'], number>> = {
+    prospect: results.length,
+    contacted: results.filter(Boolean).length,
+    interested: results.filter((r) => ['Business', 'Both', 'Client Solution', 'In-Progress'].includes(r)).length,
+    registered: tables.client_registrations.length,
+  };
+  return FUNNEL_STAGES.map(({ key }) => ({ stage: key, reached: String(reached[key] ?? 0), median_days: null }));
+};
+
+describe('funnelRows', () => {
+  it('counts and rates the prospect stages by prospects.result', async () => {
+    const results = [null, '', 'Called', 'Not Interested', 'Business', ' Both ', 'In-Progress', 'Client Solution'];
+    const db = createMemoryDb(
+      {
+        prospects: [...results.map((result, i) => ({ id: i + 1, result, deleted_at: null })), { id: 9, result: 'Business', deleted_at: '2026-10-01' }],
+        client_registrations: [{ id: 'c1' }, { id: 'c2' }],
+      },
+      { conversion_funnel: conversionFunnel }
+    );
+    const counts = await createRepository(db).reports.conversionFunnel({ ownerIds: null }, new Date('2026-10-01'), new Date('2026-11-01'));
+    const byStage = Object.fromEntries(funnelRows(counts).map((r) => [r.stage, r]));
+    expect([byStage.prospect.reached, byStage.contacted.reached, byStage.interested.reached, byStage.registered.reached]).toEqual([8, 6, 4, 2]);
+    expect(byStage.contacted.fromPrevious).toBe(0.75);
+    expect(byStage.interested.fromPrevious).toBe(4 / 6);
+    expect(byStage.registered.fromPrevious).toBe(0.5);
+    expect(byStage.registered.fromFirst).toBe(0.25);
+  });
+
+  it('rates each stage against the previous and the first', () => {
+    const rows = funnelRows(counts({ prospect: 200, contacted: 100, interested: 40, registered: 20, called: 10 }));
+    const byStage = Object.fromEntries(rows.map((r) => [r.stage, r]));
+    expect(byStage.prospect.fromPrevious).toBeNull();
+    expect(byStage.contacted.fromPrevious).toBe(0.5);
+    expect(byStage.interested.fromPrevious).toBe(0.4);
+    expect(byStage.registered.fromPrevious).toBe(0.5);
+    expect(byStage.registered.fromFirst).toBe(0.1);
+    expect(byStage.called.fromFirst).toBe(0.05);
+  });
+
+  it('starts at registered when the prospect stages do not apply (referral filter)', () => {
+    const rows = funnelRows(counts({ registered: 20, called: 10, bop: 5 }));
+    const byStage = Object.fromEntries(rows.map((r) => [r.stage, r]));
+    expect(byStage.contacted.reached).toBeNull();
+    expect(byStage.registered.fromPrevious).toBeNull();
+    expect(byStage.called.fromPrevious).toBe(0.5);
+    expect(byStage.bop.fromFirst).toBe(0.25);
+  });
+
+  it('has no rate after a stage nobody reached', () => {
+    const rows = funnelRows(counts({ prospect: 10, contacted: 0, interested: 0 }));
+    expect(rows.find((r) => r.stage === 'interested')?.fromPrevious).toBeNull();
+    expect(formatRate(null)).toBe('—');
+  });
+});
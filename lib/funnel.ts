@@ -0,0 +1,67 @@
+// lib/funnel.ts
+/**
+ * Conversion funnel from prospect to policy issued. Stage counts and median
+ * days come from public.conversion_funnel (lib/repo/reports.ts); rates are
+ * worked out here. The prospect stages read `prospects.result`; the mapping
+ * lives in that function and is spelled out in `reachedBy` below.
+ */
+
+export type FunnelStageKey = 'prospect' | 'contacted' | 'interested' | 'registered' | 'called' | 'bop' | 'followup' | 'fna' | 'issued';
+
+export const FUNNEL_STAGES: { key: FunnelStageKey; label: string; reachedBy: string }[] = [
+  { key: 'prospect', label: 'Prospects', reachedBy: 'Entered on the prospect list' },
+  { key: 'contacted', label: 'Contacted', reachedBy: 'Prospect Result set' },
+  { key: 'interested', label: 'Interested', reachedBy: 'Prospect Result Business, Both, Client Solution or In-Progress' },
+  { key: 'registered', label: 'Registered', reachedBy: 'Client record created' },
+  { key: 'called', label: 'Called', reachedBy: 'Called On set' },
+  { key: 'bop', label: 'BOP', reachedBy: 'BOP Date set' },
+  { key: 'followup', label: 'Follow-up', reachedBy: 'Follow-up Date set' },
+  { key: 'fna', label: 'FNA completed', reachedBy: 'FNA Status Completed or Solution Provided' },
+  { key: 'issued', label: 'Policy issued', reachedBy: 'Client Status Policy Issued or Issued set' },
+];
+
+export type FunnelFilter = {
+  /** From ownerIdsForScope(), or a single agent; null means every owner */
+  ownerIds: string[] | null;
+  /** Substring of client_registrations.referred_by */
+  referredBy?: string;
+};
+
+/** What the database returns per stage; `reached` is null when a stage does not apply */
+export type FunnelCount = { stage: FunnelStageKey; reached: number | null; medianDays: number | null };
+
+export type FunnelRow = FunnelCount & {
+  label: string;
+  reachedBy: string;
+  /** Share of the previous counted stage, 0..1 */
+  fromPrevious: number | null;
+  /** Share of the first counted stage, 0..1 */
+  fromFirst: number | null;
+};
+
+const ratio = (n: number | null, d: number | null | undefined) => (n == null || !d ? null : n / d);
+
+export function funnelRows(counts: FunnelCount[]): FunnelRow[] {
+  const byStage = new Map(counts.map((c) => [c.stage, c]));
+  let first: number | null = null;
+  let previous: number | null = null;
+  return FUNNEL_STAGES.map(({ key, label, reachedBy }) => {
+    const count = byStage.get(key) ?? { stage: key, reached: null, medianDays: null };
+    const row: FunnelRow = {
+      ...count,
+      label,
+      reachedBy,
+      fromPrevious: ratio(count.reached, previous),
+      fromFirst: ratio(count.reached, first),
+    };
+    if (count.reached != null) {
+      first ??= count.reached;
+      previous = count.reached;
+    }
+    return row;
+  });
+}
+
+export function formatRate(rate: number | null): string {
+  return rate == null ? '—' : `${(rate * 100).toFixed(rate < 0.1 ? 1 : 0)}%`;
+}
@@ -0,0 +1,115 @@
+// lib/goals.ts
+/**
+ * Recurring goals (table public.goals): a target for one metric per agency-zone
+ * week, month or quarter, for one agent or for an agent's team (the agent and
+ * everyone below them). Progress counts the current period so far; the
+ * projection assumes the same pace until the period ends.
+ */
+import type { GoalRow } from '@/lib/models';
+import { LEADERBOARD_METRICS, type LeaderboardCounts } from '@/lib/leaderboard';
+import { teamIds, type Agent } from '@/lib/team';
+import { AGENCY_TIME_ZONE, addDaysToKey, addMonthsToKey, startOfZonedDay, todayKey } from '@/lib/timezone';
+
+export type GoalMetric = keyof LeaderboardCounts | 'new_clients';
+export type GoalPeriod = 'week' | 'month' | 'quarter';
+export type GoalAppliesTo = 'agent' | 'team';
+
+export const GOAL_METRICS: { key: GoalMetric; label: string }[] = [
+  ...LEADERBOARD_METRICS,
+  { key: 'new_clients', label: 'New clients' },
+];
+
+export const GOAL_PERIOD_LABELS: Record<GoalPeriod, string> = {
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+export const GOAL_APPLIES_TO_LABELS: Record<GoalAppliesTo, string> = {
+  agent: 'Agent',
+  team: 'Team',
+};
+
+export type Goal = Omit<GoalRow, 'metric' | 'period' | 'applies_to'> & {
+  metric: GoalMetric;
+  period: GoalPeriod;
+  applies_to: GoalAppliesTo;
+};
+
+export type GoalCounts = Record<GoalMetric, number>;
+
+export const EMPTY_GOAL_COUNTS: GoalCounts = { calls: 0, bops: 0, followups: 0, fnas: 0, issued: 0, new_clients: 0 };
+
+export function isGoalMetric(value: unknown): value is GoalMetric {
+  return GOAL_METRICS.some((m) => m.key === value);
+}
+
+export function isGoalPeriod(value: unknown): value is GoalPeriod {
+  return typeof value === 'string' && Object.hasOwn(GOAL_PERIOD_LABELS, value);
+}
+
+export function isGoalAppliesTo(value: unknown): value is GoalAppliesTo {
+  return typeof value === 'string' && Object.hasOwn(GOAL_APPLIES_TO_LABELS, value);
+}
+
+export type GoalPeriodRange = { first: string; last: string; from: Date; to: Date; totalDays: number; elapsedDays: number };
+
+/** The week (Monday first), month or quarter that contains today */
+export function currentPeriod(period: GoalPeriod, now = new Date()): GoalPeriodRange {
+  const today = todayKey(AGENCY_TIME_ZONE, now);
+  let first: string;
+  let next: string;
+  if (period === 'week') {
+    first = addDaysToKey(today, -((new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7));
+    next = addDaysToKey(first, 7);
+  } else {
+    const month = Number(today.slice(5, 7));
+    const startMonth = period === 'month' ? today.slice(0, 7) : `${today.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, '0')}`;
+    first = `${startMonth}-01`;
+    next = `${addMonthsToKey(startMonth, period === 'month' ? 1 : 3)}-01`;
+  }
+  const day = (key: string) => Date.parse(`${key}T00:00:00Z`) / 86_400_000;
+  return {
+    first,
+    last: addDaysToKey(next, -1),
+    from: startOfZonedDay(first, AGENCY_TIME_ZONE),
+    to: startOfZonedDay(next, AGENCY_TIME_ZONE),
+    totalDays: day(next) - day(first),
+    elapsedDays: day(today) - day(first) + 1,
+  };
+}
+
+/** Agents whose records count toward a goal */
+export function goalOwnerIds(goal: Pick<Goal, 'agent_id' | 'applies_to'>, agents: Agent[]): string[] {
+  return goal.applies_to === 'team' ? teamIds(agents, goal.agent_id) : [goal.agent_id];
+}
+
+export type GoalProgress = {
+  actual: number;
+  /** Expected by the end of the period at the current pace */
+  projected: number;
+  /** actual / target and projected / target */
+  attainment: number;
+  projectedAttainment: number;
+};
+
+export function goalProgress(goal: Pick<Goal, 'target'>, actual: number, range: Pick<GoalPeriodRange, 'totalDays' | 'elapsedDays'>): GoalProgress {
+  const projected = range.elapsedDays > 0 ? Math.round((actual / range.elapsedDays) * range.totalDays) : actual;
+  return {
+    actual,
+    projected,
+    attainment: actual / goal.target,
+    projectedAttainment: projected / goal.target,
+  };
+}
+
+/** Sum of per-agent counts over some agents */
+export function sumCounts(byAgent: Map<string, GoalCounts>, agentIds: string[]): GoalCounts {
+  const total = { ...EMPTY_GOAL_COUNTS };
+  for (const id of agentIds) {
+    const counts = byAgent.get(id);
+    if (!counts) continue;
+    for (const { key } of GOAL_METRICS) total[key] += counts[key];
+  }
+  return total;
+}
@@ -0,0 +1,57 @@
+// lib/leaderboard.ts
+/**
+ * Per-agent production for a period: calls, BOPs, follow-ups, completed FNAs
+ * and policies issued. Counts come from public.agent_leaderboard
+ * (lib/repo/reports.ts); sorting and the XLSX layout live here.
+ */
+import { AGENCY_TIME_ZONE } from '@/lib/timezone';
+import { agentLabel, type Agent } from '@/lib/team';
+import type { TrendRange } from '@/lib/trends';
+
+export type LeaderboardCounts = { calls: number; bops: number; followups: number; fnas: number; issued: number };
+
+export type LeaderboardEntry = LeaderboardCounts & { agentId: string };
+
+export type LeaderboardMetric = keyof LeaderboardCounts;
+
+export const LEADERBOARD_METRICS: { key: LeaderboardMetric; label: string }[] = [
+  { key: 'calls', label: 'Calls' },
+  { key: 'bops', label: 'BOPs' },
+  { key: 'followups', label: 'Follow-ups' },
+  { key: 'fnas', label: 'FNAs completed' },
+  { key: 'issued', label: 'Policies issued' },
+];
+
+export type LeaderboardSort = { key: LeaderboardMetric | 'agent'; ascending: boolean };
+
+/** Sorted on the chosen column; ties go to more policies issued, then by name */
+export function sortLeaderboard(entries: LeaderboardEntry[], sort: LeaderboardSort, agentsById: Map<string, Agent>): LeaderboardEntry[] {
+  const name = (e: LeaderboardEntry) => agentLabel(agentsById.get(e.agentId)) || e.agentId;
+  const dir = sort.ascending ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    if (sort.key === 'agent') return dir * name(a).localeCompare(name(b));
+    return dir * (a[sort.key] - b[sort.key]) || b.issued - a.issued || name(a).localeCompare(name(b));
+  });
+}
+
+export function leaderboardTotals(entries: LeaderboardEntry[]): LeaderboardCounts {
+  const totals: LeaderboardCounts = { calls: 0, bops: 0, followups: 0, fnas: 0, issued: 0 };
+  for (const e of entries) for (const { key } of LEADERBOARD_METRICS) totals[key] += e[key];
+  return totals;
+}
+
+/** Sheet rows for the XLSX export, headed by the period they cover */
+export function leaderboardExportRows(range: TrendRange, entries: LeaderboardEntry[], agentsById: Map<string, Agent>): (string | number)[][] {
+  const totals = leaderboardTotals(entries);
+  return [
+    ['Period', `${range.first} to ${range.last}`],
+    ['Time zone', AGENCY_TIME_ZONE],
+    [],
+    ['Rank', 'Agent', 'Email', ...LEADERBOARD_METRICS.map((m) => m.label)],
+    ...entries.map((e, i) => {
+      const agent = agentsById.get(e.agentId);
+      return [i + 1, agentLabel(agent) || e.agentId, agent?.email ?? '', ...LEADERBOARD_METRICS.map((m) => e[m.key])];
+    }),
+    ['', 'Total', '', ...LEADERBOARD_METRICS.map((m) => totals[m.key])],
+  ];
+}
@@ -0,0 +1,265 @@
+// lib/models.ts
+/**
+ * Domain types for the app's tables and views, derived from lib/database.types.ts.
+ * Pages, API handlers and lib helpers import row shapes from here rather than
+ * declaring their own.
+ *
+ * The column lists below are checked against the schema types, so regenerating
+ * lib/database.types.ts after a migration flags every list that needs updating.
+ */
+import type { Tables, TablesInsert, TablesUpdate } from '@/lib/database.types';
+
+export type { Database, Json } from '@/lib/database.types';
+
+/** A value stored in one table cell */
+export type CellValue = string | number | boolean | string[] | null;
+
+// ---------- Agents / audit ----------
+
+export type AgentRow = Tables<'agents'>;
+export type AuditLogRow = Tables<'audit_log'>;
+
+// ---------- Clients ----------
+
+export type ClientRegistration = Tables<'client_registrations'>;
+export type ClientRegistrationUpdate = TablesUpdate<'client_registrations'>;
+export type ClientColumn = keyof ClientRegistration & string;
+
+/** Per-client call / BOP / follow-up counts, with the owner for scoping */
+export type ClientProgressSummary = Tables<'v_client_progress_summary_scoped'>;
+
+export type ClientActivityRow = Tables<'client_activities'>;
+export type ClientActivityInsert = TablesInsert<'client_activities'>;
+export type ClientActivityUpdate = TablesUpdate<'client_activities'>;
+
+// ---------- Production cycles ----------
+
+export type ProductionCycle = Tables<'production_cycles'>;
+export type ProductionCycleInsert = TablesInsert<'production_cycles'>;
+export type ProductionCycleUpdate = TablesUpdate<'production_cycles'>;
+
+// ---------- Goals ----------
+
+export type GoalRow = Tables<'goals'>;
+export type GoalInsert = TablesInsert<'goals'>;
+
+// ---------- Saved Clients List views ----------
+
+export type ClientViewRow = Tables<'client_views'>;
+export type ClientViewInsert = TablesInsert<'client_views'>;
+export type ClientViewUpdate = TablesUpdate<'client_views'>;
+
+// ---------- Reminders ----------
+
+export type ReminderSettingsRow = Tables<'reminder_settings'>;
+export type ReminderSettingsInsert = TablesInsert<'reminder_settings'>;
+export type ReminderDeliveryRow = Tables<'reminder_deliveries'>;
+export type ReminderDeliveryInsert = TablesInsert<'reminder_deliveries'>;
+export type NotificationRow = Tables<'notifications'>;
+export type NotificationInsert = TablesInsert<'notifications'>;
+
+// ---------- Prospects ----------
+
+export type Prospect = Tables<'prospects'>;
+export type ProspectInsert = TablesInsert<'prospects'>;
+export type ProspectUpdate = TablesUpdate<'prospects'>;
+
+// ---------- FNA ----------
+
+export type FnaHeader = Tables<'fna_header'>;
+export type FnaHeaderUpdate = TablesUpdate<'fna_header'>;
+
+/** Child tables keyed by fna_id, one per FNA tab */
+export const FNA_ROW_TABLES = [
+  'fna_children',
+  'fna_properties',
+  'fna_assets',
+  'fna_liabilities',
+  'fna_insurance',
+  'fna_income',
+  'fna_tax_refund',
+] as const;
+
+export type FnaRowTable = (typeof FNA_ROW_TABLES)[number];
+export type FnaRow<T extends FnaRowTable = FnaRowTable> = Tables<T>;
+export type FnaRowInsert<T extends FnaRowTable = FnaRowTable> = TablesInsert<T>;
+export type FnaRowUpdate<T extends FnaRowTable = FnaRowTable> = TablesUpdate<T>;
+
+export type FnaChild = FnaRow<'fna_children'>;
+export type FnaProperty = FnaRow<'fna_properties'>;
+export type FnaAsset = FnaRow<'fna_assets'>;
+export type FnaLiability = FnaRow<'fna_liabilities'>;
+export type FnaInsurance = FnaRow<'fna_insurance'>;
+export type FnaIncome = FnaRow<'fna_income'>;
+export type FnaTaxRefund = FnaRow<'fna_tax_refund'>;
+
+// ---------- Column lists ----------
+
+// Listing columns as object keys makes the compiler reject missing and unknown ones
+function columnsOf<R>(keys: Record<keyof R & string, true>): (keyof R & string)[] {
+  return Object.keys(keys) as (keyof R & string)[];
+}
+
+export const CLIENT_COLUMNS = columnsOf<ClientRegistration>({
+  id: true,
+  created_at: true,
+  first_name: true,
+  last_name: true,
+  phone: true,
+  email: true,
+  status: true,
+  client_status: true,
+  interest_type: true,
+  business_opportunities: true,
+  wealth_solutions: true,
+  CalledOn: true,
+  BOP_Date: true,
+  BOP_Status: true,
+  Followup_Date: true,
+  FollowUp_Date: true,
+  FollowUp_Status: true,
+  FNA_Date: true,
+  FNA_Status: true,
+  Issued: true,
+  Product: true,
+  Comment: true,
+  Remark: true,
+  spouse_name: true,
+  date_of_birth: true,
+  children: true,
+  city: true,
+  state: true,
+  profession: true,
+  work_details: true,
+  immigration_status: true,
+  referred_by: true,
+  preferred_days: true,
+  preferred_time: true,
+  owner_id: true,
+});
+
+export const FNA_HEADER_COLUMNS = columnsOf<FnaHeader>({
+  id: true,
+  client_id: true,
+  created_at: true,
+  updated_at: true,
+  spouse_name: true,
+  spouse_dob: true,
+  address: true,
+  city: true,
+  state: true,
+  zip_code: true,
+  client_dob: true,
+  home_phone: true,
+  mobile_phone: true,
+  personal_email: true,
+  spouse_mobile_phone: true,
+  spouse_email: true,
+  more_children_planned: true,
+  more_children_count: true,
+  goals_text: true,
+  own_or_rent: true,
+  properties_notes: true,
+  has_old_401k: true,
+  expects_lump_sum: true,
+  li_debt: true,
+  li_income: true,
+  li_mortgage: true,
+  li_education: true,
+  li_total_needed: true,
+  li_insurance_in_place: true,
+  li_insurance_gap: true,
+  has_will: true,
+  will_last_updated: true,
+  has_trust: true,
+  trust_type: true,
+  trust_purpose: true,
+  retirement_monthly_need: true,
+  retirement_target_date: true,
+  monthly_commitment: true,
+  next_appointment_date: true,
+  next_appointment_time: true,
+});
+
+// Shared by every FNA tab table
+const FNA_ROW_BASE = { id: true, fna_id: true, created_at: true, deleted_at: true, deleted_by: true } as const;
+
+export const FNA_ROW_COLUMNS: { [T in FnaRowTable]: (keyof FnaRow<T> & string)[] } = {
+  fna_children: columnsOf<FnaChild>({
+    ...FNA_ROW_BASE,
+    child_name: true,
+    child_age: true,
+    child_dob: true,
+    education_goal: true,
+    current_savings: true,
+    monthly_contribution: true,
+    notes: true,
+  }),
+  fna_properties: columnsOf<FnaProperty>({
+    ...FNA_ROW_BASE,
+    address: true,
+    mortgage_company: true,
+    market_value: true,
+    balance: true,
+    interest_rate: true,
+    payment: true,
+    notes: true,
+  }),
+  fna_assets: columnsOf<FnaAsset>({
+    ...FNA_ROW_BASE,
+    tax_type: true,
+    asset_name: true,
+    asset_category: true,
+    balance: true,
+    monthly_contribution: true,
+    employer_match: true,
+    rate_of_return: true,
+    notes: true,
+  }),
+  fna_liabilities: columnsOf<FnaLiability>({
+    ...FNA_ROW_BASE,
+    liability_type: true,
+    description: true,
+    lender: true,
+    balance: true,
+    interest_rate: true,
+    min_payment: true,
+    current_payment: true,
+    notes: true,
+  }),
+  fna_insurance: columnsOf<FnaInsurance>({
+    ...FNA_ROW_BASE,
+    insured_role: true,
+    insurance_type: true,
+    provider: true,
+    policy_type: true,
+    premium: true,
+    term: true,
+    death_benefit: true,
+    cash_value: true,
+    year_purchased: true,
+    riders: true,
+    tobacco: true,
+    marketplace: true,
+    notes: true,
+  }),
+  fna_income: columnsOf<FnaIncome>({
+    ...FNA_ROW_BASE,
+    fna_income_role: true,
+    fna_income_type: true,
+    amount: true,
+    notes: true,
+  }),
+  fna_tax_refund: columnsOf<FnaTaxRefund>({
+    ...FNA_ROW_BASE,
+    last_year_tax_refund: true,
+  }),
+};
+
+/**
+ * One cell by column name, for tables whose columns are chosen at runtime
+ * (generic grids, sort keys). Prefer plain property access when the column is known.
+ */
+export function cellOf<R extends object>(row: R, key: string): unknown {
+  return (row as Record<string, unknown>)[key];
+}
@@ -0,0 +1,93 @@
+// lib/notify/index.ts
+/**
+ * Reminder channels (server only). Each channel delivers one reminder to one
+ * agent and throws when it could not; the reminder run records the error and
+ * tries again next time. A new channel is one entry in CHANNELS plus its name
+ * in REMINDER_CHANNELS (lib/reminders.ts) and the reminder_settings check.
+ */
+import { createHmac } from 'node:crypto';
+import type { Repository } from '@/lib/repo';
+import type { Agent } from '@/lib/team';
+import type { ReminderChannel, ReminderMessage, ReminderSettings } from '@/lib/reminders';
+import { getMailTransport } from '@/lib/notify/mail';
+import { assertPublicUrl } from '@/lib/notify/publicUrl';
+
+export type ChannelContext = {
+  repo: Repository;
+  agent: Agent;
+  settings: ReminderSettings;
+};
+
+export interface NotificationChannel {
+  name: ReminderChannel;
+  send(message: ReminderMessage, ctx: ChannelContext): Promise<void>;
+}
+
+/** Links in emails and webhooks need the site's address (APP_URL); the inbox keeps them relative */
+export function absoluteLink(link: string): string {
+  const base = process.env.APP_URL;
+  return base ? new URL(link, base).toString() : link;
+}
+
+export const inboxChannel: NotificationChannel = {
+  name: 'inbox',
+  async send(message, { repo, agent }) {
+    await repo.notifications.create({ agent_id: agent.id, title: message.title, body: message.body, link: message.link });
+  },
+};
+
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  async send(message, { agent }) {
+    if (!agent.email) throw new Error('The agent has no email address');
+    await getMailTransport().send({
+      to: agent.email,
+      subject: message.title,
+      text: `${message.body}\n\n${absoluteLink(message.link)}\n`,
+    });
+  },
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * POSTs `{ agent, title, body, link, sent_at }` as JSON. With
+ * REMINDER_WEBHOOK_SECRET set, X-Reminder-Signature carries
+ * `sha256=<hex HMAC of the body>` so the receiver can check the sender.
+ */
+export const webhookChannel: NotificationChannel = {
+  name: 'webhook',
+  async send(message, { agent, settings }) {
+    if (!settings.webhookUrl) throw new Error('No webhook URL is set');
+    // Again at send time: the name may resolve elsewhere than when it was saved
+    await assertPublicUrl(settings.webhookUrl);
+    const payload = JSON.stringify({
+      agent: { id: agent.id, email: agent.email, name: agent.full_name },
+      title: message.title,
+      body: message.body,
+      link: absoluteLink(message.link),
+      sent_at: new Date().toISOString(),
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const secret = process.env.REMINDER_WEBHOOK_SECRET;
+    if (secret) headers['X-Reminder-Signature'] = `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+    const res = await fetch(settings.webhookUrl, {
+      method: 'POST',
+      headers,
+      body: payload,
+      redirect: 'manual', // a redirect could lead anywhere, including inside the network
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Webhook answered ${res.status}`);
+  },
+};
+
+const CHANNELS: Record<ReminderChannel, NotificationChannel> = {
+  inbox: inboxChannel,
+  email: emailChannel,
+  webhook: webhookChannel,
+};
+
+export function getChannel(name: ReminderChannel): NotificationChannel {
+  return CHANNELS[name];
+}
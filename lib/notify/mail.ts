@@ -0,0 +1,73 @@
+// lib/notify/mail.ts
+/**
+ * Outgoing mail (server only), sent with nodemailer. With SMTP_HOST set,
+ * messages go to that server: SMTP_PORT (587), SMTP_SECURE=true for TLS from
+ * the start (port 465), otherwise STARTTLS when offered; SMTP_USER / SMTP_PASS
+ * to log in; SMTP_FROM as the sender. Without SMTP_HOST, messages are captured
+ * as .eml files in MAIL_CAPTURE_DIR for local development. The default is a
+ * folder under the system temp directory, so captured client emails never land
+ * in the working tree.
+ */
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+
+export type MailMessage = { to: string; subject: string; text: string };
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'AnuNathan Reports <no-reply@localhost>';
+const TIMEOUT_MS = 20_000;
+
+export function smtpTransport(opts: { host: string; port: number; secure: boolean; user?: string; pass?: string; from: string }): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: opts.host,
+    port: opts.port,
+    secure: opts.secure,
+    auth: opts.user ? { user: opts.user, pass: opts.pass ?? '' } : undefined,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS,
+  });
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: opts.from, ...message });
+    },
+  };
+}
+
+/** Writes each message to `dir` instead of sending it */
+export function captureTransport(dir: string, from: string): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  return {
+    name: 'capture',
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message });
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`);
+      await writeFile(file, info.message);
+      console.info(`Mail to ${message.to} captured in ${file}`);
+    },
+  };
+}
+
+export function getMailTransport(): MailTransport {
+  const from = process.env.SMTP_FROM || DEFAULT_FROM;
+  const host = process.env.SMTP_HOST;
+  if (!host) return captureTransport(process.env.MAIL_CAPTURE_DIR || path.join(os.tmpdir(), 'canfs-mail-capture'), from);
+  const secure = process.env.SMTP_SECURE === 'true';
+  return smtpTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from,
+  });
+}
@@ -0,0 +1,42 @@
+// lib/notify/publicUrl.test.ts
+import { describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPublicAddress, webhookUrlProblem } from '@/lib/notify/publicUrl';
+
+describe('isPublicAddress', () => {
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111'])('allows %s', (ip) => {
+    expect(isPublicAddress(ip)).toBe(true);
+  });
+
+  it.each(['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip'])(
+    'rejects %s',
+    (ip) => {
+      expect(isPublicAddress(ip)).toBe(false);
+    }
+  );
+});
+
+describe('webhookUrlProblem', () => {
+  it('accepts a public https URL', () => {
+    expect(webhookUrlProblem('https://hooks.example.com/reminders?x=1')).toBeNull();
+  });
+
+  it.each([
+    ['http://hooks.example.com/', 'must start with https://'],
+    ['ftp://hooks.example.com/', 'must start with https://'],
+    ['https://user:pw@hooks.example.com/', 'user name or password'],
+    ['https://localhost:3000/', 'public address'],
+    ['https://printer.local/', 'public address'],
+    ['https://127.0.0.1/', 'public address'],
+    ['https://[::1]/', 'public address'],
+    ['https://169.254.169.254/latest/meta-data', 'public address'],
+    ['not a url', 'not a valid address'],
+  ])('rejects %s', (url, reason) => {
+    expect(webhookUrlProblem(url)).toContain(reason);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('rejects private literal addresses without a lookup', async () => {
+    await expect(assertPublicUrl('https://10.0.0.8/hook')).rejects.toThrow('public address');
+  });
+});
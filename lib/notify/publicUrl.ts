@@ -0,0 +1,80 @@
+// lib/notify/publicUrl.ts
+/**
+ * Webhook URLs are typed in by agents and fetched by the server, so they may
+ * only point at the public internet: https, and no loopback, private,
+ * link-local or other special-use address. The name is checked when the
+ * settings are saved and its DNS answers again before every send.
+ */
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+const RESERVED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  RESERVED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  RESERVED.addSubnet(network, prefix, 'ipv6');
+}
+
+/** False for loopback, private, link-local and other addresses not on the public internet */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+  const family = isIP(address);
+  if (!family) return false;
+  return !RESERVED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Why a webhook URL may not be used, as far as can be told without DNS; null when it may */
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'The webhook URL is not a valid address';
+  }
+  if (url.protocol !== 'https:') return 'The webhook URL must start with https://';
+  if (url.username || url.password) return 'The webhook URL must not contain a user name or password';
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return 'The webhook URL must be a public address';
+  }
+  if (isIP(host) && !isPublicAddress(host)) return 'The webhook URL must be a public address';
+  return null;
+}
+
+/** Throws unless the URL passes webhookUrlProblem() and every address its name resolves to is public */
+export async function assertPublicUrl(value: string): Promise<void> {
+  const problem = webhookUrlProblem(value);
+  if (problem) throw new Error(problem);
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  if (!addresses.length || addresses.some((a) => !isPublicAddress(a.address))) {
+    throw new Error('The webhook URL must be a public address');
+  }
+}
@@ -0,0 +1,91 @@
+// lib/reminders.ts
+/**
+ * Meeting reminders. Each agent picks lead times (say a day and an hour before)
+ * and channels; a scheduled run (/api/reminders/run) sends a reminder when a
+ * BOP, follow-up or FNA appointment comes within a lead time. Only the nearest
+ * lead time that has been reached is sent, so a meeting booked two hours out
+ * gets the one-hour reminder later but never a late "one day" one after it.
+ */
+import type { NotificationRow, ReminderSettingsRow } from '@/lib/models';
+import { APPOINTMENT_LABELS, type Appointment } from '@/lib/scheduling';
+import { formatInZone } from '@/lib/timezone';
+
+export const REMINDER_CHANNELS = ['inbox', 'email', 'webhook'] as const;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  inbox: 'In-app inbox',
+  email: 'Email',
+  webhook: 'Webhook',
+};
+
+export function isReminderChannel(value: unknown): value is ReminderChannel {
+  return typeof value === 'string' && Object.hasOwn(REMINDER_CHANNEL_LABELS, value);
+}
+
+/** Lead times offered in the settings; any whole number of minutes up to a week is accepted */
+export const LEAD_TIME_OPTIONS = [15, 30, 60, 120, 240, 1440, 2880];
+
+export const MAX_LEAD_MINUTES = 7 * 24 * 60;
+
+export type ReminderSettings = {
+  leadMinutes: number[];
+  channels: ReminderChannel[];
+  webhookUrl: string | null;
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { leadMinutes: [1440, 60], channels: ['inbox'], webhookUrl: null };
+
+/** Stored settings (null for an agent who never saved any) with unknown channels dropped */
+export function toReminderSettings(row: ReminderSettingsRow | null): ReminderSettings {
+  if (!row) return DEFAULT_REMINDER_SETTINGS;
+  return {
+    leadMinutes: [...row.lead_minutes].sort((a, b) => b - a),
+    channels: row.channels.filter(isReminderChannel),
+    webhookUrl: row.webhook_url,
+  };
+}
+
+export type Notification = NotificationRow;
+
+/** "1 day", "2 hours", "30 minutes" */
+export function formatLead(minutes: number): string {
+  const [value, unit] = minutes % 1440 === 0 ? [minutes / 1440, 'day'] : minutes % 60 === 0 ? [minutes / 60, 'hour'] : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+export type DueReminder = { appointment: Appointment; leadMinutes: number };
+
+/** Appointments not yet started whose nearest reached lead time is due at `now` */
+export function dueReminders(appointments: Appointment[], leadMinutes: number[], now = new Date()): DueReminder[] {
+  const due: DueReminder[] = [];
+  for (const appointment of appointments) {
+    const untilStart = (new Date(appointment.start).getTime() - now.getTime()) / 60_000;
+    if (untilStart <= 0) continue;
+    const reached = leadMinutes.filter((lead) => untilStart <= lead);
+    if (reached.length) due.push({ appointment, leadMinutes: Math.min(...reached) });
+  }
+  return due;
+}
+
+/** The page that shows the appointment */
+export function appointmentLink(appointment: Appointment): string {
+  const client = encodeURIComponent(appointment.clientId);
+  return appointment.kind === 'fna' ? `/fna?client=${client}&from=fna_header` : `/dashboard?client=${client}`;
+}
+
+export type ReminderMessage = { title: string; body: string; link: string };
+
+export function reminderMessage({ appointment }: DueReminder, timeZone: string, now = new Date()): ReminderMessage {
+  const label = APPOINTMENT_LABELS[appointment.kind];
+  const who = appointment.clientName || 'a client';
+  const when = formatInZone(appointment.start, timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+  const minutes = Math.max(1, Math.round((new Date(appointment.start).getTime() - now.getTime()) / 60_000));
+  const inAbout = minutes >= 1440 ? formatLead(Math.round(minutes / 1440) * 1440) : minutes >= 60 ? formatLead(Math.round(minutes / 60) * 60) : formatLead(minutes);
+  return {
+    title: `${label} with ${who} in ${inAbout}`,
+    body: `${label} with ${who} on ${when}.`,
+    link: appointmentLink(appointment),
+  };
+}
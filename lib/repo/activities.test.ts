@@ -0,0 +1,68 @@
+// lib/repo/activities.test.ts
+import { describe, expect, it } from 'vitest';
+import { activitiesFromClientChange } from '@/lib/activities';
+import { activitiesRepo } from '@/lib/repo/activities';
+import { createMemoryDb } from '@/lib/repo/memory';
+import type { ClientRegistration } from '@/lib/models';
+
+const MAY_1 = '2026-05-01T15:00:00.000Z';
+const MAY_8 = '2026-05-08T15:00:00.000Z';
+
+const client = (changes: Partial<ClientRegistration>) => ({ id: 'c1', ...changes }) as ClientRegistration;
+
+const bop = (occurredAt: string, extra: Record<string, unknown> = {}) => ({
+  id: 'a1',
+  client_id: 'c1',
+  kind: 'bop',
+  occurred_at: occurredAt,
+  outcome: 'Presented',
+  notes: 'Bring the spouse',
+  created_by: 'agent-1',
+  ...extra,
+});
+
+describe('activitiesFromClientChange', () => {
+  it('names the previous time when a BOP is rescheduled', () => {
+    const logged = activitiesFromClientChange(client({ BOP_Date: MAY_1 }), client({ BOP_Date: MAY_8 }));
+    expect(logged).toEqual([{ client_id: 'c1', kind: 'bop', occurred_at: MAY_8, outcome: null, replaces: MAY_1 }]);
+  });
+
+  it('logs a new call alongside the earlier ones', () => {
+    const logged = activitiesFromClientChange(client({ CalledOn: MAY_1 }), client({ CalledOn: MAY_8 }));
+    expect(logged).toEqual([{ client_id: 'c1', kind: 'call', occurred_at: MAY_8, outcome: null, replaces: null }]);
+  });
+});
+
+describe('activitiesRepo.log', () => {
+  it('moves a rescheduled event and keeps its notes and author', async () => {
+    const db = createMemoryDb({ client_activities: [bop(MAY_1)] });
+    await activitiesRepo(db).log([{ client_id: 'c1', kind: 'bop', occurred_at: MAY_8, outcome: 'Presented', replaces: MAY_1 }], 'agent-2');
+    expect(db.tables.client_activities).toEqual([bop(MAY_8)]);
+  });
+
+  it('updates the event already at the new time instead of adding one', async () => {
+    const db = createMemoryDb({ client_activities: [bop(MAY_8)] });
+    await activitiesRepo(db).log([{ client_id: 'c1', kind: 'bop', occurred_at: MAY_8, outcome: 'Completed', replaces: null }], 'agent-2');
+    expect(db.tables.client_activities).toEqual([bop(MAY_8, { outcome: 'Completed' })]);
+  });
+
+  it('folds the replaced event into one already at the new time, keeping its notes and author', async () => {
+    const db = createMemoryDb({ client_activities: [bop(MAY_1), bop(MAY_8, { id: 'a2', notes: 'Confirmed by text', created_by: null })] });
+    await activitiesRepo(db).log([{ client_id: 'c1', kind: 'bop', occurred_at: MAY_8, outcome: 'Completed', replaces: MAY_1 }], 'agent-2');
+    expect(db.tables.client_activities).toEqual([
+      bop(MAY_8, { id: 'a2', notes: 'Confirmed by text\n\nBring the spouse', created_by: 'agent-1', outcome: 'Completed' }),
+    ]);
+  });
+
+  it('keeps the surviving event\'s author and takes the replaced notes when it has none', async () => {
+    const db = createMemoryDb({ client_activities: [bop(MAY_1), bop(MAY_8, { id: 'a2', notes: null, created_by: 'agent-3' })] });
+    await activitiesRepo(db).log([{ client_id: 'c1', kind: 'bop', occurred_at: MAY_8, outcome: 'Completed', replaces: MAY_1 }], 'agent-2');
+    expect(db.tables.client_activities).toEqual([bop(MAY_8, { id: 'a2', created_by: 'agent-3', outcome: 'Completed' })]);
+  });
+
+  it('adds an event with its author when there is nothing to move', async () => {
+    const db = createMemoryDb({ client_activities: [] });
+    await activitiesRepo(db).log([{ client_id: 'c1', kind: 'call', occurred_at: MAY_8, outcome: null, replaces: null }], 'agent-2');
+    expect(db.tables.client_activities).toMatchObject([{ client_id: 'c1', kind: 'call', occurred_at: MAY_8, created_by: 'agent-2' }]);
+  });
+});
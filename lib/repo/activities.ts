@@ -0,0 +1,75 @@
+// lib/repo/activities.ts
+import type { ClientActivityInsert, ClientActivityUpdate } from '@/lib/models';
+import type { ClientActivity, LoggedActivity } from '@/lib/activities';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+export function activitiesRepo(db: Db) {
+  return {
+    /** One client's timeline, newest first */
+    async forClient(clientId: string): Promise<ClientActivity[]> {
+      const rows = await many(() =>
+        db.from('client_activities').select('*').eq('client_id', clientId).order('occurred_at', { ascending: false })
+      );
+      return rows as ClientActivity[];
+    },
+
+    async get(id: string): Promise<ClientActivity | null> {
+      return (await maybeOne(() => db.from('client_activities').select('*').eq('id', id).maybeSingle())) as ClientActivity | null;
+    },
+
+    async create(activity: ClientActivityInsert): Promise<ClientActivity> {
+      return (await one(() => db.from('client_activities').insert(activity).select('*').single(), WRITE)) as ClientActivity;
+    },
+
+    async update(id: string, changes: ClientActivityUpdate): Promise<ClientActivity> {
+      return (await one(() => db.from('client_activities').update(changes).eq('id', id).select('*').single(), WRITE)) as ClientActivity;
+    },
+
+    async remove(id: string): Promise<void> {
+      await many(() => db.from('client_activities').delete().eq('id', id).select('id'), WRITE);
+    },
+
+    /**
+     * Events logged from a client save. An event already at the same kind and
+     * time gets the new outcome; otherwise the event it `replaces` is moved to
+     * the new time, or a new one is added. When both exist, the replaced event
+     * is folded into the one at the new time (its notes appended, its author
+     * kept if that one has none) so the timeline does not show both times.
+     * Notes and created_by are kept.
+     */
+    async log(activities: LoggedActivity[], createdBy: string): Promise<void> {
+      const at = (a: LoggedActivity, occurredAt: string) =>
+        maybeOne(() =>
+          db
+            .from('client_activities')
+            .select('id, notes, created_by')
+            .eq('client_id', a.client_id)
+            .eq('kind', a.kind)
+            .eq('occurred_at', occurredAt)
+            .maybeSingle()
+        );
+      for (const a of activities) {
+        const current = await at(a, a.occurred_at);
+        const replaced = a.replaces && a.replaces !== a.occurred_at ? await at(a, a.replaces) : null;
+        const existing = current ?? replaced;
+        const values = { client_id: a.client_id, kind: a.kind, occurred_at: a.occurred_at, outcome: a.outcome };
+        const merged =
+          current && replaced
+            ? {
+                notes: [current.notes, replaced.notes].filter(Boolean).join('\n\n') || null,
+                created_by: current.created_by ?? replaced.created_by,
+              }
+            : {};
+        if (existing) {
+          await many(() => db.from('client_activities').update({ ...values, ...merged }).eq('id', existing.id).select('id'), WRITE);
+        } else {
+          await many(() => db.from('client_activities').insert({ ...values, created_by: createdBy }).select('id'), WRITE);
+        }
+        // Only once its notes are safe on the surviving event
+        if (current && replaced) {
+          await many(() => db.from('client_activities').delete().eq('id', replaced.id).select('id'), WRITE);
+        }
+      }
+    },
+  };
+}
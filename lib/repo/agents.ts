@@ -0,0 +1,29 @@
+// lib/repo/agents.ts
+import type { Agent } from '@/lib/team';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+const AGENT_COLUMNS = 'id, email, full_name, role, upline_id, time_zone';
+
+export function agentsRepo(db: Db) {
+  return {
+    /** Everyone, for owner pickers and the upline tree */
+    async list(): Promise<Agent[]> {
+      const rows = await many(() =>
+        db.from('agents').select(AGENT_COLUMNS).order('full_name', { ascending: true })
+      );
+      return rows as Agent[];
+    },
+
+    /** Settings agents change for themselves */
+    async updateSettings(id: string, changes: Pick<Agent, 'time_zone'>): Promise<Agent> {
+      const row = await one(() => db.from('agents').update(changes).eq('id', id).select(AGENT_COLUMNS).single(), WRITE);
+      return row as Agent;
+    },
+
+    /** The stored role text; callers validate it with isRole() */
+    async role(id: string): Promise<string | null> {
+      const row = await maybeOne(() => db.from('agents').select('role').eq('id', id).maybeSingle());
+      return row?.role ?? null;
+    },
+  };
+}
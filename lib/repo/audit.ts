@@ -0,0 +1,26 @@
+// lib/repo/audit.ts
+import type { AuditLogRow } from '@/lib/models';
+import type { TablesInsert } from '@/lib/database.types';
+import { WRITE, execute, many, type Db } from '@/lib/repo/core';
+
+export function auditRepo(db: Db) {
+  return {
+    async insert(entry: TablesInsert<'audit_log'>): Promise<void> {
+      await execute(() => db.from('audit_log').insert(entry), WRITE);
+    },
+
+    /**
+     * Newest-first entries for a record; with `includeChildren`, also entries
+     * whose parent_id is the record (an FNA header's tab rows).
+     */
+    history(table: string, recordId: string, { includeChildren = false, limit = 200 } = {}): Promise<AuditLogRow[]> {
+      return many(() => {
+        const q = db.from('audit_log').select('*');
+        const filtered = includeChildren
+          ? q.or(`and(table_name.eq.${table},record_id.eq.${recordId}),parent_id.eq.${recordId}`)
+          : q.eq('table_name', table).eq('record_id', recordId);
+        return filtered.order('changed_at', { ascending: false }).limit(limit);
+      });
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// lib/repo/clientViews.ts
+import type { ClientViewInsert, ClientViewUpdate } from '@/lib/models';
+import type { ClientView } from '@/lib/clientQuery';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+export function clientViewsRepo(db: Db) {
+  return {
+    /** An agent's saved views, pinned first, then by name */
+    async list(agentId: string): Promise<ClientView[]> {
+      const rows = await many(() =>
+        db.from('client_views').select('*').eq('agent_id', agentId).order('pinned', { ascending: false }).order('name', { ascending: true })
+      );
+      return rows as ClientView[];
+    },
+
+    async get(id: string): Promise<ClientView | null> {
+      return (await maybeOne(() => db.from('client_views').select('*').eq('id', id).maybeSingle())) as ClientView | null;
+    },
+
+    async create(view: ClientViewInsert): Promise<ClientView> {
+      return (await one(() => db.from('client_views').insert(view).select('*').single(), WRITE)) as ClientView;
+    },
+
+    async update(id: string, changes: ClientViewUpdate): Promise<ClientView> {
+      const saved = await one(
+        () => db.from('client_views').update({ ...changes, updated_at: new Date().toISOString() }).eq('id', id).select('*').single(),
+        WRITE
+      );
+      return saved as ClientView;
+    },
+
+    async remove(id: string): Promise<void> {
+      await many(() => db.from('client_views').delete().eq('id', id).select('id'), WRITE);
+    },
+  };
+}
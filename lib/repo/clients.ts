@@ -0,0 +1,160 @@
+// lib/repo/clients.ts
+import type { ClientColumn, ClientProgressSummary, ClientRegistration, ClientRegistrationUpdate } from '@/lib/models';
+import {
+  WRITE,
+  execute,
+  fetchAll,
+  ilikeAny,
+  many,
+  maybeOne,
+  one,
+  orFilterTerm,
+  pageRange,
+  scoped,
+  type Db,
+  type Page,
+  type PageRequest,
+} from '@/lib/repo/core';
+import { compileQuery, isFilterableClientColumn, type ClientColumnFilters, type ClientQuery } from '@/lib/clientQuery';
+import { AGENCY_TIME_ZONE } from '@/lib/timezone';
+import { bucketLabel, type TrendBucket, type TrendPoint } from '@/lib/trends';
+
+/** Columns the client search box matches */
+const SEARCH_COLUMNS = ['first_name', 'last_name', 'phone'] as const;
+
+/** "client" sorts by first then last name */
+export type ClientSort = { column: ClientColumn | 'client'; ascending: boolean };
+
+export type ClientFilter = {
+  /** From ownerIdsForScope(); null means every owner */
+  ownerIds: string[] | null;
+  search?: string;
+  columns?: ClientColumnFilters;
+  query?: ClientQuery | null;
+  /** Zone for the day and period values in `query`; the agency zone by default */
+  timeZone?: string;
+};
+
+/** Column filters that actually filter something */
+function activeColumns(columns: ClientColumnFilters | undefined): [ClientColumn, string[]][] {
+  return Object.entries(columns ?? {}).filter(
+    (e): e is [ClientColumn, string[]] => isFilterableClientColumn(e[0]) && !!e[1]?.length
+  );
+}
+
+/** A ClientFilter as arguments of the client_* database functions */
+function filterArgs(filter: ClientFilter) {
+  const search = orFilterTerm(filter.search ?? '');
+  const columns = activeColumns(filter.columns);
+  const query = compileQuery(filter.query, filter.timeZone ?? AGENCY_TIME_ZONE);
+  return {
+    ...(filter.ownerIds ? { owner_ids: filter.ownerIds } : {}),
+    ...(search ? { search } : {}),
+    ...(columns.length ? { filters: Object.fromEntries(columns) } : {}),
+    ...(query ? { query } : {}),
+  };
+}
+
+/** What pickers show for a client */
+export type ClientSummary = Pick<ClientRegistration, 'id' | 'first_name' | 'last_name' | 'phone' | 'email'>;
+
+export function clientsRepo(db: Db) {
+  // Scope and search box only; the Clients List goes through client_search()
+  const filtered = <Q extends Parameters<typeof scoped>[0] & { or: (filters: string) => Q }>(query: Q, filter: ClientFilter) => {
+    const q = scoped(query, filter.ownerIds);
+    const search = filter.search?.trim();
+    return search ? q.or(ilikeAny(SEARCH_COLUMNS, search)) : q;
+  };
+
+  return {
+    /** One page of the Clients List (every filter applied by the database), with the total for the pager */
+    async list(query: ClientFilter & PageRequest & { sort: ClientSort }): Promise<Page<ClientRegistration>> {
+      const [from, to] = pageRange(query);
+      const { ascending, column } = query.sort;
+      const { data, count } = await execute(() => {
+        let q = db.rpc('client_search', filterArgs(query), { count: 'exact' }).select('*');
+        q = column === 'client' ? q.order('first_name', { ascending }).order('last_name', { ascending }) : q.order(column, { ascending });
+        return q.range(from, to);
+      });
+      return { rows: data ?? [], total: count ?? 0, page: query.page, pageSize: to - from + 1 };
+    },
+
+    /** Counts per `status_<value>` and `client_status_<value>` over every matching client, grouped in the database */
+    async statusCounts(filter: ClientFilter): Promise<Record<string, number>> {
+      const rows = await many(() => db.rpc('client_status_counts', filterArgs(filter)));
+      const counts: Record<string, number> = {};
+      for (const { field, value, clients } of rows) counts[`${field}_${value}`] = Number(clients);
+      return counts;
+    },
+
+    /**
+     * Values a column filter can offer: distinct non-blank values over every client
+     * matching the other filters (the column's own filter is ignored)
+     */
+    async columnValues(filter: ClientFilter, column: ClientColumn, limit = 100): Promise<string[]> {
+      if (!isFilterableClientColumn(column)) return [];
+      const rows = await many(() => db.rpc('client_column_values', { column_name: column, max_values: limit, ...filterArgs(filter) }));
+      return rows.map((r) => r.value);
+    },
+
+    /** Newest clients matching a search, for pickers */
+    search(filter: ClientFilter, limit = 50): Promise<ClientSummary[]> {
+      return many(() =>
+        filtered(db.from('client_registrations').select('id, first_name, last_name, phone, email'), filter)
+          .order('created_at', { ascending: false })
+          .limit(limit)
+      );
+    },
+
+    /** Calls / BOPs / follow-ups per agency-zone day or month in [from, to), zero-filled */
+    async activityCounts(filter: ClientFilter, from: Date, to: Date, bucket: TrendBucket): Promise<TrendPoint[]> {
+      const rows = await many(() =>
+        db.rpc('activity_counts', {
+          range_start: from.toISOString(),
+          range_end: to.toISOString(),
+          bucket,
+          ...(filter.ownerIds ? { owner_ids: filter.ownerIds } : {}),
+        })
+      );
+      return rows.map((r) => ({
+        bucket: bucketLabel(r.bucket_start, bucket),
+        calls: Number(r.calls),
+        bops: Number(r.bops),
+        followups: Number(r.followups),
+      }));
+    },
+
+    /** Clients with a BOP or follow-up in [from, to), each once */
+    async scheduledBetween(filter: ClientFilter, from: Date, to: Date): Promise<ClientRegistration[]> {
+      const inRange = (column: 'BOP_Date' | 'Followup_Date') =>
+        fetchAll((start, end) =>
+          scoped(db.from('client_registrations').select('*'), filter.ownerIds)
+            .gte(column, from.toISOString())
+            .lt(column, to.toISOString())
+            .order('id')
+            .range(start, end)
+        );
+      const [bops, followups] = await Promise.all([inRange('BOP_Date'), inRange('Followup_Date')]);
+      const byId = new Map<string, ClientRegistration>();
+      for (const r of [...bops, ...followups]) byId.set(String(r.id), r);
+      return Array.from(byId.values());
+    },
+
+    /** Call / BOP / follow-up counts per client, newest client first */
+    progressSummary(filter: ClientFilter): Promise<ClientProgressSummary[]> {
+      return fetchAll((from, to) =>
+        scoped(db.from('v_client_progress_summary_scoped').select('*'), filter.ownerIds)
+          .order('clientid', { ascending: false })
+          .range(from, to)
+      );
+    },
+
+    get(id: string): Promise<ClientRegistration | null> {
+      return maybeOne(() => db.from('client_registrations').select('*').eq('id', id).maybeSingle());
+    },
+
+    update(id: string, changes: ClientRegistrationUpdate): Promise<ClientRegistration> {
+      return one(() => db.from('client_registrations').update(changes).eq('id', id).select('*').single(), WRITE);
+    },
+  };
+}
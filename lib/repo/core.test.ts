@@ -0,0 +1,107 @@
+// lib/repo/core.test.ts
+import { describe, expect, it } from 'vitest';
+import { RepoError, WRITE, execute, fetchAll, many, one, toRepoError } from '@/lib/repo/core';
+import { createMemoryDb } from '@/lib/repo/memory';
+
+const prospects = (n: number) =>
+  Array.from({ length: n }, (_, i) => ({ id: i + 1, first_name: `P${i + 1}`, deleted_at: null }));
+
+describe('toRepoError', () => {
+  it('maps known codes to a kind and a message for the user', () => {
+    const err = toRepoError({ message: 'duplicate key value', code: '23505', details: '', hint: '', name: 'PostgrestError' }, 409);
+    expect(err).toBeInstanceOf(RepoError);
+    expect(err.kind).toBe('conflict');
+    expect(err.code).toBe('23505');
+    expect(err.message).toBe('A record with these details already exists.');
+  });
+
+  it('keeps the database message when the code has no friendlier one', () => {
+    const err = toRepoError({ message: 'permission denied for table prospects', code: '42501', details: '', hint: '', name: 'PostgrestError' }, 403);
+    expect(err.kind).toBe('forbidden');
+    expect(err.message).toBe('permission denied for table prospects');
+  });
+
+  it('treats no answer, server errors and network failures as unavailable', () => {
+    expect(toRepoError(new Error('boom'), 0).kind).toBe('unavailable');
+    expect(toRepoError(new Error('boom'), 503).kind).toBe('unavailable');
+    expect(toRepoError(new Error('TypeError: fetch failed'), 400).kind).toBe('unavailable');
+  });
+
+  it('falls back to unknown with the original message', () => {
+    const err = toRepoError(new Error('something odd'), 400);
+    expect(err.kind).toBe('unknown');
+    expect(err.message).toBe('something odd');
+  });
+
+  it('passes a RepoError through unchanged', () => {
+    const original = new RepoError('invalid', 'Bad input.');
+    expect(toRepoError(original)).toBe(original);
+  });
+});
+
+describe('execute', () => {
+  it('retries a read the database did not answer', async () => {
+    const db = createMemoryDb({ prospects: prospects(2) });
+    db.failNext({ message: 'fetch failed' }, 0);
+    const rows = await many(() => db.from('prospects').select('*').order('id'));
+    expect(rows.map((r) => r.id)).toEqual([1, 2]);
+  });
+
+  it('does not retry writes', async () => {
+    const db = createMemoryDb({ prospects: prospects(1) });
+    db.failNext({ message: 'fetch failed' }, 0);
+    await expect(execute(() => db.from('prospects').update({ first_name: 'X' }).eq('id', 1), WRITE)).rejects.toMatchObject({
+      kind: 'unavailable',
+    });
+    expect(db.tables.prospects[0].first_name).toBe('P1');
+  });
+
+  it('does not retry errors that will happen again', async () => {
+    const db = createMemoryDb({ prospects: prospects(1) });
+    db.failNext({ message: 'null value in column "first_name"', code: '23502' }, 400);
+    await expect(many(() => db.from('prospects').select('*'))).rejects.toMatchObject({ kind: 'invalid', code: '23502' });
+  });
+
+  it('reports a missing row from one() as not_found', async () => {
+    const db = createMemoryDb({ prospects: [] });
+    await expect(one(() => db.from('prospects').select('*').eq('id', 7).single())).rejects.toMatchObject({ kind: 'not_found' });
+  });
+});
+
+describe('fetchAll', () => {
+  it('pages through every row in batches', async () => {
+    const db = createMemoryDb({ prospects: prospects(25) });
+    const ranges: [number, number][] = [];
+    const rows = await fetchAll((from, to) => {
+      ranges.push([from, to]);
+      return db.from('prospects').select('*').order('id').range(from, to);
+    }, 10);
+    expect(rows.map((r) => r.id)).toEqual(prospects(25).map((p) => p.id));
+    expect(ranges).toEqual([
+      [0, 9],
+      [10, 19],
+      [20, 29],
+    ]);
+  });
+
+  it('stops on an empty batch when the rows fill the last one exactly', async () => {
+    const db = createMemoryDb({ prospects: prospects(20) });
+    let requests = 0;
+    const rows = await fetchAll((from, to) => {
+      requests++;
+      return db.from('prospects').select('*').order('id').range(from, to);
+    }, 10);
+    expect(rows).toHaveLength(20);
+    expect(requests).toBe(3);
+  });
+
+  it('fails with the mapped error of a failed batch', async () => {
+    const db = createMemoryDb({ prospects: prospects(15) });
+    let requests = 0;
+    const all = fetchAll((from, to) => {
+      if (++requests === 2) db.failNext({ message: 'JWT expired', code: 'PGRST301' }, 401);
+      return db.from('prospects').select('*').order('id').range(from, to);
+    }, 10);
+    await expect(all).rejects.toMatchObject({ kind: 'unauthorized' });
+  });
+});
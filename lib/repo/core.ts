@@ -0,0 +1,171 @@
+// lib/repo/core.ts
+/**
+ * Plumbing shared by the repository modules: error mapping, retries and paging.
+ *
+ * Every repository takes a `Db` (a typed Supabase client) so it runs the same
+ * against the browser client, the service client, or lib/repo/memory.ts.
+ */
+import type { PostgrestError, PostgrestSingleResponse, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+
+export type Db = SupabaseClient<Database>;
+
+export type RepoErrorKind = 'not_found' | 'conflict' | 'invalid' | 'forbidden' | 'unauthorized' | 'unavailable' | 'unknown';
+
+export class RepoError extends Error {
+  kind: RepoErrorKind;
+  /** Postgres / PostgREST error code, when there is one */
+  code: string | null;
+
+  constructor(kind: RepoErrorKind, message: string, code: string | null = null) {
+    super(message);
+    this.name = 'RepoError';
+    this.kind = kind;
+    this.code = code;
+  }
+}
+
+// Postgres SQLSTATEs and PostgREST codes we can explain to the user
+const CODE_KINDS: Record<string, { kind: RepoErrorKind; message?: string }> = {
+  PGRST116: { kind: 'not_found', message: 'Record not found.' },
+  PGRST301: { kind: 'unauthorized', message: 'Your session has expired. Please sign in again.' },
+  '23505': { kind: 'conflict', message: 'A record with these details already exists.' },
+  '23P01': { kind: 'conflict', message: 'This overlaps an existing record.' },
+  '23503': { kind: 'invalid', message: 'This refers to a record that does not exist.' },
+  '23502': { kind: 'invalid', message: 'A required field is missing.' },
+  '23514': { kind: 'invalid', message: 'A value is not allowed here.' },
+  '22P02': { kind: 'invalid', message: 'A value has the wrong format.' },
+  '22007': { kind: 'invalid', message: 'A date has the wrong format.' },
+  '22008': { kind: 'invalid', message: 'A date is out of range.' },
+  '22023': { kind: 'invalid' },
+  '42501': { kind: 'forbidden' },
+};
+
+/**
+ * A Supabase error (plus the HTTP status of its response) as a RepoError.
+ * Status 0 means the request never got an answer.
+ */
+export function toRepoError(error: PostgrestError | Error, status = 500): RepoError {
+  if (error instanceof RepoError) return error;
+  const code = 'code' in error && error.code ? String(error.code) : null;
+  const known = code ? CODE_KINDS[code] : undefined;
+  if (known) return new RepoError(known.kind, known.message ?? error.message, code);
+  if (status === 0 || status >= 500 || /fetch failed|failed to fetch|network/i.test(error.message)) {
+    return new RepoError('unavailable', 'The database could not be reached. Please try again.', code);
+  }
+  return new RepoError('unknown', error.message || 'Database request failed.', code);
+}
+
+/** What awaiting a Supabase query resolves to */
+type QueryResult<T> = PostgrestSingleResponse<T>;
+
+export type QueryOptions = {
+  /** Extra attempts after a failure that looks transient. Writes default to none. */
+  retries?: number;
+};
+
+export const READ_RETRIES = 2;
+const RETRY_DELAY_MS = 300;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a query, retrying when the database was unreachable. `build` is called
+ * for every attempt because a Supabase query runs once per await.
+ */
+export async function execute<T>(
+  build: () => PromiseLike<QueryResult<T>>,
+  { retries = READ_RETRIES }: QueryOptions = {}
+): Promise<{ data: T | null; count: number | null }> {
+  for (let attempt = 0; ; attempt++) {
+    let failure: RepoError;
+    try {
+      const res = await build();
+      if (!res.error) return { data: res.data, count: res.count };
+      failure = toRepoError(res.error, res.status);
+    } catch (e: any) {
+      failure = toRepoError(e instanceof Error ? e : new Error(String(e)), 0);
+    }
+    if (failure.kind !== 'unavailable' || attempt >= retries) throw failure;
+    await sleep(RETRY_DELAY_MS * 2 ** attempt);
+  }
+}
+
+/** All rows of a list query (never null) */
+export async function many<T>(build: () => PromiseLike<QueryResult<T[]>>, opts?: QueryOptions): Promise<T[]> {
+  return (await execute(build, opts)).data ?? [];
+}
+
+/** A `.maybeSingle()` query (its row type already includes null) */
+export async function maybeOne<T>(build: () => PromiseLike<QueryResult<T>>, opts?: QueryOptions): Promise<T> {
+  return (await execute(build, opts)).data as T;
+}
+
+/** A `.single()` query; no row is a not_found error */
+export async function one<T>(build: () => PromiseLike<QueryResult<T>>, opts?: QueryOptions): Promise<T> {
+  const { data } = await execute(build, opts);
+  if (data == null) throw new RepoError('not_found', 'Record not found.');
+  return data;
+}
+
+/** Writes are not retried: a timed-out insert may still have happened */
+export const WRITE: QueryOptions = { retries: 0 };
+
+// ---------- Paging ----------
+
+export const DEFAULT_PAGE_SIZE = 10;
+/** PostgREST caps a response at this many rows (max-rows) */
+export const MAX_ROWS_PER_REQUEST = 1000;
+
+export type PageRequest = { page: number; pageSize?: number };
+
+export type Page<T> = {
+  rows: T[];
+  /** Rows across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+/** Inclusive `.range(from, to)` bounds of a zero-based page */
+export function pageRange({ page, pageSize = DEFAULT_PAGE_SIZE }: PageRequest): [number, number] {
+  const from = Math.max(0, page) * pageSize;
+  return [from, from + pageSize - 1];
+}
+
+/**
+ * Every row of a query that may exceed the per-request cap, fetched in batches.
+ * `build` must apply a stable order so batches do not overlap.
+ */
+export async function fetchAll<T>(
+  build: (from: number, to: number) => PromiseLike<QueryResult<T[]>>,
+  batchSize = MAX_ROWS_PER_REQUEST
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = 0; ; from += batchSize) {
+    const batch = await many(() => build(from, from + batchSize - 1));
+    out.push(...batch);
+    if (batch.length < batchSize) return out;
+  }
+}
+
+// ---------- Filters ----------
+
+/**
+ * Add an owner_id filter to a query (no-op for null, i.e. the "all" scope).
+ * See ownerIdsForScope() in lib/team.ts.
+ */
+export function scoped<Q extends { in: (column: 'owner_id', values: string[]) => Q }>(query: Q, ownerIds: string[] | null): Q {
+  return ownerIds ? query.in('owner_id', ownerIds) : query;
+}
+
+/** Remove characters that would break a PostgREST `or()` filter string */
+export function orFilterTerm(s: string): string {
+  return s.replace(/[,()]/g, ' ').trim();
+}
+
+/** `or()` filter matching a term in any of the columns (case-insensitive) */
+export function ilikeAny(columns: readonly string[], term: string): string {
+  const needle = orFilterTerm(term);
+  return columns.map((c) => `${c}.ilike.%${needle}%`).join(',');
+}
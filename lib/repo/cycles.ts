@@ -0,0 +1,35 @@
+// lib/repo/cycles.ts
+import type { ProductionCycle, ProductionCycleInsert, ProductionCycleUpdate } from '@/lib/models';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+export function cyclesRepo(db: Db) {
+  return {
+    /** Every cycle, latest first */
+    list(): Promise<ProductionCycle[]> {
+      return many(() => db.from('production_cycles').select('*').order('starts_on', { ascending: false }));
+    },
+
+    /** The cycle that includes `day` ("yyyy-MM-dd"), if any */
+    on(day: string): Promise<ProductionCycle | null> {
+      return maybeOne(() =>
+        db.from('production_cycles').select('*').lte('starts_on', day).gte('ends_on', day).maybeSingle()
+      );
+    },
+
+    get(id: string): Promise<ProductionCycle | null> {
+      return maybeOne(() => db.from('production_cycles').select('*').eq('id', id).maybeSingle());
+    },
+
+    create(cycle: ProductionCycleInsert): Promise<ProductionCycle> {
+      return one(() => db.from('production_cycles').insert(cycle).select('*').single(), WRITE);
+    },
+
+    update(id: string, changes: ProductionCycleUpdate): Promise<ProductionCycle> {
+      return one(() => db.from('production_cycles').update(changes).eq('id', id).select('*').single(), WRITE);
+    },
+
+    async remove(id: string): Promise<void> {
+      await many(() => db.from('production_cycles').delete().eq('id', id).select('id'), WRITE);
+    },
+  };
+}
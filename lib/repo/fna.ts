@@ -0,0 +1,138 @@
+// lib/repo/fna.ts
+import {
+  FNA_ROW_TABLES,
+  type FnaHeader,
+  type FnaHeaderUpdate,
+  type FnaRow,
+  type FnaRowInsert,
+  type FnaRowTable,
+  type FnaRowUpdate,
+} from '@/lib/models';
+import { RESTORED, deletedStamp } from '@/lib/softDelete';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+/** Active rows of every tab of one FNA */
+export type FnaRowsByTable = { [T in FnaRowTable]: FnaRow<T>[] };
+
+/** Display order of each tab's rows */
+const ROW_ORDER: Record<FnaRowTable, string | null> = {
+  fna_children: 'child_name',
+  fna_properties: 'address',
+  fna_assets: 'asset_name',
+  fna_liabilities: 'liability_type',
+  fna_insurance: 'insured_role',
+  fna_income: 'fna_income_role',
+  fna_tax_refund: null,
+};
+
+export function fnaRepo(db: Db) {
+  // One union-typed table keeps the query builder's column inference working
+  const rowTable = (table: FnaRowTable) => db.from(table as FnaRowTable);
+
+  const activeRows = async <T extends FnaRowTable>(table: T, fnaId: string): Promise<FnaRow<T>[]> => {
+    const order = ROW_ORDER[table];
+    const rows = await many(() => {
+      const q = rowTable(table).select('*').eq('fna_id', fnaId).is('deleted_at', null);
+      return order ? q.order(order, { ascending: true }) : q.order('created_at', { ascending: true });
+    });
+    return rows as FnaRow<T>[];
+  };
+
+  const repo = {
+    /** The client's current FNA: the most recently updated header */
+    latestHeader(clientId: string): Promise<FnaHeader | null> {
+      return maybeOne(() =>
+        db.from('fna_header').select('*').eq('client_id', clientId).order('updated_at', { ascending: false }).limit(1).maybeSingle()
+      );
+    },
+
+    getHeader(id: string): Promise<FnaHeader | null> {
+      return maybeOne(() => db.from('fna_header').select('*').eq('id', id).maybeSingle());
+    },
+
+    createHeader(clientId: string): Promise<FnaHeader> {
+      return one(() => db.from('fna_header').insert({ client_id: clientId }).select('*').single(), WRITE);
+    },
+
+    updateHeader(id: string, changes: FnaHeaderUpdate): Promise<FnaHeader> {
+      return one(
+        () =>
+          db
+            .from('fna_header')
+            .update({ ...changes, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select('*')
+            .single(),
+        WRITE
+      );
+    },
+
+    async loadRows(fnaId: string): Promise<FnaRowsByTable> {
+      const [children, properties, assets, liabilities, insurance, income, taxRefund] = await Promise.all([
+        activeRows('fna_children', fnaId),
+        activeRows('fna_properties', fnaId),
+        activeRows('fna_assets', fnaId),
+        activeRows('fna_liabilities', fnaId),
+        activeRows('fna_insurance', fnaId),
+        activeRows('fna_income', fnaId),
+        activeRows('fna_tax_refund', fnaId),
+      ]);
+      return {
+        fna_children: children,
+        fna_properties: properties,
+        fna_assets: assets,
+        fna_liabilities: liabilities,
+        fna_insurance: insurance,
+        fna_income: income,
+        fna_tax_refund: taxRefund,
+      };
+    },
+
+    /** The client's current FNA with all its tab rows, or null if they have none yet */
+    async loadForClient(clientId: string): Promise<{ header: FnaHeader; rows: FnaRowsByTable } | null> {
+      const header = await repo.latestHeader(clientId);
+      if (!header) return null;
+      return { header, rows: await repo.loadRows(header.id) };
+    },
+
+    /** Includes soft-deleted rows; check `deleted_at` */
+    async getRow<T extends FnaRowTable>(table: T, id: string): Promise<FnaRow<T> | null> {
+      const row = await maybeOne(() => rowTable(table).select('*').eq('id', id).maybeSingle());
+      return row as FnaRow<T> | null;
+    },
+
+    async createRow<T extends FnaRowTable>(table: T, row: FnaRowInsert<T>): Promise<FnaRow<T>> {
+      const saved = await one(() => rowTable(table).insert<FnaRowInsert>(row).select('*').single(), WRITE);
+      return saved as FnaRow<T>;
+    },
+
+    async updateRow<T extends FnaRowTable>(table: T, id: string, changes: FnaRowUpdate<T>): Promise<FnaRow<T>> {
+      const saved = await one(() => rowTable(table).update(changes as FnaRowUpdate).eq('id', id).select('*').single(), WRITE);
+      return saved as FnaRow<T>;
+    },
+
+    async softDeleteRow(table: FnaRowTable, id: string, deletedBy: string): Promise<void> {
+      await many(() => rowTable(table).update(deletedStamp(deletedBy)).eq('id', id).select('id'), WRITE);
+    },
+
+    async restoreRow<T extends FnaRowTable>(table: T, id: string): Promise<FnaRow<T>> {
+      const saved = await one(() => rowTable(table).update(RESTORED).eq('id', id).select('*').single(), WRITE);
+      return saved as FnaRow<T>;
+    },
+
+    /** Soft-deleted rows of one FNA across all tabs, newest deletion first */
+    async deletedRows(fnaId: string): Promise<{ table: FnaRowTable; row: FnaRow }[]> {
+      const results = await Promise.all(
+        FNA_ROW_TABLES.map((table) => many(() => rowTable(table).select('*').eq('fna_id', fnaId).not('deleted_at', 'is', null)))
+      );
+      const items = results.flatMap((rows, i) => rows.map((row) => ({ table: FNA_ROW_TABLES[i], row })));
+      return items.sort((a, b) => String(b.row.deleted_at).localeCompare(String(a.row.deleted_at)));
+    },
+
+    /** Permanently remove rows deleted before `cutoff`; returns the removed rows */
+    purgeDeletedRows<T extends FnaRowTable>(table: T, cutoff: Date): Promise<FnaRow<T>[]> {
+      return many(() => rowTable(table).delete().lt('deleted_at', cutoff.toISOString()).select('*'), WRITE) as Promise<FnaRow<T>[]>;
+    },
+  };
+  return repo;
+}
@@ -0,0 +1,49 @@
+// lib/repo/goals.ts
+import type { GoalInsert } from '@/lib/models';
+import type { Goal } from '@/lib/goals';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+export function goalsRepo(db: Db) {
+  return {
+    /** Goals set for some agents (null = everyone) */
+    async list(agentIds: string[] | null): Promise<Goal[]> {
+      const rows = await many(() => {
+        const q = db.from('goals').select('*');
+        return (agentIds ? q.in('agent_id', agentIds) : q).order('created_at', { ascending: true });
+      });
+      return rows as Goal[];
+    },
+
+    async get(id: string): Promise<Goal | null> {
+      return (await maybeOne(() => db.from('goals').select('*').eq('id', id).maybeSingle())) as Goal | null;
+    },
+
+    /** The goal already set for an agent / team, metric and period */
+    async find(key: Pick<GoalInsert, 'agent_id' | 'applies_to' | 'metric' | 'period'>): Promise<Goal | null> {
+      const row = await maybeOne(() =>
+        db
+          .from('goals')
+          .select('*')
+          .eq('agent_id', key.agent_id)
+          .eq('applies_to', key.applies_to ?? 'agent') // the column default
+          .eq('metric', key.metric)
+          .eq('period', key.period)
+          .maybeSingle()
+      );
+      return row as Goal | null;
+    },
+
+    /** Create, or replace the target of the same agent / team, metric and period */
+    async save(goal: GoalInsert): Promise<Goal> {
+      const saved = await one(
+        () => db.from('goals').upsert(goal, { onConflict: 'agent_id,applies_to,metric,period' }).select('*').single(),
+        WRITE
+      );
+      return saved as Goal;
+    },
+
+    async remove(id: string): Promise<void> {
+      await many(() => db.from('goals').delete().eq('id', id).select('id'), WRITE);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// lib/repo/index.ts
+/**
+ * Repository layer: every Supabase query the app runs, grouped by table.
+ *
+ * Pages use getRepository() (browser client, runs as the signed-in user under RLS);
+ * app/api handlers use createRepository(createServiceSupabase()). Failed queries
+ * throw RepoError (lib/repo/core.ts), which route() turns into a status code.
+ * For tests, pass createMemoryDb() from lib/repo/memory.ts instead of a client.
+ */
+import { getSupabase } from '@/lib/supabase/client';
+import { activitiesRepo } from '@/lib/repo/activities';
+import { agentsRepo } from '@/lib/repo/agents';
+import { auditRepo } from '@/lib/repo/audit';
+import { clientsRepo } from '@/lib/repo/clients';
+import { clientViewsRepo } from '@/lib/repo/clientViews';
+import { cyclesRepo } from '@/lib/repo/cycles';
+import { fnaRepo } from '@/lib/repo/fna';
+import { goalsRepo } from '@/lib/repo/goals';
+import { notificationsRepo } from '@/lib/repo/notifications';
+import { prospectsRepo } from '@/lib/repo/prospects';
+import { remindersRepo } from '@/lib/repo/reminders';
+import { reportsRepo } from '@/lib/repo/reports';
+import { searchRepo } from '@/lib/repo/search';
+import type { Db } from '@/lib/repo/core';
+
+export { RepoError, DEFAULT_PAGE_SIZE, type Db, type Page, type PageRequest, type RepoErrorKind } from '@/lib/repo/core';
+export type { ClientFilter, ClientSort, ClientSummary } from '@/lib/repo/clients';
+export type { FnaRowsByTable } from '@/lib/repo/fna';
+
+export function createRepository(db: Db) {
+  return {
+    activities: activitiesRepo(db),
+    agents: agentsRepo(db),
+    audit: auditRepo(db),
+    clients: clientsRepo(db),
+    clientViews: clientViewsRepo(db),
+    cycles: cyclesRepo(db),
+    fna: fnaRepo(db),
+    goals: goalsRepo(db),
+    notifications: notificationsRepo(db),
+    prospects: prospectsRepo(db),
+    reminders: remindersRepo(db),
+    reports: reportsRepo(db),
+    search: searchRepo(db),
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
+
+let _browserRepo: Repository | null = null;
+
+/** Repository over the shared browser client (created on first use) */
+export function getRepository(): Repository {
+  if (!_browserRepo) _browserRepo = createRepository(getSupabase());
+  return _browserRepo;
+}
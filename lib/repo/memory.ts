@@ -0,0 +1,322 @@
+// lib/repo/memory.ts
+/**
+ * In-memory stand-in for the Supabase client, for exercising repositories
+ * without a database:
+ *
+ *   const db = createMemoryDb({ prospects: [{ id: 1, first_name: 'Ana', deleted_at: null }] });
+ *   const repo = createRepository(db);
+ *
+ * It covers the query builder calls lib/repo makes (filters, or(), order, range,
+ * limit, single/maybeSingle, count) on plain arrays. No RLS, triggers or type
+ * coercion; ISO timestamps compare as strings. Database functions (rpc(), e.g.
+ * clients.list, clients.statusCounts and clients.activityCounts) are not available
+ * unless a test passes a stand-in for them:
+ *
+ *   const db = createMemoryDb({}, { claim_reminder_delivery: (args, tables) => [...] });
+ */
+import type { Db } from '@/lib/repo/core';
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+type Failure = { error: { message: string; code?: string }; status: number };
+/** A database function's stand-in: gets the rpc() arguments and the live tables, returns its data */
+export type MemoryFunction = (args: Row, tables: Tables) => unknown;
+
+type Result = {
+  data: unknown;
+  error: { message: string; code: string; details: string; hint: string } | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+};
+
+export type MemoryDb = Db & {
+  /** Live table contents; edit freely between queries */
+  readonly tables: Tables;
+  /** Make the next query fail, e.g. `{ message: 'fetch failed' }` with status 0 to test retries */
+  failNext(error: { message: string; code?: string }, status?: number): void;
+};
+
+// Tables with bigint identity ids; the rest get uuids
+const NUMERIC_ID_TABLES = new Set(['prospects', 'audit_log']);
+
+function compare(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  const body = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${body}$`, flags);
+}
+
+// Filter values arrive as text in or() strings
+function parseValue(v: string): unknown {
+  if (v === 'null') return null;
+  if (v === 'true') return true;
+  if (v === 'false') return false;
+  return v;
+}
+
+function matches(op: string, cell: unknown, value: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return cell != null && String(cell) === String(value);
+    case 'neq':
+      return cell == null || String(cell) !== String(value);
+    case 'gt':
+      return cell != null && compare(cell, value) > 0;
+    case 'gte':
+      return cell != null && compare(cell, value) >= 0;
+    case 'lt':
+      return cell != null && compare(cell, value) < 0;
+    case 'lte':
+      return cell != null && compare(cell, value) <= 0;
+    case 'like':
+      return cell != null && likeToRegExp(String(value), '').test(String(cell));
+    case 'ilike':
+      return cell != null && likeToRegExp(String(value), 'i').test(String(cell));
+    case 'is':
+      return value === null ? cell == null : cell === value;
+    case 'in':
+      return Array.isArray(value) && value.some((v) => String(v) === String(cell));
+    default:
+      throw new Error(`Memory db: unsupported operator "${op}"`);
+  }
+}
+
+// Split on commas that are not inside parentheses
+function splitTopLevel(s: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === '(') depth++;
+    else if (s[i] === ')') depth--;
+    else if (s[i] === ',' && depth === 0) {
+      parts.push(s.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(s.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+/** A PostgREST `or()` / `and()` filter string as a predicate */
+function parseLogic(filters: string, mode: 'or' | 'and'): (row: Row) => boolean {
+  const terms = splitTopLevel(filters).map((term): ((row: Row) => boolean) => {
+    const nested = /^(and|or)\((.*)\)$/.exec(term);
+    if (nested) return parseLogic(nested[2], nested[1] as 'or' | 'and');
+    const [column, op, ...rest] = term.split('.');
+    const value = parseValue(rest.join('.'));
+    return (row) => matches(op, row[column], value);
+  });
+  return mode === 'or' ? (row) => terms.some((t) => t(row)) : (row) => terms.every((t) => t(row));
+}
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row };
+  const out: Row = {};
+  for (const c of columns.split(',').map((c) => c.trim()).filter(Boolean)) out[c] = row[c] ?? null;
+  return out;
+}
+
+class MemoryQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row[] | Row = [];
+  private columns: string | null = null;
+  private countRows = false;
+  private head = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private max: number | null = null;
+  private cardinality: 'single' | 'maybe' | null = null;
+
+  constructor(
+    private readonly tables: Tables,
+    private readonly table: string,
+    private readonly takeFailure: () => Failure | undefined
+  ) {}
+
+  select(columns = '*', opts: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+    this.columns = columns;
+    this.countRows = !!opts.count;
+    this.head = !!opts.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.payload = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  private where(op: string, column: string, value: unknown) {
+    this.filters.push((row) => matches(op, row[column], value));
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.where('eq', column, value); }
+  neq(column: string, value: unknown) { return this.where('neq', column, value); }
+  gt(column: string, value: unknown) { return this.where('gt', column, value); }
+  gte(column: string, value: unknown) { return this.where('gte', column, value); }
+  lt(column: string, value: unknown) { return this.where('lt', column, value); }
+  lte(column: string, value: unknown) { return this.where('lte', column, value); }
+  like(column: string, pattern: string) { return this.where('like', column, pattern); }
+  ilike(column: string, pattern: string) { return this.where('ilike', column, pattern); }
+  is(column: string, value: null | boolean) { return this.where('is', column, value); }
+  in(column: string, values: unknown[]) { return this.where('in', column, values); }
+
+  not(column: string, op: string, value: unknown) {
+    this.filters.push((row) => !matches(op, row[column], value));
+    return this;
+  }
+
+  or(filters: string) {
+    this.filters.push(parseLogic(filters, 'or'));
+    return this;
+  }
+
+  order(column: string, opts: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    const ascending = opts.ascending ?? true;
+    this.orders.push({ column, ascending, nullsFirst: opts.nullsFirst ?? !ascending });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybe';
+    return this;
+  }
+
+  then<A = Result, B = never>(
+    onfulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(onfulfilled, onrejected);
+  }
+
+  private result(data: unknown, status = 200, count: number | null = null): Result {
+    return { data, error: null, count, status, statusText: 'OK' };
+  }
+
+  private failure(message: string, code: string, status: number): Result {
+    return { data: null, error: { message, code, details: '', hint: '' }, count: null, status, statusText: 'Error' };
+  }
+
+  private run(): Result {
+    const failure = this.takeFailure();
+    if (failure) return this.failure(failure.error.message, failure.error.code ?? '', failure.status);
+
+    const rows = (this.tables[this.table] ??= []);
+    const hit = (row: Row) => this.filters.every((f) => f(row));
+    let affected: Row[];
+
+    if (this.action === 'insert') {
+      affected = (this.payload as Row[]).map((values) => {
+        const id = values.id ?? (NUMERIC_ID_TABLES.has(this.table) ? rows.reduce((m, r) => Math.max(m, Number(r.id) || 0), 0) + 1 : globalThis.crypto.randomUUID());
+        const row: Row = { created_at: new Date().toISOString(), ...values, id };
+        if (rows.some((r) => r.id === id)) throw new Error(`Memory db: duplicate id ${String(id)} in ${this.table}`);
+        rows.push(row);
+        return row;
+      });
+    } else if (this.action === 'update') {
+      affected = rows.filter(hit);
+      for (const row of affected) Object.assign(row, this.payload);
+    } else if (this.action === 'delete') {
+      affected = rows.filter(hit);
+      this.tables[this.table] = rows.filter((r) => !affected.includes(r));
+    } else {
+      affected = rows.filter(hit);
+    }
+
+    // Writes only return rows when .select() was chained
+    if (this.action !== 'select' && this.columns == null) return this.result(null, this.action === 'insert' ? 201 : 204);
+
+    let out = [...affected];
+    for (const { column, ascending, nullsFirst } of [...this.orders].reverse()) {
+      out.sort((a, b) => {
+        const x = a[column];
+        const y = b[column];
+        if (x == null || y == null) return x == null && y == null ? 0 : (x == null) === nullsFirst ? -1 : 1;
+        return ascending ? compare(x, y) : compare(y, x);
+      });
+    }
+    const total = out.length;
+    if (this.window) out = out.slice(this.window.from, this.window.to + 1);
+    if (this.max != null) out = out.slice(0, this.max);
+    const data = out.map((r) => project(r, this.columns ?? '*'));
+    const count = this.countRows ? total : null;
+
+    if (this.head) return this.result(null, 200, count);
+    if (this.cardinality) {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return this.failure('JSON object requested, multiple (or no) rows returned', 'PGRST116', 406);
+      }
+      return this.result(data[0] ?? null, 200, count);
+    }
+    return this.result(data, 200, count);
+  }
+}
+
+/** A Supabase client lookalike over in-memory tables (see the file comment) */
+export function createMemoryDb(seed: Tables = {}, functions: Record<string, MemoryFunction> = {}): MemoryDb {
+  const tables: Tables = {};
+  for (const [name, rows] of Object.entries(seed)) tables[name] = rows.map((r) => ({ ...r }));
+  const failures: Failure[] = [];
+
+  const db = {
+    tables,
+    failNext(error: { message: string; code?: string }, status = 503) {
+      failures.push({ error, status });
+    },
+    from(table: string) {
+      return new MemoryQuery(tables, table, () => failures.shift());
+    },
+    rpc(name: string, args: Row = {}): PromiseLike<Result> {
+      const run = (): Result => {
+        const failure = failures.shift();
+        if (failure) {
+          const { message, code = '' } = failure.error;
+          return { data: null, error: { message, code, details: '', hint: '' }, count: null, status: failure.status, statusText: 'Error' };
+        }
+        const fn = functions[name];
+        if (!fn) throw new Error(`Memory db: no stand-in for function "${name}"`);
+        return { data: fn(args, tables), error: null, count: null, status: 200, statusText: 'OK' };
+      };
+      return { then: (onfulfilled, onrejected) => Promise.resolve().then(run).then(onfulfilled, onrejected) };
+    },
+  };
+  return db as unknown as MemoryDb;
+}
@@ -0,0 +1,34 @@
+// lib/repo/notifications.ts
+import type { NotificationInsert } from '@/lib/models';
+import type { Notification } from '@/lib/reminders';
+import { WRITE, execute, many, one, type Db } from '@/lib/repo/core';
+
+export function notificationsRepo(db: Db) {
+  return {
+    /** An agent's inbox, newest first */
+    list(agentId: string, limit = 50): Promise<Notification[]> {
+      return many(() =>
+        db.from('notifications').select('*').eq('agent_id', agentId).order('created_at', { ascending: false }).limit(limit)
+      );
+    },
+
+    async unreadCount(agentId: string): Promise<number> {
+      const { count } = await execute(() =>
+        db.from('notifications').select('id', { count: 'exact', head: true }).eq('agent_id', agentId).is('read_at', null)
+      );
+      return count ?? 0;
+    },
+
+    create(notification: NotificationInsert): Promise<Notification> {
+      return one(() => db.from('notifications').insert(notification).select('*').single(), WRITE);
+    },
+
+    /** Marks some (or, without ids, all) of an agent's unread notifications read */
+    async markRead(agentId: string, ids?: string[]): Promise<number> {
+      let query = db.from('notifications').update({ read_at: new Date().toISOString() }).eq('agent_id', agentId).is('read_at', null);
+      if (ids) query = query.in('id', ids);
+      const rows = await many(() => query.select('id'), WRITE);
+      return rows.length;
+    },
+  };
+}
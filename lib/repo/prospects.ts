@@ -0,0 +1,50 @@
+// lib/repo/prospects.ts
+import type { Prospect, ProspectInsert, ProspectUpdate } from '@/lib/models';
+import { RESTORED, deletedStamp } from '@/lib/softDelete';
+import { WRITE, fetchAll, many, maybeOne, one, scoped, type Db } from '@/lib/repo/core';
+
+export function prospectsRepo(db: Db) {
+  return {
+    /** Active prospects of some owners (null = everyone), newest first */
+    list(ownerIds: string[] | null): Promise<Prospect[]> {
+      return fetchAll((from, to) =>
+        scoped(db.from('prospects').select('*').is('deleted_at', null), ownerIds)
+          .order('id', { ascending: false })
+          .range(from, to)
+      );
+    },
+
+    /** "Recently deleted", newest deletion first */
+    listDeleted(limit = 500): Promise<Prospect[]> {
+      return many(() =>
+        db.from('prospects').select('*').not('deleted_at', 'is', null).order('deleted_at', { ascending: false }).limit(limit)
+      );
+    },
+
+    /** Includes soft-deleted prospects; check `deleted_at` */
+    get(id: number): Promise<Prospect | null> {
+      return maybeOne(() => db.from('prospects').select('*').eq('id', id).maybeSingle());
+    },
+
+    create(prospect: ProspectInsert): Promise<Prospect> {
+      return one(() => db.from('prospects').insert(prospect).select('*').single(), WRITE);
+    },
+
+    update(id: number, changes: ProspectUpdate): Promise<Prospect> {
+      return one(() => db.from('prospects').update(changes).eq('id', id).select('*').single(), WRITE);
+    },
+
+    async softDelete(id: number, deletedBy: string): Promise<void> {
+      await many(() => db.from('prospects').update(deletedStamp(deletedBy)).eq('id', id).select('id'), WRITE);
+    },
+
+    restore(id: number): Promise<Prospect> {
+      return one(() => db.from('prospects').update(RESTORED).eq('id', id).select('*').single(), WRITE);
+    },
+
+    /** Permanently remove prospects deleted before `cutoff`; returns the removed rows */
+    purgeDeleted(cutoff: Date): Promise<Prospect[]> {
+      return many(() => db.from('prospects').delete().lt('deleted_at', cutoff.toISOString()).select('*'), WRITE);
+    },
+  };
+}
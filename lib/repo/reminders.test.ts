@@ -0,0 +1,54 @@
+// lib/repo/reminders.test.ts
+import { describe, expect, it } from 'vitest';
+import { RepoError } from '@/lib/repo/core';
+import { createMemoryDb, type MemoryFunction } from '@/lib/repo/memory';
+import { remindersRepo } from '@/lib/repo/reminders';
+
+const delivery = {
+  agent_id: 'agent-1',
+  client_id: 'c1',
+  kind: 'bop',
+  starts_at: '2026-05-01T15:00:00.000Z',
+  lead_minutes: 60,
+  channel: 'email',
+};
+
+/** public.claim_reminder_delivery over the memory table, counting its calls */
+function claimFunction() {
+  const calls = { count: 0 };
+  const fn: MemoryFunction = (args, tables) => {
+    calls.count++;
+    const rows = (tables.reminder_deliveries ??= []);
+    const key = { agent_id: args.agent, client_id: args.client, kind: args.kind, starts_at: args.starts_at, lead_minutes: args.lead_minutes, channel: args.channel };
+    const existing = rows.find((r) => Object.entries(key).every(([k, v]) => r[k] === v));
+    if (existing?.sent_at) return [];
+    const row = Object.assign(existing ?? { id: `d${rows.length + 1}`, ...key }, { sent_at: new Date().toISOString(), error: null });
+    if (!existing) rows.push(row);
+    return [row];
+  };
+  return { fn, calls };
+}
+
+describe('remindersRepo.claimDelivery', () => {
+  it('claims a delivery once', async () => {
+    const { fn } = claimFunction();
+    const repo = remindersRepo(createMemoryDb({}, { claim_reminder_delivery: fn }));
+    expect(await repo.claimDelivery(delivery)).toBe(true);
+    expect(await repo.claimDelivery(delivery)).toBe(false);
+  });
+
+  it('reclaims a delivery whose send failed', async () => {
+    const { fn } = claimFunction();
+    const db = createMemoryDb({ reminder_deliveries: [{ id: 'd1', ...delivery, sent_at: null, error: 'timeout' }] }, { claim_reminder_delivery: fn });
+    expect(await remindersRepo(db).claimDelivery(delivery)).toBe(true);
+    expect(db.tables.reminder_deliveries).toMatchObject([{ id: 'd1', error: null }]);
+  });
+
+  it('is not retried when the database does not answer', async () => {
+    const { fn, calls } = claimFunction();
+    const db = createMemoryDb({}, { claim_reminder_delivery: fn });
+    db.failNext({ message: 'fetch failed' }, 0);
+    await expect(remindersRepo(db).claimDelivery(delivery)).rejects.toBeInstanceOf(RepoError);
+    expect(calls.count).toBe(0);
+  });
+});
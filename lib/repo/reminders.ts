@@ -0,0 +1,77 @@
+// lib/repo/reminders.ts
+import type { ReminderDeliveryInsert, ReminderDeliveryRow, ReminderSettingsInsert, ReminderSettingsRow } from '@/lib/models';
+import { WRITE, many, maybeOne, one, type Db } from '@/lib/repo/core';
+
+export function remindersRepo(db: Db) {
+  return {
+    /** An agent's settings; null until they save some */
+    settings(agentId: string): Promise<ReminderSettingsRow | null> {
+      return maybeOne(() => db.from('reminder_settings').select('*').eq('agent_id', agentId).maybeSingle());
+    },
+
+    /** Everyone's saved settings, for the reminder run */
+    allSettings(): Promise<ReminderSettingsRow[]> {
+      return many(() => db.from('reminder_settings').select('*'));
+    },
+
+    saveSettings(settings: ReminderSettingsInsert & { agent_id: string }): Promise<ReminderSettingsRow> {
+      return one(
+        () =>
+          db
+            .from('reminder_settings')
+            .upsert({ ...settings, updated_at: new Date().toISOString() }, { onConflict: 'agent_id' })
+            .select('*')
+            .single(),
+        WRITE
+      );
+    },
+
+    /** Deliveries for an agent's appointments starting in [from, to), sent or failed */
+    deliveries(agentId: string, from: Date, to: Date): Promise<ReminderDeliveryRow[]> {
+      return many(() =>
+        db
+          .from('reminder_deliveries')
+          .select('*')
+          .eq('agent_id', agentId)
+          .gte('starts_at', from.toISOString())
+          .lt('starts_at', to.toISOString())
+      );
+    },
+
+    /**
+     * Marks a delivery sent unless it already was; true when this call claimed
+     * it and should send. Atomic, so overlapping runs never both send.
+     */
+    async claimDelivery(delivery: Omit<ReminderDeliveryInsert, 'sent_at' | 'error' | 'attempted_at'>): Promise<boolean> {
+      const rows = await many(() =>
+        db.rpc('claim_reminder_delivery', {
+          agent: delivery.agent_id,
+          client: delivery.client_id,
+          kind: delivery.kind,
+          starts_at: delivery.starts_at,
+          lead_minutes: delivery.lead_minutes,
+          channel: delivery.channel,
+        }),
+        // A retry after a claim that landed would find it taken and never send
+        WRITE
+      );
+      return rows.length > 0;
+    },
+
+    /** Records an attempt; a retry of a failed one overwrites it */
+    recordDelivery(delivery: ReminderDeliveryInsert): Promise<ReminderDeliveryRow> {
+      return one(
+        () =>
+          db
+            .from('reminder_deliveries')
+            .upsert(
+              { ...delivery, attempted_at: new Date().toISOString() },
+              { onConflict: 'agent_id,client_id,kind,starts_at,lead_minutes,channel' }
+            )
+            .select('*')
+            .single(),
+        WRITE
+      );
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// lib/repo/reports.ts
+import type { FunnelCount, FunnelFilter, FunnelStageKey } from '@/lib/funnel';
+import type { LeaderboardEntry } from '@/lib/leaderboard';
+import { EMPTY_GOAL_COUNTS, type GoalCounts } from '@/lib/goals';
+import { isAppointmentKind, type Appointment, type AppointmentKind } from '@/lib/scheduling';
+import { fetchAll, many, scoped, type Db } from '@/lib/repo/core';
+
+/** Dashboard reports that span several tables; aggregated in the database */
+export function reportsRepo(db: Db) {
+  const repo = {
+    /** Stage counts for clients registered in [from, to) */
+    async conversionFunnel(filter: FunnelFilter, from: Date, to: Date): Promise<FunnelCount[]> {
+      const referral = filter.referredBy?.trim();
+      const rows = await many(() =>
+        db.rpc('conversion_funnel', {
+          cohort_start: from.toISOString(),
+          cohort_end: to.toISOString(),
+          ...(filter.ownerIds ? { owner_ids: filter.ownerIds } : {}),
+          ...(referral ? { referral } : {}),
+        })
+      );
+      return rows.map((r) => ({
+        stage: r.stage as FunnelStageKey,
+        reached: r.reached == null ? null : Number(r.reached),
+        medianDays: r.median_days == null ? null : Number(r.median_days),
+      }));
+    },
+
+    /** Activity per agent in [from, to); every agent in `ownerIds` (null = all) gets a row */
+    async leaderboard(ownerIds: string[] | null, from: Date, to: Date): Promise<LeaderboardEntry[]> {
+      const rows = await many(() =>
+        db.rpc('agent_leaderboard', {
+          period_start: from.toISOString(),
+          period_end: to.toISOString(),
+          ...(ownerIds ? { owner_ids: ownerIds } : {}),
+        })
+      );
+      return rows.map((r) => ({
+        agentId: r.agent_id,
+        calls: Number(r.calls),
+        bops: Number(r.bops),
+        followups: Number(r.followups),
+        fnas: Number(r.fnas),
+        issued: Number(r.issued),
+      }));
+    },
+
+    /** Leaderboard counts plus clients registered, per agent in `ownerIds`, for [from, to) */
+    async agentCounts(ownerIds: string[], from: Date, to: Date): Promise<Map<string, GoalCounts>> {
+      const [entries, registered] = await Promise.all([
+        repo.leaderboard(ownerIds, from, to),
+        fetchAll((start, end) =>
+          scoped(db.from('client_registrations').select('id, owner_id'), ownerIds)
+            .gte('created_at', from.toISOString())
+            .lt('created_at', to.toISOString())
+            .order('id')
+            .range(start, end)
+        ),
+      ]);
+      const byAgent = new Map<string, GoalCounts>();
+      for (const { agentId, ...counts } of entries) byAgent.set(agentId, { ...EMPTY_GOAL_COUNTS, ...counts });
+      for (const { owner_id } of registered) {
+        if (!owner_id) continue;
+        const counts = byAgent.get(owner_id) ?? { ...EMPTY_GOAL_COUNTS };
+        counts.new_clients += 1;
+        byAgent.set(owner_id, counts);
+      }
+      return byAgent;
+    },
+
+    /** BOPs, follow-ups and timed FNA appointments of one agent's clients starting in [from, to) */
+    async appointments(agentId: string, from: Date, to: Date): Promise<Appointment[]> {
+      const rows = await many(() =>
+        db.rpc('agent_appointments', { agent: agentId, range_start: from.toISOString(), range_end: to.toISOString() })
+      );
+      return rows
+        .filter((r) => isAppointmentKind(r.kind))
+        .map((r) => ({ clientId: r.client_id, clientName: r.client_name, kind: r.kind as AppointmentKind, start: new Date(r.starts_at).toISOString() }));
+    },
+  };
+  return repo;
+}
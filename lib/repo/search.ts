@@ -0,0 +1,23 @@
+// lib/repo/search.ts
+import { many, type Db } from '@/lib/repo/core';
+import type { SearchEntity, SearchHit } from '@/lib/search';
+
+export function searchRepo(db: Db) {
+  return {
+    /** Best matches per entity for the Ctrl+K box (see lib/search.ts); `ownerIds` from ownerIdsForScope(), null for every owner */
+    async global(term: string, ownerIds: string[] | null, perEntity = 8): Promise<SearchHit[]> {
+      const rows = await many(() =>
+        db.rpc('global_search', { term, max_per_entity: perEntity, ...(ownerIds ? { owner_ids: ownerIds } : {}) })
+      );
+      return rows.map((r) => ({
+        entity: r.entity as SearchEntity,
+        recordId: r.record_id,
+        clientId: r.client_id,
+        title: r.title,
+        source: r.source,
+        snippet: r.snippet,
+        score: Number(r.score),
+      }));
+    },
+  };
+}
@@ -0,0 +1,66 @@
+// lib/roles.ts
+/**
+ * Agency roles and what each one may do.
+ * Shared by middleware (route access), route handlers and pages (data calls).
+ */
+
+export type Role = 'trainee' | 'field_trainer' | 'admin';
+
+export const ROLES: Role[] = ['trainee', 'field_trainer', 'admin'];
+
+/** Role assumed when a user has no agents row yet (least privilege) */
+export const DEFAULT_ROLE: Role = 'trainee';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  trainee: 'Trainee',
+  field_trainer: 'Field Trainer',
+  admin: 'Admin',
+};
+
+/** Route prefix → roles allowed to open it */
+export const ROUTE_ROLES: Record<string, Role[]> = {
+  '/dashboard': ['trainee', 'field_trainer', 'admin'],
+  '/prospect': ['trainee', 'field_trainer', 'admin'],
+  '/fna': ['trainee', 'field_trainer', 'admin'],
+  '/clients': ['trainee', 'field_trainer', 'admin'],
+};
+
+export type Permission =
+  | 'records.view_all' // otherwise only clients/prospects the user owns
+  | 'prospects.delete'
+  | 'clients.edit_status'
+  | 'records.reassign' // move a client/prospect to another agent
+  | 'records.purge' // permanently remove soft-deleted rows past retention
+  | 'cycles.manage' // define production cycles and their targets
+  | 'goals.manage' // set goals for agents in the user's team (admins: anyone)
+  | 'reminders.run'; // send due meeting reminders by hand (normally a scheduler does)
+
+const PERMISSIONS: Record<Permission, Role[]> = {
+  'records.view_all': ['field_trainer', 'admin'],
+  'prospects.delete': ['admin'],
+  'clients.edit_status': ['admin'],
+  'records.reassign': ['field_trainer', 'admin'],
+  'records.purge': ['admin'],
+  'cycles.manage': ['admin'],
+  'goals.manage': ['field_trainer', 'admin'],
+  'reminders.run': ['admin'],
+};
+
+/** client_registrations columns only `clients.edit_status` may change */
+export const CLIENT_STATUS_FIELDS = ['status', 'client_status', 'BOP_Status', 'FollowUp_Status', 'FNA_Status'];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && PERMISSIONS[permission].includes(role);
+}
+
+/**
+ * Roles allowed on a path, or null if the path is not role-restricted
+ */
+export function rolesForPath(pathname: string): Role[] | null {
+  const prefix = Object.keys(ROUTE_ROLES).find((route) => pathname.startsWith(route));
+  return prefix ? ROUTE_ROLES[prefix] : null;
+}
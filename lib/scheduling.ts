@@ -0,0 +1,248 @@
+// lib/scheduling.ts
+/**
+ * Double-booking checks. An agent's calendar is the BOPs and follow-ups of
+ * their clients plus FNA next appointments (public.agent_appointments); each
+ * is taken to last MEETING_MINUTES. A clash is only a warning: the pages show
+ * who it clashes with and the next free slots, and the agent decides.
+ */
+import type { Repository } from '@/lib/repo';
+import type { ClientRegistration } from '@/lib/models';
+import { MEETING_MINUTES, weekdayOfKey } from '@/lib/calendar';
+import { addDaysToKey, dayKey, formatInZone, zonedToInstant } from '@/lib/timezone';
+
+export type AppointmentKind = 'bop' | 'followup' | 'fna';
+
+export const APPOINTMENT_LABELS: Record<AppointmentKind, string> = {
+  bop: 'BOP',
+  followup: 'Follow-up',
+  fna: 'FNA appointment',
+};
+
+export function isAppointmentKind(value: unknown): value is AppointmentKind {
+  return typeof value === 'string' && Object.hasOwn(APPOINTMENT_LABELS, value);
+}
+
+export type Appointment = {
+  clientId: string;
+  clientName: string;
+  kind: AppointmentKind;
+  /** ISO instant */
+  start: string;
+};
+
+/** What checkSchedule() finds for a proposed time */
+export type ScheduleCheck = {
+  conflicts: Appointment[];
+  /** ISO instants, earliest first; only offered when there are conflicts */
+  suggestions: string[];
+};
+
+/** Suggestions start on the hour or half hour */
+export const SLOT_MINUTES = 30;
+
+/** How far ahead free slots are looked for */
+export const SUGGESTION_DAYS = 14;
+
+/** Hours meetings are suggested in when the client has no (readable) preferred time */
+const DEFAULT_HOURS: [number, number] = [9, 20];
+
+const MEETING_MS = MEETING_MINUTES * 60_000;
+
+const overlaps = (a: number, b: number) => Math.abs(a - b) < MEETING_MS;
+
+/** Appointments within a meeting's length of `start`, other than the one being moved */
+export function findConflicts(start: string, appointments: Appointment[], self: { clientId: string; kind: AppointmentKind }): Appointment[] {
+  const t = new Date(start).getTime();
+  return appointments.filter(
+    (a) => !(a.clientId === self.clientId && a.kind === self.kind) && overlaps(new Date(a.start).getTime(), t)
+  );
+}
+
+// ---------- Client preferences ----------
+
+const DAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Weekdays (0 = Sunday) from `preferred_days` as typed on the registration
+ * form: day names or abbreviations, "weekdays", "weekends". Null means any day.
+ */
+export function preferredWeekdays(days: string[] | null | undefined): Set<number> | null {
+  const out = new Set<number>();
+  for (const raw of days ?? []) {
+    const d = raw.trim().toLowerCase();
+    if (d.startsWith('weekday')) [1, 2, 3, 4, 5].forEach((n) => out.add(n));
+    else if (d.startsWith('weekend')) [0, 6].forEach((n) => out.add(n));
+    else {
+      const n = DAY_PREFIXES.findIndex((p) => d.startsWith(p));
+      if (n >= 0) out.add(n);
+    }
+  }
+  return out.size ? out : null;
+}
+
+const PERIODS: [RegExp, [number, number]][] = [
+  [/morning/, [9, 12]],
+  [/noon|lunch/, [12, 13]],
+  [/afternoon/, [12, 17]],
+  [/evening|night/, [17, 21]],
+];
+
+const CLOCK = String.raw`(\d{1,2})(?::(\d{2}))?\s*(am|pm)?`;
+const RANGE = new RegExp(String.raw`${CLOCK}\s*(?:-|–|to)\s*${CLOCK}`);
+const SINGLE = new RegExp(CLOCK);
+
+// "7", "30", "pm" as a fractional hour of the day
+function toHour(hour: string, minute: string | undefined, meridiem: string | undefined): number | null {
+  let h = Number(hour);
+  const m = Number(minute ?? 0);
+  if (h > 23 || m > 59) return null;
+  if (meridiem === 'pm' && h < 12) h += 12;
+  if (meridiem === 'am' && h === 12) h = 0;
+  return h + m / 60;
+}
+
+/**
+ * Hour windows [from, to) from `preferred_time`: "Morning", "Evenings",
+ * "6-8 pm", "after 7pm", "10am". Null when nothing in it reads as a time.
+ */
+export function preferredHours(time: string | null | undefined): [number, number][] | null {
+  const t = (time ?? '').trim().toLowerCase();
+  if (!t) return null;
+  const windows = PERIODS.filter(([re]) => re.test(t)).map(([, w]) => w);
+  const range = RANGE.exec(t);
+  const single = SINGLE.exec(t);
+  if (range) {
+    // "6-8 pm": the first time takes the second one's am/pm
+    const from = toHour(range[1], range[2], range[3] ?? range[6]);
+    const to = toHour(range[4], range[5], range[6]);
+    if (from != null && to != null && to > from) windows.push([from, to]);
+  } else if (single && (single[2] || single[3])) {
+    const hour = toHour(single[1], single[2], single[3]);
+    if (hour != null) {
+      if (/after|from|onwards|later/.test(t)) windows.push([hour, Math.max(hour + 1, DEFAULT_HOURS[1] + 1)]);
+      else if (/before|until|by/.test(t)) windows.push([Math.min(DEFAULT_HOURS[0], hour - 1), hour]);
+      else windows.push([hour, hour + 1]);
+    }
+  }
+  return windows.length ? windows : null;
+}
+
+// ---------- Free slots ----------
+
+/**
+ * The first `count` starts after `after` that clash with nothing in `busy`,
+ * on the client's preferred days and hours (in the agent's zone). Falls back
+ * to any day between 9am and 8pm when the preferences leave nothing free.
+ */
+export function suggestSlots(opts: {
+  after: Date;
+  busy: string[];
+  timeZone: string;
+  preferredDays?: string[] | null;
+  preferredTime?: string | null;
+  count?: number;
+}): string[] {
+  const { after, busy, timeZone, count = 3 } = opts;
+  const taken = busy.map((b) => new Date(b).getTime());
+  const search = (days: Set<number> | null, windows: [number, number][]) => {
+    const found: string[] = [];
+    const first = dayKey(after, timeZone)!;
+    for (let i = 0; i < SUGGESTION_DAYS && found.length < count; i++) {
+      const day = addDaysToKey(first, i);
+      if (days && !days.has(weekdayOfKey(day))) continue;
+      const [year, month, date] = day.split('-').map(Number);
+      const starts = new Set<number>();
+      for (const [from, to] of windows) {
+        for (let m = Math.ceil((from * 60) / SLOT_MINUTES) * SLOT_MINUTES; m + MEETING_MINUTES <= to * 60; m += SLOT_MINUTES) starts.add(m);
+      }
+      for (const m of Array.from(starts).sort((a, b) => a - b)) {
+        const t = zonedToInstant({ year, month, day: date, hour: Math.floor(m / 60), minute: m % 60 }, timeZone).getTime();
+        if (t <= after.getTime() || taken.some((b) => overlaps(b, t))) continue;
+        found.push(new Date(t).toISOString());
+        if (found.length >= count) break;
+      }
+    }
+    return found;
+  };
+  const preferred = search(preferredWeekdays(opts.preferredDays), preferredHours(opts.preferredTime) ?? [DEFAULT_HOURS]);
+  return preferred.length ? preferred : search(null, [DEFAULT_HOURS]);
+}
+
+/**
+ * Clashes on the client owner's calendar if the client's `kind` meeting moves
+ * to `start`, and free slots after it when there are any. `timeZone` is the
+ * owner's, which preferred days and times are read in.
+ */
+export async function checkSchedule(
+  repo: Repository,
+  opts: {
+    client: Pick<ClientRegistration, 'id' | 'owner_id' | 'preferred_days' | 'preferred_time'>;
+    kind: AppointmentKind;
+    start: string;
+    timeZone: string;
+  }
+): Promise<ScheduleCheck> {
+  const { client, kind, start, timeZone } = opts;
+  if (!client.owner_id) return { conflicts: [], suggestions: [] };
+  const t = new Date(start).getTime();
+  const appointments = await repo.reports.appointments(
+    client.owner_id,
+    new Date(t - MEETING_MS),
+    new Date(t + (SUGGESTION_DAYS + 1) * 86_400_000)
+  );
+  const self = { clientId: String(client.id), kind };
+  const conflicts = findConflicts(start, appointments, self);
+  if (!conflicts.length) return { conflicts, suggestions: [] };
+  const busy = appointments.filter((a) => !(a.clientId === self.clientId && a.kind === kind)).map((a) => a.start);
+  return {
+    conflicts,
+    suggestions: suggestSlots({ after: new Date(t), busy, timeZone, preferredDays: client.preferred_days, preferredTime: client.preferred_time }),
+  };
+}
+
+/** The confirm() text for a check with conflicts */
+export function conflictWarning(check: ScheduleCheck, timeZone: string): string {
+  const when = (iso: string) => formatInZone(iso, timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const lines = [
+    'This time overlaps:',
+    ...check.conflicts.map((c) => `• ${APPOINTMENT_LABELS[c.kind]} with ${c.clientName || 'a client'} at ${when(c.start)}`),
+  ];
+  if (check.suggestions.length) lines.push('', 'Next free slots:', ...check.suggestions.map((s) => `• ${when(s)}`));
+  lines.push('', 'Save anyway?');
+  return lines.join('\n');
+}
+
+/** Where each meeting's time is held: client columns for BOPs and follow-ups, the FNA header for the next appointment */
+const MEETING_FIELDS = [
+  ['BOP_Date', 'bop'],
+  ['Followup_Date', 'followup'],
+  ['fna_appointment', 'fna'],
+] as const;
+
+type MeetingField = (typeof MEETING_FIELDS)[number][0];
+
+/**
+ * Before a save in the browser: for each changed meeting time that double-books
+ * the client's agent, ask with confirm(). False when the user backs out.
+ * `ownerZone` is the agent's (see checkSchedule), `viewerZone` the zone times
+ * are shown in. The FNA next appointment is not a client column: the FNA page
+ * passes the saved one as `client.fna_appointment` and the new one as
+ * `changes.fna_appointment`, both ISO instants.
+ */
+export async function confirmMeetingTimes(
+  repo: Repository,
+  client: Pick<ClientRegistration, 'id' | 'owner_id' | 'preferred_days' | 'preferred_time' | 'BOP_Date' | 'Followup_Date'> & {
+    fna_appointment?: string | null;
+  },
+  changes: Partial<Record<MeetingField, string | null>>,
+  zones: { ownerZone: string; viewerZone: string }
+): Promise<boolean> {
+  for (const [field, kind] of MEETING_FIELDS) {
+    const start = changes[field];
+    const current = client[field];
+    if (!start || (current && new Date(current).getTime() === new Date(start).getTime())) continue;
+    const check = await checkSchedule(repo, { client, kind, start, timeZone: zones.ownerZone });
+    if (check.conflicts.length && !confirm(conflictWarning(check, zones.viewerZone))) return false;
+  }
+  return true;
+}
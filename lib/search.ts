@@ -0,0 +1,99 @@
+// lib/search.ts
+/**
+ * Global search (Ctrl+K): one typo-tolerant query over client names, phones,
+ * emails and comments, prospect comments and next steps, and FNA notes
+ * (public.global_search). Each hit links to the page that shows its record.
+ */
+export type SearchEntity = 'client' | 'prospect' | 'fna';
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntity, string> = {
+  client: 'Clients',
+  prospect: 'Prospects',
+  fna: 'FNA notes',
+};
+
+/** Shorter terms match almost everything */
+export const MIN_SEARCH_LENGTH = 2;
+
+export type SearchHit = {
+  entity: SearchEntity;
+  recordId: string;
+  /** The client an FNA belongs to */
+  clientId: string | null;
+  title: string;
+  /** Matched column; `table.column` for FNA notes */
+  source: string;
+  snippet: string;
+  score: number;
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  Comment: 'Comment',
+  Remark: 'Remark',
+  spouse_name: 'Spouse',
+  comments: 'Comments',
+  next_steps: 'Next steps',
+  'fna_header.properties_notes': 'Properties notes',
+  'fna_children.notes': 'Children notes',
+  'fna_properties.notes': 'Property notes',
+  'fna_assets.notes': 'Asset notes',
+  'fna_liabilities.notes': 'Liability notes',
+  'fna_insurance.notes': 'Insurance notes',
+  'fna_income.notes': 'Income notes',
+};
+
+export function sourceLabel(source: string): string {
+  return SOURCE_LABELS[source] ?? source;
+}
+
+/** Page (and record on it) a hit opens */
+export function searchHref(hit: SearchHit): string {
+  switch (hit.entity) {
+    case 'client':
+      return `/dashboard?client=${encodeURIComponent(hit.recordId)}`;
+    case 'prospect':
+      return `/prospect?prospect=${encodeURIComponent(hit.recordId)}`;
+    case 'fna':
+      return `/fna?client=${encodeURIComponent(hit.clientId ?? '')}&from=${encodeURIComponent(hit.source.split('.')[0])}`;
+  }
+}
+
+/** Hits by entity, in SEARCH_ENTITY_LABELS order, best first; entities without hits are left out */
+export function groupHits(hits: SearchHit[]): { entity: SearchEntity; label: string; hits: SearchHit[] }[] {
+  return (Object.keys(SEARCH_ENTITY_LABELS) as SearchEntity[])
+    .map((entity) => ({
+      entity,
+      label: SEARCH_ENTITY_LABELS[entity],
+      hits: hits.filter((h) => h.entity === entity).sort((a, b) => b.score - a.score),
+    }))
+    .filter((g) => g.hits.length);
+}
+
+const SEARCH_LINK_EVENT = 'global-search:link';
+
+/** Follow a record link; also tells the page when it is already the one on screen */
+export function followRecordLink(href: string, push: (href: string) => void): void {
+  push(href);
+  window.dispatchEvent(new CustomEvent<string>(SEARCH_LINK_EVENT, { detail: href }));
+}
+
+export function followSearchHit(hit: SearchHit, push: (href: string) => void): void {
+  followRecordLink(searchHref(hit), push);
+}
+
+/**
+ * Calls `open` with the query of the search link that brought us to `path`,
+ * now and whenever another link for `path` is followed. Returns the unsubscribe.
+ */
+export function watchSearchLinks(path: string, open: (params: URLSearchParams) => void): () => void {
+  if (window.location.pathname === path && window.location.search) open(new URLSearchParams(window.location.search));
+  const onLink = (e: Event) => {
+    const url = new URL((e as CustomEvent<string>).detail, window.location.origin);
+    if (url.pathname === path) open(url.searchParams);
+  };
+  window.addEventListener(SEARCH_LINK_EVENT, onLink);
+  return () => window.removeEventListener(SEARCH_LINK_EVENT, onLink);
+}
@@ -0,0 +1,145 @@
+// lib/session.ts
+/**
+ * Signed session tokens for the canfs_auth cookie.
+ *
+ * Tokens are `<payload>.<signature>` (both base64url) signed with HMAC-SHA256.
+ * Only Web Crypto is used so the same code runs in middleware (edge runtime)
+ * and in route handlers (node runtime).
+ *
+ * Sessions slide: /api/auth/refresh re-issues the token while the user is
+ * active, up to SESSION_MAX_AGE_SECONDS after sign-in, carrying the role
+ * currently stored in `agents` rather than the one signed at login.
+ */
+
+import { isRole, type Role } from '@/lib/roles';
+
+export const SESSION_COOKIE = 'canfs_auth';
+/** Idle timeout: a token not renewed within this window expires (SESSION_IDLE_MINUTES, default 8h) */
+export const SESSION_TTL_SECONDS = (Number(process.env.SESSION_IDLE_MINUTES) || 8 * 60) * 60;
+/** Absolute limit after sign-in, however active the user is */
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+export type SessionUser = {
+  id: string;
+  email: string;
+  role: Role;
+};
+
+export type SessionPayload = SessionUser & {
+  iat: number; // issued at (unix seconds)
+  exp: number; // expires at (unix seconds)
+  auth_time?: number; // signed in at (unix seconds); older tokens lack it, use iat
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('Missing AUTH_SECRET in Vercel Environment Variables.');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = '';
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Payload valid for SESSION_TTL_SECONDS, never past SESSION_MAX_AGE_SECONDS after `authTime`
+ */
+function buildPayload(user: SessionUser, authTime?: number): SessionPayload {
+  const now = Math.floor(Date.now() / 1000);
+  const auth_time = authTime ?? now;
+  const exp = Math.min(now + SESSION_TTL_SECONDS, auth_time + SESSION_MAX_AGE_SECONDS);
+  return { id: user.id, email: user.email, role: user.role, iat: now, exp, auth_time };
+}
+
+async function signPayload(payload: SessionPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign('HMAC', await hmacKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+/**
+ * Create a signed token for a user who just signed in
+ */
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  return signPayload(buildPayload(user));
+}
+
+/**
+ * Verify a token's signature and expiry. Returns null for anything invalid.
+ */
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionPayload | null> {
+  if (!token) return null;
+  const [body, sig] = token.split('.');
+  if (!body || !sig) return null;
+
+  try {
+    const ok = await crypto.subtle.verify('HMAC', await hmacKey(), fromBase64Url(sig), encoder.encode(body));
+    if (!ok) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (!payload?.id || typeof payload.exp !== 'number' || !isRole(payload.role)) return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Re-issue a verified session with a fresh idle window and the agent's current role,
+ * or null once the absolute limit is reached
+ */
+export async function renewSession(
+  session: SessionPayload,
+  role: Role
+): Promise<{ token: string; session: SessionPayload } | null> {
+  const authTime = session.auth_time ?? session.iat;
+  if (authTime + SESSION_MAX_AGE_SECONDS <= Math.floor(Date.now() / 1000)) return null;
+  const renewed = buildPayload({ ...session, role }, authTime);
+  return { token: await signPayload(renewed), session: renewed };
+}
+
+/**
+ * Seconds until a token expires, for the cookie max-age
+ */
+export function secondsUntil(exp: number): number {
+  return Math.max(0, exp - Math.floor(Date.now() / 1000));
+}
+
+/**
+ * Cookie attributes for the session cookie (HttpOnly so page scripts cannot read or forge it)
+ */
+export function sessionCookieOptions(secure: boolean, maxAge = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
@@ -0,0 +1,31 @@
+// lib/softDelete.ts
+/**
+ * Soft delete: prospects and FNA tab rows get `deleted_at` / `deleted_by`
+ * instead of being removed. Deleted rows can be restored until an admin
+ * purges them, which is only allowed once the retention period has passed.
+ */
+
+export const SOFT_DELETE_RETENTION_DAYS = 30;
+
+export type SoftDeleted = {
+  deleted_at: string | null;
+  deleted_by: string | null;
+};
+
+/** Rows deleted before this instant may be purged */
+export function purgeCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - SOFT_DELETE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function isPurgeable(deletedAt: string | null | undefined, now = new Date()): boolean {
+  if (!deletedAt) return false;
+  const t = new Date(deletedAt).getTime();
+  return !Number.isNaN(t) && t <= purgeCutoff(now).getTime();
+}
+
+/** Soft-delete stamp for an update */
+export function deletedStamp(userId: string): SoftDeleted {
+  return { deleted_at: new Date().toISOString(), deleted_by: userId };
+}
+
+export const RESTORED: SoftDeleted = { deleted_at: null, deleted_by: null };
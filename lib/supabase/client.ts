@@ -1,10 +1,24 @@
-
 // lib/supabase/client.ts
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
+
+let _client: SupabaseClient<Database> | null = null
+
+/**
+ * The browser Supabase client, created on first use so a build without
+ * env vars does not crash; pages show the error instead.
+ * Queries go through lib/repo rather than calling this directly.
+ */
+export function getSupabase(): SupabaseClient<Database> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL      // must be set in Vercel → Project → Settings → Environment Variables
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY // also set there (client vars must be NEXT_PUBLIC_*)
+
+  if (!url || !key) {
+    throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY in Vercel Environment Variables.')
+  }
 
-export function createBrowserSupabase() {
-  return createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,      // must be set in Vercel → Project → Settings → Environment Variables
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!  // also set there (client vars must be NEXT_PUBLIC_*)
-  )
+  if (!_client) {
+    _client = createClient<Database>(url, key)
+  }
+  return _client
 }
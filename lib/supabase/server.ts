@@ -1,12 +1,26 @@
-
 // lib/supabase/server.ts
 // Fallback server client (no `@supabase/ssr`).
 // Works if you don’t need SSR auth cookies. Requires only @supabase/supabase-js.
 import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/database.types'
 
 export async function createServerSupabase() {
-  return createClient(
+  return createClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    // No browser storage on the server: never persist or auto-refresh auth sessions here
+    { auth: { persistSession: false, autoRefreshToken: false } }
   )
 }
+
+// Privileged client for app/api route handlers. Bypasses RLS, so handlers must
+// check the caller's session and role themselves (see lib/api/server.ts).
+export function createServiceSupabase() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY in Vercel Environment Variables.')
+  }
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -1,24 +0,0 @@
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
-
-let _client: SupabaseClient | null = null;
-
-/**
- * Lazy Supabase client initializer.
- * This prevents build-time crashes if env vars are missing.
- * The UI will show a helpful message instead.
- */
-export function getSupabase(): SupabaseClient {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-  if (!url || !key) {
-    throw new Error(
-      "Missing NEXT_PUBLIC_SUPABASE_URL or NEXT_PUBLIC_SUPABASE_ANON_KEY in Vercel Environment Variables."
-    );
-  }
-
-  if (!_client) {
-    _client = createClient(url, key);
-  }
-  return _client;
-}
@@ -0,0 +1,84 @@
+// lib/team.ts
+/**
+ * Agent hierarchy (upline tree) and record ownership scopes.
+ *
+ * Every client_registrations / prospects row has an owner_id (agents.id).
+ * A scope turns the signed-in agent into the list of owner ids to filter on;
+ * lib/repo applies it to queries. Scopes only narrow what row-level security
+ * already allows (20261018000200_ownership_hierarchy.sql); they are not the
+ * access check.
+ */
+import { can, type Role } from '@/lib/roles';
+import type { SessionUser } from '@/lib/session';
+
+export type Agent = {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: Role;
+  upline_id: string | null;
+  /** IANA zone for showing and entering times; null = the agency zone (lib/timezone.ts) */
+  time_zone: string | null;
+};
+
+export type Scope = 'mine' | 'team' | 'all';
+
+export const SCOPE_LABELS: Record<Scope, string> = {
+  mine: 'My Clients',
+  team: 'My Team',
+  all: 'Everyone',
+};
+
+/** Scopes a role may pick from; trainees only ever see their own records */
+export function scopesForRole(role: Role | null | undefined): Scope[] {
+  return can(role, 'records.view_all') ? ['mine', 'team', 'all'] : ['mine'];
+}
+
+export function defaultScope(role: Role | null | undefined): Scope {
+  if (role === 'admin') return 'all';
+  if (role === 'field_trainer') return 'team';
+  return 'mine';
+}
+
+export function agentLabel(agent: Agent | null | undefined): string {
+  if (!agent) return '';
+  return agent.full_name?.trim() || agent.email;
+}
+
+/**
+ * The agent plus everyone below them in the upline tree
+ */
+export function teamIds(agents: Agent[], rootId: string): string[] {
+  const children = new Map<string, string[]>();
+  for (const a of agents) {
+    if (!a.upline_id) continue;
+    const list = children.get(a.upline_id) ?? [];
+    list.push(a.id);
+    children.set(a.upline_id, list);
+  }
+
+  const seen = new Set<string>([rootId]);
+  const queue = [rootId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const child of children.get(id) ?? []) {
+      if (seen.has(child)) continue; // guard against cycles in bad data
+      seen.add(child);
+      queue.push(child);
+    }
+  }
+  return Array.from(seen);
+}
+
+/**
+ * Owner ids to filter on for a scope, or null for "no owner filter".
+ * Scopes the role may not use fall back to the user's own records.
+ */
+export function ownerIdsForScope(scope: Scope, user: SessionUser | null, agents: Agent[]): string[] | null {
+  if (!user) return [];
+  const allowed = scopesForRole(user.role);
+  const effective = allowed.includes(scope) ? scope : 'mine';
+  if (effective === 'all') return null;
+  if (effective === 'team') return teamIds(agents, user.id);
+  return [user.id];
+}
@@ -0,0 +1,160 @@
+// lib/timezone.ts
+/**
+ * Time zone handling for meeting dates and times.
+ *
+ * Timestamps are stored as real instants (timestamptz, ISO strings with an offset).
+ * Each agent sees and types them in their own zone (agents.time_zone, defaulting
+ * to the agency zone); reports that count per day or month use the agency zone
+ * so every agent gets the same buckets.
+ *
+ * Only Intl is used, so this runs unchanged in the browser and on the server.
+ */
+
+/** Used when an agent has not picked a zone; keep in sync with public.agency_time_zone() */
+export const AGENCY_TIME_ZONE = process.env.NEXT_PUBLIC_AGENCY_TIME_ZONE || 'America/New_York';
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The zone an agent works in */
+export function agentTimeZone(agent: { time_zone?: string | null } | null | undefined): string {
+  const tz = agent?.time_zone;
+  return isTimeZone(tz) ? tz : AGENCY_TIME_ZONE;
+}
+
+/** Zones offered in pickers */
+export function timeZoneOptions(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.length ? zones : [AGENCY_TIME_ZONE, 'UTC'];
+}
+
+// ---------- Wall clock <-> instant ----------
+
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = partFormatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partFormatters.set(timeZone, f);
+  }
+  return f;
+}
+
+/** What a clock in `timeZone` shows at `instant` */
+export function wallClock(instant: Date, timeZone: string): WallClock {
+  const out: Record<string, number> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(instant)) {
+    if (p.type !== 'literal') out[p.type] = Number(p.value);
+  }
+  return { year: out.year, month: out.month, day: out.day, hour: out.hour % 24, minute: out.minute, second: out.second };
+}
+
+// Milliseconds `timeZone` is ahead of UTC at `instant`
+function offsetMs(instant: Date, timeZone: string): number {
+  const w = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+/**
+ * The instant a clock in `timeZone` shows this wall time. Times skipped by a
+ * DST change resolve to just after the jump.
+ */
+export function zonedToInstant(w: Pick<WallClock, 'year' | 'month' | 'day'> & Partial<WallClock>, timeZone: string): Date {
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour ?? 0, w.minute ?? 0, w.second ?? 0);
+  const first = offsetMs(new Date(asUtc), timeZone);
+  const second = offsetMs(new Date(asUtc - first), timeZone);
+  return new Date(asUtc - (first === second ? first : Math.min(first, second)));
+}
+
+function toDate(value: unknown): Date | null {
+  if (value == null || value === '') return null;
+  const d = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// ---------- Inputs ----------
+
+const DATETIME_INPUT = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+/** A `datetime-local` value typed in `timeZone` as an ISO instant (null when blank or invalid) */
+export function fromZonedInput(value: string, timeZone: string): string | null {
+  const m = DATETIME_INPUT.exec(value?.trim() ?? '');
+  if (!m) return null;
+  const [year, month, day, hour, minute] = m.slice(1).map(Number);
+  return zonedToInstant({ year, month, day, hour, minute }, timeZone).toISOString();
+}
+
+/** A stored timestamp as a `datetime-local` value in `timeZone` ("" when empty) */
+export function toZonedInput(value: unknown, timeZone: string): string {
+  const d = toDate(value);
+  if (!d) return '';
+  const w = wallClock(d, timeZone);
+  return `${pad(w.year, 4)}-${pad(w.month)}-${pad(w.day)}T${pad(w.hour)}:${pad(w.minute)}`;
+}
+
+// ---------- Calendar days ----------
+
+/** "yyyy-MM-dd" of the day `value` falls on in `timeZone` */
+export function dayKey(value: unknown, timeZone: string): string | null {
+  const d = toDate(value);
+  if (!d) return null;
+  const w = wallClock(d, timeZone);
+  return `${pad(w.year, 4)}-${pad(w.month)}-${pad(w.day)}`;
+}
+
+/** "yyyy-MM" of the month `value` falls in in `timeZone` */
+export function monthKey(value: unknown, timeZone: string): string | null {
+  return dayKey(value, timeZone)?.slice(0, 7) ?? null;
+}
+
+export function todayKey(timeZone: string, now = new Date()): string {
+  return dayKey(now, timeZone)!;
+}
+
+/** Calendar arithmetic on "yyyy-MM-dd" keys (no zone involved) */
+export function addDaysToKey(key: string, days: number): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** Calendar arithmetic on "yyyy-MM" keys */
+export function addMonthsToKey(key: string, months: number): string {
+  const [y, m] = key.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1 + months, 1)).toISOString().slice(0, 7);
+}
+
+/** Midnight at the start of a "yyyy-MM-dd" (or "yyyy-MM") day in `timeZone` */
+export function startOfZonedDay(key: string, timeZone: string): Date {
+  const [year, month, day = 1] = key.split('-').map(Number);
+  return zonedToInstant({ year, month, day }, timeZone);
+}
+
+// ---------- Display ----------
+
+/** Localised date/time of a stored timestamp in `timeZone` ("" when empty) */
+export function formatInZone(value: unknown, timeZone: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'short', timeStyle: 'short' }): string {
+  const d = toDate(value);
+  return d ? new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(d) : '';
+}
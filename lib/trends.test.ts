@@ -0,0 +1,107 @@
+// lib/trends.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  bucketCount,
+  bucketLabel,
+  compareTrends,
+  formatChange,
+  percentChange,
+  previousTrendRange,
+  resolveTrendRange,
+  trendExportRows,
+  trendTotals,
+  type TrendPoint,
+} from '@/lib/trends';
+
+// AGENCY_TIME_ZONE is America/New_York unless NEXT_PUBLIC_AGENCY_TIME_ZONE is set
+const point = (bucket: string, calls: number, bops = 0, followups = 0): TrendPoint => ({ bucket, calls, bops, followups });
+
+describe('resolveTrendRange', () => {
+  it('takes "today" in the agency zone, not UTC', () => {
+    // Monday 03:00 UTC is still Sunday evening in New York
+    const range = resolveTrendRange('week', {}, 'day', new Date('2026-10-19T03:00:00Z'))!;
+    expect(range.first).toBe('2026-10-12');
+    expect(range.last).toBe('2026-10-18');
+    expect(range.from.toISOString()).toBe('2026-10-12T04:00:00.000Z');
+    expect(range.to.toISOString()).toBe('2026-10-19T04:00:00.000Z');
+  });
+
+  it('ends a month-bucketed year on the zone\'s last day of the month', () => {
+    const range = resolveTrendRange('year', {}, 'auto', new Date('2026-11-01T02:00:00Z'))!;
+    expect(range).toMatchObject({ first: '2025-11-01', last: '2026-10-31', bucket: 'month' });
+    expect(bucketCount(range)).toBe(12);
+  });
+
+  it('orders custom days and needs both', () => {
+    expect(resolveTrendRange('custom', { first: '2026-10-10', last: '2026-10-01' }, 'day')).toMatchObject({
+      first: '2026-10-01',
+      last: '2026-10-10',
+    });
+    expect(resolveTrendRange('custom', { first: '2026-10-10' })).toBeNull();
+  });
+});
+
+describe('buckets', () => {
+  it('counts partial ISO weeks at either end', () => {
+    const range = resolveTrendRange('custom', { first: '2026-10-18', last: '2026-10-19' }, 'week')!;
+    expect(bucketCount(range)).toBe(2);
+  });
+
+  it.each([
+    ['2026-12-28', '2026-W53'],
+    ['2027-01-04', '2027-W01'],
+    ['2024-12-30', '2025-W01'],
+  ])('labels the week starting %s as %s', (monday, label) => {
+    expect(bucketLabel(monday, 'week')).toBe(label);
+  });
+
+  it('labels months and quarters from the bucket start', () => {
+    expect(bucketLabel('2026-10-01T00:00:00-04:00', 'month')).toBe('2026-10');
+    expect(bucketLabel('2026-10-01T00:00:00-04:00', 'quarter')).toBe('2026-Q4');
+  });
+});
+
+describe('previousTrendRange', () => {
+  it('moves a week range back by whole weeks', () => {
+    const range = resolveTrendRange('custom', { first: '2026-10-12', last: '2026-10-18' }, 'week')!;
+    expect(previousTrendRange(range)).toMatchObject({ first: '2026-10-05', last: '2026-10-11', bucket: 'week' });
+  });
+
+  it('clamps month moves to the shorter month', () => {
+    const range = resolveTrendRange('custom', { first: '2026-03-01', last: '2026-03-31' }, 'month')!;
+    expect(previousTrendRange(range)).toMatchObject({ first: '2026-02-01', last: '2026-02-28' });
+  });
+});
+
+describe('comparing periods', () => {
+  it('handles empty periods', () => {
+    expect(compareTrends([], null)).toEqual([]);
+    expect(compareTrends([point('2026-10', 3)], [])[0]).toMatchObject({ calls: 3, previousBucket: null, previousCalls: null });
+    expect(trendTotals([])).toEqual({ calls: 0, bops: 0, followups: 0 });
+  });
+
+  it('adds up a period', () => {
+    expect(trendTotals([point('a', 1, 2, 3), point('b', 4, 5, 6)])).toEqual({ calls: 5, bops: 7, followups: 9 });
+  });
+
+  it('has no percentage change when the previous period had nothing', () => {
+    expect(percentChange(5, 0)).toBeNull();
+    expect(percentChange(0, 0)).toBeNull();
+    expect(percentChange(5, null)).toBeNull();
+    expect(formatChange(percentChange(5, 0))).toBe('—');
+  });
+
+  it('formats rises and falls', () => {
+    expect(percentChange(0, 4)).toBe(-1);
+    expect(formatChange(percentChange(15, 12))).toBe('+25%');
+    expect(formatChange(percentChange(9, 12))).toBe('-25%');
+    expect(formatChange(percentChange(12, 12))).toBe('0%');
+  });
+
+  it('exports an empty range with its heading rows', () => {
+    const range = resolveTrendRange('custom', { first: '2026-10-01', last: '2026-10-07' }, 'day')!;
+    const rows = trendExportRows(range, [], null);
+    expect(rows[0]).toEqual(['Range', '2026-10-01 to 2026-10-07']);
+    expect(rows[rows.length - 1]).toEqual(['Period', 'Calls', 'BOPs', 'Follow-ups']);
+  });
+});
@@ -0,0 +1,229 @@
+// lib/trends.ts
+/**
+ * Date ranges for the dashboard reports (Trends, funnel, leaderboard). Trend
+ * counts come from public.activity_counts (lib/repo/clients.ts), bucketed by
+ * agency-zone day, ISO week, month or quarter.
+ */
+import { AGENCY_TIME_ZONE, addDaysToKey, addMonthsToKey, startOfZonedDay, todayKey } from '@/lib/timezone';
+
+export type TrendBucket = 'day' | 'week' | 'month' | 'quarter';
+
+export const TREND_BUCKET_LABELS: Record<TrendBucket, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+export type TrendRangePreset = 'week' | '7d' | '30d' | '60d' | '90d' | 'quarter' | 'year' | 'custom';
+
+export const TREND_RANGE_LABELS: Record<TrendRangePreset, string> = {
+  week: 'This week',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '60d': 'Last 60 days',
+  '90d': 'Last 90 days',
+  quarter: 'This quarter',
+  year: 'Last 12 months',
+  custom: 'Custom',
+};
+
+/** With automatic granularity, ranges longer than this many days are shown per month */
+const MAX_DAILY_BUCKETS = 92;
+
+export type TrendRange = {
+  /** First and last day shown, "yyyy-MM-dd" in the agency zone */
+  first: string;
+  last: string;
+  bucket: TrendBucket;
+  /** [from, to) as instants, for the query */
+  from: Date;
+  to: Date;
+};
+
+export type TrendPoint = { bucket: string; calls: number; bops: number; followups: number };
+
+const dayNumber = (key: string) => Date.parse(`${key.slice(0, 10)}T00:00:00Z`) / 86_400_000;
+
+function daysBetween(first: string, last: string): number {
+  return Math.round(dayNumber(last) - dayNumber(first)) + 1;
+}
+
+const monthIndex = (key: string) => Number(key.slice(0, 4)) * 12 + Number(key.slice(5, 7)) - 1;
+
+/** Monday of the ISO week `key` falls in */
+function weekStart(key: string): string {
+  const weekday = (new Date(`${key}T00:00:00Z`).getUTCDay() + 6) % 7;
+  return addDaysToKey(key, -weekday);
+}
+
+/** `key` moved by whole buckets; month moves keep the day, clamped to the month's length */
+function shiftKey(key: string, bucket: TrendBucket, n: number): string {
+  if (bucket === 'day') return addDaysToKey(key, n);
+  if (bucket === 'week') return addDaysToKey(key, 7 * n);
+  const month = addMonthsToKey(key.slice(0, 7), bucket === 'quarter' ? 3 * n : n);
+  const lastDay = addDaysToKey(`${addMonthsToKey(month, 1)}-01`, -1);
+  const day = `${month}-${key.slice(8, 10)}`;
+  return day < lastDay ? day : lastDay;
+}
+
+function toRange(first: string, last: string, bucket: TrendBucket): TrendRange {
+  return {
+    first,
+    last,
+    bucket,
+    from: startOfZonedDay(first, AGENCY_TIME_ZONE),
+    to: startOfZonedDay(addDaysToKey(last, 1), AGENCY_TIME_ZONE),
+  };
+}
+
+/**
+ * The days a preset covers, ending today. `custom` uses `first`/`last`
+ * ("yyyy-MM-dd", either order); null when they are missing. `auto` picks
+ * days for short ranges and months for long ones.
+ */
+export function resolveTrendRange(
+  preset: TrendRangePreset,
+  custom: { first?: string; last?: string } = {},
+  bucket: TrendBucket | 'auto' = 'auto',
+  now = new Date()
+): TrendRange | null {
+  const today = todayKey(AGENCY_TIME_ZONE, now);
+  let first: string;
+  let last = today;
+  switch (preset) {
+    case 'week':
+      first = weekStart(today);
+      break;
+    case '7d':
+    case '30d':
+    case '60d':
+    case '90d':
+      first = addDaysToKey(today, 1 - Number.parseInt(preset, 10));
+      break;
+    case 'quarter': {
+      const month = Number(today.slice(5, 7));
+      first = `${today.slice(0, 4)}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`;
+      break;
+    }
+    case 'year':
+      first = `${addMonthsToKey(today.slice(0, 7), -11)}-01`;
+      break;
+    case 'custom': {
+      if (!custom.first || !custom.last) return null;
+      [first, last] = custom.first <= custom.last ? [custom.first, custom.last] : [custom.last, custom.first];
+      break;
+    }
+  }
+  const chosen = bucket === 'auto' ? (daysBetween(first, last) > MAX_DAILY_BUCKETS ? 'month' : 'day') : bucket;
+  return toRange(first, last, chosen);
+}
+
+/** How many buckets a range spans (partial ones included) */
+export function bucketCount(range: TrendRange): number {
+  switch (range.bucket) {
+    case 'day':
+      return daysBetween(range.first, range.last);
+    case 'week':
+      return Math.round((dayNumber(weekStart(range.last)) - dayNumber(weekStart(range.first))) / 7) + 1;
+    case 'month':
+      return monthIndex(range.last) - monthIndex(range.first) + 1;
+    case 'quarter':
+      return Math.floor(monthIndex(range.last) / 3) - Math.floor(monthIndex(range.first) / 3) + 1;
+  }
+}
+
+/**
+ * The same stretch of time one period earlier, moved by whole buckets so each
+ * bucket lines up with its counterpart (last 12 months to date -> the 12 before).
+ */
+export function previousTrendRange(range: TrendRange): TrendRange {
+  const n = -bucketCount(range);
+  return toRange(shiftKey(range.first, range.bucket, n), shiftKey(range.last, range.bucket, n), range.bucket);
+}
+
+/** ISO 8601 week number and week-year of a Monday */
+function isoWeek(monday: string): { year: number; week: number } {
+  const thursday = addDaysToKey(monday, 3);
+  const year = Number(thursday.slice(0, 4));
+  const week = Math.floor((dayNumber(thursday) - dayNumber(`${year}-01-01`)) / 7) + 1;
+  return { year, week };
+}
+
+/** Axis label of a bucket: "2026-10-18", "2026-W42", "2026-10" or "2026-Q4" */
+export function bucketLabel(bucketStart: string, bucket: TrendBucket): string {
+  switch (bucket) {
+    case 'day':
+      return bucketStart.slice(0, 10);
+    case 'week': {
+      const { year, week } = isoWeek(bucketStart.slice(0, 10));
+      return `${year}-W${String(week).padStart(2, '0')}`;
+    }
+    case 'month':
+      return bucketStart.slice(0, 7);
+    case 'quarter':
+      return `${bucketStart.slice(0, 4)}-Q${Math.floor((Number(bucketStart.slice(5, 7)) - 1) / 3) + 1}`;
+  }
+}
+
+/** A point next to its counterpart in the previous period (matched by position) */
+export type TrendComparison = TrendPoint & {
+  previousBucket: string | null;
+  previousCalls: number | null;
+  previousBops: number | null;
+  previousFollowups: number | null;
+};
+
+export function compareTrends(points: TrendPoint[], previous: TrendPoint[] | null): TrendComparison[] {
+  return points.map((p, i) => {
+    const prev = previous?.[i];
+    return {
+      ...p,
+      previousBucket: prev?.bucket ?? null,
+      previousCalls: prev?.calls ?? null,
+      previousBops: prev?.bops ?? null,
+      previousFollowups: prev?.followups ?? null,
+    };
+  });
+}
+
+export type TrendTotals = { calls: number; bops: number; followups: number };
+
+export function trendTotals(points: TrendPoint[]): TrendTotals {
+  return points.reduce(
+    (t, p) => ({ calls: t.calls + p.calls, bops: t.bops + p.bops, followups: t.followups + p.followups }),
+    { calls: 0, bops: 0, followups: 0 }
+  );
+}
+
+/** Change from `previous` to `current` as a fraction (0.25 = +25%); null when the previous period had none */
+export function percentChange(current: number, previous: number | null | undefined): number | null {
+  return previous ? (current - previous) / previous : null;
+}
+
+export function formatChange(change: number | null): string {
+  if (change == null) return '—';
+  const pct = Math.round(change * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
+/** Sheet rows for the XLSX export, headed by the range they cover */
+export function trendExportRows(range: TrendRange, rows: TrendComparison[], previous: TrendRange | null): (string | number | null)[][] {
+  const header = ['Period', 'Calls', 'BOPs', 'Follow-ups'];
+  if (previous) header.push('Previous period', 'Previous calls', 'Previous BOPs', 'Previous follow-ups');
+  return [
+    ['Range', `${range.first} to ${range.last}`],
+    ['Granularity', TREND_BUCKET_LABELS[range.bucket]],
+    ['Time zone', AGENCY_TIME_ZONE],
+    ...(previous ? [['Compared with', `${previous.first} to ${previous.last}`]] : []),
+    [],
+    header,
+    ...rows.map((r) => [
+      r.bucket,
+      r.calls,
+      r.bops,
+      r.followups,
+      ...(previous ? [r.previousBucket, r.previousCalls, r.previousBops, r.previousFollowups] : []),
+    ]),
+  ];
+}
@@ -1,26 +1,36 @@
 // middleware.ts
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/session';
+import { rolesForPath } from '@/lib/roles';
 
-const AUTH_COOKIE = 'canfs_auth';
-const PROTECTED_ROUTES = ['/dashboard', '/fna', '/prospect'];
 const AUTH_PAGE = '/auth';
+const FALLBACK_PAGE = '/dashboard';
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Check if the route is protected
-  const isProtectedRoute = PROTECTED_ROUTES.some(route => pathname.startsWith(route));
-  
-  if (isProtectedRoute) {
-    // Check for auth cookie
-    const authCookie = request.cookies.get(AUTH_COOKIE);
-    const isAuthenticated = authCookie?.value === 'true';
+  // Check if the route is protected, and for which roles
+  const allowedRoles = rolesForPath(pathname);
 
-    if (!isAuthenticated) {
-      // Redirect to auth page if not authenticated
+  if (allowedRoles) {
+    // Verify the signed session cookie (signature + expiry)
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+    if (!session) {
+      // Redirect to auth page if not authenticated, coming back here after sign-in
       const url = request.nextUrl.clone();
       url.pathname = AUTH_PAGE;
+      url.search = '';
+      url.searchParams.set('next', pathname + request.nextUrl.search);
+      return NextResponse.redirect(url);
+    }
+
+    if (!allowedRoles.includes(session.role)) {
+      // Signed in, but this role may not open the page
+      const url = request.nextUrl.clone();
+      url.pathname = FALLBACK_PAGE;
+      url.search = '';
       return NextResponse.redirect(url);
     }
   }
@@ -29,5 +39,5 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/dashboard/:path*', '/fna/:path*', '/prospect/:path*'],
+  matcher: ['/dashboard/:path*', '/fna/:path*', '/prospect/:path*', '/clients/:path*'],
 };
@@ -0,0 +1,119 @@
+-- Agent roles (trainee / field_trainer / admin) and prospect ownership.
+-- Page-level checks live in lib/roles.ts; these policies are the database backstop.
+
+create table if not exists public.agents (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  full_name text,
+  role text not null default 'trainee' check (role in ('trainee', 'field_trainer', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+alter table public.agents enable row level security;
+
+-- Every sign-in account is an agent: existing users now, new ones as they sign up
+insert into public.agents (id, email, full_name)
+select u.id, coalesce(u.email, ''), nullif(trim(u.raw_user_meta_data ->> 'full_name'), '')
+  from auth.users u
+on conflict (id) do nothing;
+
+create or replace function public.create_agent_for_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.agents (id, email, full_name)
+  values (new.id, coalesce(new.email, ''), nullif(trim(new.raw_user_meta_data ->> 'full_name'), ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_agent on auth.users;
+create trigger on_auth_user_created_agent
+  after insert on auth.users
+  for each row execute function public.create_agent_for_user();
+
+-- Bootstrap: the agency's first account is the admin until roles are handed out
+-- (update public.agents set role = ... as that admin, or with the service role)
+update public.agents
+   set role = 'admin'
+ where id = (select u.id from auth.users u order by u.created_at limit 1)
+   and not exists (select 1 from public.agents where role = 'admin');
+
+create or replace function public.current_agent_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.agents where id = auth.uid()), 'trainee');
+$$;
+
+drop policy if exists agents_select on public.agents;
+create policy agents_select on public.agents
+  for select to authenticated
+  using (true);
+
+drop policy if exists agents_admin_write on public.agents;
+create policy agents_admin_write on public.agents
+  for all to authenticated
+  using (public.current_agent_role() = 'admin')
+  with check (public.current_agent_role() = 'admin');
+
+-- Prospects belong to the agent who entered them
+alter table public.prospects
+  add column if not exists owner_id uuid references public.agents (id) default auth.uid();
+
+create index if not exists prospects_owner_id_idx on public.prospects (owner_id);
+
+-- Nothing records who entered older prospects: they go to the first admin,
+-- who reassigns them (records.reassign) to the right agents
+update public.prospects
+   set owner_id = (select id from public.agents where role = 'admin' order by created_at limit 1)
+ where owner_id is null;
+
+-- Agents read prospects directly; writes go through /api with the service role
+-- (validation, owner checks, audit log), so there is no write policy
+alter table public.prospects enable row level security;
+
+drop policy if exists prospects_select on public.prospects;
+create policy prospects_select on public.prospects
+  for select to authenticated
+  using (public.current_agent_role() <> 'trainee' or owner_id = auth.uid());
+
+drop policy if exists prospects_insert on public.prospects;
+drop policy if exists prospects_update on public.prospects;
+drop policy if exists prospects_delete on public.prospects;
+
+-- Only admins may change status columns on client_registrations
+create or replace function public.enforce_client_status_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Trusted server code (service role) enforces the rule itself
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if public.current_agent_role() <> 'admin' and (
+       new.status is distinct from old.status
+    or new.client_status is distinct from old.client_status
+    or new."BOP_Status" is distinct from old."BOP_Status"
+    or new."FollowUp_Status" is distinct from old."FollowUp_Status"
+    or new."FNA_Status" is distinct from old."FNA_Status"
+  ) then
+    raise exception 'Only admins can change client status fields' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists client_registrations_status_admin on public.client_registrations;
+create trigger client_registrations_status_admin
+  before update on public.client_registrations
+  for each row execute function public.enforce_client_status_admin();
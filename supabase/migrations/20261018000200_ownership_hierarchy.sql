@@ -0,0 +1,93 @@
+-- Per-agent ownership of clients and the upline (team) tree.
+
+alter table public.agents
+  add column if not exists upline_id uuid references public.agents (id) on delete set null;
+
+create index if not exists agents_upline_id_idx on public.agents (upline_id);
+
+alter table public.client_registrations
+  add column if not exists owner_id uuid references public.agents (id) default auth.uid();
+
+create index if not exists client_registrations_owner_id_idx on public.client_registrations (owner_id);
+
+-- Older clients have no recorded agent either; same rule as prospects (20261018000100)
+update public.client_registrations
+   set owner_id = (select id from public.agents where role = 'admin' order by created_at limit 1)
+ where owner_id is null;
+
+-- The agent plus everyone below them in the upline tree
+create or replace function public.team_agent_ids(root uuid)
+returns setof uuid
+language sql
+stable
+as $$
+  with recursive team as (
+    select id from public.agents where id = root
+    union
+    select a.id from public.agents a join team t on a.upline_id = t.id
+  )
+  select id from team;
+$$;
+
+-- Progress summary with the owning agent, so the dashboard card can be scoped
+create or replace view public.v_client_progress_summary_scoped as
+  select p.*, c.owner_id
+  from public.v_client_progress_summary p
+  join public.client_registrations c on c.id = p.clientid;
+
+-- Who may see a record owned by `owner`: the owner, and every field trainer and
+-- admin (records.view_all in lib/roles.ts; assertOwnerAccess on the server)
+create or replace function public.can_see_owner(owner uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.current_agent_role() <> 'trainee' or owner = auth.uid();
+$$;
+
+-- The browser reads clients and FNAs directly; the scope it sends only narrows
+-- what these policies already allow. Writes go through /api with the service
+-- role (validation, owner checks, audit log), so signed-in agents get no
+-- insert, update or delete policy.
+alter table public.client_registrations enable row level security;
+
+drop policy if exists client_registrations_select on public.client_registrations;
+create policy client_registrations_select on public.client_registrations
+  for select to authenticated
+  using (public.can_see_owner(owner_id));
+
+drop policy if exists client_registrations_insert on public.client_registrations;
+drop policy if exists client_registrations_update on public.client_registrations;
+drop policy if exists client_registrations_delete on public.client_registrations;
+
+-- An FNA is visible with its client
+alter table public.fna_header enable row level security;
+
+drop policy if exists fna_header_select on public.fna_header;
+create policy fna_header_select on public.fna_header
+  for select to authenticated
+  using (exists (select 1 from public.client_registrations c where c.id = client_id));
+
+-- ...and its rows with the FNA
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['fna_children', 'fna_properties', 'fna_assets', 'fna_liabilities', 'fna_insurance', 'fna_income', 'fna_tax_refund']
+  loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists %I on public.%I', t || '_select', t);
+    execute format(
+      'create policy %I on public.%I for select to authenticated
+         using (exists (select 1 from public.fna_header h where h.id = fna_id))',
+      t || '_select', t
+    );
+  end loop;
+end;
+$$;
+
+-- Views run as their owner unless told otherwise, which would skip the policies above
+alter view public.v_client_progress_summary set (security_invoker = true);
+alter view public.v_client_progress_summary_scoped set (security_invoker = true);
@@ -0,0 +1,25 @@
+-- Audit trail of every write made through the app/api handlers.
+-- Rows are written with the service role; nobody edits or deletes them.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  table_name text not null,
+  record_id text not null,
+  -- FNA child rows point at their fna_header so the FNA history shows them too
+  parent_id text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  -- Only the columns that changed (whole row for insert/delete)
+  before jsonb,
+  after jsonb,
+  changed_by uuid references public.agents (id) on delete set null,
+  changed_by_email text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, changed_at desc);
+create index if not exists audit_log_parent_idx on public.audit_log (parent_id, changed_at desc) where parent_id is not null;
+
+alter table public.audit_log enable row level security;
+
+-- Read through /api/audit only (service role); no policies for browser clients
+revoke all on public.audit_log from anon, authenticated;
@@ -0,0 +1,58 @@
+-- Soft delete for prospects and FNA tab rows.
+-- The app sets deleted_at instead of deleting; "Recently deleted" lists and
+-- restores them, and admins purge rows older than the retention period
+-- (SOFT_DELETE_RETENTION_DAYS in lib/softDelete.ts).
+
+alter table public.prospects
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.agents (id) on delete set null;
+
+create index if not exists prospects_deleted_at_idx on public.prospects (deleted_at) where deleted_at is not null;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'fna_children', 'fna_properties', 'fna_assets', 'fna_liabilities',
+    'fna_insurance', 'fna_income', 'fna_tax_refund'
+  ]
+  loop
+    execute format(
+      'alter table public.%I
+         add column if not exists deleted_at timestamptz,
+         add column if not exists deleted_by uuid references public.agents (id) on delete set null', t);
+    execute format(
+      'create index if not exists %I on public.%I (fna_id, deleted_at) where deleted_at is not null',
+      t || '_deleted_at_idx', t);
+  end loop;
+end $$;
+
+-- Only admins may delete or restore prospects (prospects.delete in lib/roles.ts).
+-- Signed-in agents have no write policy on prospects (20261018000100); this
+-- guards the soft-delete columns the way enforce_client_status_admin guards
+-- status, should one ever be added.
+create or replace function public.enforce_prospect_delete_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Trusted server code (service role) enforces the rule itself
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if public.current_agent_role() <> 'admin' and (
+       new.deleted_at is distinct from old.deleted_at
+    or new.deleted_by is distinct from old.deleted_by
+  ) then
+    raise exception 'Only admins can delete or restore prospects' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prospects_delete_admin on public.prospects;
+create trigger prospects_delete_admin
+  before update on public.prospects
+  for each row execute function public.enforce_prospect_delete_admin();
@@ -0,0 +1,46 @@
+-- Time zones for meeting dates and times.
+-- Each agent sees and enters times in agents.time_zone (null = the agency zone);
+-- daily and monthly reports bucket in the agency zone (lib/timezone.ts).
+
+create or replace function public.agency_time_zone()
+returns text
+language sql
+immutable
+as $$
+  -- Keep in sync with NEXT_PUBLIC_AGENCY_TIME_ZONE
+  select 'America/New_York'::text;
+$$;
+
+alter table public.agents
+  add column if not exists time_zone text
+    check (time_zone is null or now() at time zone time_zone is not null);
+
+-- One-time data fixes that must never run twice, by name
+create table if not exists public.data_fixes (
+  name text primary key,
+  applied_at timestamptz not null default now()
+);
+
+alter table public.data_fixes enable row level security;
+
+-- The dashboard used to save the typed wall-clock time with a literal "Z" and
+-- read it back the same way, so 7:00 PM was stored as 19:00 UTC and every
+-- stored value, typed or imported, was shown as agency wall time. Reinterpret
+-- them in the agency zone, once: afterwards values are real instants.
+do $$
+begin
+  if exists (select 1 from public.data_fixes where name = 'client_meeting_times_to_instants') then
+    return;
+  end if;
+
+  update public.client_registrations
+     set "BOP_Date" = ("BOP_Date" at time zone 'UTC') at time zone public.agency_time_zone(),
+         "CalledOn" = ("CalledOn" at time zone 'UTC') at time zone public.agency_time_zone(),
+         "Followup_Date" = ("Followup_Date" at time zone 'UTC') at time zone public.agency_time_zone(),
+         "FollowUp_Date" = ("FollowUp_Date" at time zone 'UTC') at time zone public.agency_time_zone(),
+         "Issued" = ("Issued" at time zone 'UTC') at time zone public.agency_time_zone(),
+         "FNA_Date" = ("FNA_Date" at time zone 'UTC') at time zone public.agency_time_zone()
+   where coalesce("BOP_Date", "CalledOn", "Followup_Date", "FollowUp_Date", "Issued", "FNA_Date") is not null;
+
+  insert into public.data_fixes (name) values ('client_meeting_times_to_instants');
+end $$;
@@ -0,0 +1,72 @@
+-- Calls / BOPs / follow-ups per day or month for the Trends card, counted in the
+-- database so the dashboard no longer downloads every timestamp.
+-- Buckets are agency-zone days/months (lib/timezone.ts); runs as the caller, so RLS applies.
+
+create index if not exists client_registrations_called_on_idx on public.client_registrations ("CalledOn");
+create index if not exists client_registrations_bop_date_idx on public.client_registrations ("BOP_Date");
+create index if not exists client_registrations_followup_date_idx on public.client_registrations ("Followup_Date");
+
+-- One row per bucket in [range_start, range_end), zero-filled.
+-- owner_ids null = every owner the caller can see.
+create or replace function public.activity_counts(
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket text default 'day',
+  owner_ids uuid[] default null
+)
+returns table (bucket_start date, calls bigint, bops bigint, followups bigint)
+language plpgsql
+stable
+as $$
+#variable_conflict use_column
+begin
+  if bucket is null or bucket not in ('day', 'month') then
+    raise exception 'Unknown bucket "%"', bucket using errcode = '22023';
+  end if;
+
+  return query
+  with params as (
+    select bucket as unit, public.agency_time_zone() as tz
+  ),
+  events as (
+    select 'call' as kind, c."CalledOn" as at
+      from public.client_registrations c
+     where c."CalledOn" >= range_start and c."CalledOn" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+    union all
+    select 'bop', c."BOP_Date"
+      from public.client_registrations c
+     where c."BOP_Date" >= range_start and c."BOP_Date" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+    union all
+    select 'followup', c."Followup_Date"
+      from public.client_registrations c
+     where c."Followup_Date" >= range_start and c."Followup_Date" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+  ),
+  counted as (
+    select date_trunc(p.unit, e.at at time zone p.tz)::date as bucket_start,
+           count(*) filter (where e.kind = 'call') as calls,
+           count(*) filter (where e.kind = 'bop') as bops,
+           count(*) filter (where e.kind = 'followup') as followups
+      from events e cross join params p
+     group by 1
+  ),
+  buckets as (
+    select s::date as bucket_start
+      from params p,
+           generate_series(
+             date_trunc(p.unit, range_start at time zone p.tz),
+             (range_end at time zone p.tz) - interval '1 microsecond',
+             ('1 ' || p.unit)::interval
+           ) s
+  )
+  select b.bucket_start,
+         coalesce(c.calls, 0),
+         coalesce(c.bops, 0),
+         coalesce(c.followups, 0)
+    from buckets b
+    left join counted c using (bucket_start)
+   order by b.bucket_start;
+end;
+$$;
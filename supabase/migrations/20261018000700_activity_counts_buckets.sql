@@ -0,0 +1,66 @@
+-- Trends by ISO week and quarter as well as day and month.
+-- date_trunc('week') starts weeks on Monday, matching ISO 8601. Partial first and
+-- last buckets only count activity inside the range.
+
+create or replace function public.activity_counts(
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket text default 'day',
+  owner_ids uuid[] default null
+)
+returns table (bucket_start date, calls bigint, bops bigint, followups bigint)
+language plpgsql
+stable
+as $$
+#variable_conflict use_column
+begin
+  if bucket is null or bucket not in ('day', 'week', 'month', 'quarter') then
+    raise exception 'Unknown bucket "%"', bucket using errcode = '22023';
+  end if;
+
+  return query
+  with params as (
+    select bucket as unit, public.agency_time_zone() as tz
+  ),
+  events as (
+    select 'call' as kind, c."CalledOn" as at
+      from public.client_registrations c
+     where c."CalledOn" >= range_start and c."CalledOn" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+    union all
+    select 'bop', c."BOP_Date"
+      from public.client_registrations c
+     where c."BOP_Date" >= range_start and c."BOP_Date" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+    union all
+    select 'followup', c."Followup_Date"
+      from public.client_registrations c
+     where c."Followup_Date" >= range_start and c."Followup_Date" < range_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+  ),
+  counted as (
+    select date_trunc(p.unit, e.at at time zone p.tz)::date as bucket_start,
+           count(*) filter (where e.kind = 'call') as calls,
+           count(*) filter (where e.kind = 'bop') as bops,
+           count(*) filter (where e.kind = 'followup') as followups
+      from events e cross join params p
+     group by 1
+  ),
+  buckets as (
+    select s::date as bucket_start
+      from params p,
+           generate_series(
+             date_trunc(p.unit, range_start at time zone p.tz),
+             (range_end at time zone p.tz) - interval '1 microsecond',
+             case p.unit when 'quarter' then interval '3 months' else ('1 ' || p.unit)::interval end
+           ) s
+  )
+  select b.bucket_start,
+         coalesce(c.calls, 0),
+         coalesce(c.bops, 0),
+         coalesce(c.followups, 0)
+    from buckets b
+    left join counted c using (bucket_start)
+   order by b.bucket_start;
+end;
+$$;
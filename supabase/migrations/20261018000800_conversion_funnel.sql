@@ -0,0 +1,87 @@
+-- Conversion funnel for the dashboard: how far a cohort of clients got, from
+-- prospect to policy issued (lib/funnel.ts). Runs as the caller, so RLS applies.
+--
+-- The cohort is clients registered in [cohort_start, cohort_end). Each client
+-- counts toward every stage up to the furthest one they reached, so a client
+-- with a BOP but no call date still counts as called. Prospects are not linked
+-- to clients: the first three stages count prospects entered in the same
+-- period by their `result` (the Result options on /prospect):
+--   prospect   every prospect entered
+--   contacted  any result recorded
+--   interested result is Business, Both, Client Solution or In-Progress
+--              (not Called, Not Interested or Others)
+-- They are null when filtering by referral (prospects have no referred_by).
+
+create or replace function public.conversion_funnel(
+  cohort_start timestamptz,
+  cohort_end timestamptz,
+  owner_ids uuid[] default null,
+  referral text default null
+)
+returns table (stage text, reached bigint, median_days numeric)
+language sql
+stable
+as $$
+  with cohort as (
+    select c.*,
+           case
+             when c.client_status = 'Policy Issued' or c."Issued" is not null then 6
+             when c."FNA_Status" in ('Completed', 'Solution Provided') then 5
+             when c."Followup_Date" is not null then 4
+             when c."BOP_Date" is not null then 3
+             when c."CalledOn" is not null then 2
+             else 1
+           end as furthest
+      from public.client_registrations c
+     where c.created_at >= cohort_start and c.created_at < cohort_end
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+       and (coalesce(referral, '') = '' or strpos(lower(c.referred_by), lower(trim(referral))) > 0)
+  ),
+  -- Median days between consecutive stage dates, ignoring pairs entered out of order
+  gaps as (
+    select
+      percentile_cont(0.5) within group (order by extract(epoch from c."CalledOn" - c.created_at) / 86400)
+        filter (where c."CalledOn" >= c.created_at) as called,
+      percentile_cont(0.5) within group (order by extract(epoch from c."BOP_Date" - c."CalledOn") / 86400)
+        filter (where c."BOP_Date" >= c."CalledOn") as bop,
+      percentile_cont(0.5) within group (order by extract(epoch from c."Followup_Date" - c."BOP_Date") / 86400)
+        filter (where c."Followup_Date" >= c."BOP_Date") as followup,
+      percentile_cont(0.5) within group (order by extract(epoch from c."FNA_Date" - c."Followup_Date") / 86400)
+        filter (where c.furthest >= 5 and c."FNA_Date" >= c."Followup_Date") as fna,
+      percentile_cont(0.5) within group (order by extract(epoch from c."Issued" - c."FNA_Date") / 86400)
+        filter (where c."Issued" >= c."FNA_Date") as issued
+      from cohort c
+  ),
+  prospects as (
+    select count(*) as entered,
+           count(*) filter (where coalesce(trim(p.result), '') <> '') as contacted,
+           count(*) filter (where trim(p.result) in ('Business', 'Both', 'Client Solution', 'In-Progress')) as interested
+      from public.prospects p
+     where p.deleted_at is null
+       and p.created_at >= cohort_start and p.created_at < cohort_end
+       and (owner_ids is null or p.owner_id = any (owner_ids))
+  )
+  select s.stage, s.reached, round(s.median_days::numeric, 1)
+    from (
+      select 0 as position, 'prospect' as stage,
+             case when coalesce(referral, '') = '' then (select entered from prospects) end as reached,
+             null::double precision as median_days
+      union all
+      select 1, 'contacted', case when coalesce(referral, '') = '' then (select contacted from prospects) end, null
+      union all
+      select 2, 'interested', case when coalesce(referral, '') = '' then (select interested from prospects) end, null
+      union all
+      select 3, 'registered', (select count(*) from cohort), null
+      union all
+      select 4, 'called', (select count(*) from cohort where furthest >= 2), (select called from gaps)
+      union all
+      select 5, 'bop', (select count(*) from cohort where furthest >= 3), (select bop from gaps)
+      union all
+      select 6, 'followup', (select count(*) from cohort where furthest >= 4), (select followup from gaps)
+      union all
+      select 7, 'fna', (select count(*) from cohort where furthest >= 5), (select fna from gaps)
+      union all
+      select 8, 'issued', (select count(*) from cohort where furthest >= 6), (select issued from gaps)
+    ) s
+   order by s.position;
+$$;
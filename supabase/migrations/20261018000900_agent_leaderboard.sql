@@ -0,0 +1,52 @@
+-- Per-agent production for the dashboard leaderboard (lib/leaderboard.ts).
+-- Each activity counts in the period its own date falls in: calls by CalledOn,
+-- BOPs by BOP_Date, follow-ups by Followup_Date, completed FNAs by FNA_Date and
+-- policies by Issued. Runs as the caller, so RLS applies.
+
+create index if not exists client_registrations_fna_date_idx on public.client_registrations ("FNA_Date");
+create index if not exists client_registrations_issued_idx on public.client_registrations ("Issued");
+
+-- One row per agent in owner_ids (every agent when null), including agents with no activity
+create or replace function public.agent_leaderboard(
+  period_start timestamptz,
+  period_end timestamptz,
+  owner_ids uuid[] default null
+)
+returns table (agent_id uuid, calls bigint, bops bigint, followups bigint, fnas bigint, issued bigint)
+language sql
+stable
+as $$
+  with scoped as (
+    select c.*
+      from public.client_registrations c
+     where c.owner_id is not null
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+  ),
+  counts as (
+    select c.owner_id,
+           count(*) filter (where c."CalledOn" >= period_start and c."CalledOn" < period_end) as calls,
+           count(*) filter (where c."BOP_Date" >= period_start and c."BOP_Date" < period_end) as bops,
+           count(*) filter (where c."Followup_Date" >= period_start and c."Followup_Date" < period_end) as followups,
+           count(*) filter (
+             where c."FNA_Status" in ('Completed', 'Solution Provided')
+               and c."FNA_Date" >= period_start and c."FNA_Date" < period_end
+           ) as fnas,
+           count(*) filter (where c."Issued" >= period_start and c."Issued" < period_end) as issued
+      from scoped c
+     where (c."CalledOn" >= period_start and c."CalledOn" < period_end)
+        or (c."BOP_Date" >= period_start and c."BOP_Date" < period_end)
+        or (c."Followup_Date" >= period_start and c."Followup_Date" < period_end)
+        or (c."FNA_Date" >= period_start and c."FNA_Date" < period_end)
+        or (c."Issued" >= period_start and c."Issued" < period_end)
+     group by c.owner_id
+  )
+  select a.id,
+         coalesce(n.calls, 0),
+         coalesce(n.bops, 0),
+         coalesce(n.followups, 0),
+         coalesce(n.fnas, 0),
+         coalesce(n.issued, 0)
+    from public.agents a
+    left join counts n on n.owner_id = a.id
+   where owner_ids is null or a.id = any (owner_ids);
+$$;
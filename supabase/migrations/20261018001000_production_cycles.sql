@@ -0,0 +1,35 @@
+-- Promotion / production cycles. Admins define the periods and what each agent
+-- should reach in them; the dashboard header shows the current cycle and the
+-- signed-in agent's progress (lib/cycles.ts). Dates are agency-zone calendar days.
+
+create extension if not exists btree_gist;
+
+create table if not exists public.production_cycles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  starts_on date not null,
+  ends_on date not null,
+  target_calls integer check (target_calls >= 0),
+  target_bops integer check (target_bops >= 0),
+  target_followups integer check (target_followups >= 0),
+  target_fnas integer check (target_fnas >= 0),
+  target_issued integer check (target_issued >= 0),
+  created_at timestamptz not null default now(),
+  created_by uuid references public.agents (id) on delete set null default auth.uid(),
+  constraint production_cycles_dates check (ends_on >= starts_on),
+  -- At most one cycle is current on any day
+  constraint production_cycles_no_overlap exclude using gist (daterange(starts_on, ends_on, '[]') with &&)
+);
+
+alter table public.production_cycles enable row level security;
+
+drop policy if exists production_cycles_select on public.production_cycles;
+create policy production_cycles_select on public.production_cycles
+  for select to authenticated
+  using (true);
+
+drop policy if exists production_cycles_admin_write on public.production_cycles;
+create policy production_cycles_admin_write on public.production_cycles
+  for all to authenticated
+  using (public.current_agent_role() = 'admin')
+  with check (public.current_agent_role() = 'admin');
@@ -0,0 +1,31 @@
+-- Recurring goals such as "40 calls, 10 BOPs, 3 policies a month" for one agent
+-- or for an agent's whole team (the agent and everyone below them). Progress is
+-- counted per agency-zone week, month or quarter (lib/goals.ts).
+
+create table if not exists public.goals (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.agents (id) on delete cascade,
+  applies_to text not null default 'agent' check (applies_to in ('agent', 'team')),
+  metric text not null check (metric in ('calls', 'bops', 'followups', 'fnas', 'issued', 'new_clients')),
+  period text not null check (period in ('week', 'month', 'quarter')),
+  target integer not null check (target > 0),
+  created_at timestamptz not null default now(),
+  created_by uuid references public.agents (id) on delete set null default auth.uid(),
+  unique (agent_id, applies_to, metric, period)
+);
+
+create index if not exists goals_agent_id_idx on public.goals (agent_id);
+
+alter table public.goals enable row level security;
+
+drop policy if exists goals_select on public.goals;
+create policy goals_select on public.goals
+  for select to authenticated
+  using (true);
+
+-- Writes go through /api/goals, which checks the team; this is the backstop
+drop policy if exists goals_write on public.goals;
+create policy goals_write on public.goals
+  for all to authenticated
+  using (public.current_agent_role() in ('field_trainer', 'admin'))
+  with check (public.current_agent_role() in ('field_trainer', 'admin'));
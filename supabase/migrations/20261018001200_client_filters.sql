@@ -0,0 +1,75 @@
+-- Clients List filters evaluated over the whole table instead of the loaded page
+-- (lib/repo/clients.ts). A filter is the owner scope, the search box (first
+-- name, last name or phone) and the column filters, a jsonb object of
+-- column -> allowed values. Values are compared as PostgREST serialises them
+-- (to_jsonb(row) ->> column), so a value listed here can be sent back as an
+-- in() filter on the list query. Runs as the caller, so RLS applies.
+
+create or replace function public.client_filter_matches(
+  c public.client_registrations,
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  except_column text default null
+)
+returns boolean
+language sql
+stable
+as $$
+  select (owner_ids is null or c.owner_id = any (owner_ids))
+     and (
+       coalesce(search, '') = ''
+       or c.first_name ilike '%' || search || '%'
+       or c.last_name ilike '%' || search || '%'
+       or c.phone ilike '%' || search || '%'
+     )
+     and not exists (
+       select 1
+         from jsonb_each(coalesce(filters, '{}'::jsonb)) f
+        where f.key is distinct from except_column
+          and jsonb_typeof(f.value) = 'array'
+          and jsonb_array_length(f.value) > 0
+          and not coalesce((to_jsonb(c) ->> f.key) in (select jsonb_array_elements_text(f.value)), false)
+     );
+$$;
+
+-- Clients per status and per client_status value over every matching client
+create or replace function public.client_status_counts(
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null
+)
+returns table (field text, value text, clients bigint)
+language sql
+stable
+as $$
+  select case when grouping(c.status) = 0 then 'status' else 'client_status' end,
+         coalesce(c.status, c.client_status),
+         count(*)
+    from public.client_registrations c
+   where public.client_filter_matches(c, owner_ids, search, filters)
+   group by grouping sets ((c.status), (c.client_status))
+  having coalesce(c.status, c.client_status) is not null;
+$$;
+
+-- Distinct non-blank values of one column for its filter menu. The column's own
+-- filter is ignored so already-unchecked values can be checked again.
+create or replace function public.client_column_values(
+  column_name text,
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  max_values integer default 100
+)
+returns table (value text)
+language sql
+stable
+as $$
+  select distinct v.value
+    from public.client_registrations c
+   cross join lateral (select to_jsonb(c) ->> column_name as value) v
+   where public.client_filter_matches(c, owner_ids, search, filters, column_name)
+     and btrim(v.value) <> ''
+   order by v.value
+   limit max_values;
+$$;
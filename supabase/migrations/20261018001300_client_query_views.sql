@@ -0,0 +1,206 @@
+-- Advanced search for the Clients List and saved filter views.
+--
+-- A query is a tree of column tests joined with AND ("all") or OR ("any"),
+-- compiled by compileQuery() in lib/clientQuery.ts: day and period values
+-- already are instants (or plain days for date columns), text matches are
+-- case-insensitive and array columns pass a test when any element does.
+-- client_filter_matches() takes the query as well, and the Clients List pages
+-- through client_search() so the list, the status counts and the filter menus
+-- share one predicate. Runs as the caller, so RLS applies.
+
+-- One test on one cell (a jsonb scalar, array or null)
+create or replace function public.client_query_test(cell jsonb, test jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  with cell_values as (
+    select v
+      from jsonb_array_elements_text(case when jsonb_typeof(cell) = 'array' then cell else '[]'::jsonb end) v
+    union all
+    select cell #>> '{}'
+     where jsonb_typeof(cell) in ('string', 'number', 'boolean')
+  )
+  select case test ->> 'test'
+    when 'empty' then not exists (select 1 from cell_values where btrim(v) <> '')
+    when 'not_empty' then exists (select 1 from cell_values where btrim(v) <> '')
+    when 'eq' then exists (select 1 from cell_values where lower(v) = lower(test ->> 'value'))
+    when 'neq' then not exists (select 1 from cell_values where lower(v) = lower(test ->> 'value'))
+    when 'ilike' then exists (select 1 from cell_values where v ilike test ->> 'value')
+    when 'not_ilike' then not exists (select 1 from cell_values where v ilike test ->> 'value')
+    when 'in' then exists (
+      select 1
+        from cell_values
+       where lower(v) in (select lower(x) from jsonb_array_elements_text(test -> 'values') x)
+    )
+    when 'lt' then exists (
+      select 1
+        from cell_values
+       where case when test ->> 'type' = 'date' then v::date < (test ->> 'value')::date
+                  else v::timestamptz < (test ->> 'value')::timestamptz end
+    )
+    when 'gte' then exists (
+      select 1
+        from cell_values
+       where case when test ->> 'type' = 'date' then v::date >= (test ->> 'value')::date
+                  else v::timestamptz >= (test ->> 'value')::timestamptz end
+    )
+  end;
+$$;
+
+create or replace function public.client_query_matches(c public.client_registrations, query jsonb)
+returns boolean
+language plpgsql
+stable
+as $$
+declare
+  any_of boolean := query ->> 'match' = 'any';
+  node jsonb;
+  matched boolean;
+  tested integer := 0;
+begin
+  if query is null then
+    return true;
+  end if;
+  for node in select jsonb_array_elements(coalesce(query -> 'conditions', '[]'::jsonb)) loop
+    tested := tested + 1;
+    if node ? 'conditions' then
+      matched := public.client_query_matches(c, node);
+    elsif node ->> 'test' in ('empty', 'not_empty', 'eq', 'neq', 'ilike', 'not_ilike', 'in', 'lt', 'gte') then
+      matched := coalesce(public.client_query_test(to_jsonb(c) -> (node ->> 'column'), node), false);
+    else
+      raise exception 'Unknown query test "%"', node ->> 'test' using errcode = '22023';
+    end if;
+    if any_of and matched then
+      return true;
+    elsif not any_of and not matched then
+      return false;
+    end if;
+  end loop;
+  -- An empty group matches everything
+  return tested = 0 or not any_of;
+end;
+$$;
+
+-- Replaced with versions that take the query
+drop function if exists public.client_column_values(text, uuid[], text, jsonb, integer);
+drop function if exists public.client_status_counts(uuid[], text, jsonb);
+drop function if exists public.client_filter_matches(public.client_registrations, uuid[], text, jsonb, text);
+
+-- The search text as an ilike pattern that matches it literally: "50%" or "a_b"
+-- must not act as wildcards (same escaping as likeLiteral in lib/clientQuery.ts)
+create or replace function public.like_literal(term text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(term, '([\\%_])', '\\\1', 'g');
+$$;
+
+create or replace function public.client_filter_matches(
+  c public.client_registrations,
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  query jsonb default null,
+  except_column text default null
+)
+returns boolean
+language sql
+stable
+as $$
+  select (owner_ids is null or c.owner_id = any (owner_ids))
+     and (
+       coalesce(search, '') = ''
+       or c.first_name ilike '%' || public.like_literal(search) || '%'
+       or c.last_name ilike '%' || public.like_literal(search) || '%'
+       or c.phone ilike '%' || public.like_literal(search) || '%'
+     )
+     and not exists (
+       select 1
+         from jsonb_each(coalesce(filters, '{}'::jsonb)) f
+        where f.key is distinct from except_column
+          and jsonb_typeof(f.value) = 'array'
+          and jsonb_array_length(f.value) > 0
+          and not coalesce((to_jsonb(c) ->> f.key) in (select jsonb_array_elements_text(f.value)), false)
+     )
+     and public.client_query_matches(c, query);
+$$;
+
+-- Every matching client; PostgREST applies order, range and the exact count on top
+create or replace function public.client_search(
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  query jsonb default null
+)
+returns setof public.client_registrations
+language sql
+stable
+as $$
+  select c.*
+    from public.client_registrations c
+   where public.client_filter_matches(c, owner_ids, search, filters, query);
+$$;
+
+create or replace function public.client_status_counts(
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  query jsonb default null
+)
+returns table (field text, value text, clients bigint)
+language sql
+stable
+as $$
+  select case when grouping(c.status) = 0 then 'status' else 'client_status' end,
+         coalesce(c.status, c.client_status),
+         count(*)
+    from public.client_registrations c
+   where public.client_filter_matches(c, owner_ids, search, filters, query)
+   group by grouping sets ((c.status), (c.client_status))
+  having coalesce(c.status, c.client_status) is not null;
+$$;
+
+create or replace function public.client_column_values(
+  column_name text,
+  owner_ids uuid[] default null,
+  search text default null,
+  filters jsonb default null,
+  query jsonb default null,
+  max_values integer default 100
+)
+returns table (value text)
+language sql
+stable
+as $$
+  select distinct v.value
+    from public.client_registrations c
+   cross join lateral (select to_jsonb(c) ->> column_name as value) v
+   where public.client_filter_matches(c, owner_ids, search, filters, query, column_name)
+     and btrim(v.value) <> ''
+   order by v.value
+   limit max_values;
+$$;
+
+-- Named filter views, private to the agent who saved them. `filters` holds the
+-- search box, column filters and query (ClientViewFilters in lib/clientQuery.ts);
+-- pinned views show as buttons above the Clients List.
+create table if not exists public.client_views (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null default auth.uid() references public.agents (id) on delete cascade,
+  name text not null check (btrim(name) <> ''),
+  filters jsonb not null default '{}'::jsonb,
+  pinned boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (agent_id, name)
+);
+
+alter table public.client_views enable row level security;
+
+drop policy if exists client_views_own on public.client_views;
+create policy client_views_own on public.client_views
+  for all to authenticated
+  using (agent_id = auth.uid())
+  with check (agent_id = auth.uid());
@@ -0,0 +1,148 @@
+-- Global search (Ctrl+K, lib/search.ts): clients, prospects and FNA notes in one
+-- typo-tolerant query. Matching uses pg_trgm word similarity, so "jonh smtih"
+-- still finds John Smith; phone numbers also match on their digits alone.
+-- Runs as the caller: row-level security (20261018000100, 20261018000200) decides
+-- what each agent can find, and owner_ids (lib/team.ts) narrows it to a scope.
+
+create extension if not exists pg_trgm;
+
+-- The text a record is searched by, lower-cased. Immutable so it can be indexed.
+create or replace function public.search_document(variadic parts text[])
+returns text
+language sql
+immutable
+as $$
+  select lower(array_to_string(parts, ' '));
+$$;
+
+create index if not exists client_registrations_search_idx on public.client_registrations
+  using gin (public.search_document(first_name, last_name, phone, email, "Comment", "Remark") gin_trgm_ops);
+create index if not exists prospects_search_idx on public.prospects
+  using gin (public.search_document(first_name, last_name, spouse_name, phone, comments, next_steps) gin_trgm_ops);
+create index if not exists fna_header_search_idx on public.fna_header
+  using gin (public.search_document(properties_notes) gin_trgm_ops);
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['fna_children', 'fna_properties', 'fna_assets', 'fna_liabilities', 'fna_insurance', 'fna_income']
+  loop
+    execute format(
+      'create index if not exists %I on public.%I using gin (public.search_document(notes) gin_trgm_ops)',
+      t || '_search_idx', t);
+  end loop;
+end $$;
+
+-- Best hits per entity. `source` is the matched column (table.column for FNA
+-- notes) and `snippet` its text; FNA hits carry the client to open.
+create or replace function public.global_search(term text, max_per_entity integer default 8, owner_ids uuid[] default null)
+returns table (
+  entity text,
+  record_id text,
+  client_id text,
+  title text,
+  source text,
+  snippet text,
+  score real
+)
+language sql
+stable
+set pg_trgm.word_similarity_threshold = 0.3
+as $$
+  with input as (
+    select lower(btrim(term)) as q, regexp_replace(term, '\D', '', 'g') as digits
+  ),
+  client_hits as (
+    select 'client'::text as entity, c.id::text as record_id, c.id::text as client_id,
+           concat_ws(' ', c.first_name, c.last_name) as title, best.source, best.snippet, best.score
+      from public.client_registrations c
+     cross join input i
+     cross join lateral (
+       select f.source, f.snippet,
+              case when f.source = 'phone' and length(i.digits) >= 3
+                         and regexp_replace(f.snippet, '\D', '', 'g') like '%' || i.digits || '%' then 1
+                   else word_similarity(i.q, lower(f.snippet)) end as score
+         from (values
+                ('name', concat_ws(' ', c.first_name, c.last_name)),
+                ('phone', c.phone),
+                ('email', c.email),
+                ('Comment', c."Comment"),
+                ('Remark', c."Remark")
+              ) f(source, snippet)
+        where f.snippet is not null
+        order by 3 desc
+        limit 1
+     ) best
+     where (owner_ids is null or c.owner_id = any (owner_ids))
+       and (
+         i.q <% public.search_document(c.first_name, c.last_name, c.phone, c.email, c."Comment", c."Remark")
+         or (length(i.digits) >= 3 and regexp_replace(coalesce(c.phone, ''), '\D', '', 'g') like '%' || i.digits || '%')
+       )
+  ),
+  prospect_hits as (
+    select 'prospect'::text, p.id::text, null::text,
+           concat_ws(' ', p.first_name, p.last_name), best.source, best.snippet, best.score
+      from public.prospects p
+     cross join input i
+     cross join lateral (
+       select f.source, f.snippet,
+              case when f.source = 'phone' and length(i.digits) >= 3
+                         and regexp_replace(f.snippet, '\D', '', 'g') like '%' || i.digits || '%' then 1
+                   else word_similarity(i.q, lower(f.snippet)) end as score
+         from (values
+                ('name', concat_ws(' ', p.first_name, p.last_name)),
+                ('spouse_name', p.spouse_name),
+                ('phone', p.phone),
+                ('comments', p.comments),
+                ('next_steps', p.next_steps)
+              ) f(source, snippet)
+        where f.snippet is not null
+        order by 3 desc
+        limit 1
+     ) best
+     where p.deleted_at is null
+       and (owner_ids is null or p.owner_id = any (owner_ids))
+       and (
+         i.q <% public.search_document(p.first_name, p.last_name, p.spouse_name, p.phone, p.comments, p.next_steps)
+         or (length(i.digits) >= 3 and regexp_replace(coalesce(p.phone, ''), '\D', '', 'g') like '%' || i.digits || '%')
+       )
+  ),
+  fna_notes as (
+    select h.id as fna_id, 'fna_header.properties_notes' as source, h.properties_notes as notes
+      from public.fna_header h
+     where h.properties_notes is not null
+    union all select r.fna_id, 'fna_children.notes', r.notes from public.fna_children r where r.deleted_at is null and r.notes is not null
+    union all select r.fna_id, 'fna_properties.notes', r.notes from public.fna_properties r where r.deleted_at is null and r.notes is not null
+    union all select r.fna_id, 'fna_assets.notes', r.notes from public.fna_assets r where r.deleted_at is null and r.notes is not null
+    union all select r.fna_id, 'fna_liabilities.notes', r.notes from public.fna_liabilities r where r.deleted_at is null and r.notes is not null
+    union all select r.fna_id, 'fna_insurance.notes', r.notes from public.fna_insurance r where r.deleted_at is null and r.notes is not null
+    union all select r.fna_id, 'fna_income.notes', r.notes from public.fna_income r where r.deleted_at is null and r.notes is not null
+  ),
+  fna_hits as (
+    -- The best note per FNA
+    select distinct on (n.fna_id)
+           'fna'::text, n.fna_id::text, h.client_id::text,
+           concat_ws(' ', c.first_name, c.last_name), n.source, n.notes,
+           word_similarity(i.q, lower(n.notes))
+      from fna_notes n
+     cross join input i
+      join public.fna_header h on h.id = n.fna_id
+      join public.client_registrations c on c.id = h.client_id
+     where i.q <% public.search_document(n.notes)
+       and (owner_ids is null or c.owner_id = any (owner_ids))
+     order by n.fna_id, word_similarity(i.q, lower(n.notes)) desc
+  ),
+  hits as (
+    select * from client_hits
+    union all select * from prospect_hits
+    union all select * from fna_hits
+  )
+  select h.entity, h.record_id, h.client_id, h.title, h.source, left(h.snippet, 200), h.score
+    from (
+      select hits.*, row_number() over (partition by hits.entity order by hits.score desc, hits.title) as rank
+        from hits
+    ) h
+   where h.rank <= max_per_entity
+   order by h.entity, h.score desc, h.title;
+$$;
@@ -0,0 +1,44 @@
+-- Everything on one agent's calendar, for double-booking checks (lib/scheduling.ts):
+-- BOPs and follow-ups of the agent's clients, and FNA next appointments. FNA
+-- appointments are a date and a time typed in the agent's zone; ones without a
+-- time have no slot to clash with and are left out.
+
+create index if not exists fna_header_next_appointment_idx on public.fna_header (next_appointment_date)
+  where next_appointment_date is not null;
+
+create or replace function public.agent_appointments(
+  agent uuid,
+  range_start timestamptz,
+  range_end timestamptz
+)
+returns table (client_id uuid, client_name text, kind text, starts_at timestamptz)
+language sql
+stable
+as $$
+  with zone as (
+    select coalesce((select a.time_zone from public.agents a where a.id = agent), public.agency_time_zone()) as tz
+  ),
+  meetings as (
+    select c.id, concat_ws(' ', c.first_name, c.last_name) as name, 'bop'::text as kind, c."BOP_Date" as starts_at
+      from public.client_registrations c
+     where c.owner_id = agent and c."BOP_Date" >= range_start and c."BOP_Date" < range_end
+    union
+    select c.id, concat_ws(' ', c.first_name, c.last_name), 'followup', c."Followup_Date"
+      from public.client_registrations c
+     where c.owner_id = agent and c."Followup_Date" >= range_start and c."Followup_Date" < range_end
+    union
+    select c.id, concat_ws(' ', c.first_name, c.last_name), 'fna',
+           (h.next_appointment_date + h.next_appointment_time) at time zone z.tz
+      from public.fna_header h
+      join public.client_registrations c on c.id = h.client_id
+     cross join zone z
+     where c.owner_id = agent
+       and h.next_appointment_time is not null
+       -- A day either side covers any zone offset; the exact bounds are checked below
+       and h.next_appointment_date between (range_start - interval '1 day')::date and (range_end + interval '1 day')::date
+  )
+  select m.id, m.name, m.kind, m.starts_at
+    from meetings m
+   where m.starts_at >= range_start and m.starts_at < range_end
+   order by m.starts_at;
+$$;
@@ -0,0 +1,85 @@
+-- Meeting reminders (lib/reminders.ts). /api/reminders/run, called on a schedule,
+-- finds BOPs, follow-ups and FNA appointments (public.agent_appointments) coming
+-- up within each agent's lead times and sends a reminder on each of the agent's
+-- channels: the in-app inbox, email and/or a webhook.
+
+-- Per-agent settings; agents without a row get the defaults in lib/reminders.ts
+create table if not exists public.reminder_settings (
+  agent_id uuid primary key default auth.uid() references public.agents (id) on delete cascade,
+  lead_minutes integer[] not null default '{1440,60}' check (0 < all (lead_minutes)),
+  channels text[] not null default '{inbox}' check (channels <@ array['inbox', 'email', 'webhook']),
+  webhook_url text check (webhook_url is null or webhook_url ~ '^https://'),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.reminder_settings enable row level security;
+
+drop policy if exists reminder_settings_own on public.reminder_settings;
+create policy reminder_settings_own on public.reminder_settings
+  for all to authenticated
+  using (agent_id = auth.uid())
+  with check (agent_id = auth.uid());
+
+-- The in-app inbox. Written by the reminder run (service role); agents read
+-- their own and mark them read through /api/notifications.
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.agents (id) on delete cascade,
+  title text not null,
+  body text,
+  link text,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists notifications_agent_idx on public.notifications (agent_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+drop policy if exists notifications_select_own on public.notifications;
+create policy notifications_select_own on public.notifications
+  for select to authenticated
+  using (agent_id = auth.uid());
+
+-- One row per reminder and channel, so a reminder is never sent twice on a
+-- channel; failed sends keep their error and are retried on the next run.
+-- Service role only (no policies).
+create table if not exists public.reminder_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  agent_id uuid not null references public.agents (id) on delete cascade,
+  client_id uuid not null references public.client_registrations (id) on delete cascade,
+  kind text not null check (kind in ('bop', 'followup', 'fna')),
+  starts_at timestamptz not null,
+  lead_minutes integer not null,
+  channel text not null check (channel in ('inbox', 'email', 'webhook')),
+  sent_at timestamptz,
+  error text,
+  attempted_at timestamptz not null default now(),
+  unique (agent_id, client_id, kind, starts_at, lead_minutes, channel)
+);
+
+alter table public.reminder_deliveries enable row level security;
+
+-- Claims a reminder for sending: records it as sent and returns the row, or
+-- returns nothing when it was already sent. Overlapping runs race on the
+-- unique key, so only one of them gets the row back and sends; a failed
+-- delivery (sent_at null) can be claimed again by the next run.
+create or replace function public.claim_reminder_delivery(
+  agent uuid,
+  client uuid,
+  kind text,
+  starts_at timestamptz,
+  lead_minutes integer,
+  channel text
+)
+returns setof public.reminder_deliveries
+language sql
+as $$
+  insert into public.reminder_deliveries as d
+         (agent_id, client_id, kind, starts_at, lead_minutes, channel, sent_at, error, attempted_at)
+  values (agent, client, kind, starts_at, lead_minutes, channel, now(), null, now())
+  on conflict (agent_id, client_id, kind, starts_at, lead_minutes, channel)
+  do update set sent_at = excluded.sent_at, error = null, attempted_at = excluded.attempted_at
+   where d.sent_at is null
+  returning d.*;
+$$;
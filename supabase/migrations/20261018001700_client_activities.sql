@@ -0,0 +1,42 @@
+-- Per-client activity history (lib/activities.ts). CalledOn, BOP_Date,
+-- Followup_Date, FNA_Date and Issued on client_registrations only hold the
+-- latest value; each change made through /api/clients is also logged here as
+-- a typed event with an outcome, and agents can add or correct events by hand.
+
+create table if not exists public.client_activities (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.client_registrations (id) on delete cascade,
+  kind text not null check (kind in ('call', 'bop', 'followup', 'fna', 'policy_issued')),
+  occurred_at timestamptz not null,
+  outcome text,
+  notes text,
+  created_at timestamptz not null default now(),
+  created_by uuid references public.agents (id) on delete set null default auth.uid(),
+  -- one event per kind and time, so re-saving a client updates rather than repeats it
+  unique (client_id, kind, occurred_at)
+);
+
+create index if not exists client_activities_client_idx on public.client_activities (client_id, occurred_at desc);
+
+alter table public.client_activities enable row level security;
+
+-- Visible with the client; writes go through /api/clients/[id]/activities and /api/activities
+drop policy if exists client_activities_select on public.client_activities;
+create policy client_activities_select on public.client_activities
+  for select to authenticated
+  using (exists (select 1 from public.client_registrations c where c.id = client_id));
+
+-- Start every timeline with the dates already on the client
+insert into public.client_activities (client_id, kind, occurred_at, outcome, created_by)
+select c.id, a.kind, a.occurred_at, nullif(trim(a.outcome), ''), null
+  from public.client_registrations c
+  cross join lateral (
+    values
+      ('call', c."CalledOn", null::text),
+      ('bop', c."BOP_Date", c."BOP_Status"),
+      ('followup', c."Followup_Date", c."FollowUp_Status"),
+      ('fna', c."FNA_Date", c."FNA_Status"),
+      ('policy_issued', c."Issued", c."Product")
+  ) as a (kind, occurred_at, outcome)
+ where a.occurred_at is not null
+on conflict (client_id, kind, occurred_at) do nothing;